@@ -0,0 +1,354 @@
+/**
+ * API Keys and Rate Limits
+ *
+ * Optional authentication for /mcp and the REST API. Keys are configured as
+ * SHA-256 hashes only (the plain key never has to be stored on the server) and
+ * sent by clients as `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ *
+ * Every key has a per-minute rate limit (token bucket, so short bursts up to the
+ * limit are fine) and a daily quota that resets at midnight UTC, plus usage
+ * counters. Both are counted in units: each route decides what a request costs
+ * (one per recommendation, one per farm of a batch, nothing for the MCP
+ * handshake). REST routes charge in their handlers, once the request is valid.
+ * Counters are kept in memory and reset on restart.
+ *
+ * @module api-keys
+ */
+
+import { createHash } from 'node:crypto';
+import type { IncomingHttpHeaders } from 'node:http';
+import type { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { loadConfigFile } from './config-file.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Auth');
+
+/**
+ * One configured key
+ */
+export interface ApiKeyConfig {
+  /** Name used in logs and usage reports (not secret) */
+  name: string;
+  /** SHA-256 of the key, hex encoded */
+  sha256: string;
+  /** Units per minute (default: the store's default) */
+  rateLimitPerMinute?: number;
+  /** Units per UTC day (default: the store's default) */
+  dailyQuota?: number;
+}
+
+/**
+ * API key store configuration
+ */
+export interface ApiKeyStoreOptions {
+  keys: ApiKeyConfig[];
+  /** Default units per minute (default: 60) */
+  rateLimitPerMinute?: number;
+  /** Default units per UTC day (default: 5000) */
+  dailyQuota?: number;
+}
+
+/**
+ * Usage counters of one key
+ */
+export interface ApiKeyUsage {
+  name: string;
+  rateLimitPerMinute: number;
+  dailyQuota: number;
+  /** Units counted against today's quota */
+  usedToday: number;
+  /** Accepted charged requests since start */
+  requests: number;
+  /** Requests refused by the rate limit since start */
+  rateLimited: number;
+  /** Requests refused by the daily quota since start */
+  quotaExceeded: number;
+  /** Last accepted request (ISO timestamp) */
+  lastUsedAt?: string;
+}
+
+/**
+ * Outcome of checking a request against its key's limits
+ */
+export type ApiKeyDecision =
+  | { allowed: true; usage: ApiKeyUsage }
+  | { allowed: false; reason: 'rate_limited' | 'quota_exceeded'; retryAfterSeconds: number; usage: ApiKeyUsage };
+
+/**
+ * Statistics, as reported on /health (totals only, no key names)
+ */
+export interface ApiKeyStats {
+  enabled: true;
+  keys: number;
+  requests: number;
+  unauthorized: number;
+  rateLimited: number;
+  quotaExceeded: number;
+}
+
+interface KeyState {
+  usage: ApiKeyUsage;
+  /** Tokens left in the per-minute bucket (negative after a request larger than the bucket) */
+  tokens: number;
+  refilledAt: number;
+  /** UTC day (YYYY-MM-DD) that usedToday counts */
+  day: string;
+}
+
+const apiKeysFileSchema = z.object({
+  keys: z.array(z.object({
+    name: z.string().min(1),
+    sha256: z.string().regex(/^[0-9a-fA-F]{64}$/, 'Expected a hex-encoded SHA-256 hash'),
+    rateLimitPerMinute: z.number().positive().optional(),
+    dailyQuota: z.number().int().positive().optional()
+  }))
+});
+
+/**
+ * SHA-256 of a key, hex encoded (the form keys are configured in)
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key, 'utf8').digest('hex');
+}
+
+/**
+ * Read the configured keys from a comma-separated `name:sha256` list and/or a JSON or YAML file
+ *
+ * @param list - e.g. "ussd-gateway:9f86d08...,mobile-app:2c26b46..."
+ * @param filePath - File with `keys: [{ name, sha256, rateLimitPerMinute?, dailyQuota? }]`
+ * @throws Error on a malformed entry or invalid file
+ */
+export function loadApiKeys(list?: string, filePath?: string): ApiKeyConfig[] {
+  const keys: ApiKeyConfig[] = [];
+  for (const entry of (list ?? '').split(',').map(item => item.trim()).filter(Boolean)) {
+    const separator = entry.lastIndexOf(':');
+    const name = entry.slice(0, separator).trim();
+    const sha256 = entry.slice(separator + 1).trim();
+    if (separator <= 0 || !/^[0-9a-fA-F]{64}$/.test(sha256)) {
+      throw new Error(`Invalid API key entry "${entry.slice(0, 20)}...": expected name:sha256 (hex-encoded SHA-256 of the key)`);
+    }
+    keys.push({ name, sha256 });
+  }
+  if (filePath) {
+    keys.push(...loadConfigFile(filePath, apiKeysFileSchema, 'API keys').keys);
+  }
+  return keys;
+}
+
+/**
+ * Configured keys with their limits and usage counters
+ */
+export class ApiKeyStore {
+  /** Keyed by the key's hash */
+  private keys = new Map<string, KeyState>();
+  private byName = new Map<string, KeyState>();
+  private unauthorized = 0;
+
+  constructor(options: ApiKeyStoreOptions) {
+    const defaultRate = options.rateLimitPerMinute ?? 60;
+    const defaultQuota = options.dailyQuota ?? 5000;
+    if (!(defaultRate > 0)) {
+      throw new Error('API key rate limit must be greater than zero');
+    }
+    if (!(defaultQuota >= 1)) {
+      throw new Error('API key daily quota must be at least 1');
+    }
+
+    const now = Date.now();
+    for (const key of options.keys) {
+      const hash = key.sha256.toLowerCase();
+      if (this.keys.has(hash) || this.byName.has(key.name)) {
+        throw new Error(`API key "${key.name}" is configured twice`);
+      }
+      const rateLimitPerMinute = key.rateLimitPerMinute ?? defaultRate;
+      const state: KeyState = {
+        usage: {
+          name: key.name,
+          rateLimitPerMinute,
+          dailyQuota: Math.floor(key.dailyQuota ?? defaultQuota),
+          usedToday: 0,
+          requests: 0,
+          rateLimited: 0,
+          quotaExceeded: 0
+        },
+        tokens: rateLimitPerMinute,
+        refilledAt: now,
+        day: utcDay(now)
+      };
+      this.keys.set(hash, state);
+      this.byName.set(key.name, state);
+    }
+  }
+
+  get size(): number {
+    return this.keys.size;
+  }
+
+  /**
+   * Find the key sent with a request (Authorization: Bearer or X-API-Key)
+   *
+   * @returns The key's usage record, or undefined when missing or unknown
+   */
+  authenticate(headers: IncomingHttpHeaders): ApiKeyUsage | undefined {
+    const key = presentedKey(headers);
+    const state = key ? this.keys.get(hashApiKey(key)) : undefined;
+    if (!state) {
+      this.unauthorized++;
+    }
+    return state?.usage;
+  }
+
+  /**
+   * Charge a request against a key's rate limit and daily quota
+   *
+   * A request costing more than the whole bucket (a large batch) is accepted
+   * once the bucket is full; the tokens then go negative and later requests wait
+   * until they have refilled.
+   *
+   * @param units - Cost of the request (default: 1)
+   */
+  consume(name: string, units: number = 1, now: number = Date.now()): ApiKeyDecision {
+    const state = this.byName.get(name);
+    if (!state) {
+      throw new Error(`Unknown API key "${name}"`);
+    }
+    const { usage } = state;
+
+    const day = utcDay(now);
+    if (day !== state.day) {
+      state.day = day;
+      usage.usedToday = 0;
+    }
+    const perMs = usage.rateLimitPerMinute / 60_000;
+    state.tokens = Math.min(usage.rateLimitPerMinute, state.tokens + (now - state.refilledAt) * perMs);
+    state.refilledAt = now;
+
+    if (usage.usedToday + units > usage.dailyQuota) {
+      usage.quotaExceeded++;
+      const midnight = Date.parse(`${day}T00:00:00Z`) + 24 * 3600 * 1000;
+      return { allowed: false, reason: 'quota_exceeded', retryAfterSeconds: Math.ceil((midnight - now) / 1000), usage };
+    }
+    const needed = Math.min(units, usage.rateLimitPerMinute);
+    if (state.tokens < needed) {
+      usage.rateLimited++;
+      return { allowed: false, reason: 'rate_limited', retryAfterSeconds: Math.ceil((needed - state.tokens) / perMs / 1000), usage };
+    }
+
+    state.tokens -= units;
+    usage.usedToday += units;
+    usage.requests++;
+    usage.lastUsedAt = new Date(now).toISOString();
+    return { allowed: true, usage };
+  }
+
+  getStats(): ApiKeyStats {
+    const usages = [...this.keys.values()].map(state => state.usage);
+    const total = (field: 'requests' | 'rateLimited' | 'quotaExceeded') =>
+      usages.reduce((sum, usage) => sum + usage[field], 0);
+    return {
+      enabled: true,
+      keys: usages.length,
+      requests: total('requests'),
+      unauthorized: this.unauthorized,
+      rateLimited: total('rateLimited'),
+      quotaExceeded: total('quotaExceeded')
+    };
+  }
+}
+
+/**
+ * Reasons a request is refused, with the HTTP status to send
+ */
+export type ApiKeyRejection =
+  | { status: 401; message: string }
+  | { status: 429; message: string; retryAfterSeconds: number };
+
+/**
+ * Units a request costs; 0 only authenticates it
+ */
+export type RequestCost = (req: Request) => number;
+
+/**
+ * Express middleware that authenticates the request and applies the key's limits
+ *
+ * The key's usage record is left in `res.locals.apiKey` for later handlers.
+ *
+ * @param reject - Sends the refusal in the protocol of the route (JSON-RPC or REST)
+ * @param cost - Units the request is charged (default: 1 per request)
+ */
+export function requireApiKey(
+  store: ApiKeyStore,
+  reject: (res: Response, rejection: ApiKeyRejection) => void,
+  cost: RequestCost = () => 1
+) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    // CORS preflight requests carry no credentials
+    if (req.method === 'OPTIONS') {
+      next();
+      return;
+    }
+
+    const key = store.authenticate(req.headers);
+    if (!key) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      reject(res, { status: 401, message: 'Unauthorized: a valid API key is required (Authorization: Bearer <key> or X-API-Key header)' });
+      return;
+    }
+
+    res.locals.apiKey = key;
+    if (chargeApiKey(store, res, cost(req), reject)) {
+      next();
+    }
+  };
+}
+
+/**
+ * Charge units to the key of a request authenticated by requireApiKey, for
+ * handlers that only know the cost once the request is validated
+ *
+ * @returns True if the request may go on; otherwise the refusal has been sent
+ */
+export function chargeApiKey(
+  store: ApiKeyStore,
+  res: Response,
+  units: number,
+  reject: (res: Response, rejection: ApiKeyRejection) => void
+): boolean {
+  const key: ApiKeyUsage = res.locals.apiKey;
+  const decision = units > 0 ? store.consume(key.name, units) : undefined;
+  res.setHeader('X-RateLimit-Limit', String(key.rateLimitPerMinute));
+  res.setHeader('X-Quota-Remaining', String(Math.max(0, key.dailyQuota - key.usedToday)));
+  if (decision && !decision.allowed) {
+    log.warn(`${decision.reason === 'rate_limited' ? 'Rate limit' : 'Daily quota'} reached for key ${key.name}`, {
+      api_key: key.name,
+      reason: decision.reason
+    });
+    res.setHeader('Retry-After', String(decision.retryAfterSeconds));
+    reject(res, {
+      status: 429,
+      message: decision.reason === 'rate_limited'
+        ? `Too many requests: the limit is ${key.rateLimitPerMinute} per minute. Retry after ${decision.retryAfterSeconds}s.`
+        : `Daily quota of ${key.dailyQuota} units used up (${key.usedToday} used, this request needs ${units}). It resets at midnight UTC.`,
+      retryAfterSeconds: decision.retryAfterSeconds
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Key sent with a request, if any
+ */
+function presentedKey(headers: IncomingHttpHeaders): string | undefined {
+  const authorization = headers.authorization;
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice(7).trim() || undefined;
+  }
+  const header = headers['x-api-key'];
+  return typeof header === 'string' && header ? header.trim() : undefined;
+}
+
+function utcDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
@@ -0,0 +1,144 @@
+/**
+ * Fertilizer Application Plan
+ *
+ * Turns a recommendation's product totals into a dated, stage-by-stage schedule
+ * using the crop's split table from the layer registry. Compost and vermicompost
+ * are alternatives (a farm applies one), so they are planned apart from the
+ * products applied together.
+ *
+ * @module application-plan
+ */
+
+import type { FertilizerRecommendation } from './ssfr-client.js';
+import type { ApplicationStage, ScheduledProduct } from './layer-registry.js';
+
+/**
+ * Product amount applied at one stage
+ */
+export interface PlannedProduct {
+  product: ScheduledProduct;
+  /** Amount per hectare at this stage */
+  amount: number;
+  /** Unit of amount */
+  unit: 'kg/ha' | 'tons/ha';
+  /** Share of the product's total applied at this stage, in percent */
+  sharePercent: number;
+}
+
+/**
+ * One dated application
+ */
+export interface PlannedApplication {
+  stage: string;
+  label: string;
+  /** Application date (YYYY-MM-DD) */
+  date: string;
+  daysAfterPlanting: number;
+  /** Products applied together (urea, NPS) */
+  products: PlannedProduct[];
+  /** Compost and vermicompost: apply one of them */
+  organicAlternatives: PlannedProduct[];
+  guidance: string;
+}
+
+/**
+ * Dated application schedule for a recommendation
+ */
+export interface ApplicationPlan {
+  crop: FertilizerRecommendation['crop'];
+  plantingDate: string;
+  applications: PlannedApplication[];
+}
+
+/**
+ * Check that every product's shares across a schedule add up to 1
+ *
+ * @throws Error naming the first product whose shares do not add up
+ */
+export function validateSchedule(crop: string, stages: ApplicationStage[]): void {
+  const totals = new Map<string, number>();
+  for (const stage of stages) {
+    for (const [product, share] of Object.entries(stage.shares)) {
+      totals.set(product, (totals.get(product) ?? 0) + (share ?? 0));
+    }
+  }
+  for (const [product, total] of totals) {
+    if (Math.abs(total - 1) > 0.001) {
+      throw new Error(`Application schedule for ${crop}: ${product} shares add up to ${total}, expected 1`);
+    }
+  }
+}
+
+/**
+ * Parse a YYYY-MM-DD date as UTC midnight
+ *
+ * @throws Error for malformed or impossible dates
+ */
+export function parsePlantingDate(plantingDate: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(plantingDate);
+  const date = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : undefined;
+  if (!date || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== plantingDate) {
+    throw new Error(`Invalid planting date "${plantingDate}". Use the format YYYY-MM-DD.`);
+  }
+  return date;
+}
+
+/**
+ * Build a dated application plan from a recommendation
+ *
+ * Stages whose products are all missing from the recommendation are left out.
+ *
+ * @param recommendation - Recommendation with per-hectare product totals
+ * @param plantingDate - Planting date (YYYY-MM-DD)
+ * @param stages - Schedule to apply (the crop's schedule from the layer registry)
+ */
+export function buildApplicationPlan(
+  recommendation: FertilizerRecommendation,
+  plantingDate: string,
+  stages: ApplicationStage[]
+): ApplicationPlan {
+  validateSchedule(recommendation.crop, stages);
+  const planting = parsePlantingDate(plantingDate);
+
+  const totals: Record<ScheduledProduct, number | undefined> = {
+    urea: recommendation.inorganic.urea,
+    nps: recommendation.inorganic.nps,
+    compost: recommendation.organic.compost,
+    vermicompost: recommendation.organic.vermicompost
+  };
+
+  const applications: PlannedApplication[] = [];
+  for (const stage of [...stages].sort((a, b) => a.daysAfterPlanting - b.daysAfterPlanting)) {
+    const products: PlannedProduct[] = [];
+    const organicAlternatives: PlannedProduct[] = [];
+    for (const [product, share] of Object.entries(stage.shares) as Array<[ScheduledProduct, number]>) {
+      const total = totals[product];
+      if (total === undefined || !share) continue;
+      const organic = product === 'compost' || product === 'vermicompost';
+      (organic ? organicAlternatives : products).push({
+        product,
+        amount: Math.round(total * share * 100) / 100,
+        unit: organic ? 'tons/ha' : 'kg/ha',
+        sharePercent: Math.round(share * 1000) / 10
+      });
+    }
+    if (products.length === 0 && organicAlternatives.length === 0) continue;
+
+    const date = new Date(planting.getTime() + stage.daysAfterPlanting * 24 * 60 * 60 * 1000);
+    applications.push({
+      stage: stage.stage,
+      label: stage.label,
+      date: date.toISOString().slice(0, 10),
+      daysAfterPlanting: stage.daysAfterPlanting,
+      products,
+      organicAlternatives,
+      guidance: stage.guidance
+    });
+  }
+
+  return {
+    crop: recommendation.crop,
+    plantingDate,
+    applications
+  };
+}
@@ -0,0 +1,261 @@
+/**
+ * MCP Resources and Prompts
+ *
+ * Lets agents discover what the server covers without calling a tool: the
+ * layer catalog, the coverage area and a methodology note as MCP resources, and
+ * prompt templates that show how to chain the tools for common advisory tasks.
+ *
+ * @module catalog
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ETHIOPIA_BOUNDS } from './ssfr-client.js';
+import { ETHIOPIA_BOUNDARY } from './ethiopia-geo.js';
+import { NEIGHBOURING_COUNTRIES } from './data/ethiopia-boundary.js';
+import { ETHIOPIA_ZONES } from './data/ethiopia-admin.js';
+import { LayerRegistry, cropNames } from './layer-registry.js';
+import { ProductCompositions } from './nutrients.js';
+import { SUMMARY_LANGUAGES } from './localized-summary.js';
+
+/**
+ * Resource URIs
+ */
+export const RESOURCE_URIS = {
+  layers: 'ssfr://catalog/layers',
+  coverage: 'ssfr://catalog/coverage',
+  methodology: 'ssfr://docs/methodology'
+};
+
+/**
+ * Prompt template names
+ */
+export const PROMPT_NAMES = ['advise_smallholder', 'plan_fertilizer_season', 'advise_field'];
+
+/**
+ * Layer catalog: every crop's layers with their date, unit and output field
+ */
+export function layerCatalog(registry: LayerRegistry) {
+  return {
+    crops: cropNames(registry).map(crop => {
+      const definition = registry.crops[crop];
+      return {
+        crop,
+        label: definition.label,
+        layers: Object.entries(definition.layers).map(([key, layer]) => ({
+          key,
+          layer_id: layer.layer,
+          date: layer.date,
+          unit: layer.unit,
+          category: layer.category,
+          output: layer.output
+        })),
+        application_schedule: definition.schedule
+          ? definition.schedule.map(stage => ({ stage: stage.stage, label: stage.label, days_after_planting: stage.daysAfterPlanting }))
+          : undefined
+      };
+    }),
+    supported_region: 'Ethiopia'
+  };
+}
+
+/**
+ * Coverage area: bounding box, simplified boundary and regions
+ */
+function coverageArea() {
+  return {
+    country: 'Ethiopia',
+    bounding_box: {
+      min_latitude: ETHIOPIA_BOUNDS.minLat,
+      max_latitude: ETHIOPIA_BOUNDS.maxLat,
+      min_longitude: ETHIOPIA_BOUNDS.minLon,
+      max_longitude: ETHIOPIA_BOUNDS.maxLon
+    },
+    boundary: {
+      type: 'Feature',
+      properties: {
+        name: 'Ethiopia (Natural Earth 1:10m)',
+        accuracy: 'Within about 1 km along the border; used for the offline location check'
+      },
+      geometry: ETHIOPIA_BOUNDARY
+    },
+    regions: Array.from(new Set(ETHIOPIA_ZONES.map(zone => zone.region))).sort(),
+    neighbouring_countries: NEIGHBOURING_COUNTRIES.map(country => country.name),
+    notes: [
+      'Locations outside the boundary are rejected before any upstream call, naming the neighbouring country they are in.',
+      'Inside Ethiopia, some points (towns, roads, water bodies, protected areas) have no layer data.'
+    ]
+  };
+}
+
+/**
+ * Methodology note (Markdown)
+ */
+function methodologyNote(registry: LayerRegistry, productCompositions: ProductCompositions): string {
+  const compositions = Object.entries(productCompositions)
+    .map(([product, c]) => `  - ${product}: ${c.n}% N, ${c.p2o5}% P2O5, ${c.s}% S${c.organic ? ' (organic)' : ''}`)
+    .join('\n');
+
+  return `# SSFR methodology
+
+## Data source
+Recommendations come from the Site-Specific Fertilizer Recommendation (SSFR) raster layers of the Next-gen Agro Advisory Service. Each crop has one layer per product (urea, NPS, compost, vermicompost) and one for the expected yield. The server reads the layer value at the requested point; it does not run a crop model itself.
+
+Supported crops: ${cropNames(registry).join(', ')}. See ${RESOURCE_URIS.layers} for layer IDs and release dates.
+
+## Units
+- Urea and NPS: kg of product per hectare
+- Compost and vermicompost: tons of product per hectare
+- Expected yield: kg of grain per hectare, when the recommendation is followed
+
+## Derived values
+- Nutrients (N, P2O5, S in kg/ha) are computed from the product rates with these compositions:
+${compositions}
+- Field recommendations sample the layers on a grid across the field and report min / mean / max / dominant values.
+- Shopping lists convert per-hectare rates to the farm size, round bagged products to whole bags, and estimate cost from an indicative price table.
+- Application plans split the totals over growth stages using a per-crop schedule.
+
+## Limitations
+- Layers are static for each release date; they do not reflect the current season's rainfall or prices.
+- The Ethiopia boundary and region / zone / woreda names are simplified offline approximations.
+- During upstream outages, last known values may be served and are marked as stale.
+- Advice should be checked with the local development agent before large purchases.
+`;
+}
+
+/**
+ * Register the catalog resources on a server
+ */
+export function registerResources(server: McpServer, registry: LayerRegistry, productCompositions: ProductCompositions): void {
+  server.resource(
+    'layer-catalog',
+    RESOURCE_URIS.layers,
+    {
+      description: 'SSFR layers for every supported crop: layer ID, release date, unit, output field and application schedule stages',
+      mimeType: 'application/json'
+    },
+    async uri => ({
+      contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(layerCatalog(registry), null, 2) }]
+    })
+  );
+
+  server.resource(
+    'coverage-area',
+    RESOURCE_URIS.coverage,
+    {
+      description: 'Area where recommendations are available: Ethiopia bounding box, simplified boundary (GeoJSON), regions and neighbouring countries',
+      mimeType: 'application/json'
+    },
+    async uri => ({
+      contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(coverageArea(), null, 2) }]
+    })
+  );
+
+  server.resource(
+    'methodology',
+    RESOURCE_URIS.methodology,
+    {
+      description: 'How recommendations are produced: data source, units, derived values and limitations',
+      mimeType: 'text/markdown'
+    },
+    async uri => ({
+      contents: [{ uri: uri.href, mimeType: 'text/markdown', text: methodologyNote(registry, productCompositions) }]
+    })
+  );
+}
+
+/**
+ * Register the advisory prompt templates on a server
+ */
+export function registerPrompts(server: McpServer, registry: LayerRegistry): void {
+  const crop = z.enum(cropNames(registry) as [string, ...string[]]);
+  const language = z.enum(SUMMARY_LANGUAGES);
+
+  server.prompt(
+    'advise_smallholder',
+    'Advise a smallholder farmer on fertilizer for a crop at a location, in plain language',
+    {
+      crop: crop.describe('Crop to advise on'),
+      latitude: z.string().describe('Farm latitude'),
+      longitude: z.string().describe('Farm longitude'),
+      farm_size: z.string().optional().describe('Farm size with unit, e.g. "2 timad" or "0.5 hectare"'),
+      language: language.optional().describe('Language for the farmer: en, am, om or ti')
+    },
+    ({ crop, latitude, longitude, farm_size, language }) => {
+      const steps = [
+        `1. Call get_fertilizer_recommendation with crop "${crop}", latitude ${latitude} and longitude ${longitude}${language ? ` and language "${language}"` : ''}.`,
+        '   - If the location is outside Ethiopia, explain that the advice only covers Ethiopia and stop.',
+        '   - If there is no data, suggest trying a point on nearby farmland.',
+        farm_size
+          ? `2. Call get_fertilizer_shopping_list for the same crop and location with the farm size "${farm_size}" (farm_size and farm_size_unit) to get bag counts and the estimated cost.`
+          : '2. Ask the farmer for their farm size if they want to know how many bags to buy, then call get_fertilizer_shopping_list.',
+        '3. Explain the advice simply: which products, how much per hectare (and for the farm), and the expected yield. Mention when values are stale or some products are missing.',
+        language
+          ? `4. Answer in the farmer's language (${language}); you can use the farmer_summary from step 1. Keep numbers and units exactly as returned.`
+          : '4. Keep numbers and units exactly as returned by the tools.'
+      ];
+      return {
+        messages: [{
+          role: 'user',
+          content: {
+            type: 'text',
+            text: `Advise a smallholder farmer growing ${crop} at latitude ${latitude}, longitude ${longitude} in Ethiopia on fertilizer use.\n\n${steps.join('\n')}`
+          }
+        }]
+      };
+    }
+  );
+
+  server.prompt(
+    'plan_fertilizer_season',
+    'Build a season plan for a farm: recommendation, dated application schedule and shopping list',
+    {
+      crop: crop.describe('Crop to plan for'),
+      latitude: z.string().describe('Farm latitude'),
+      longitude: z.string().describe('Farm longitude'),
+      planting_date: z.string().describe('Planned planting date (YYYY-MM-DD)'),
+      farm_size: z.string().describe('Farm size with unit, e.g. "2 timad" or "0.5 hectare"')
+    },
+    ({ crop, latitude, longitude, planting_date, farm_size }) => ({
+      messages: [{
+        role: 'user',
+        content: {
+          type: 'text',
+          text: [
+            `Prepare a fertilizer season plan for ${crop} at latitude ${latitude}, longitude ${longitude}, planted on ${planting_date}, on a farm of ${farm_size}.`,
+            '',
+            `1. Call get_fertilizer_application_plan with crop "${crop}", the location and planting_date "${planting_date}" to get the dated applications.`,
+            `2. Call get_fertilizer_shopping_list with the same crop and location and the farm size "${farm_size}" to get what to buy and the estimated cost.`,
+            '3. Present a short calendar: for each date, which product, how much for the whole farm, and the practical guidance.',
+            '4. End with the shopping list and cost estimate, noting that prices are indicative.'
+          ].join('\n')
+        }
+      }]
+    })
+  );
+
+  server.prompt(
+    'advise_field',
+    'Advise on fertilizer for a whole field drawn as a GeoJSON boundary',
+    {
+      crop: crop.describe('Crop to advise on'),
+      field: z.string().describe('GeoJSON Polygon or MultiPolygon of the field ([longitude, latitude] order)')
+    },
+    ({ crop, field }) => ({
+      messages: [{
+        role: 'user',
+        content: {
+          type: 'text',
+          text: [
+            `Advise on fertilizer for this ${crop} field:`,
+            field,
+            '',
+            `1. Call get_field_fertilizer_recommendation with crop "${crop}" and the field geometry above.`,
+            '2. Report the field area and, per product, the dominant rate. If min and max differ a lot, say that parts of the field need different amounts.',
+            '3. Multiply the dominant per-hectare rates by the field area to give total quantities.'
+          ].join('\n')
+        }
+      }]
+    })
+  );
+}
@@ -0,0 +1,358 @@
+#!/usr/bin/env node
+/**
+ * Command-Line Interface
+ *
+ * Recommendations without an MCP client, for scripts and analysts on field laptops:
+ *
+ *   ssfr recommend --crop wheat --lat 9.03 --lon 38.74 [--language am] [--format sms] [--max-chars 70]
+ *   ssfr recommend --crop wheat --place "Bahir Dar" [--nearest-data [--max-distance 1500]]
+ *   ssfr batch --input farms.csv [--output results.csv | results.json] [--format csv|json]
+ *
+ * `recommend` prints the same JSON as the get_fertilizer_recommendation tool (or
+ * the SMS segments, one per line) and exits with 1 when it fails, printing the
+ * tool's error object instead. `batch` reads a CSV with the columns id, crop,
+ * latitude and longitude (lat/lon also accepted) and writes one result per row;
+ * rows that are invalid or have no data get their own error without failing the
+ * others.
+ *
+ * Uses the same environment variables as the server. Logs go to stderr, so
+ * stdout only carries results.
+ *
+ * @module cli
+ */
+
+import dotenv from 'dotenv';
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { z } from 'zod';
+import { BatchFarm, BatchRecommendationResult, NEAREST_DATA_SEARCH } from './ssfr-client.js';
+import { cropNames } from './layer-registry.js';
+import { SUMMARY_LANGUAGES } from './localized-summary.js';
+import { RESPONSE_FORMATS, MIN_SMS_SEGMENT_CHARS, MAX_SMS_SEGMENT_CHARS } from './sms-format.js';
+import {
+  ToolErrorContent,
+  toolError,
+  describeIssues,
+  errorContentFor,
+  outsideEthiopiaError,
+  unresolvedPlaceError,
+  recommendationResponse,
+  batchResponse
+} from './tool-output.js';
+import { CsvValue, parseCsv, formatCsv } from './csv.js';
+import { createLogger } from './logger.js';
+import { ServiceEnvironment, configureLoggingFromEnv, loadServiceEnvironment } from './environment.js';
+import { MAX_BATCH_FARMS } from './mcp-server.js';
+
+// Quiet: dotenv's own message would mix with the results on stdout
+dotenv.config({ quiet: true });
+configureLoggingFromEnv(true);
+const log = createLogger('CLI');
+
+const USAGE = `Usage:
+  ssfr recommend --crop <crop> (--lat <latitude> --lon <longitude> | --place <name>) [--nearest-data [--max-distance <m>]]
+                 [--language en|am|om|ti] [--format json|sms] [--max-chars <n>]
+  ssfr batch --input <farms.csv> [--output <results.csv|results.json>] [--format csv|json]
+  ssfr help
+
+--place takes a town, woreda, zone or kebele name in Latin or Ge'ez script; add the
+region or zone after a comma when the name is ambiguous ("North Shewa, Oromia").
+--nearest-data uses the nearest point with data when the location has none.
+
+batch reads a CSV with a header row and the columns id, crop, latitude (or lat) and
+longitude (or lon). Without --output the results go to stdout; the format follows
+the output file extension (CSV by default).`;
+
+/**
+ * Columns of the batch CSV output
+ */
+const RESULT_COLUMNS = [
+  'id', 'crop', 'latitude', 'longitude', 'status',
+  'urea_kg_ha', 'nps_kg_ha', 'compost_t_ha', 'vermicompost_t_ha', 'expected_yield_kg_ha',
+  'completeness', 'region', 'zone', 'error_code', 'error'
+];
+
+/**
+ * Accepted header names of the batch CSV input, by field
+ */
+const INPUT_COLUMNS = {
+  id: ['id', 'farm_id'],
+  crop: ['crop'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lon', 'lng']
+};
+
+const BATCH_FORMATS = ['csv', 'json'] as const;
+
+/**
+ * Wrong command line (exit code 2, with the usage)
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * A batch CSV row: the farm to send, or why it can't be sent
+ */
+interface FarmRow {
+  id: string;
+  crop: string;
+  latitude: string;
+  longitude: string;
+  farm?: BatchFarm;
+  error?: string;
+}
+
+/**
+ * Single recommendation
+ *
+ * @returns The exit code
+ */
+async function recommend(args: string[], environment: ServiceEnvironment): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      crop: { type: 'string' },
+      lat: { type: 'string' },
+      lon: { type: 'string' },
+      place: { type: 'string' },
+      'nearest-data': { type: 'boolean' },
+      'max-distance': { type: 'string' },
+      language: { type: 'string' },
+      format: { type: 'string' },
+      'max-chars': { type: 'string' }
+    }
+  });
+  const { client, registry, gazetteer } = environment;
+  const crops = cropNames(registry);
+
+  const fail = (content: ToolErrorContent) => {
+    process.stdout.write(`${JSON.stringify(content, null, 2)}\n`);
+    return 1;
+  };
+  const hasCoordinates = Boolean(values.lat && values.lon);
+  if (!hasCoordinates && !values.place) {
+    return fail(toolError('MISSING_COORDINATES', 'The --lat and --lon options (or --place) are required.'));
+  }
+  if (!values.crop) {
+    return fail(toolError('MISSING_ARGUMENT', `The --crop option is required (${crops.join(', ')}).`));
+  }
+  const parsed = z.object({
+    crop: z.enum(crops as [string, ...string[]]),
+    lat: z.coerce.number().min(-90).max(90).optional(),
+    lon: z.coerce.number().min(-180).max(180).optional(),
+    place: z.string().min(1).max(200).optional(),
+    max_distance: z.coerce.number().int().min(100).max(NEAREST_DATA_SEARCH.maxRadiusMeters).optional(),
+    language: z.enum(SUMMARY_LANGUAGES).optional(),
+    format: z.enum(RESPONSE_FORMATS).optional(),
+    max_chars: z.coerce.number().int().min(MIN_SMS_SEGMENT_CHARS).max(MAX_SMS_SEGMENT_CHARS).optional()
+  }).safeParse({ ...values, max_chars: values['max-chars'], max_distance: values['max-distance'] });
+  if (!parsed.success) {
+    return fail(toolError('INVALID_ARGUMENT', describeIssues(parsed.error)));
+  }
+
+  const { crop, place, max_distance, language, format, max_chars } = parsed.data;
+  // Coordinates win over the place name
+  const placeResolution = hasCoordinates ? undefined : gazetteer.resolve(place!);
+  if (placeResolution && !placeResolution.match) {
+    return fail(unresolvedPlaceError(placeResolution));
+  }
+  const lat = placeResolution ? placeResolution.match!.place.lat : parsed.data.lat!;
+  const lon = placeResolution ? placeResolution.match!.place.lon : parsed.data.lon!;
+  if (!client.isInEthiopia(lat, lon)) {
+    return fail(outsideEthiopiaError(lat, lon, language));
+  }
+  try {
+    const recommendation = await client.getFertilizerRecommendation(crop, lat, lon, {
+      nearestData: values['nearest-data'],
+      nearestDataRadiusMeters: max_distance
+    });
+    const response = recommendationResponse(
+      recommendation,
+      language,
+      Object.values(registry.crops[crop].layers).map(layer => layer.output),
+      format === 'sms' ? { maxChars: max_chars } : undefined,
+      placeResolution
+    );
+    process.stdout.write(response.sms
+      ? `${response.sms.segments.join('\n')}\n`
+      : `${JSON.stringify(response, null, 2)}\n`);
+    return 0;
+  } catch (error) {
+    log.error('Recommendation failed:', error);
+    return fail(errorContentFor(error));
+  }
+}
+
+/**
+ * Recommendations for every farm of a CSV file
+ *
+ * @returns The exit code (0 even when some rows failed; their errors are in the output)
+ */
+async function batch(args: string[], environment: ServiceEnvironment): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      input: { type: 'string', short: 'i' },
+      output: { type: 'string', short: 'o' },
+      format: { type: 'string' }
+    }
+  });
+  if (!values.input) {
+    throw new UsageError('The --input option is required');
+  }
+  const format = values.format ?? (values.output && extname(values.output).toLowerCase() === '.json' ? 'json' : 'csv');
+  if (!(BATCH_FORMATS as readonly string[]).includes(format)) {
+    throw new UsageError(`--format must be one of ${BATCH_FORMATS.join(', ')}, got "${format}"`);
+  }
+
+  const rows = readFarmRows(await readFile(values.input, 'utf8'));
+  const farms = rows.filter(row => row.farm).map(row => row.farm!);
+  log.info(`Read ${rows.length} rows from ${values.input} (${rows.length - farms.length} invalid)`, {
+    rows: rows.length,
+    invalid: rows.length - farms.length
+  });
+
+  // Same chunk size as the batch tool, so a large file doesn't become one huge request
+  const results = new Map<BatchFarm, BatchRecommendationResult>();
+  for (let start = 0; start < farms.length; start += MAX_BATCH_FARMS) {
+    const chunk = farms.slice(start, start + MAX_BATCH_FARMS);
+    try {
+      const chunkResults = await environment.client.getBatchFertilizerRecommendations(chunk);
+      chunk.forEach((farm, index) => results.set(farm, chunkResults[index]));
+    } catch (error) {
+      log.error(`Farms ${start + 1}-${start + chunk.length} failed:`, error);
+      const { code, message } = errorContentFor(error).error;
+      chunk.forEach(farm => results.set(farm, { id: farm.id, error: { code, message } }));
+    }
+  }
+  const rowResults = rows.map((row): BatchRecommendationResult => row.farm
+    ? results.get(row.farm)!
+    : { id: row.id, error: { code: 'INVALID_ARGUMENT', message: row.error! } });
+
+  const text = format === 'json'
+    ? `${JSON.stringify(batchResponse(rowResults), null, 2)}\n`
+    : formatCsv([RESULT_COLUMNS, ...rows.map((row, index) => resultRow(row, rowResults[index]))]);
+  if (values.output) {
+    await writeFile(values.output, text, 'utf8');
+  } else {
+    process.stdout.write(text);
+  }
+
+  const failed = rowResults.filter(result => !result.recommendation).length;
+  log.info(`${rows.length} farms: ${rows.length - failed} ok, ${failed} failed${values.output ? ` (written to ${values.output})` : ''}`, {
+    total: rows.length,
+    failed
+  });
+  return 0;
+}
+
+/**
+ * Read the farms of a batch CSV, validating each row on its own
+ *
+ * @throws UsageError when the file is empty or a required column is missing
+ */
+function readFarmRows(text: string): FarmRow[] {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    throw new UsageError('The input file is empty');
+  }
+  const names = header.map(name => name.trim().toLowerCase());
+  const column = (field: keyof typeof INPUT_COLUMNS) => names.findIndex(name => INPUT_COLUMNS[field].includes(name));
+  const columns = { id: column('id'), crop: column('crop'), latitude: column('latitude'), longitude: column('longitude') };
+  for (const field of ['crop', 'latitude', 'longitude'] as const) {
+    if (columns[field] < 0) {
+      throw new UsageError(`The input file has no ${field} column (accepted names: ${INPUT_COLUMNS[field].join(', ')})`);
+    }
+  }
+
+  return lines.map((line, index) => {
+    const value = (field: keyof typeof columns) => (columns[field] >= 0 ? line[columns[field]] ?? '' : '').trim();
+    const row: FarmRow = {
+      id: value('id') || `row-${index + 1}`,
+      crop: value('crop').toLowerCase(),
+      latitude: value('latitude'),
+      longitude: value('longitude')
+    };
+    const lat = coordinate(row.latitude, 90);
+    const lon = coordinate(row.longitude, 180);
+    if (!row.crop) {
+      row.error = 'Missing crop';
+    } else if (lat === undefined) {
+      row.error = `Invalid latitude "${row.latitude}" (expected a number between -90 and 90)`;
+    } else if (lon === undefined) {
+      row.error = `Invalid longitude "${row.longitude}" (expected a number between -180 and 180)`;
+    } else {
+      row.farm = { id: row.id, crop: row.crop, lat, lon };
+    }
+    return row;
+  });
+}
+
+/**
+ * A coordinate within ±limit, or undefined
+ */
+function coordinate(text: string, limit: number): number | undefined {
+  const value = text === '' ? NaN : Number(text);
+  return Number.isFinite(value) && Math.abs(value) <= limit ? value : undefined;
+}
+
+/**
+ * One line of the batch CSV output (columns as in RESULT_COLUMNS)
+ */
+function resultRow(row: FarmRow, result: BatchRecommendationResult): CsvValue[] {
+  const recommendation = result.recommendation;
+  return [
+    row.id,
+    row.crop,
+    row.latitude,
+    row.longitude,
+    recommendation ? 'ok' : 'error',
+    recommendation?.inorganic.urea,
+    recommendation?.inorganic.nps,
+    recommendation?.organic.compost,
+    recommendation?.organic.vermicompost,
+    recommendation?.expectedYield,
+    recommendation?.provenance.completeness,
+    recommendation?.location.region,
+    recommendation?.location.zone,
+    result.error?.code,
+    result.error?.message
+  ];
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  if (command === 'help' || command === '--help' || command === '-h') {
+    console.log(USAGE);
+    return 0;
+  }
+  if (command !== 'recommend' && command !== 'batch') {
+    throw new UsageError(command ? `Unknown command "${command}"` : 'Missing command');
+  }
+
+  const environment = loadServiceEnvironment();
+  try {
+    return command === 'recommend' ? await recommend(args, environment) : await batch(args, environment);
+  } finally {
+    // Persist the layer cache for the next run (no-op without SSFR_CACHE_FILE)
+    await environment.client.flushCache();
+  }
+}
+
+try {
+  process.exitCode = await main(process.argv.slice(2));
+} catch (error) {
+  // parseArgs reports unknown or malformed options as TypeErrors with a code
+  if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    process.exitCode = 2;
+  } else {
+    log.error('Failed:', error);
+    process.exitCode = 1;
+  }
+}
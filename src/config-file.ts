@@ -0,0 +1,51 @@
+/**
+ * Configuration File Loader
+ *
+ * Shared helper for the optional JSON or YAML tables operators can use to
+ * override the built-in defaults (product compositions, prices, crops, ...).
+ *
+ * @module config-file
+ */
+
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Config');
+
+/**
+ * Read and validate a configuration file (YAML for .yaml / .yml, JSON otherwise)
+ *
+ * @param filePath - Path to the file
+ * @param schema - Zod schema the file contents must satisfy
+ * @param description - What the file configures, used in error messages
+ * @returns The parsed, validated contents
+ * @throws Error if the file cannot be read or parsed, or fails validation
+ */
+export function loadConfigFile<T extends z.ZodTypeAny>(
+  filePath: string,
+  schema: T,
+  description: string
+): z.infer<T> {
+  let raw: unknown;
+  try {
+    const text = readFileSync(filePath, 'utf8');
+    const extension = extname(filePath).toLowerCase();
+    raw = extension === '.yaml' || extension === '.yml' ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Could not read ${description} from ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid ${description} in ${filePath}: ${issues}`);
+  }
+
+  log.info(`Loaded ${description} from ${filePath}`);
+  return result.data;
+}
@@ -0,0 +1,76 @@
+/**
+ * CSV Reading and Writing
+ *
+ * Minimal RFC 4180 CSV for the CLI's farm files: comma-separated, fields quoted
+ * with double quotes when they contain commas, quotes or line breaks. Accepts
+ * CRLF line endings and the byte order mark spreadsheet programs add.
+ *
+ * @module csv
+ */
+
+export type CsvValue = string | number | boolean | undefined;
+
+/**
+ * Parse CSV text into rows of fields (blank lines are skipped)
+ *
+ * @throws Error for a quoted field that is never closed
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let index = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('Unterminated quoted field at the end of the CSV');
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+/**
+ * Format rows as CSV text (undefined becomes an empty field)
+ */
+export function formatCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(formatField).join(',')).join('\n') + '\n';
+}
+
+function formatField(value: CsvValue): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
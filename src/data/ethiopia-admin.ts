@@ -0,0 +1,205 @@
+/**
+ * Offline Ethiopian administrative reference points
+ *
+ * Zones and a selection of woredas (with their Ge'ez names), each with a
+ * reference point (normally the administrative seat). Points are assigned to the
+ * nearest reference point, so the result is an approximation near administrative
+ * borders rather than an exact polygon lookup. Coordinates are WGS84 decimal degrees.
+ *
+ * @module data/ethiopia-admin
+ */
+
+export interface AdminZone {
+  /** Zone name */
+  name: string;
+  /** Regional state the zone belongs to */
+  region: string;
+  /** Reference point latitude (usually the zone capital) */
+  lat: number;
+  /** Reference point longitude */
+  lon: number;
+}
+
+export interface AdminWoreda extends AdminZone {
+  /** Name in Ge'ez script */
+  localName: string;
+  /** Zone the woreda belongs to */
+  zone: string;
+}
+
+export const ETHIOPIA_ZONES: AdminZone[] = [
+  // Tigray
+  { name: 'Central', region: 'Tigray', lat: 14.12, lon: 38.72 },
+  { name: 'Eastern', region: 'Tigray', lat: 14.28, lon: 39.46 },
+  { name: 'North Western', region: 'Tigray', lat: 14.10, lon: 38.28 },
+  { name: 'Southern', region: 'Tigray', lat: 12.78, lon: 39.54 },
+  { name: 'Mekelle', region: 'Tigray', lat: 13.50, lon: 39.47 },
+  { name: 'Western', region: 'Tigray', lat: 14.29, lon: 36.62 },
+  // Afar
+  { name: 'Awsi Rasu (Zone 1)', region: 'Afar', lat: 11.57, lon: 41.44 },
+  { name: 'Kilbet Rasu (Zone 2)', region: 'Afar', lat: 13.36, lon: 39.77 },
+  { name: 'Gabi Rasu (Zone 3)', region: 'Afar', lat: 8.98, lon: 40.17 },
+  { name: 'Fanti Rasu (Zone 4)', region: 'Afar', lat: 11.85, lon: 40.03 },
+  { name: 'Hari Rasu (Zone 5)', region: 'Afar', lat: 10.48, lon: 40.38 },
+  // Amhara
+  { name: 'North Gondar', region: 'Amhara', lat: 13.15, lon: 37.90 },
+  { name: 'Central Gondar', region: 'Amhara', lat: 12.60, lon: 37.47 },
+  { name: 'South Gondar', region: 'Amhara', lat: 11.85, lon: 38.02 },
+  { name: 'West Gondar', region: 'Amhara', lat: 12.85, lon: 36.40 },
+  { name: 'North Wollo', region: 'Amhara', lat: 11.83, lon: 39.60 },
+  { name: 'South Wollo', region: 'Amhara', lat: 11.13, lon: 39.63 },
+  { name: 'North Shewa', region: 'Amhara', lat: 9.68, lon: 39.53 },
+  { name: 'East Gojjam', region: 'Amhara', lat: 10.33, lon: 37.72 },
+  { name: 'West Gojjam', region: 'Amhara', lat: 10.70, lon: 37.27 },
+  { name: 'Awi', region: 'Amhara', lat: 10.95, lon: 36.93 },
+  { name: 'Wag Hemra', region: 'Amhara', lat: 12.63, lon: 39.03 },
+  { name: 'Oromia Special Zone', region: 'Amhara', lat: 10.72, lon: 39.87 },
+  { name: 'Bahir Dar', region: 'Amhara', lat: 11.59, lon: 37.39 },
+  // Oromia
+  { name: 'Arsi', region: 'Oromia', lat: 7.95, lon: 39.13 },
+  { name: 'West Arsi', region: 'Oromia', lat: 7.20, lon: 38.60 },
+  { name: 'Bale', region: 'Oromia', lat: 7.12, lon: 40.00 },
+  { name: 'East Bale', region: 'Oromia', lat: 7.13, lon: 40.70 },
+  { name: 'Borena', region: 'Oromia', lat: 4.88, lon: 38.08 },
+  { name: 'Guji', region: 'Oromia', lat: 5.33, lon: 39.58 },
+  { name: 'West Guji', region: 'Oromia', lat: 5.63, lon: 38.23 },
+  { name: 'East Hararghe', region: 'Oromia', lat: 9.05, lon: 41.95 },
+  { name: 'West Hararghe', region: 'Oromia', lat: 9.08, lon: 40.87 },
+  { name: 'East Shewa', region: 'Oromia', lat: 8.54, lon: 39.27 },
+  { name: 'West Shewa', region: 'Oromia', lat: 8.98, lon: 37.85 },
+  { name: 'South West Shewa', region: 'Oromia', lat: 8.54, lon: 37.98 },
+  { name: 'North Shewa', region: 'Oromia', lat: 9.80, lon: 38.73 },
+  { name: 'Jimma', region: 'Oromia', lat: 7.67, lon: 36.83 },
+  { name: 'Illubabor', region: 'Oromia', lat: 8.30, lon: 35.58 },
+  { name: 'Buno Bedele', region: 'Oromia', lat: 8.45, lon: 36.35 },
+  { name: 'East Wollega', region: 'Oromia', lat: 9.08, lon: 36.55 },
+  { name: 'West Wollega', region: 'Oromia', lat: 9.17, lon: 35.83 },
+  { name: 'Kelem Wollega', region: 'Oromia', lat: 8.53, lon: 34.80 },
+  { name: 'Horo Guduru Wollega', region: 'Oromia', lat: 9.57, lon: 37.10 },
+  // Somali
+  { name: 'Fafan', region: 'Somali', lat: 9.35, lon: 42.80 },
+  { name: 'Siti', region: 'Somali', lat: 9.68, lon: 41.85 },
+  { name: 'Jarar', region: 'Somali', lat: 8.22, lon: 43.56 },
+  { name: 'Nogob', region: 'Somali', lat: 8.13, lon: 42.28 },
+  { name: 'Korahe', region: 'Somali', lat: 6.73, lon: 44.27 },
+  { name: 'Shabelle', region: 'Somali', lat: 5.95, lon: 43.55 },
+  { name: 'Afder', region: 'Somali', lat: 4.95, lon: 42.20 },
+  { name: 'Liben', region: 'Somali', lat: 5.11, lon: 40.64 },
+  { name: 'Dawa', region: 'Somali', lat: 3.53, lon: 39.05 },
+  { name: 'Dollo', region: 'Somali', lat: 6.97, lon: 45.33 },
+  // Benishangul-Gumuz
+  { name: 'Metekel', region: 'Benishangul-Gumuz', lat: 11.17, lon: 36.33 },
+  { name: 'Asosa', region: 'Benishangul-Gumuz', lat: 10.07, lon: 34.53 },
+  { name: 'Kamashi', region: 'Benishangul-Gumuz', lat: 9.48, lon: 35.85 },
+  // Gambela
+  { name: 'Anuak', region: 'Gambela', lat: 8.25, lon: 34.58 },
+  { name: 'Nuer', region: 'Gambela', lat: 8.35, lon: 33.80 },
+  { name: 'Majang', region: 'Gambela', lat: 7.35, lon: 35.33 },
+  // City administrations and small regions
+  { name: 'Harari', region: 'Harari', lat: 9.31, lon: 42.12 },
+  { name: 'Dire Dawa', region: 'Dire Dawa', lat: 9.60, lon: 41.85 },
+  { name: 'Addis Ababa', region: 'Addis Ababa', lat: 9.03, lon: 38.74 },
+  // Sidama
+  { name: 'Sidama', region: 'Sidama', lat: 7.06, lon: 38.48 },
+  // Central Ethiopia
+  { name: 'Gurage', region: 'Central Ethiopia', lat: 8.28, lon: 37.78 },
+  { name: 'Hadiya', region: 'Central Ethiopia', lat: 7.55, lon: 37.85 },
+  { name: 'Silte', region: 'Central Ethiopia', lat: 7.87, lon: 38.17 },
+  { name: 'Kembata', region: 'Central Ethiopia', lat: 7.23, lon: 37.89 },
+  { name: 'Halaba', region: 'Central Ethiopia', lat: 7.31, lon: 38.09 },
+  { name: 'Yem', region: 'Central Ethiopia', lat: 7.92, lon: 37.42 },
+  // South Ethiopia
+  { name: 'Wolaita', region: 'South Ethiopia', lat: 6.86, lon: 37.76 },
+  { name: 'Gamo', region: 'South Ethiopia', lat: 6.03, lon: 37.55 },
+  { name: 'Gofa', region: 'South Ethiopia', lat: 6.30, lon: 36.88 },
+  { name: 'South Omo', region: 'South Ethiopia', lat: 5.78, lon: 36.57 },
+  { name: 'Gedeo', region: 'South Ethiopia', lat: 6.41, lon: 38.31 },
+  { name: 'Konso', region: 'South Ethiopia', lat: 5.25, lon: 37.48 },
+  // South West Ethiopia Peoples'
+  { name: 'Kaffa', region: "South West Ethiopia Peoples'", lat: 7.27, lon: 36.23 },
+  { name: 'Bench Sheko', region: "South West Ethiopia Peoples'", lat: 6.99, lon: 35.59 },
+  { name: 'Sheka', region: "South West Ethiopia Peoples'", lat: 7.73, lon: 35.48 },
+  { name: 'Dawro', region: "South West Ethiopia Peoples'", lat: 7.16, lon: 37.17 },
+  { name: 'West Omo', region: "South West Ethiopia Peoples'", lat: 6.27, lon: 35.52 }
+];
+
+export const ETHIOPIA_WOREDAS: AdminWoreda[] = [
+  // Tigray
+  { name: 'Alamata', localName: 'አላማጣ', zone: 'Southern', region: 'Tigray', lat: 12.42, lon: 39.55 },
+  { name: 'Ofla', localName: 'ኦፍላ', zone: 'Southern', region: 'Tigray', lat: 12.50, lon: 39.52 },
+  { name: 'Kilte Awulaelo', localName: 'ክልተ አውላዕሎ', zone: 'Eastern', region: 'Tigray', lat: 13.78, lon: 39.60 },
+  { name: 'Ganta Afeshum', localName: 'ጋንታ አፈሹም', zone: 'Eastern', region: 'Tigray', lat: 14.28, lon: 39.46 },
+  { name: 'Adwa', localName: 'ዓድዋ', zone: 'Central', region: 'Tigray', lat: 14.16, lon: 38.90 },
+  { name: 'Laelay Maychew', localName: 'ላዕላይ ማይጨው', zone: 'Central', region: 'Tigray', lat: 14.12, lon: 38.72 },
+  { name: 'Tahtay Koraro', localName: 'ታሕታይ ቆራሮ', zone: 'North Western', region: 'Tigray', lat: 14.10, lon: 38.28 },
+  { name: 'Kafta Humera', localName: 'ቃፍታ ሁመራ', zone: 'Western', region: 'Tigray', lat: 14.29, lon: 36.62 },
+  // Amhara
+  { name: 'Dangila', localName: 'ዳንግላ', zone: 'Awi', region: 'Amhara', lat: 11.26, lon: 36.83 },
+  { name: 'Mecha', localName: 'መቻ', zone: 'West Gojjam', region: 'Amhara', lat: 11.41, lon: 37.16 },
+  { name: 'Bure', localName: 'ቡሬ', zone: 'West Gojjam', region: 'Amhara', lat: 10.70, lon: 37.07 },
+  { name: 'Dembecha', localName: 'ደምበጫ', zone: 'West Gojjam', region: 'Amhara', lat: 10.55, lon: 37.48 },
+  { name: 'Gozamin', localName: 'ጎዛምን', zone: 'East Gojjam', region: 'Amhara', lat: 10.33, lon: 37.72 },
+  { name: 'Enemay', localName: 'እነማይ', zone: 'East Gojjam', region: 'Amhara', lat: 10.45, lon: 38.20 },
+  { name: 'Farta', localName: 'ፋርጣ', zone: 'South Gondar', region: 'Amhara', lat: 11.85, lon: 38.00 },
+  { name: 'Fogera', localName: 'ፎገራ', zone: 'South Gondar', region: 'Amhara', lat: 11.92, lon: 37.70 },
+  { name: 'Libo Kemkem', localName: 'ሊቦ ከምከም', zone: 'South Gondar', region: 'Amhara', lat: 12.12, lon: 37.78 },
+  { name: 'Lay Gayint', localName: 'ላይ ጋይንት', zone: 'South Gondar', region: 'Amhara', lat: 11.73, lon: 38.47 },
+  { name: 'Dabat', localName: 'ዳባት', zone: 'North Gondar', region: 'Amhara', lat: 12.98, lon: 37.77 },
+  { name: 'Debark', localName: 'ደባርቅ', zone: 'North Gondar', region: 'Amhara', lat: 13.15, lon: 37.90 },
+  { name: 'Kobo', localName: 'ቆቦ', zone: 'North Wollo', region: 'Amhara', lat: 12.15, lon: 39.63 },
+  { name: 'Tehuledere', localName: 'ተሁለደሬ', zone: 'South Wollo', region: 'Amhara', lat: 11.31, lon: 39.68 },
+  { name: 'Basona Werana', localName: 'ባሶና ወራና', zone: 'North Shewa', region: 'Amhara', lat: 9.68, lon: 39.53 },
+  { name: 'Ankober', localName: 'አንኮበር', zone: 'North Shewa', region: 'Amhara', lat: 9.58, lon: 39.73 },
+  { name: 'Efratana Gidim', localName: 'ኤፍራታና ግድም', zone: 'North Shewa', region: 'Amhara', lat: 10.35, lon: 39.93 },
+  // Oromia
+  { name: 'Adea', localName: 'አድአ', zone: 'East Shewa', region: 'Oromia', lat: 8.75, lon: 38.98 },
+  { name: 'Lume', localName: 'ሉሜ', zone: 'East Shewa', region: 'Oromia', lat: 8.60, lon: 39.12 },
+  { name: 'Dugda', localName: 'ዱግዳ', zone: 'East Shewa', region: 'Oromia', lat: 8.15, lon: 38.82 },
+  { name: 'Adami Tulu Jido Kombolcha', localName: 'አዳሚ ቱሉ ጂዶ ኮምቦልቻ', zone: 'East Shewa', region: 'Oromia', lat: 7.93, lon: 38.72 },
+  { name: 'Dodota', localName: 'ዶዶታ', zone: 'Arsi', region: 'Oromia', lat: 8.32, lon: 39.32 },
+  { name: 'Tiyo', localName: 'ጢዮ', zone: 'Arsi', region: 'Oromia', lat: 7.95, lon: 39.13 },
+  { name: 'Hetosa', localName: 'ሄጦሳ', zone: 'Arsi', region: 'Oromia', lat: 8.13, lon: 39.23 },
+  { name: 'Lemu Bilbilo', localName: 'ሌሙ ቢልቢሎ', zone: 'Arsi', region: 'Oromia', lat: 7.53, lon: 39.25 },
+  { name: 'Sinana', localName: 'ሲናና', zone: 'Bale', region: 'Oromia', lat: 7.12, lon: 40.00 },
+  { name: 'Agarfa', localName: 'አጋርፋ', zone: 'Bale', region: 'Oromia', lat: 7.28, lon: 39.82 },
+  { name: 'Goba', localName: 'ጎባ', zone: 'Bale', region: 'Oromia', lat: 7.00, lon: 39.98 },
+  { name: 'Shashemene Zuria', localName: 'ሻሸመኔ ዙሪያ', zone: 'West Arsi', region: 'Oromia', lat: 7.20, lon: 38.60 },
+  { name: 'Arsi Negele', localName: 'አርሲ ነገሌ', zone: 'West Arsi', region: 'Oromia', lat: 7.35, lon: 38.67 },
+  { name: 'Kofele', localName: 'ኮፈሌ', zone: 'West Arsi', region: 'Oromia', lat: 7.07, lon: 38.78 },
+  { name: 'Ambo Zuria', localName: 'አምቦ ዙሪያ', zone: 'West Shewa', region: 'Oromia', lat: 8.98, lon: 37.85 },
+  { name: 'Welmera', localName: 'ወልመራ', zone: 'West Shewa', region: 'Oromia', lat: 9.06, lon: 38.50 },
+  { name: 'Ejere', localName: 'እጀሬ', zone: 'West Shewa', region: 'Oromia', lat: 9.04, lon: 38.38 },
+  { name: 'Becho', localName: 'ቤቾ', zone: 'South West Shewa', region: 'Oromia', lat: 8.66, lon: 38.21 },
+  { name: 'Woliso', localName: 'ወሊሶ', zone: 'South West Shewa', region: 'Oromia', lat: 8.54, lon: 37.98 },
+  { name: 'Girar Jarso', localName: 'ግራር ጃርሶ', zone: 'North Shewa', region: 'Oromia', lat: 9.80, lon: 38.73 },
+  { name: 'Kuyu', localName: 'ኩዩ', zone: 'North Shewa', region: 'Oromia', lat: 9.80, lon: 38.40 },
+  { name: 'Seka Chekorsa', localName: 'ሰቃ ጨቆርሳ', zone: 'Jimma', region: 'Oromia', lat: 7.58, lon: 36.73 },
+  { name: 'Limmu Kosa', localName: 'ሊሙ ኮሳ', zone: 'Jimma', region: 'Oromia', lat: 8.07, lon: 36.95 },
+  { name: 'Guto Gida', localName: 'ጉቶ ጊዳ', zone: 'East Wollega', region: 'Oromia', lat: 9.08, lon: 36.55 },
+  { name: 'Gimbi', localName: 'ጊምቢ', zone: 'West Wollega', region: 'Oromia', lat: 9.17, lon: 35.83 },
+  { name: 'Bedele', localName: 'በደሌ', zone: 'Buno Bedele', region: 'Oromia', lat: 8.45, lon: 36.35 },
+  { name: 'Haramaya', localName: 'ሐረማያ', zone: 'East Hararghe', region: 'Oromia', lat: 9.40, lon: 42.00 },
+  { name: 'Chiro', localName: 'ጭሮ', zone: 'West Hararghe', region: 'Oromia', lat: 9.08, lon: 40.87 },
+  { name: 'Habro', localName: 'ሀብሮ', zone: 'West Hararghe', region: 'Oromia', lat: 8.82, lon: 40.52 },
+  { name: 'Yabelo', localName: 'ያቤሎ', zone: 'Borena', region: 'Oromia', lat: 4.88, lon: 38.08 },
+  { name: 'Bule Hora', localName: 'ቡሌ ሆራ', zone: 'West Guji', region: 'Oromia', lat: 5.63, lon: 38.23 },
+  { name: 'Adola', localName: 'አዶላ', zone: 'Guji', region: 'Oromia', lat: 5.88, lon: 38.98 },
+  // Sidama
+  { name: 'Hawassa Zuria', localName: 'ሐዋሳ ዙሪያ', zone: 'Sidama', region: 'Sidama', lat: 7.00, lon: 38.45 },
+  { name: 'Wondo Genet', localName: 'ወንዶ ገነት', zone: 'Sidama', region: 'Sidama', lat: 7.08, lon: 38.63 },
+  { name: 'Dale', localName: 'ዳሌ', zone: 'Sidama', region: 'Sidama', lat: 6.75, lon: 38.41 },
+  { name: 'Aleta Wendo', localName: 'አለታ ወንዶ', zone: 'Sidama', region: 'Sidama', lat: 6.60, lon: 38.42 },
+  // Central Ethiopia
+  { name: 'Meskan', localName: 'መስቃን', zone: 'Gurage', region: 'Central Ethiopia', lat: 8.12, lon: 38.37 },
+  { name: 'Lemo', localName: 'ሌሞ', zone: 'Hadiya', region: 'Central Ethiopia', lat: 7.55, lon: 37.85 },
+  { name: 'Kedida Gamela', localName: 'ቀዲዳ ጋሜላ', zone: 'Kembata', region: 'Central Ethiopia', lat: 7.23, lon: 37.89 },
+  // South Ethiopia
+  { name: 'Sodo Zuria', localName: 'ሶዶ ዙሪያ', zone: 'Wolaita', region: 'South Ethiopia', lat: 6.86, lon: 37.76 },
+  { name: 'Boloso Sore', localName: 'ቦሎሶ ሶሬ', zone: 'Wolaita', region: 'South Ethiopia', lat: 7.07, lon: 37.70 },
+  { name: 'Arba Minch Zuria', localName: 'አርባ ምንጭ ዙሪያ', zone: 'Gamo', region: 'South Ethiopia', lat: 6.03, lon: 37.55 },
+  { name: 'Chencha', localName: 'ጨንቻ', zone: 'Gamo', region: 'South Ethiopia', lat: 6.25, lon: 37.57 },
+  { name: 'Dilla Zuria', localName: 'ዲላ ዙሪያ', zone: 'Gedeo', region: 'South Ethiopia', lat: 6.41, lon: 38.31 },
+  // South West Ethiopia Peoples'
+  { name: 'Gimbo', localName: 'ጊምቦ', zone: 'Kaffa', region: "South West Ethiopia Peoples'", lat: 7.27, lon: 36.23 },
+  { name: 'Mizan Aman', localName: 'ሚዛን አማን', zone: 'Bench Sheko', region: "South West Ethiopia Peoples'", lat: 6.99, lon: 35.59 }
+];
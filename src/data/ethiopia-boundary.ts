@@ -0,0 +1,606 @@
+/**
+ * Ethiopia national boundary and neighbouring countries
+ *
+ * Derived from Natural Earth 1:10m Admin 0 countries (version 4.1.0, public
+ * domain, as redistributed in the world-atlas TopoJSON), which places the
+ * border to within about a kilometre. The Ethiopia outline keeps every
+ * vertex of the source. The neighbouring countries, used only to name the
+ * country a point outside Ethiopia lies in, share those border vertices but are
+ * simplified elsewhere (to about 2 km) and leave out small islands. Positions
+ * are [longitude, latitude], like GeoJSON.
+ *
+ * @module data/ethiopia-boundary
+ */
+
+export interface NeighbouringCountry {
+  /** Country name, as used in messages */
+  name: string;
+  /** Polygons of the country, each an outer ring followed by its holes (GeoJSON MultiPolygon coordinates) */
+  polygons: number[][][][];
+}
+
+/**
+ * Outer ring of Ethiopia, clockwise from the Sudan / Eritrea tripoint and closed
+ * (the last position repeats the first)
+ */
+export const ETHIOPIA_OUTLINE: number[][] = [
+  [36.5278, 14.264], [36.5458, 14.264], [36.553, 14.2825], [36.5674, 14.2927], [36.5818, 14.2961], [36.6034, 14.2977],
+  [36.6178, 14.3011], [36.6502, 14.3146], [36.6682, 14.318], [36.715, 14.318], [36.7222, 14.3197], [36.7366, 14.3298],
+  [36.7474, 14.3315], [36.8158, 14.3315], [36.8482, 14.3281], [36.913, 14.3096], [36.9454, 14.3045], [36.9526, 14.3011],
+  [36.9706, 14.2775], [36.9778, 14.2707], [36.985, 14.2673], [36.9958, 14.264], [37.0066, 14.264], [37.0102, 14.2657],
+  [37.0246, 14.2775], [37.0354, 14.2775], [37.0534, 14.2758], [37.0606, 14.2775], [37.0714, 14.2859], [37.0822, 14.2977],
+  [37.0894, 14.3146], [37.093, 14.3349], [37.093, 14.3585], [37.0966, 14.3788], [37.1074, 14.3991], [37.1218, 14.421],
+  [37.1506, 14.4413], [37.183, 14.4497], [37.2586, 14.448], [37.2802, 14.4548], [37.2946, 14.4582], [37.3198, 14.4379],
+  [37.3378, 14.4261], [37.3738, 14.3737], [37.3918, 14.3585], [37.3954, 14.3501], [37.3954, 14.3349], [37.3954, 14.3129],
+  [37.399, 14.3011], [37.4134, 14.2944], [37.453, 14.2606], [37.4566, 14.2538], [37.4638, 14.2353], [37.471, 14.2116],
+  [37.4746, 14.1998], [37.489, 14.1947], [37.4998, 14.193], [37.507, 14.188], [37.5178, 14.1812], [37.5178, 14.1711],
+  [37.5214, 14.1458], [37.525, 14.1289], [37.5358, 14.1171], [37.5538, 14.1052], [37.5646, 14.1171], [37.6006, 14.2015],
+  [37.6582, 14.3349], [37.723, 14.4818], [37.7842, 14.6321], [37.849, 14.7841], [37.8922, 14.8803], [37.9102, 14.8651],
+  [37.921, 14.8482], [37.939, 14.8111], [37.9462, 14.8077], [37.9534, 14.806], [37.957, 14.8026], [37.957, 14.7992],
+  [37.957, 14.7874], [37.957, 14.7857], [37.9606, 14.7773], [37.9642, 14.7705], [37.9678, 14.7672], [37.9786, 14.7638],
+  [37.9894, 14.757], [37.993, 14.7503], [37.993, 14.7401], [38.0002, 14.7317], [38.0074, 14.725], [38.1154, 14.681],
+  [38.1334, 14.6777], [38.191, 14.6878], [38.2126, 14.6861], [38.2306, 14.6794], [38.2378, 14.6675], [38.245, 14.6523],
+  [38.2486, 14.6473], [38.2522, 14.6203], [38.2594, 14.6101], [38.2666, 14.6017], [38.2774, 14.5949], [38.2882, 14.5882],
+  [38.2954, 14.5747], [38.3062, 14.5375], [38.3134, 14.5189], [38.3242, 14.5054], [38.3422, 14.4919], [38.3926, 14.4649],
+  [38.4034, 14.4565], [38.4106, 14.4345], [38.4142, 14.4261], [38.4286, 14.4176], [38.4358, 14.4159], [38.443, 14.4193],
+  [38.4934, 14.4176], [38.569, 14.4261], [38.605, 14.4362], [38.6698, 14.4683], [38.6878, 14.4666], [38.7058, 14.4615],
+  [38.7238, 14.4598], [38.7418, 14.4615], [38.7634, 14.4649], [38.821, 14.4902], [38.8678, 14.4936], [38.8858, 14.5054],
+  [38.9182, 14.5358], [38.9578, 14.5544], [38.9794, 14.5679], [38.9938, 14.5848], [38.9974, 14.6034], [38.9938, 14.6219],
+  [38.9974, 14.6388], [39.0082, 14.6507], [39.0118, 14.6473], [39.0478, 14.6439], [39.0766, 14.6371], [39.0838, 14.6338],
+  [39.109, 14.6203], [39.127, 14.6017], [39.145, 14.5814], [39.1594, 14.5595], [39.1882, 14.4767], [39.2098, 14.4396],
+  [39.2314, 14.4413], [39.2566, 14.475], [39.2674, 14.4869], [39.2926, 14.4902], [39.3466, 14.4818], [39.3682, 14.4835],
+  [39.4474, 14.5054], [39.4906, 14.524], [39.5086, 14.5477], [39.5158, 14.5679], [39.5338, 14.5679], [39.5518, 14.5561],
+  [39.5662, 14.5443], [39.5878, 14.5206], [39.595, 14.5139], [39.5986, 14.5122], [39.6526, 14.497], [39.6778, 14.4936],
+  [39.7246, 14.5021], [39.7354, 14.5037], [39.7678, 14.5054], [39.7966, 14.4953], [39.8254, 14.4784], [39.8758, 14.4328],
+  [39.8938, 14.4261], [39.9118, 14.4227], [39.9298, 14.4294], [39.9622, 14.4548], [39.9802, 14.4582], [39.9982, 14.4548],
+  [40.0234, 14.4514], [40.0378, 14.4514], [40.0882, 14.4666], [40.1062, 14.4666], [40.1926, 14.4446], [40.2394, 14.4278],
+  [40.2754, 14.4041], [40.3546, 14.3349], [40.423, 14.2741], [40.4806, 14.2437], [40.585, 14.1947], [40.6138, 14.1863],
+  [40.7038, 14.1728], [40.7722, 14.1491], [40.8334, 14.1052], [40.9378, 13.9904], [41.0422, 13.8722], [41.1214, 13.7388],
+  [41.1934, 13.6156], [41.2222, 13.5869], [41.3554, 13.5024], [41.5318, 13.3944], [41.6362, 13.3099], [41.7118, 13.2474],
+  [41.7514, 13.2086], [41.7838, 13.1647], [41.8162, 13.1124], [41.8954, 12.9486], [41.9458, 12.876], [42.025, 12.827],
+  [42.0826, 12.8034], [42.1366, 12.773], [42.1834, 12.7324], [42.2518, 12.6244], [42.331, 12.5163], [42.3778, 12.4656],
+  [42.3202, 12.3863], [42.2878, 12.3204], [42.1546, 12.1414], [42.1402, 12.106], [42.133, 12.0941], [42.1078, 12.0823],
+  [42.097, 12.0705], [42.0574, 11.9962], [41.9746, 11.8814], [41.935, 11.8274], [41.9242, 11.8172], [41.9098, 11.8054],
+  [41.899, 11.7986], [41.8846, 11.7953], [41.8774, 11.7902], [41.8738, 11.7767], [41.863, 11.7632], [41.8234, 11.7463],
+  [41.809, 11.7362], [41.791, 11.7041], [41.7802, 11.6281], [41.7478, 11.5386], [41.7514, 11.4829], [41.7766, 11.3681],
+  [41.7874, 11.26], [41.7838, 11.0675], [41.7802, 11.0253], [41.7622, 10.9966], [41.7658, 10.9898], [41.773, 10.9797],
+  [41.7982, 10.9712], [41.917, 10.9476], [41.9206, 10.9425], [41.9242, 10.9358], [41.9278, 10.9307], [41.9386, 10.929],
+  [41.9422, 10.9341], [41.9458, 10.9392], [41.953, 10.9408], [42.0106, 10.9442], [42.0394, 10.951], [42.0682, 10.9814],
+  [42.097, 10.9898], [42.151, 10.9966], [42.2014, 10.9848], [42.223, 10.9848], [42.2338, 10.9881], [42.2698, 11.0033],
+  [42.2806, 11.005], [42.2986, 11.0033], [42.3058, 11.005], [42.3382, 11.0151], [42.3598, 11.0118], [42.3778, 11.0067],
+  [42.3922, 11.0067], [42.4138, 11.0151], [42.4786, 11.059], [42.5686, 11.0861], [42.6082, 11.0894], [42.6154, 11.0894],
+  [42.6874, 11.0726], [42.709, 11.0726], [42.7306, 11.0658], [42.7558, 11.0101], [42.7702, 10.9966], [42.7954, 10.9915],
+  [42.835, 10.9881], [42.8602, 10.9797], [42.8746, 10.978], [42.889, 10.9831], [42.8998, 10.9949], [42.907, 11.005],
+  [42.925, 10.9983], [42.9106, 10.978], [42.8998, 10.9358], [42.8926, 10.9189], [42.8782, 10.9054], [42.835, 10.8885],
+  [42.8206, 10.8733], [42.8098, 10.853], [42.8062, 10.8362], [42.8026, 10.821], [42.7846, 10.8041], [42.7486, 10.7754],
+  [42.7378, 10.7602], [42.727, 10.7348], [42.7198, 10.6943], [42.7126, 10.6757], [42.6982, 10.6589], [42.6802, 10.647],
+  [42.6586, 10.642], [42.6478, 10.6318], [42.6478, 10.6116], [42.6694, 10.566], [42.6946, 10.5255], [42.7486, 10.4714],
+  [42.7666, 10.4512], [42.7774, 10.4241], [42.7882, 10.333], [42.8098, 10.2688], [42.835, 10.208], [42.8638, 10.1776],
+  [42.9574, 10.1151], [42.9826, 10.0915], [43.0006, 10.0628], [43.0114, 10.029], [43.0222, 9.9969], [43.0402, 9.9497],
+  [43.069, 9.9226], [43.105, 9.9074], [43.1482, 9.9007], [43.1878, 9.8838], [43.2058, 9.8517], [43.2346, 9.6913],
+  [43.249, 9.6525], [43.2706, 9.6288], [43.2994, 9.6221], [43.3066, 9.617], [43.3138, 9.6069], [43.3246, 9.5866],
+  [43.3318, 9.5748], [43.3426, 9.5663], [43.3606, 9.5528], [43.3714, 9.5444], [43.393, 9.4988], [43.4002, 9.4802],
+  [43.4002, 9.4481], [43.4074, 9.4279], [43.4182, 9.4127], [43.4722, 9.3823], [43.5478, 9.3367], [43.5658, 9.335],
+  [43.591, 9.3435], [43.609, 9.3451], [43.6198, 9.3367], [43.699, 9.2675], [43.789, 9.1864], [43.915, 9.0716],
+  [43.9834, 9.0091], [44.023, 8.9855], [44.1058, 8.9585], [44.1922, 8.9298], [44.2786, 8.901], [44.3686, 8.8723],
+  [44.455, 8.8436], [44.545, 8.8149], [44.6314, 8.7862], [44.7214, 8.7575], [44.8078, 8.7271], [44.8978, 8.6984],
+  [44.9843, 8.6697], [45.0743, 8.641], [45.1607, 8.6123], [45.2507, 8.5836], [45.3371, 8.5549], [45.4271, 8.5262],
+  [45.5135, 8.4958], [45.5999, 8.4688], [45.6827, 8.4401], [45.7655, 8.413], [45.8519, 8.3843], [45.9347, 8.3556],
+  [46.0175, 8.3286], [46.1003, 8.2999], [46.1867, 8.2712], [46.2695, 8.2442], [46.3523, 8.2155], [46.4387, 8.1868],
+  [46.5215, 8.1598], [46.6043, 8.1311], [46.6907, 8.1024], [46.7735, 8.0753], [46.8563, 8.0466], [46.9211, 8.0264],
+  [46.9787, 7.996], [47.0687, 7.996], [47.2091, 7.996], [47.3675, 7.996], [47.5223, 7.996], [47.6555, 7.996],
+  [47.8355, 7.996], [47.9795, 7.996], [47.9291, 7.9504], [47.8823, 7.9031], [47.8319, 7.8558], [47.7851, 7.8085],
+  [47.7347, 7.7629], [47.6879, 7.7157], [47.6375, 7.6684], [47.5907, 7.6211], [47.5403, 7.5755], [47.5331, 7.5654],
+  [47.4935, 7.5282], [47.4431, 7.481], [47.3963, 7.4337], [47.3459, 7.3881], [47.2991, 7.3408], [47.2487, 7.2935],
+  [47.2019, 7.2462], [47.1515, 7.2007], [47.1047, 7.1534], [47.0543, 7.1061], [47.0075, 7.0588], [46.9571, 7.0115],
+  [46.9103, 6.9659], [46.8599, 6.9187], [46.8131, 6.8714], [46.7627, 6.8241], [46.7159, 6.7785], [46.6655, 6.7312],
+  [46.6187, 6.6839], [46.5971, 6.6654], [46.5539, 6.6215], [46.5071, 6.5776], [46.4891, 6.559], [46.4675, 6.5387],
+  [46.4243, 6.4965], [46.3631, 6.434], [46.3019, 6.3716], [46.2407, 6.3091], [46.1795, 6.2466], [46.1183, 6.1841],
+  [46.0571, 6.1216], [45.9959, 6.0592], [45.9347, 5.9967], [45.8303, 5.8802], [45.7223, 5.762], [45.6143, 5.6455],
+  [45.5171, 5.5408], [45.5063, 5.5273], [45.3983, 5.4108], [45.2939, 5.2942], [45.1859, 5.176], [45.0779, 5.0595],
+  [45.0202, 4.9971], [44.941, 4.9109], [44.9122, 4.8991], [44.8582, 4.9025], [44.8078, 4.9059], [44.7538, 4.9093],
+  [44.7034, 4.9109], [44.6494, 4.9143], [44.599, 4.9177], [44.5954, 4.9177], [44.5486, 4.9211], [44.4946, 4.9228],
+  [44.4442, 4.9261], [44.3902, 4.9295], [44.3398, 4.9329], [44.2894, 4.9363], [44.2354, 4.938], [44.185, 4.9413],
+  [44.131, 4.9447], [44.0806, 4.9481], [44.0302, 4.9498], [43.969, 4.9532], [43.933, 4.9447], [43.8466, 4.9143],
+  [43.8142, 4.9076], [43.717, 4.8856], [43.6414, 4.867], [43.5298, 4.8417], [43.4578, 4.8096], [43.3462, 4.7556],
+  [43.231, 4.7016], [43.1194, 4.6475], [43.0366, 4.5783], [42.961, 4.5175], [42.9538, 4.5074], [42.9466, 4.4972],
+  [42.9322, 4.4635], [42.9142, 4.3925], [42.8998, 4.3605], [42.871, 4.3284], [42.8674, 4.3267], [42.8314, 4.3031],
+  [42.7882, 4.2862], [42.7198, 4.2727], [42.5686, 4.2473], [42.4138, 4.222], [42.2986, 4.2017], [42.223, 4.2017],
+  [42.1366, 4.2], [42.1042, 4.1916], [42.0682, 4.1747], [42.0106, 4.1291], [41.9422, 4.0869], [41.9242, 4.07],
+  [41.917, 4.0515], [41.917, 4.0211], [41.9134, 4.0076], [41.899, 3.9974], [41.8846, 3.9772], [41.8342, 3.9501],
+  [41.791, 3.9586], [41.7478, 3.9822], [41.701, 3.9974], [41.6578, 3.9721], [41.6434, 3.9687], [41.629, 3.9721],
+  [41.6038, 3.9822], [41.5858, 3.9839], [41.5066, 3.9636], [41.4814, 3.9636], [41.431, 3.9485], [41.3158, 3.9417],
+  [41.215, 3.9366], [41.1646, 3.9434], [41.1142, 3.962], [41.071, 3.9974], [41.0062, 4.0869], [40.981, 4.1106],
+  [40.963, 4.1207], [40.9162, 4.1359], [40.8982, 4.146], [40.8874, 4.1561], [40.8694, 4.1865], [40.8478, 4.2152],
+  [40.7866, 4.2558], [40.765, 4.2845], [40.7002, 4.244], [40.6174, 4.2119], [40.513, 4.1713], [40.3834, 4.1207],
+  [40.3762, 4.1156], [40.3726, 4.1004], [40.3654, 4.0954], [40.2862, 4.0667], [40.1854, 4.0329], [40.1818, 4.0312],
+  [40.1782, 4.0329], [40.1782, 4.0346], [40.1674, 4.0363], [40.1674, 4.0312], [40.1674, 4.0244], [40.1638, 4.0194],
+  [40.117, 3.9974], [40.0198, 3.9501], [39.9334, 3.9079], [39.847, 3.8674], [39.829, 3.8421], [39.8074, 3.7897],
+  [39.7822, 3.7171], [39.7642, 3.685], [39.7462, 3.6614], [39.667, 3.5888], [39.6022, 3.5297], [39.5734, 3.4976],
+  [39.5518, 3.4317], [39.5374, 3.4047], [39.505, 3.403], [39.487, 3.4132], [39.4798, 3.4267], [39.4762, 3.4402],
+  [39.4654, 3.452], [39.4366, 3.4621], [39.3106, 3.4655], [39.3214, 3.4841], [39.3142, 3.4942], [39.3034, 3.4959],
+  [39.2962, 3.4925], [39.2566, 3.4689], [39.2206, 3.4689], [39.181, 3.4773], [39.091, 3.5179], [39.0766, 3.5246],
+  [39.0694, 3.5263], [39.0118, 3.5145], [38.9938, 3.5145], [38.9794, 3.5196], [38.965, 3.5229], [38.9218, 3.5145],
+  [38.8966, 3.5128], [38.821, 3.5331], [38.7238, 3.5601], [38.7022, 3.5702], [38.6878, 3.5871], [38.6626, 3.6226],
+  [38.6626, 3.6158], [38.659, 3.6006], [38.659, 3.5938], [38.6014, 3.5989], [38.5978, 3.6023], [38.5942, 3.6074],
+  [38.5942, 3.6107], [38.5798, 3.6057], [38.5726, 3.604], [38.5618, 3.6057], [38.5474, 3.609], [38.5438, 3.6158],
+  [38.5402, 3.6226], [38.533, 3.6327], [38.515, 3.6479], [38.5078, 3.6513], [38.5006, 3.6462], [38.497, 3.6378],
+  [38.497, 3.6293], [38.497, 3.6242], [38.4466, 3.6023], [38.389, 3.5972], [38.2846, 3.609], [38.1766, 3.6209],
+  [38.1442, 3.6192], [38.1154, 3.6107], [38.101, 3.6124], [38.0794, 3.6327], [38.0506, 3.6411], [38.0362, 3.6496],
+  [38.0218, 3.6665], [37.9966, 3.7087], [37.975, 3.7272], [37.9462, 3.7458], [37.8454, 3.81], [37.7518, 3.8708],
+  [37.6474, 3.9383], [37.5574, 3.9974], [37.4746, 4.0498], [37.3594, 4.1224], [37.2622, 4.1849], [37.165, 4.2473],
+  [37.111, 4.2828], [37.1074, 4.2845], [37.1002, 4.2845], [37.0966, 4.2845], [37.093, 4.2895], [37.0858, 4.3132],
+  [37.0822, 4.3216], [37.075, 4.3318], [37.0678, 4.3334], [37.0498, 4.3318], [37.0426, 4.3368], [37.0246, 4.3638],
+  [37.0174, 4.3706], [36.9742, 4.3807], [36.9022, 4.4162], [36.8446, 4.4331], [36.6502, 4.4314], [36.643, 4.4331],
+  [36.6286, 4.4415], [36.6178, 4.4432], [36.463, 4.4398], [36.2758, 4.4364], [36.265, 4.4381], [36.247, 4.4466],
+  [36.2362, 4.45], [36.2254, 4.45], [36.193, 4.4449], [36.0454, 4.4432], [36.0418, 4.4432], [36.0202, 4.45],
+  [35.9986, 4.4635], [35.959, 4.4972], [35.941, 4.5074], [35.9338, 4.5226], [35.9338, 4.5395], [35.9374, 4.5597],
+  [35.9374, 4.5783], [35.923, 4.6019], [35.9194, 4.6188], [35.7862, 4.764], [35.761, 4.8062], [35.7502, 4.8535],
+  [35.7574, 5.0629], [35.761, 5.0764], [35.8006, 5.1254], [35.8078, 5.144], [35.8078, 5.1659], [35.797, 5.1896],
+  [35.779, 5.2267], [35.7754, 5.247], [35.7826, 5.2706], [35.8078, 5.3094], [35.8042, 5.3179], [35.7502, 5.3398],
+  [35.6854, 5.3804], [35.6566, 5.3871], [35.6386, 5.3821], [35.6206, 5.3736], [35.599, 5.3685], [35.5738, 5.3753],
+  [35.5306, 5.4108], [35.509, 5.4226], [35.491, 5.4276], [35.4694, 5.431], [35.4478, 5.431], [35.4298, 5.4276],
+  [35.4082, 5.4124], [35.3686, 5.3685], [35.3434, 5.3517], [35.3218, 5.3483], [35.3038, 5.3567], [35.2858, 5.3736],
+  [35.2534, 5.426], [35.2498, 5.4344], [35.2534, 5.4479], [35.2606, 5.458], [35.2678, 5.4682], [35.275, 5.48],
+  [35.2678, 5.4918], [35.2606, 5.5121], [35.2246, 5.5425], [35.1418, 5.5897], [35.0986, 5.6218], [35.0878, 5.6421],
+  [35.0806, 5.6995], [35.0662, 5.7265], [34.9834, 5.8413], [34.9761, 5.8633], [34.9725, 5.8768], [34.9761, 5.8869],
+  [34.9761, 5.8988], [34.9798, 5.9123], [34.9761, 5.9241], [34.9618, 5.941], [34.9545, 5.9528], [34.9545, 5.9646],
+  [34.9582, 5.9747], [34.9689, 5.9967], [34.9689, 6.0085], [34.9582, 6.0625], [34.9509, 6.0811], [34.9329, 6.1031],
+  [34.9149, 6.12], [34.9005, 6.1385], [34.8789, 6.1875], [34.8429, 6.2483], [34.8393, 6.2686], [34.8393, 6.3277],
+  [34.8321, 6.353], [34.7925, 6.4222], [34.7853, 6.4425], [34.7745, 6.4999], [34.7529, 6.5556], [34.7421, 6.5961],
+  [34.7349, 6.6384], [34.7277, 6.6417], [34.7133, 6.6552], [34.7097, 6.6738], [34.7025, 6.6856], [34.6341, 6.7295],
+  [34.6197, 6.7363], [34.5981, 6.7397], [34.5549, 6.7397], [34.5369, 6.743], [34.5261, 6.7532], [34.5189, 6.7937],
+  [34.5153, 6.7988], [34.5117, 6.8089], [34.5117, 6.814], [34.5117, 6.8157], [34.5225, 6.8224], [34.5261, 6.8241],
+  [34.5225, 6.8444], [34.5189, 6.8612], [34.5117, 6.8764], [34.5045, 6.89], [34.4397, 6.9355], [34.2993, 6.9693],
+  [34.2957, 6.9727], [34.2885, 6.9761], [34.2813, 6.9794], [34.2741, 6.998], [34.2705, 7.0031], [34.2309, 7.0335],
+  [34.2201, 7.0453], [34.2129, 7.0521], [34.2057, 7.0537], [34.1985, 7.0639], [34.1949, 7.0875], [34.1949, 7.0976],
+  [34.1949, 7.1297], [34.1913, 7.15], [34.1805, 7.1669], [34.1661, 7.1753], [34.1517, 7.1669], [34.1337, 7.1635],
+  [34.1121, 7.177], [34.0869, 7.2108], [34.0401, 7.2479], [34.0329, 7.2496], [34.0293, 7.2547], [34.0293, 7.3492],
+  [34.0221, 7.383], [34.0077, 7.41], [33.8817, 7.5367], [33.8529, 7.5536], [33.8421, 7.5553], [33.8205, 7.5586],
+  [33.8097, 7.5603], [33.7593, 7.5975], [33.7305, 7.6414], [33.7161, 7.6566], [33.7053, 7.6616], [33.6765, 7.6701],
+  [33.6477, 7.6886], [33.6369, 7.692], [33.5721, 7.6853], [33.5505, 7.692], [33.5397, 7.6988], [33.5253, 7.7174],
+  [33.5181, 7.7258], [33.5073, 7.7309], [33.4893, 7.7359], [33.4785, 7.7427], [33.4605, 7.7494], [33.4353, 7.7477],
+  [33.3921, 7.7393], [33.3849, 7.7359], [33.3597, 7.719], [33.3489, 7.719], [33.2913, 7.7326], [33.2733, 7.7494],
+  [33.2589, 7.768], [33.2409, 7.7815], [33.2337, 7.7832], [33.2013, 7.7883], [33.1725, 7.8001], [33.1653, 7.8018],
+  [33.1329, 7.7933], [33.1257, 7.7917], [33.1221, 7.7832], [33.1077, 7.7849], [33.0861, 7.795], [33.0573, 7.7984],
+  [33.0501, 7.8018], [33.0465, 7.8068], [33.0429, 7.817], [33.0393, 7.8254], [33.0249, 7.8356], [33.0141, 7.8508],
+  [32.9889, 7.9166], [32.9925, 7.9284], [33.0069, 7.9419], [33.0069, 7.9436], [33.0105, 7.9538], [33.0177, 7.9588],
+  [33.0213, 7.9656], [33.0249, 7.9858], [33.0321, 7.996], [33.0429, 8.0129], [33.1005, 8.0703], [33.1077, 8.0804],
+  [33.1113, 8.0905], [33.1149, 8.099], [33.1185, 8.104], [33.1473, 8.1091], [33.1653, 8.1175], [33.1761, 8.1277],
+  [33.1869, 8.1412], [33.1869, 8.1615], [33.1833, 8.1665], [33.1725, 8.1766], [33.1689, 8.1817], [33.1689, 8.1952],
+  [33.1689, 8.2054], [33.1725, 8.2138], [33.1833, 8.2256], [33.1905, 8.2324], [33.2013, 8.2357], [33.2085, 8.2408],
+  [33.2085, 8.2543], [33.1941, 8.2594], [33.1869, 8.2645], [33.1797, 8.2763], [33.1725, 8.283], [33.1653, 8.2932],
+  [33.1617, 8.305], [33.1617, 8.3117], [33.1725, 8.3303], [33.1725, 8.3438], [33.1725, 8.3472], [33.1617, 8.3523],
+  [33.1617, 8.3556], [33.1617, 8.3607], [33.1653, 8.3675], [33.1689, 8.3725], [33.1689, 8.3894], [33.1689, 8.3979],
+  [33.1725, 8.4046], [33.1869, 8.4114], [33.2013, 8.4147], [33.2121, 8.4215], [33.2085, 8.4266], [33.2049, 8.4299],
+  [33.2337, 8.4553], [33.2517, 8.4586], [33.3597, 8.435], [33.3705, 8.4367], [33.3849, 8.4485], [33.3921, 8.4519],
+  [33.3993, 8.4519], [33.4137, 8.4502], [33.4821, 8.457], [33.4893, 8.4637], [33.4893, 8.4671], [33.4857, 8.4738],
+  [33.5037, 8.4755], [33.5217, 8.4654], [33.5361, 8.4536], [33.5505, 8.4468], [33.5721, 8.4502], [33.5865, 8.4586],
+  [33.6009, 8.4637], [33.6189, 8.4603], [33.6513, 8.435], [33.6729, 8.3995], [33.6945, 8.3725], [33.7413, 8.3675],
+  [33.7521, 8.3691], [33.7557, 8.3708], [33.7989, 8.4063], [33.8097, 8.413], [33.8241, 8.4198], [33.8421, 8.4232],
+  [33.8745, 8.4282], [33.9321, 8.4282], [33.9501, 8.4333], [33.9717, 8.4451], [34.0689, 8.5329], [34.0905, 8.5566],
+  [34.1049, 8.5785], [34.1085, 8.6022], [34.1121, 8.6258], [34.0977, 8.9162], [34.0833, 9.205], [34.0689, 9.4549],
+  [34.0653, 9.5309], [34.0977, 9.6795], [34.2201, 10.0256], [34.2813, 10.0797], [34.3029, 10.1134], [34.3065, 10.1253],
+  [34.3029, 10.1489], [34.3029, 10.1607], [34.3029, 10.1658], [34.3137, 10.1759], [34.3173, 10.181], [34.3245, 10.2232],
+  [34.3245, 10.2688], [34.2777, 10.4883], [34.2705, 10.5305], [34.2777, 10.566], [34.3641, 10.6859], [34.4037, 10.7602],
+  [34.4217, 10.7804], [34.4361, 10.7956], [34.5585, 10.8784], [34.5765, 10.8834], [34.5873, 10.8801], [34.7097, 10.7737],
+  [34.7385, 10.7551], [34.7493, 10.7433], [34.7565, 10.7281], [34.7529, 10.6994], [34.7529, 10.6842], [34.7637, 10.6808],
+  [34.7745, 10.6876], [34.7853, 10.7196], [34.7997, 10.7298], [34.8141, 10.7315], [34.8285, 10.7281], [34.8393, 10.7298],
+  [34.8501, 10.745], [34.8573, 10.7635], [34.8573, 10.7754], [34.8609, 10.7872], [34.8789, 10.8041], [34.9329, 10.8446],
+  [34.9509, 10.8699], [34.9582, 10.9037], [34.9545, 10.9189], [34.9221, 10.9392], [34.9149, 10.9527], [34.9149, 10.9645],
+  [34.9798, 11.1553], [34.9834, 11.1857], [34.9725, 11.2076], [34.9545, 11.2262], [34.9437, 11.2532], [34.9473, 11.2752],
+  [35.0734, 11.5487], [35.077, 11.569], [35.0734, 11.5876], [35.0518, 11.6281], [35.0446, 11.6484], [35.0481, 11.6889],
+  [35.041, 11.7277], [35.041, 11.748], [35.0481, 11.7716], [35.059, 11.7953], [35.0734, 11.8189], [35.0878, 11.8375],
+  [35.1274, 11.8628], [35.149, 11.8713], [35.2174, 11.8966], [35.2462, 11.9304], [35.2462, 11.9388], [35.2498, 11.9574],
+  [35.2498, 11.9624], [35.2498, 11.9709], [35.2606, 11.981], [35.2966, 12.0013], [35.3182, 12.0232], [35.3254, 12.0469],
+  [35.3362, 12.1026], [35.3542, 12.1465], [35.3614, 12.1566], [35.3722, 12.1651], [35.3938, 12.1769], [35.4046, 12.1853],
+  [35.4118, 12.1988], [35.4154, 12.2107], [35.419, 12.2394], [35.4298, 12.2664], [35.617, 12.5754], [35.6242, 12.5855],
+  [35.635, 12.5889], [35.653, 12.5906], [35.6638, 12.594], [35.671, 12.6041], [35.6746, 12.6142], [35.6782, 12.626],
+  [35.6854, 12.6514], [35.6854, 12.6564], [35.689, 12.6598], [35.6998, 12.6649], [35.7034, 12.6666], [35.7286, 12.675],
+  [36.031, 12.7172], [36.0382, 12.7172], [36.049, 12.7155], [36.0562, 12.7122], [36.0634, 12.7071], [36.0706, 12.7037],
+  [36.0994, 12.6953], [36.1138, 12.702], [36.1246, 12.7206], [36.1426, 12.8321], [36.1426, 12.8574], [36.139, 12.8726],
+  [36.1138, 12.9114], [36.1138, 12.9334], [36.1246, 12.9503], [36.1426, 12.9655], [36.1498, 12.9807], [36.1498, 12.9891],
+  [36.1462, 12.9975], [36.139, 13.0127], [36.1354, 13.033], [36.2326, 13.3623], [36.3838, 13.5717], [36.391, 13.5987],
+  [36.3946, 13.6561], [36.3982, 13.6763], [36.4414, 13.776], [36.4594, 13.8199], [36.4558, 13.8705], [36.4378, 13.9195],
+  [36.4342, 13.9448], [36.4306, 13.9702], [36.4378, 13.9904], [36.5278, 14.264]
+];
+
+/**
+ * Countries bordering Ethiopia, clockwise from Eritrea
+ */
+export const NEIGHBOURING_COUNTRIES: NeighbouringCountry[] = [
+  {
+    name: 'Eritrea',
+    polygons: [
+      [
+        [
+          [43.1194, 12.7071], [42.8674, 12.626], [42.7846, 12.518], [42.7918, 12.4285], [42.6766, 12.3593], [42.475, 12.5163],
+          [42.4318, 12.5197], [42.3778, 12.4656], [42.331, 12.5163], [42.2518, 12.6244], [42.1834, 12.7324], [42.1366, 12.773],
+          [42.0826, 12.8034], [42.025, 12.827], [41.9458, 12.876], [41.8954, 12.9486], [41.8162, 13.1124], [41.7838, 13.1647],
+          [41.7514, 13.2086], [41.7118, 13.2474], [41.6362, 13.3099], [41.5318, 13.3944], [41.3554, 13.5024], [41.2222, 13.5869],
+          [41.1934, 13.6156], [41.1214, 13.7388], [41.0422, 13.8722], [40.9378, 13.9904], [40.8334, 14.1052], [40.7722, 14.1491],
+          [40.7038, 14.1728], [40.6138, 14.1863], [40.585, 14.1947], [40.4806, 14.2437], [40.423, 14.2741], [40.3546, 14.3349],
+          [40.2754, 14.4041], [40.2394, 14.4278], [40.1926, 14.4446], [40.1062, 14.4666], [40.0882, 14.4666], [40.0378, 14.4514],
+          [40.0234, 14.4514], [39.9982, 14.4548], [39.9802, 14.4582], [39.9622, 14.4548], [39.9298, 14.4294], [39.9118, 14.4227],
+          [39.8938, 14.4261], [39.8758, 14.4328], [39.8254, 14.4784], [39.7966, 14.4953], [39.7678, 14.5054], [39.7354, 14.5037],
+          [39.7246, 14.5021], [39.6778, 14.4936], [39.6526, 14.497], [39.5986, 14.5122], [39.595, 14.5139], [39.5878, 14.5206],
+          [39.5662, 14.5443], [39.5518, 14.5561], [39.5338, 14.5679], [39.5158, 14.5679], [39.5086, 14.5477], [39.4906, 14.524],
+          [39.4474, 14.5054], [39.3682, 14.4835], [39.3466, 14.4818], [39.2926, 14.4902], [39.2674, 14.4869], [39.2566, 14.475],
+          [39.2314, 14.4413], [39.2098, 14.4396], [39.1882, 14.4767], [39.1594, 14.5595], [39.145, 14.5814], [39.127, 14.6017],
+          [39.109, 14.6203], [39.0838, 14.6338], [39.0766, 14.6371], [39.0478, 14.6439], [39.0118, 14.6473], [39.0082, 14.6507],
+          [38.9974, 14.6388], [38.9938, 14.6219], [38.9974, 14.6034], [38.9938, 14.5848], [38.9794, 14.5679], [38.9578, 14.5544],
+          [38.9182, 14.5358], [38.8858, 14.5054], [38.8678, 14.4936], [38.821, 14.4902], [38.7634, 14.4649], [38.7418, 14.4615],
+          [38.7238, 14.4598], [38.7058, 14.4615], [38.6878, 14.4666], [38.6698, 14.4683], [38.605, 14.4362], [38.569, 14.4261],
+          [38.4934, 14.4176], [38.443, 14.4193], [38.4358, 14.4159], [38.4286, 14.4176], [38.4142, 14.4261], [38.4106, 14.4345],
+          [38.4034, 14.4565], [38.3926, 14.4649], [38.3422, 14.4919], [38.3242, 14.5054], [38.3134, 14.5189], [38.3062, 14.5375],
+          [38.2954, 14.5747], [38.2882, 14.5882], [38.2774, 14.5949], [38.2666, 14.6017], [38.2594, 14.6101], [38.2522, 14.6203],
+          [38.2486, 14.6473], [38.245, 14.6523], [38.2378, 14.6675], [38.2306, 14.6794], [38.2126, 14.6861], [38.191, 14.6878],
+          [38.1334, 14.6777], [38.1154, 14.681], [38.0074, 14.725], [38.0002, 14.7317], [37.993, 14.7401], [37.993, 14.7503],
+          [37.9894, 14.757], [37.9786, 14.7638], [37.9678, 14.7672], [37.9642, 14.7705], [37.9606, 14.7773], [37.957, 14.7857],
+          [37.957, 14.7874], [37.957, 14.7992], [37.957, 14.8026], [37.9534, 14.806], [37.9462, 14.8077], [37.939, 14.8111],
+          [37.921, 14.8482], [37.9102, 14.8651], [37.8922, 14.8803], [37.849, 14.7841], [37.7842, 14.6321], [37.723, 14.4818],
+          [37.6582, 14.3349], [37.6006, 14.2015], [37.5646, 14.1171], [37.5538, 14.1052], [37.5358, 14.1171], [37.525, 14.1289],
+          [37.5214, 14.1458], [37.5178, 14.1711], [37.5178, 14.1812], [37.507, 14.188], [37.4998, 14.193], [37.489, 14.1947],
+          [37.4746, 14.1998], [37.471, 14.2116], [37.4638, 14.2353], [37.4566, 14.2538], [37.453, 14.2606], [37.4134, 14.2944],
+          [37.399, 14.3011], [37.3954, 14.3129], [37.3954, 14.3349], [37.3954, 14.3501], [37.3918, 14.3585], [37.3738, 14.3737],
+          [37.3378, 14.4261], [37.3198, 14.4379], [37.2946, 14.4582], [37.2802, 14.4548], [37.2586, 14.448], [37.183, 14.4497],
+          [37.1506, 14.4413], [37.1218, 14.421], [37.1074, 14.3991], [37.0966, 14.3788], [37.093, 14.3585], [37.093, 14.3349],
+          [37.0894, 14.3146], [37.0822, 14.2977], [37.0714, 14.2859], [37.0606, 14.2775], [37.0534, 14.2758], [37.0354, 14.2775],
+          [37.0246, 14.2775], [37.0102, 14.2657], [37.0066, 14.264], [36.9958, 14.264], [36.985, 14.2673], [36.9778, 14.2707],
+          [36.9706, 14.2775], [36.9526, 14.3011], [36.9454, 14.3045], [36.913, 14.3096], [36.8482, 14.3281], [36.8158, 14.3315],
+          [36.7474, 14.3315], [36.7366, 14.3298], [36.7222, 14.3197], [36.715, 14.318], [36.6682, 14.318], [36.6502, 14.3146],
+          [36.6178, 14.3011], [36.6034, 14.2977], [36.5818, 14.2961], [36.5674, 14.2927], [36.553, 14.2825], [36.5458, 14.264],
+          [36.5278, 14.264], [36.4234, 15.1336], [36.5062, 15.2197], [36.5746, 15.3936], [36.6286, 15.446], [36.6178, 15.5321],
+          [36.6718, 15.7229], [36.7582, 15.8377], [36.8842, 16.1856], [36.9454, 16.2531], [36.9346, 16.4186], [36.877, 16.5267],
+          [36.8914, 16.6364], [36.9598, 16.7057], [36.9994, 16.8374], [36.9742, 17.0619], [37.1326, 17.0163], [37.309, 17.0552],
+          [37.4026, 17.0299], [37.4962, 17.1751], [37.4962, 17.3119], [37.7194, 17.3845], [37.7986, 17.4773], [37.8958, 17.4419],
+          [38.0398, 17.5483], [38.0722, 17.5381], [38.0758, 17.479], [38.119, 17.5449], [38.2342, 17.5263], [38.2558, 17.6023],
+          [38.371, 17.6985], [38.461, 17.891], [38.6014, 18.0042], [38.929, 17.3963], [38.9542, 17.2528], [39.0118, 17.1649],
+          [39.163, 16.6567], [39.1486, 16.5452], [39.1774, 16.5216], [39.2314, 16.1231], [39.2926, 15.9289], [39.4366, 15.8124],
+          [39.4222, 15.7668], [39.4762, 15.6604], [39.4438, 15.6351], [39.4834, 15.6334], [39.4294, 15.603], [39.4582, 15.5253],
+          [39.5734, 15.5388], [39.613, 15.5], [39.6634, 15.3362], [39.7174, 15.2636], [39.7138, 15.0947], [39.775, 15.0711],
+          [39.8254, 15.0964], [39.8578, 15.1927], [39.8182, 15.2805], [39.7894, 15.2569], [39.775, 15.4021], [39.8758, 15.5034],
+          [40.081, 15.3413], [40.027, 15.2366], [40.1602, 14.9816], [40.2862, 14.9141], [40.3906, 15.0036], [40.4014, 14.9664],
+          [40.4554, 15.0053], [40.5058, 14.9647], [40.513, 15.0171], [40.5598, 14.9546], [40.6174, 14.9478], [40.6282, 14.8921],
+          [40.6894, 14.9006], [40.6714, 14.8803], [40.729, 14.8347], [40.7254, 14.757], [40.765, 14.6946], [40.8838, 14.7148],
+          [40.9738, 14.6692], [41.1682, 14.6371], [41.3086, 14.4886], [41.3266, 14.4176], [41.5066, 14.2133], [41.5318, 14.1373],
+          [41.6218, 14.063], [41.6758, 13.9398], [41.7982, 13.9347], [41.8486, 13.8756], [41.971, 13.8452], [42.1078, 13.6443],
+          [42.1438, 13.651], [42.223, 13.5548], [42.1978, 13.5987], [42.2194, 13.6324], [42.1582, 13.6561], [42.1834, 13.6679],
+          [42.2878, 13.575], [42.3778, 13.2221], [42.475, 13.1951], [42.5326, 13.2322], [42.655, 13.0718], [42.7306, 13.033],
+          [42.781, 12.8523], [42.835, 12.8641], [42.9286, 12.7898], [42.979, 12.8236], [43.0006, 12.8996], [43.087, 12.8202],
+          [43.1194, 12.7071]
+        ]
+      ],
+      [
+        [
+          [40.387, 15.6418], [40.4158, 15.5979], [40.3942, 15.5726], [39.9802, 15.6064], [39.937, 15.7026], [39.973, 15.6604],
+          [40.081, 15.6604], [40.009, 15.7364], [39.9298, 15.7398], [39.9334, 15.7888], [39.991, 15.7702], [39.9766, 15.8158],
+          [40.0378, 15.8377], [39.9514, 15.8934], [40.0918, 15.8495], [40.0954, 15.7854], [40.135, 15.8056], [40.1314, 15.7111],
+          [40.1638, 15.6435], [40.2322, 15.6267], [40.261, 15.6638], [40.2178, 15.6858], [40.2682, 15.7043], [40.387, 15.6418]
+        ]
+      ]
+    ]
+  },
+  {
+    name: 'Djibouti',
+    polygons: [
+      [
+        [
+          [43.2418, 11.4879], [42.925, 10.9983], [42.907, 11.005], [42.8998, 10.9949], [42.889, 10.9831], [42.8746, 10.978],
+          [42.8602, 10.9797], [42.835, 10.9881], [42.7954, 10.9915], [42.7702, 10.9966], [42.7558, 11.0101], [42.7306, 11.0658],
+          [42.709, 11.0726], [42.6874, 11.0726], [42.6154, 11.0894], [42.6082, 11.0894], [42.5686, 11.0861], [42.4786, 11.059],
+          [42.4138, 11.0151], [42.3922, 11.0067], [42.3778, 11.0067], [42.3598, 11.0118], [42.3382, 11.0151], [42.3058, 11.005],
+          [42.2986, 11.0033], [42.2806, 11.005], [42.2698, 11.0033], [42.2338, 10.9881], [42.223, 10.9848], [42.2014, 10.9848],
+          [42.151, 10.9966], [42.097, 10.9898], [42.0682, 10.9814], [42.0394, 10.951], [42.0106, 10.9442], [41.953, 10.9408],
+          [41.9458, 10.9392], [41.9422, 10.9341], [41.9386, 10.929], [41.9278, 10.9307], [41.9242, 10.9358], [41.9206, 10.9425],
+          [41.917, 10.9476], [41.7982, 10.9712], [41.773, 10.9797], [41.7658, 10.9898], [41.7622, 10.9966], [41.7802, 11.0253],
+          [41.7838, 11.0675], [41.7874, 11.26], [41.7766, 11.3681], [41.7514, 11.4829], [41.7478, 11.5386], [41.7802, 11.6281],
+          [41.791, 11.7041], [41.809, 11.7362], [41.8234, 11.7463], [41.863, 11.7632], [41.8738, 11.7767], [41.8774, 11.7902],
+          [41.8846, 11.7953], [41.899, 11.7986], [41.9098, 11.8054], [41.9242, 11.8172], [41.935, 11.8274], [41.9746, 11.8814],
+          [42.0574, 11.9962], [42.097, 12.0705], [42.1078, 12.0823], [42.133, 12.0941], [42.1402, 12.106], [42.1546, 12.1414],
+          [42.2878, 12.3204], [42.3202, 12.3863], [42.3778, 12.4656], [42.4318, 12.5197], [42.475, 12.5163], [42.6766, 12.3593],
+          [42.7918, 12.4285], [42.7846, 12.518], [42.8674, 12.626], [43.1194, 12.7071], [43.2814, 12.496], [43.3282, 12.4893],
+          [43.4146, 12.2242], [43.4002, 12.03], [43.3498, 11.9878], [43.2058, 11.9574], [43.0546, 11.8037], [42.7774, 11.7328],
+          [42.6694, 11.569], [42.5146, 11.5673], [42.5398, 11.5031], [42.6046, 11.4677], [42.6802, 11.4846], [42.6658, 11.515],
+          [42.6946, 11.5454], [42.8566, 11.596], [43.105, 11.5774], [43.1518, 11.6112], [43.1842, 11.5268], [43.2418, 11.4879]
+        ]
+      ]
+    ]
+  },
+  {
+    name: 'Somaliland',
+    polygons: [
+      [
+        [
+          [48.9407, 11.2499], [48.9407, 9.4515], [47.9795, 7.996], [47.8355, 7.996], [47.6555, 7.996], [47.5223, 7.996],
+          [47.3675, 7.996], [47.2091, 7.996], [47.0687, 7.996], [46.9787, 7.996], [46.9211, 8.0264], [46.8563, 8.0466],
+          [46.7735, 8.0753], [46.6907, 8.1024], [46.6043, 8.1311], [46.5215, 8.1598], [46.4387, 8.1868], [46.3523, 8.2155],
+          [46.2695, 8.2442], [46.1867, 8.2712], [46.1003, 8.2999], [46.0175, 8.3286], [45.9347, 8.3556], [45.8519, 8.3843],
+          [45.7655, 8.413], [45.6827, 8.4401], [45.5999, 8.4688], [45.5135, 8.4958], [45.4271, 8.5262], [45.3371, 8.5549],
+          [45.2507, 8.5836], [45.1607, 8.6123], [45.0743, 8.641], [44.9843, 8.6697], [44.8978, 8.6984], [44.8078, 8.7271],
+          [44.7214, 8.7575], [44.6314, 8.7862], [44.545, 8.8149], [44.455, 8.8436], [44.3686, 8.8723], [44.2786, 8.901],
+          [44.1922, 8.9298], [44.1058, 8.9585], [44.023, 8.9855], [43.9834, 9.0091], [43.915, 9.0716], [43.789, 9.1864],
+          [43.699, 9.2675], [43.6198, 9.3367], [43.609, 9.3451], [43.591, 9.3435], [43.5658, 9.335], [43.5478, 9.3367],
+          [43.4722, 9.3823], [43.4182, 9.4127], [43.4074, 9.4279], [43.4002, 9.4481], [43.4002, 9.4802], [43.393, 9.4988],
+          [43.3714, 9.5444], [43.3606, 9.5528], [43.3426, 9.5663], [43.3318, 9.5748], [43.3246, 9.5866], [43.3138, 9.6069],
+          [43.3066, 9.617], [43.2994, 9.6221], [43.2706, 9.6288], [43.249, 9.6525], [43.2346, 9.6913], [43.2058, 9.8517],
+          [43.1878, 9.8838], [43.1482, 9.9007], [43.105, 9.9074], [43.069, 9.9226], [43.0402, 9.9497], [43.0222, 9.9969],
+          [43.0114, 10.029], [43.0006, 10.0628], [42.9826, 10.0915], [42.9574, 10.1151], [42.8638, 10.1776], [42.835, 10.208],
+          [42.8098, 10.2688], [42.7882, 10.333], [42.7774, 10.4241], [42.7666, 10.4512], [42.7486, 10.4714], [42.6946, 10.5255],
+          [42.6694, 10.566], [42.6478, 10.6116], [42.6478, 10.6318], [42.6586, 10.642], [42.6802, 10.647], [42.6982, 10.6589],
+          [42.7126, 10.6757], [42.7198, 10.6943], [42.727, 10.7348], [42.7378, 10.7602], [42.7486, 10.7754], [42.7846, 10.8041],
+          [42.8026, 10.821], [42.8062, 10.8362], [42.8098, 10.853], [42.8206, 10.8733], [42.835, 10.8885], [42.8782, 10.9054],
+          [42.8926, 10.9189], [42.8998, 10.9358], [42.9106, 10.978], [42.925, 10.9983], [43.2418, 11.4879], [43.2886, 11.4609],
+          [43.2814, 11.4998], [43.375, 11.3917], [43.4614, 11.3512], [43.4902, 11.3816], [43.5046, 11.2093], [43.5622, 11.1705],
+          [43.6594, 10.9881], [43.9222, 10.7247], [44.347, 10.414], [44.5846, 10.3836], [44.7502, 10.4275], [44.9626, 10.4157],
+          [44.9879, 10.4596], [45.3191, 10.6622], [45.4883, 10.6842], [45.7691, 10.8784], [45.8555, 10.8243], [45.8843, 10.8412],
+          [46.1039, 10.7703], [46.2371, 10.7923], [46.3343, 10.7095], [46.4495, 10.6926], [46.6475, 10.7484], [47.3855, 11.1806],
+          [47.5223, 11.1874], [47.7095, 11.1013], [47.7671, 11.13], [48.1307, 11.1367], [48.3431, 11.2752], [48.5231, 11.3191],
+          [48.6563, 11.3309], [48.9407, 11.2499]
+        ]
+      ]
+    ]
+  },
+  {
+    name: 'Somalia',
+    polygons: [
+      [
+        [
+          [47.9795, 7.996], [48.9407, 9.4515], [48.9407, 11.2499], [49.2395, 11.3005], [49.3043, 11.3461], [49.4195, 11.3444],
+          [49.5779, 11.4592], [49.8515, 11.4643], [49.9343, 11.5133], [50.0711, 11.5082], [50.2691, 11.5893], [50.4383, 11.6906],
+          [50.5139, 11.7716], [50.5607, 11.9084], [50.6399, 11.954], [50.7983, 11.9895], [51.0287, 11.8848], [51.2483, 11.8476],
+          [51.2915, 11.8324], [51.2483, 11.6517], [51.1223, 11.5048], [51.0719, 11.233], [51.0863, 11.1874], [51.1907, 11.1384],
+          [51.1151, 10.9932], [51.1619, 10.5981], [51.1079, 10.5761], [51.0935, 10.4816], [51.0107, 10.4343], [51.2195, 10.4427],
+          [51.1763, 10.5626], [51.2915, 10.4799], [51.3959, 10.4782], [51.4175, 10.4478], [51.3743, 10.3684], [51.2735, 10.3786],
+          [51.2411, 10.4258], [51.0899, 10.4073], [50.9099, 10.2958], [50.8847, 10.1016], [50.9027, 10.0121], [50.8055, 9.6238],
+          [50.8307, 9.4194], [50.7695, 9.3198], [50.6471, 9.2117], [50.6327, 9.0733], [50.4203, 8.8571], [50.3915, 8.7339],
+          [50.3195, 8.6207], [50.3051, 8.5042], [50.1647, 8.3337], [50.0927, 8.1615], [49.9307, 8.0517], [49.8227, 7.9335],
+          [49.8047, 7.8271], [49.8263, 7.7579], [49.7507, 7.6498], [49.7435, 7.589], [49.2467, 6.8106], [49.0739, 6.4155],
+          [49.0847, 6.3074], [49.0379, 6.1436], [48.6455, 5.48], [48.2027, 4.9093], [47.9471, 4.4567], [46.8347, 3.2325],
+          [46.3523, 2.7884], [46.0283, 2.4389], [45.2327, 1.9678], [45.0022, 1.8664], [44.5486, 1.5591], [44.1562, 1.24],
+          [44.1382, 1.191], [43.933, 1.0103], [43.7818, 0.9208], [42.5794, -0.2983], [42.4714, -0.4706], [42.4642, -0.4486],
+          [42.403, -0.501], [42.1654, -0.8032], [42.061, -0.8387], [42.0826, -0.8623], [42.0178, -0.9687], [41.971, -0.9991],
+          [41.953, -0.8944], [41.9746, -1.0109], [41.8738, -1.1764], [41.899, -1.1831], [41.863, -1.2118], [41.8306, -1.1696],
+          [41.8378, -1.2625], [41.5354, -1.6965], [41.5246, -1.5732], [40.981, -0.8707], [40.9666, 2.8137], [41.341, 3.2004],
+          [41.8846, 3.9772], [41.899, 3.9974], [41.9134, 4.0076], [41.917, 4.0211], [41.917, 4.0515], [41.9242, 4.07],
+          [41.9422, 4.0869], [42.0106, 4.1291], [42.0682, 4.1747], [42.1042, 4.1916], [42.1366, 4.2], [42.223, 4.2017],
+          [42.2986, 4.2017], [42.4138, 4.222], [42.5686, 4.2473], [42.7198, 4.2727], [42.7882, 4.2862], [42.8314, 4.3031],
+          [42.8674, 4.3267], [42.871, 4.3284], [42.8998, 4.3605], [42.9142, 4.3925], [42.9322, 4.4635], [42.9466, 4.4972],
+          [42.9538, 4.5074], [42.961, 4.5175], [43.0366, 4.5783], [43.1194, 4.6475], [43.231, 4.7016], [43.3462, 4.7556],
+          [43.4578, 4.8096], [43.5298, 4.8417], [43.6414, 4.867], [43.717, 4.8856], [43.8142, 4.9076], [43.8466, 4.9143],
+          [43.933, 4.9447], [43.969, 4.9532], [44.0302, 4.9498], [44.0806, 4.9481], [44.131, 4.9447], [44.185, 4.9413],
+          [44.2354, 4.938], [44.2894, 4.9363], [44.3398, 4.9329], [44.3902, 4.9295], [44.4442, 4.9261], [44.4946, 4.9228],
+          [44.5486, 4.9211], [44.5954, 4.9177], [44.599, 4.9177], [44.6494, 4.9143], [44.7034, 4.9109], [44.7538, 4.9093],
+          [44.8078, 4.9059], [44.8582, 4.9025], [44.9122, 4.8991], [44.941, 4.9109], [45.0202, 4.9971], [45.0779, 5.0595],
+          [45.1859, 5.176], [45.2939, 5.2942], [45.3983, 5.4108], [45.5063, 5.5273], [45.5171, 5.5408], [45.6143, 5.6455],
+          [45.7223, 5.762], [45.8303, 5.8802], [45.9347, 5.9967], [45.9959, 6.0592], [46.0571, 6.1216], [46.1183, 6.1841],
+          [46.1795, 6.2466], [46.2407, 6.3091], [46.3019, 6.3716], [46.3631, 6.434], [46.4243, 6.4965], [46.4675, 6.5387],
+          [46.4891, 6.559], [46.5071, 6.5776], [46.5539, 6.6215], [46.5971, 6.6654], [46.6187, 6.6839], [46.6655, 6.7312],
+          [46.7159, 6.7785], [46.7627, 6.8241], [46.8131, 6.8714], [46.8599, 6.9187], [46.9103, 6.9659], [46.9571, 7.0115],
+          [47.0075, 7.0588], [47.0543, 7.1061], [47.1047, 7.1534], [47.1515, 7.2007], [47.2019, 7.2462], [47.2487, 7.2935],
+          [47.2991, 7.3408], [47.3459, 7.3881], [47.3963, 7.4337], [47.4431, 7.481], [47.4935, 7.5282], [47.5331, 7.5654],
+          [47.5403, 7.5755], [47.5907, 7.6211], [47.6375, 7.6684], [47.6879, 7.7157], [47.7347, 7.7629], [47.7851, 7.8085],
+          [47.8319, 7.8558], [47.8823, 7.9031], [47.9291, 7.9504], [47.9795, 7.996]
+        ]
+      ]
+    ]
+  },
+  {
+    name: 'Kenya',
+    polygons: [
+      [
+        [
+          [35.9194, 4.6188], [35.923, 4.6019], [35.9374, 4.5783], [35.9374, 4.5597], [35.9338, 4.5395], [35.9338, 4.5226],
+          [35.941, 4.5074], [35.959, 4.4972], [35.9986, 4.4635], [36.0202, 4.45], [36.0418, 4.4432], [36.0454, 4.4432],
+          [36.193, 4.4449], [36.2254, 4.45], [36.2362, 4.45], [36.247, 4.4466], [36.265, 4.4381], [36.2758, 4.4364],
+          [36.463, 4.4398], [36.6178, 4.4432], [36.6286, 4.4415], [36.643, 4.4331], [36.6502, 4.4314], [36.8446, 4.4331],
+          [36.9022, 4.4162], [36.9742, 4.3807], [37.0174, 4.3706], [37.0246, 4.3638], [37.0426, 4.3368], [37.0498, 4.3318],
+          [37.0678, 4.3334], [37.075, 4.3318], [37.0822, 4.3216], [37.0858, 4.3132], [37.093, 4.2895], [37.0966, 4.2845],
+          [37.1002, 4.2845], [37.1074, 4.2845], [37.111, 4.2828], [37.165, 4.2473], [37.2622, 4.1849], [37.3594, 4.1224],
+          [37.4746, 4.0498], [37.5574, 3.9974], [37.6474, 3.9383], [37.7518, 3.8708], [37.8454, 3.81], [37.9462, 3.7458],
+          [37.975, 3.7272], [37.9966, 3.7087], [38.0218, 3.6665], [38.0362, 3.6496], [38.0506, 3.6411], [38.0794, 3.6327],
+          [38.101, 3.6124], [38.1154, 3.6107], [38.1442, 3.6192], [38.1766, 3.6209], [38.2846, 3.609], [38.389, 3.5972],
+          [38.4466, 3.6023], [38.497, 3.6242], [38.497, 3.6293], [38.497, 3.6378], [38.5006, 3.6462], [38.5078, 3.6513],
+          [38.515, 3.6479], [38.533, 3.6327], [38.5402, 3.6226], [38.5438, 3.6158], [38.5474, 3.609], [38.5618, 3.6057],
+          [38.5726, 3.604], [38.5798, 3.6057], [38.5942, 3.6107], [38.5942, 3.6074], [38.5978, 3.6023], [38.6014, 3.5989],
+          [38.659, 3.5938], [38.659, 3.6006], [38.6626, 3.6158], [38.6626, 3.6226], [38.6878, 3.5871], [38.7022, 3.5702],
+          [38.7238, 3.5601], [38.821, 3.5331], [38.8966, 3.5128], [38.9218, 3.5145], [38.965, 3.5229], [38.9794, 3.5196],
+          [38.9938, 3.5145], [39.0118, 3.5145], [39.0694, 3.5263], [39.0766, 3.5246], [39.091, 3.5179], [39.181, 3.4773],
+          [39.2206, 3.4689], [39.2566, 3.4689], [39.2962, 3.4925], [39.3034, 3.4959], [39.3142, 3.4942], [39.3214, 3.4841],
+          [39.3106, 3.4655], [39.4366, 3.4621], [39.4654, 3.452], [39.4762, 3.4402], [39.4798, 3.4267], [39.487, 3.4132],
+          [39.505, 3.403], [39.5374, 3.4047], [39.5518, 3.4317], [39.5734, 3.4976], [39.6022, 3.5297], [39.667, 3.5888],
+          [39.7462, 3.6614], [39.7642, 3.685], [39.7822, 3.7171], [39.8074, 3.7897], [39.829, 3.8421], [39.847, 3.8674],
+          [39.9334, 3.9079], [40.0198, 3.9501], [40.117, 3.9974], [40.1638, 4.0194], [40.1674, 4.0244], [40.1674, 4.0312],
+          [40.1674, 4.0363], [40.1782, 4.0346], [40.1782, 4.0329], [40.1818, 4.0312], [40.1854, 4.0329], [40.2862, 4.0667],
+          [40.3654, 4.0954], [40.3726, 4.1004], [40.3762, 4.1156], [40.3834, 4.1207], [40.513, 4.1713], [40.6174, 4.2119],
+          [40.7002, 4.244], [40.765, 4.2845], [40.7866, 4.2558], [40.8478, 4.2152], [40.8694, 4.1865], [40.8874, 4.1561],
+          [40.8982, 4.146], [40.9162, 4.1359], [40.963, 4.1207], [40.981, 4.1106], [41.0062, 4.0869], [41.071, 3.9974],
+          [41.1142, 3.962], [41.1646, 3.9434], [41.215, 3.9366], [41.3158, 3.9417], [41.431, 3.9485], [41.4814, 3.9636],
+          [41.5066, 3.9636], [41.5858, 3.9839], [41.6038, 3.9822], [41.629, 3.9721], [41.6434, 3.9687], [41.6578, 3.9721],
+          [41.701, 3.9974], [41.7478, 3.9822], [41.791, 3.9586], [41.8342, 3.9501], [41.8846, 3.9772], [41.341, 3.2004],
+          [40.9666, 2.8137], [40.981, -0.8707], [41.5246, -1.5732], [41.5354, -1.6965], [41.2834, -1.9683], [41.2186, -1.9227],
+          [41.1862, -1.9903], [41.1106, -1.9785], [41.0134, -2.0426], [40.981, -2.0055], [41.0062, -1.9025], [40.9702, -1.9295],
+          [40.945, -2.073], [40.8622, -1.9633], [40.855, -2.019], [40.8946, -2.0257], [40.9234, -2.2165], [40.981, -2.2419],
+          [40.945, -2.3094], [40.9234, -2.3145], [40.9522, -2.2858], [40.8946, -2.2284], [40.8622, -2.2317], [40.7938, -2.2908],
+          [40.7722, -2.279], [40.8298, -2.3753], [40.8154, -2.3972], [40.6498, -2.5391], [40.4914, -2.5289], [40.2322, -2.6691],
+          [40.1746, -2.762], [40.1638, -2.9021], [40.1782, -2.9764], [40.2322, -2.9815], [40.1674, -3.0558], [40.117, -3.1976],
+          [40.1242, -3.2668], [39.9874, -3.3732], [39.973, -3.3107], [39.8794, -3.6046], [39.7714, -3.5843], [39.8002, -3.6349],
+          [39.8614, -3.6333], [39.8686, -3.6957], [39.7858, -3.9169], [39.7318, -3.9456], [39.7138, -3.8967], [39.685, -3.9169],
+          [39.7462, -3.9693], [39.6994, -4.0487], [39.6598, -3.971], [39.6058, -3.9693], [39.6346, -4.0166], [39.559, -4.0402],
+          [39.5662, -4.0807], [39.6166, -4.0588], [39.6706, -4.0875], [39.541, -4.4303], [39.505, -4.4387], [39.451, -4.5822],
+          [39.4438, -4.5198], [39.3898, -4.5704], [39.397, -4.6295], [39.2998, -4.5957], [39.1918, -4.6768], [37.7698, -3.6552],
+          [37.7086, -3.5269], [37.6006, -3.5134], [37.579, -3.4239], [37.7014, -3.3141], [37.6438, -3.0456], [34.0149, -1.0379],
+          [34.0005, -1.0025], [33.9033, -1.0025], [33.8961, -0.6631], [33.9537, -0.116], [33.8925, 0.1103], [34.0869, 0.3467],
+          [34.0761, 0.4227], [34.1481, 0.6034], [34.2525, 0.6557], [34.3065, 0.7689], [34.3893, 0.8161], [34.4865, 1.0829],
+          [34.5621, 1.0931], [34.5801, 1.1522], [34.6845, 1.2096], [34.7961, 1.2315], [34.7781, 1.3886], [34.8393, 1.4375],
+          [34.8609, 1.5186], [34.9725, 1.6537], [35.005, 1.9171], [34.9618, 1.9779], [34.9689, 2.1011], [34.8645, 2.3477],
+          [34.8681, 2.4118], [34.9221, 2.4541], [34.8753, 2.5908], [34.8177, 2.5976], [34.7385, 2.8441], [34.6845, 2.8813],
+          [34.6305, 2.8695], [34.5729, 2.9454], [34.5333, 3.1177], [34.4325, 3.1818], [34.3821, 3.4773], [34.4361, 3.5263],
+          [34.4397, 3.6681], [34.3353, 3.734], [34.2777, 3.7104], [34.2417, 3.783], [34.1517, 3.7762], [34.1805, 3.7965],
+          [34.1481, 3.8235], [34.2057, 3.8742], [34.0833, 3.8775], [34.1085, 3.9603], [34.0617, 4.0076], [34.0689, 4.0886],
+          [34.0293, 4.1882], [33.9753, 4.2203], [34.3821, 4.6205], [34.6665, 4.7657], [35.2462, 4.9819], [35.2642, 4.9481],
+          [35.4118, 5.0308], [35.4334, 5.0038], [35.3974, 4.9261], [35.5702, 4.9042], [35.5234, 4.7809], [35.6098, 4.6205],
+          [35.6998, 4.5884], [35.7394, 4.6813], [35.779, 4.6779], [35.7826, 4.6205], [35.9194, 4.6188]
+        ]
+      ],
+      [
+        [
+          [41.053, -2.0494], [41.143, -2.0595], [41.1538, -2.1119], [41.125, -2.0933], [41.0998, -2.1355], [40.9954, -2.1439],
+          [40.9954, -2.198], [40.9558, -2.1507], [41.053, -2.0494]
+        ]
+      ]
+    ]
+  },
+  {
+    name: 'South Sudan',
+    polygons: [
+      [
+        [
+          [35.9194, 4.6188], [35.7826, 4.6205], [35.779, 4.6779], [35.7394, 4.6813], [35.6998, 4.5884], [35.6098, 4.6205],
+          [35.5234, 4.7809], [35.5702, 4.9042], [35.3974, 4.9261], [35.4334, 5.0038], [35.4118, 5.0308], [35.2642, 4.9481],
+          [35.2462, 4.9819], [34.6665, 4.7657], [34.3821, 4.6205], [33.9753, 4.2203], [33.4893, 3.7492], [33.1653, 3.7627],
+          [32.9961, 3.886], [32.7549, 3.7695], [32.3733, 3.7306], [32.1861, 3.6192], [32.1573, 3.5111], [32.0745, 3.5331],
+          [32.0313, 3.5854], [31.9305, 3.5989], [31.9017, 3.7036], [31.7793, 3.8167], [31.6857, 3.7121], [31.5237, 3.6563],
+          [31.2933, 3.7745], [31.1673, 3.7931], [30.9441, 3.68], [30.8397, 3.4908], [30.8361, 3.5635], [30.7785, 3.6023],
+          [30.7461, 3.6749], [30.6921, 3.6327], [30.5445, 3.6124], [30.5625, 3.6952], [30.5265, 3.8674], [30.1881, 3.9569],
+          [30.1233, 4.1021], [30.0441, 4.1325], [29.9901, 4.2186], [29.9325, 4.2355], [29.9289, 4.3081], [29.7885, 4.3689],
+          [29.7957, 4.5563], [29.7525, 4.5817], [29.4573, 4.6695], [29.3889, 4.4939], [29.3025, 4.3875], [29.2413, 4.3875],
+          [29.1945, 4.3368], [28.9857, 4.4955], [28.8165, 4.4787], [28.7553, 4.5546], [28.6941, 4.5327], [28.6401, 4.4314],
+          [28.4961, 4.3689], [28.3809, 4.276], [28.3017, 4.352], [28.1793, 4.347], [28.1001, 4.4415], [28.0497, 4.4196],
+          [28.0101, 4.4804], [28.0137, 4.5496], [27.8481, 4.553], [27.7725, 4.5952], [27.7509, 4.7775], [27.6861, 4.7978],
+          [27.6393, 4.8907], [27.5133, 4.9228], [27.4377, 5.0139], [27.4413, 5.0714], [27.2793, 5.2301], [27.2361, 5.323],
+          [27.2181, 5.426], [27.2613, 5.5779], [27.2181, 5.5847], [27.2181, 5.6455], [27.1245, 5.7687], [27.0345, 5.7856],
+          [26.9805, 5.8599], [26.9157, 5.8498], [26.8941, 5.8903], [26.8185, 5.8954], [26.7753, 5.9815], [26.5449, 6.0305],
+          [26.4801, 6.1048], [26.4261, 6.0727], [26.5089, 6.2061], [26.4549, 6.2297], [26.4513, 6.2804], [26.2893, 6.3868],
+          [26.2713, 6.4661], [26.3793, 6.6536], [26.0913, 6.8309], [26.0265, 6.9963], [25.7997, 7.1044], [25.7853, 7.1432],
+          [25.5909, 7.2108], [25.3461, 7.3459], [25.3173, 7.4168], [25.1913, 7.5012], [25.1661, 7.5671], [25.2741, 7.6414],
+          [25.2705, 7.7613], [25.2309, 7.8524], [25.0293, 7.9183], [24.8312, 8.1665], [24.6152, 8.2172], [24.5144, 8.207],
+          [24.4316, 8.2712], [24.3308, 8.2459], [24.1544, 8.3185], [24.122, 8.3725], [24.1364, 8.4384], [24.2516, 8.5802],
+          [24.212, 8.6275], [24.2372, 8.6815], [24.1688, 8.69], [24.3812, 8.8436], [24.554, 8.8808], [24.5576, 9.0007],
+          [24.662, 9.183], [24.68, 9.3738], [24.7952, 9.5326], [24.7952, 9.8196], [24.914, 9.8906], [24.9752, 9.9665],
+          [25.0761, 10.2874], [25.8393, 10.4208], [25.8933, 10.3566], [25.9041, 10.181], [26.0121, 10.1219], [26.1021, 9.9885],
+          [26.1813, 9.9598], [26.5557, 9.5208], [26.6241, 9.4802], [26.6961, 9.4769], [27.0813, 9.6069], [27.8949, 9.5951],
+          [28.0461, 9.3316], [28.8453, 9.3249], [28.8273, 9.4279], [28.9137, 9.5292], [29.1333, 9.6677], [29.4825, 9.7622],
+          [29.6121, 9.9142], [29.6157, 10.0577], [30.0117, 10.2705], [30.4833, 9.9716], [30.7641, 9.7251], [31.2357, 9.7926],
+          [31.8009, 10.3769], [31.9413, 10.6555], [32.4309, 11.0827], [32.3481, 11.3073], [32.3481, 11.7024], [32.0817, 11.9996],
+          [32.7477, 12.003], [32.7333, 12.2157], [33.2085, 12.2107], [33.1437, 11.9354], [33.1329, 11.6855], [33.0825, 11.5994],
+          [33.1833, 10.8429], [33.1401, 10.7382], [33.3813, 10.6453], [33.9177, 10.1742], [33.9681, 10.0476], [33.9717, 9.8483],
+          [33.9033, 9.7099], [33.8817, 9.4988], [33.8997, 9.4549], [34.0689, 9.4549], [34.0833, 9.205], [34.0977, 8.9162],
+          [34.1121, 8.6258], [34.1085, 8.6022], [34.1049, 8.5785], [34.0905, 8.5566], [34.0689, 8.5329], [33.9717, 8.4451],
+          [33.9501, 8.4333], [33.9321, 8.4282], [33.8745, 8.4282], [33.8421, 8.4232], [33.8241, 8.4198], [33.8097, 8.413],
+          [33.7989, 8.4063], [33.7557, 8.3708], [33.7521, 8.3691], [33.7413, 8.3675], [33.6945, 8.3725], [33.6729, 8.3995],
+          [33.6513, 8.435], [33.6189, 8.4603], [33.6009, 8.4637], [33.5865, 8.4586], [33.5721, 8.4502], [33.5505, 8.4468],
+          [33.5361, 8.4536], [33.5217, 8.4654], [33.5037, 8.4755], [33.4857, 8.4738], [33.4893, 8.4671], [33.4893, 8.4637],
+          [33.4821, 8.457], [33.4137, 8.4502], [33.3993, 8.4519], [33.3921, 8.4519], [33.3849, 8.4485], [33.3705, 8.4367],
+          [33.3597, 8.435], [33.2517, 8.4586], [33.2337, 8.4553], [33.2049, 8.4299], [33.2085, 8.4266], [33.2121, 8.4215],
+          [33.2013, 8.4147], [33.1869, 8.4114], [33.1725, 8.4046], [33.1689, 8.3979], [33.1689, 8.3894], [33.1689, 8.3725],
+          [33.1653, 8.3675], [33.1617, 8.3607], [33.1617, 8.3556], [33.1617, 8.3523], [33.1725, 8.3472], [33.1725, 8.3438],
+          [33.1725, 8.3303], [33.1617, 8.3117], [33.1617, 8.305], [33.1653, 8.2932], [33.1725, 8.283], [33.1797, 8.2763],
+          [33.1869, 8.2645], [33.1941, 8.2594], [33.2085, 8.2543], [33.2085, 8.2408], [33.2013, 8.2357], [33.1905, 8.2324],
+          [33.1833, 8.2256], [33.1725, 8.2138], [33.1689, 8.2054], [33.1689, 8.1952], [33.1689, 8.1817], [33.1725, 8.1766],
+          [33.1833, 8.1665], [33.1869, 8.1615], [33.1869, 8.1412], [33.1761, 8.1277], [33.1653, 8.1175], [33.1473, 8.1091],
+          [33.1185, 8.104], [33.1149, 8.099], [33.1113, 8.0905], [33.1077, 8.0804], [33.1005, 8.0703], [33.0429, 8.0129],
+          [33.0321, 7.996], [33.0249, 7.9858], [33.0213, 7.9656], [33.0177, 7.9588], [33.0105, 7.9538], [33.0069, 7.9436],
+          [33.0069, 7.9419], [32.9925, 7.9284], [32.9889, 7.9166], [33.0141, 7.8508], [33.0249, 7.8356], [33.0393, 7.8254],
+          [33.0429, 7.817], [33.0465, 7.8068], [33.0501, 7.8018], [33.0573, 7.7984], [33.0861, 7.795], [33.1077, 7.7849],
+          [33.1221, 7.7832], [33.1257, 7.7917], [33.1329, 7.7933], [33.1653, 7.8018], [33.1725, 7.8001], [33.2013, 7.7883],
+          [33.2337, 7.7832], [33.2409, 7.7815], [33.2589, 7.768], [33.2733, 7.7494], [33.2913, 7.7326], [33.3489, 7.719],
+          [33.3597, 7.719], [33.3849, 7.7359], [33.3921, 7.7393], [33.4353, 7.7477], [33.4605, 7.7494], [33.4785, 7.7427],
+          [33.4893, 7.7359], [33.5073, 7.7309], [33.5181, 7.7258], [33.5253, 7.7174], [33.5397, 7.6988], [33.5505, 7.692],
+          [33.5721, 7.6853], [33.6369, 7.692], [33.6477, 7.6886], [33.6765, 7.6701], [33.7053, 7.6616], [33.7161, 7.6566],
+          [33.7305, 7.6414], [33.7593, 7.5975], [33.8097, 7.5603], [33.8205, 7.5586], [33.8421, 7.5553], [33.8529, 7.5536],
+          [33.8817, 7.5367], [34.0077, 7.41], [34.0221, 7.383], [34.0293, 7.3492], [34.0293, 7.2547], [34.0329, 7.2496],
+          [34.0401, 7.2479], [34.0869, 7.2108], [34.1121, 7.177], [34.1337, 7.1635], [34.1517, 7.1669], [34.1661, 7.1753],
+          [34.1805, 7.1669], [34.1913, 7.15], [34.1949, 7.1297], [34.1949, 7.0976], [34.1949, 7.0875], [34.1985, 7.0639],
+          [34.2057, 7.0537], [34.2129, 7.0521], [34.2201, 7.0453], [34.2309, 7.0335], [34.2705, 7.0031], [34.2741, 6.998],
+          [34.2813, 6.9794], [34.2885, 6.9761], [34.2957, 6.9727], [34.2993, 6.9693], [34.4397, 6.9355], [34.5045, 6.89],
+          [34.5117, 6.8764], [34.5189, 6.8612], [34.5225, 6.8444], [34.5261, 6.8241], [34.5225, 6.8224], [34.5117, 6.8157],
+          [34.5117, 6.814], [34.5117, 6.8089], [34.5153, 6.7988], [34.5189, 6.7937], [34.5261, 6.7532], [34.5369, 6.743],
+          [34.5549, 6.7397], [34.5981, 6.7397], [34.6197, 6.7363], [34.6341, 6.7295], [34.7025, 6.6856], [34.7097, 6.6738],
+          [34.7133, 6.6552], [34.7277, 6.6417], [34.7349, 6.6384], [34.7421, 6.5961], [34.7529, 6.5556], [34.7745, 6.4999],
+          [34.7853, 6.4425], [34.7925, 6.4222], [34.8321, 6.353], [34.8393, 6.3277], [34.8393, 6.2686], [34.8429, 6.2483],
+          [34.8789, 6.1875], [34.9005, 6.1385], [34.9149, 6.12], [34.9329, 6.1031], [34.9509, 6.0811], [34.9582, 6.0625],
+          [34.9689, 6.0085], [34.9689, 5.9967], [34.9582, 5.9747], [34.9545, 5.9646], [34.9545, 5.9528], [34.9618, 5.941],
+          [34.9761, 5.9241], [34.9798, 5.9123], [34.9761, 5.8988], [34.9761, 5.8869], [34.9725, 5.8768], [34.9761, 5.8633],
+          [34.9834, 5.8413], [35.0662, 5.7265], [35.0806, 5.6995], [35.0878, 5.6421], [35.0986, 5.6218], [35.1418, 5.5897],
+          [35.2246, 5.5425], [35.2606, 5.5121], [35.2678, 5.4918], [35.275, 5.48], [35.2678, 5.4682], [35.2606, 5.458],
+          [35.2534, 5.4479], [35.2498, 5.4344], [35.2534, 5.426], [35.2858, 5.3736], [35.3038, 5.3567], [35.3218, 5.3483],
+          [35.3434, 5.3517], [35.3686, 5.3685], [35.4082, 5.4124], [35.4298, 5.4276], [35.4478, 5.431], [35.4694, 5.431],
+          [35.491, 5.4276], [35.509, 5.4226], [35.5306, 5.4108], [35.5738, 5.3753], [35.599, 5.3685], [35.6206, 5.3736],
+          [35.6386, 5.3821], [35.6566, 5.3871], [35.6854, 5.3804], [35.7502, 5.3398], [35.8042, 5.3179], [35.8078, 5.3094],
+          [35.7826, 5.2706], [35.7754, 5.247], [35.779, 5.2267], [35.797, 5.1896], [35.8078, 5.1659], [35.8078, 5.144],
+          [35.8006, 5.1254], [35.761, 5.0764], [35.7574, 5.0629], [35.7502, 4.8535], [35.761, 4.8062], [35.7862, 4.764],
+          [35.9194, 4.6188]
+        ]
+      ]
+    ]
+  },
+  {
+    name: 'Sudan',
+    polygons: [
+      [
+        [
+          [22.862, 10.9189], [22.9556, 11.238], [22.916, 11.3968], [22.772, 11.4035], [22.7432, 11.466], [22.592, 11.5437],
+          [22.5416, 11.6332], [22.6136, 12.0722], [22.4588, 12.03], [22.484, 12.1651], [22.3724, 12.4639], [22.4444, 12.6109],
+          [22.2032, 12.7426], [22.106, 12.6497], [21.9368, 12.6396], [21.8792, 12.6767], [21.8108, 12.8], [21.9656, 13.0989],
+          [22.124, 13.1816], [22.268, 13.3353], [22.196, 13.5801], [22.1312, 13.6392], [22.0736, 13.781], [22.214, 13.9566],
+          [22.5452, 14.139], [22.5308, 14.2201], [22.4192, 14.2859], [22.4516, 14.3383], [22.4264, 14.47], [22.3652, 14.5443],
+          [22.466, 14.6287], [22.6676, 14.681], [22.6496, 14.8415], [22.7144, 14.8989], [22.7396, 14.9799], [22.9052, 15.1133],
+          [22.9592, 15.2011], [22.9772, 15.3734], [22.9052, 15.4814], [22.9052, 15.5422], [23.096, 15.7043], [23.3192, 15.6807],
+          [23.5928, 15.7482], [23.8304, 15.7313], [23.9456, 15.6925], [23.9852, 15.7212], [23.9816, 19.4969], [23.9816, 19.995],
+          [24.9789, 19.9967], [24.9825, 21.996], [31.2501, 21.9943], [31.3581, 22.1885], [31.4229, 22.2273], [31.4913, 22.1733],
+          [31.4337, 21.996], [36.8842, 21.996], [36.841, 21.9656], [36.8734, 21.9369], [36.8878, 21.6498], [37.1146, 21.2783],
+          [37.3126, 21.0571], [37.291, 21.0132], [37.2334, 21.02], [37.1902, 21.0976], [37.2694, 21.0622], [37.219, 21.1415],
+          [37.1578, 21.1483], [37.1578, 21.2057], [37.1218, 21.2243], [37.1002, 21.1804], [37.1182, 21.0858], [37.0858, 21.0402],
+          [37.147, 20.9406], [37.1686, 20.7464], [37.2298, 20.5657], [37.2226, 20.4678], [37.1794, 20.4492], [37.1758, 20.3496],
+          [37.2262, 20.12], [37.1902, 20.0136], [37.2658, 19.7873], [37.2442, 19.5678], [37.435, 18.862], [37.5394, 18.7151],
+          [37.6762, 18.7404], [37.741, 18.71], [37.759, 18.6289], [37.9246, 18.585], [38.1082, 18.428], [38.0758, 18.3486],
+          [38.1514, 18.249], [38.245, 18.2439], [38.2522, 18.2811], [38.3062, 18.3064], [38.2774, 18.2423], [38.2162, 18.2169],
+          [38.3746, 18.1899], [38.3926, 18.2237], [38.4322, 18.1426], [38.4934, 18.1409], [38.5114, 18.0734], [38.5402, 18.0852],
+          [38.5258, 18.1291], [38.5438, 18.119], [38.6014, 18.0042], [38.461, 17.891], [38.371, 17.6985], [38.2558, 17.6023],
+          [38.2342, 17.5263], [38.119, 17.5449], [38.0758, 17.479], [38.0722, 17.5381], [38.0398, 17.5483], [37.8958, 17.4419],
+          [37.7986, 17.4773], [37.7194, 17.3845], [37.4962, 17.3119], [37.4962, 17.1751], [37.4026, 17.0299], [37.309, 17.0552],
+          [37.1326, 17.0163], [36.9742, 17.0619], [36.9994, 16.8374], [36.9598, 16.7057], [36.8914, 16.6364], [36.877, 16.5267],
+          [36.9346, 16.4186], [36.9454, 16.2531], [36.8842, 16.1856], [36.7582, 15.8377], [36.6718, 15.7229], [36.6178, 15.5321],
+          [36.6286, 15.446], [36.5746, 15.3936], [36.5062, 15.2197], [36.4234, 15.1336], [36.5278, 14.264], [36.4378, 13.9904],
+          [36.4306, 13.9702], [36.4342, 13.9448], [36.4378, 13.9195], [36.4558, 13.8705], [36.4594, 13.8199], [36.4414, 13.776],
+          [36.3982, 13.6763], [36.3946, 13.6561], [36.391, 13.5987], [36.3838, 13.5717], [36.2326, 13.3623], [36.1354, 13.033],
+          [36.139, 13.0127], [36.1462, 12.9975], [36.1498, 12.9891], [36.1498, 12.9807], [36.1426, 12.9655], [36.1246, 12.9503],
+          [36.1138, 12.9334], [36.1138, 12.9114], [36.139, 12.8726], [36.1426, 12.8574], [36.1426, 12.8321], [36.1246, 12.7206],
+          [36.1138, 12.702], [36.0994, 12.6953], [36.0706, 12.7037], [36.0634, 12.7071], [36.0562, 12.7122], [36.049, 12.7155],
+          [36.0382, 12.7172], [36.031, 12.7172], [35.7286, 12.675], [35.7034, 12.6666], [35.6998, 12.6649], [35.689, 12.6598],
+          [35.6854, 12.6564], [35.6854, 12.6514], [35.6782, 12.626], [35.6746, 12.6142], [35.671, 12.6041], [35.6638, 12.594],
+          [35.653, 12.5906], [35.635, 12.5889], [35.6242, 12.5855], [35.617, 12.5754], [35.4298, 12.2664], [35.419, 12.2394],
+          [35.4154, 12.2107], [35.4118, 12.1988], [35.4046, 12.1853], [35.3938, 12.1769], [35.3722, 12.1651], [35.3614, 12.1566],
+          [35.3542, 12.1465], [35.3362, 12.1026], [35.3254, 12.0469], [35.3182, 12.0232], [35.2966, 12.0013], [35.2606, 11.981],
+          [35.2498, 11.9709], [35.2498, 11.9624], [35.2498, 11.9574], [35.2462, 11.9388], [35.2462, 11.9304], [35.2174, 11.8966],
+          [35.149, 11.8713], [35.1274, 11.8628], [35.0878, 11.8375], [35.0734, 11.8189], [35.059, 11.7953], [35.0481, 11.7716],
+          [35.041, 11.748], [35.041, 11.7277], [35.0481, 11.6889], [35.0446, 11.6484], [35.0518, 11.6281], [35.0734, 11.5876],
+          [35.077, 11.569], [35.0734, 11.5487], [34.9473, 11.2752], [34.9437, 11.2532], [34.9545, 11.2262], [34.9725, 11.2076],
+          [34.9834, 11.1857], [34.9798, 11.1553], [34.9149, 10.9645], [34.9149, 10.9527], [34.9221, 10.9392], [34.9545, 10.9189],
+          [34.9582, 10.9037], [34.9509, 10.8699], [34.9329, 10.8446], [34.8789, 10.8041], [34.8609, 10.7872], [34.8573, 10.7754],
+          [34.8573, 10.7635], [34.8501, 10.745], [34.8393, 10.7298], [34.8285, 10.7281], [34.8141, 10.7315], [34.7997, 10.7298],
+          [34.7853, 10.7196], [34.7745, 10.6876], [34.7637, 10.6808], [34.7529, 10.6842], [34.7529, 10.6994], [34.7565, 10.7281],
+          [34.7493, 10.7433], [34.7385, 10.7551], [34.7097, 10.7737], [34.5873, 10.8801], [34.5765, 10.8834], [34.5585, 10.8784],
+          [34.4361, 10.7956], [34.4217, 10.7804], [34.4037, 10.7602], [34.3641, 10.6859], [34.2777, 10.566], [34.2705, 10.5305],
+          [34.2777, 10.4883], [34.3245, 10.2688], [34.3245, 10.2232], [34.3173, 10.181], [34.3137, 10.1759], [34.3029, 10.1658],
+          [34.3029, 10.1607], [34.3029, 10.1489], [34.3065, 10.1253], [34.3029, 10.1134], [34.2813, 10.0797], [34.2201, 10.0256],
+          [34.0977, 9.6795], [34.0653, 9.5309], [34.0689, 9.4549], [33.8997, 9.4549], [33.8817, 9.4988], [33.9033, 9.7099],
+          [33.9717, 9.8483], [33.9681, 10.0476], [33.9177, 10.1742], [33.3813, 10.6453], [33.1401, 10.7382], [33.1833, 10.8429],
+          [33.0825, 11.5994], [33.1329, 11.6855], [33.1437, 11.9354], [33.2085, 12.2107], [32.7333, 12.2157], [32.7477, 12.003],
+          [32.0817, 11.9996], [32.3481, 11.7024], [32.3481, 11.3073], [32.4309, 11.0827], [31.9413, 10.6555], [31.8009, 10.3769],
+          [31.2357, 9.7926], [30.7641, 9.7251], [30.4833, 9.9716], [30.0117, 10.2705], [29.6157, 10.0577], [29.6121, 9.9142],
+          [29.4825, 9.7622], [29.1333, 9.6677], [28.9137, 9.5292], [28.8273, 9.4279], [28.8453, 9.3249], [28.0461, 9.3316],
+          [27.8949, 9.5951], [27.0813, 9.6069], [26.6961, 9.4769], [26.6241, 9.4802], [26.5557, 9.5208], [26.1813, 9.9598],
+          [26.1021, 9.9885], [26.0121, 10.1219], [25.9041, 10.181], [25.8933, 10.3566], [25.8393, 10.4208], [25.0761, 10.2874],
+          [24.9752, 9.9665], [24.914, 9.8906], [24.7952, 9.8196], [24.7952, 9.5326], [24.68, 9.3738], [24.662, 9.183],
+          [24.5576, 9.0007], [24.554, 8.8808], [24.3812, 8.8436], [24.1688, 8.69], [23.8016, 8.7221], [23.7224, 8.7018],
+          [23.5964, 8.7339], [23.5244, 8.7018], [23.4884, 8.7322], [23.4812, 8.7828], [23.5532, 8.8825], [23.5676, 8.9753],
+          [23.5424, 8.9973], [23.4776, 8.9585], [23.4344, 9.0192], [23.474, 9.1712], [23.5496, 9.1847], [23.6324, 9.2776],
+          [23.6468, 9.4245], [23.6072, 9.5376], [23.6756, 9.6896], [23.6432, 9.8635], [23.2904, 10.4393], [23.006, 10.6876],
+          [22.862, 10.9189]
+        ]
+      ]
+    ]
+  }
+];
@@ -0,0 +1,161 @@
+/**
+ * Offline Ethiopian town gazetteer
+ *
+ * Cities and towns, and a selection of kebeles, with their Amharic (or Tigrinya)
+ * name and common alternative spellings, for place-name lookups. Points are
+ * approximate centres in WGS84 decimal degrees; zone and woreda reference points
+ * come from ethiopia-admin.
+ *
+ * @module data/ethiopia-places
+ */
+
+export interface TownEntry {
+  /** Usual Latin spelling */
+  name: string;
+  /** Name in Ge'ez script */
+  localName: string;
+  /** Other spellings and former names */
+  aliases?: string[];
+  /** Regional state or chartered city */
+  region: string;
+  /** Zone, when the town is not a zone of its own */
+  zone?: string;
+  /** Town centre latitude */
+  lat: number;
+  /** Town centre longitude */
+  lon: number;
+}
+
+export const ETHIOPIA_TOWNS: TownEntry[] = [
+  // Chartered cities
+  { name: 'Addis Ababa', localName: 'አዲስ አበባ', aliases: ['Finfinne', 'Finfinnee', 'Addis Abeba'], region: 'Addis Ababa', lat: 9.03, lon: 38.74 },
+  { name: 'Dire Dawa', localName: 'ድሬ ዳዋ', region: 'Dire Dawa', lat: 9.60, lon: 41.85 },
+  // Tigray
+  { name: 'Mekelle', localName: 'መቀሌ', aliases: ['Mekele', "Mek'ele", 'Makale'], region: 'Tigray', zone: 'Mekelle', lat: 13.50, lon: 39.47 },
+  { name: 'Axum', localName: 'አክሱም', aliases: ['Aksum'], region: 'Tigray', zone: 'Central', lat: 14.12, lon: 38.72 },
+  { name: 'Adwa', localName: 'ዓድዋ', aliases: ['Adowa'], region: 'Tigray', zone: 'Central', lat: 14.16, lon: 38.90 },
+  { name: 'Adigrat', localName: 'ዓዲግራት', region: 'Tigray', zone: 'Eastern', lat: 14.28, lon: 39.46 },
+  { name: 'Shire', localName: 'ሽሬ', aliases: ['Inda Selassie', 'Shire Inda Selassie'], region: 'Tigray', zone: 'North Western', lat: 14.10, lon: 38.28 },
+  { name: 'Alamata', localName: 'አላማጣ', region: 'Tigray', zone: 'Southern', lat: 12.42, lon: 39.55 },
+  { name: 'Humera', localName: 'ሁመራ', region: 'Tigray', zone: 'Western', lat: 14.29, lon: 36.62 },
+  // Afar
+  { name: 'Semera', localName: 'ሰመራ', region: 'Afar', zone: 'Awsi Rasu (Zone 1)', lat: 11.79, lon: 41.01 },
+  // Amhara
+  { name: 'Bahir Dar', localName: 'ባሕር ዳር', aliases: ['Bahar Dar', 'Bahirdar'], region: 'Amhara', zone: 'Bahir Dar', lat: 11.59, lon: 37.39 },
+  { name: 'Gondar', localName: 'ጎንደር', aliases: ['Gonder'], region: 'Amhara', zone: 'Central Gondar', lat: 12.60, lon: 37.47 },
+  { name: 'Dessie', localName: 'ደሴ', aliases: ['Dese'], region: 'Amhara', zone: 'South Wollo', lat: 11.13, lon: 39.63 },
+  { name: 'Debre Markos', localName: 'ደብረ ማርቆስ', aliases: ['Debre Marqos'], region: 'Amhara', zone: 'East Gojjam', lat: 10.33, lon: 37.72 },
+  { name: 'Debre Birhan', localName: 'ደብረ ብርሃን', aliases: ['Debre Berhan'], region: 'Amhara', zone: 'North Shewa', lat: 9.68, lon: 39.53 },
+  { name: 'Debre Tabor', localName: 'ደብረ ታቦር', region: 'Amhara', zone: 'South Gondar', lat: 11.85, lon: 38.02 },
+  { name: 'Woldia', localName: 'ወልዲያ', aliases: ['Weldiya', 'Woldiya'], region: 'Amhara', zone: 'North Wollo', lat: 11.83, lon: 39.60 },
+  { name: 'Kombolcha', localName: 'ኮምቦልቻ', region: 'Amhara', zone: 'South Wollo', lat: 11.08, lon: 39.74 },
+  { name: 'Hayk', localName: 'ሐይቅ', aliases: ['Haik'], region: 'Amhara', zone: 'South Wollo', lat: 11.31, lon: 39.68 },
+  { name: 'Kobo', localName: 'ቆቦ', region: 'Amhara', zone: 'North Wollo', lat: 12.15, lon: 39.63 },
+  { name: 'Lalibela', localName: 'ላሊበላ', region: 'Amhara', zone: 'North Wollo', lat: 12.03, lon: 39.04 },
+  { name: 'Sekota', localName: 'ሰቆጣ', aliases: ['Seqota'], region: 'Amhara', zone: 'Wag Hemra', lat: 12.63, lon: 39.03 },
+  { name: 'Kemise', localName: 'ከሚሴ', region: 'Amhara', zone: 'Oromia Special Zone', lat: 10.72, lon: 39.87 },
+  { name: 'Bati', localName: 'ባቲ', region: 'Amhara', zone: 'Oromia Special Zone', lat: 11.19, lon: 40.02 },
+  { name: 'Shewa Robit', localName: 'ሸዋ ሮቢት', aliases: ['Shoa Robit'], region: 'Amhara', zone: 'North Shewa', lat: 10.00, lon: 39.90 },
+  { name: 'Ankober', localName: 'አንኮበር', region: 'Amhara', zone: 'North Shewa', lat: 9.58, lon: 39.73 },
+  { name: 'Debark', localName: 'ደባርቅ', aliases: ['Debarq'], region: 'Amhara', zone: 'North Gondar', lat: 13.15, lon: 37.90 },
+  { name: 'Dabat', localName: 'ዳባት', region: 'Amhara', zone: 'North Gondar', lat: 12.98, lon: 37.77 },
+  { name: 'Woreta', localName: 'ወረታ', region: 'Amhara', zone: 'South Gondar', lat: 11.92, lon: 37.70 },
+  { name: 'Addis Zemen', localName: 'አዲስ ዘመን', region: 'Amhara', zone: 'South Gondar', lat: 12.12, lon: 37.78 },
+  { name: 'Nefas Mewcha', localName: 'ንፋስ መውጫ', region: 'Amhara', zone: 'South Gondar', lat: 11.73, lon: 38.47 },
+  { name: 'Dangila', localName: 'ዳንግላ', region: 'Amhara', zone: 'Awi', lat: 11.26, lon: 36.83 },
+  { name: 'Injibara', localName: 'እንጅባራ', region: 'Amhara', zone: 'Awi', lat: 10.95, lon: 36.93 },
+  { name: 'Finote Selam', localName: 'ፍኖተ ሰላም', region: 'Amhara', zone: 'West Gojjam', lat: 10.70, lon: 37.27 },
+  { name: 'Merawi', localName: 'መርዓዊ', region: 'Amhara', zone: 'West Gojjam', lat: 11.41, lon: 37.16 },
+  { name: 'Bure', localName: 'ቡሬ', region: 'Amhara', zone: 'West Gojjam', lat: 10.70, lon: 37.07 },
+  { name: 'Dembecha', localName: 'ደምበጫ', region: 'Amhara', zone: 'West Gojjam', lat: 10.55, lon: 37.48 },
+  { name: 'Bichena', localName: 'ብቸና', region: 'Amhara', zone: 'East Gojjam', lat: 10.45, lon: 38.20 },
+  { name: 'Mota', localName: 'ሞጣ', region: 'Amhara', zone: 'East Gojjam', lat: 11.08, lon: 37.87 },
+  // Oromia
+  { name: 'Adama', localName: 'አዳማ', aliases: ['Nazret', 'Nazareth', 'Hadaamaa'], region: 'Oromia', zone: 'East Shewa', lat: 8.54, lon: 39.27 },
+  { name: 'Bishoftu', localName: 'ቢሾፍቱ', aliases: ['Debre Zeyit', 'Bishooftuu'], region: 'Oromia', zone: 'East Shewa', lat: 8.75, lon: 38.98 },
+  { name: 'Mojo', localName: 'ሞጆ', aliases: ['Modjo'], region: 'Oromia', zone: 'East Shewa', lat: 8.60, lon: 39.12 },
+  { name: 'Meki', localName: 'መቂ', region: 'Oromia', zone: 'East Shewa', lat: 8.15, lon: 38.82 },
+  { name: 'Batu', localName: 'ባቱ', aliases: ['Ziway', 'Zeway'], region: 'Oromia', zone: 'East Shewa', lat: 7.93, lon: 38.72 },
+  { name: 'Asella', localName: 'አሰላ', aliases: ['Asela'], region: 'Oromia', zone: 'Arsi', lat: 7.95, lon: 39.13 },
+  { name: 'Shashemene', localName: 'ሻሸመኔ', aliases: ['Shashamane', 'Shashemenne'], region: 'Oromia', zone: 'West Arsi', lat: 7.20, lon: 38.60 },
+  { name: 'Arsi Negele', localName: 'አርሲ ነገሌ', region: 'Oromia', zone: 'West Arsi', lat: 7.35, lon: 38.67 },
+  { name: 'Kofele', localName: 'ኮፈሌ', region: 'Oromia', zone: 'West Arsi', lat: 7.07, lon: 38.78 },
+  { name: 'Robe', localName: 'ሮቤ', aliases: ['Bale Robe'], region: 'Oromia', zone: 'Bale', lat: 7.12, lon: 40.00 },
+  { name: 'Goba', localName: 'ጎባ', region: 'Oromia', zone: 'Bale', lat: 7.00, lon: 39.98 },
+  { name: 'Ambo', localName: 'አምቦ', aliases: ['Ambo Town'], region: 'Oromia', zone: 'West Shewa', lat: 8.98, lon: 37.85 },
+  { name: 'Holeta', localName: 'ሆለታ', region: 'Oromia', zone: 'West Shewa', lat: 9.06, lon: 38.50 },
+  { name: 'Sebeta', localName: 'ሰበታ', region: 'Oromia', zone: 'South West Shewa', lat: 8.92, lon: 38.62 },
+  { name: 'Woliso', localName: 'ወሊሶ', aliases: ['Wolisso', 'Ghion'], region: 'Oromia', zone: 'South West Shewa', lat: 8.54, lon: 37.98 },
+  { name: 'Fiche', localName: 'ፍቼ', aliases: ['Fitche'], region: 'Oromia', zone: 'North Shewa', lat: 9.80, lon: 38.73 },
+  { name: 'Jimma', localName: 'ጅማ', aliases: ['Jima'], region: 'Oromia', zone: 'Jimma', lat: 7.67, lon: 36.83 },
+  { name: 'Agaro', localName: 'አጋሮ', region: 'Oromia', zone: 'Jimma', lat: 7.85, lon: 36.59 },
+  { name: 'Nekemte', localName: 'ነቀምት', aliases: ['Nekemt', 'Naqamte', 'Lekemt'], region: 'Oromia', zone: 'East Wollega', lat: 9.08, lon: 36.55 },
+  { name: 'Gimbi', localName: 'ጊምቢ', region: 'Oromia', zone: 'West Wollega', lat: 9.17, lon: 35.83 },
+  { name: 'Shambu', localName: 'ሻምቡ', region: 'Oromia', zone: 'Horo Guduru Wollega', lat: 9.57, lon: 37.10 },
+  { name: 'Bedele', localName: 'በደሌ', region: 'Oromia', zone: 'Buno Bedele', lat: 8.45, lon: 36.35 },
+  { name: 'Metu', localName: 'መቱ', aliases: ['Mettu'], region: 'Oromia', zone: 'Illubabor', lat: 8.30, lon: 35.58 },
+  { name: 'Chiro', localName: 'ጭሮ', aliases: ['Asebe Teferi', 'Ciroo'], region: 'Oromia', zone: 'West Hararghe', lat: 9.08, lon: 40.87 },
+  { name: 'Haramaya', localName: 'ሐረማያ', aliases: ['Alemaya'], region: 'Oromia', zone: 'East Hararghe', lat: 9.40, lon: 42.00 },
+  { name: 'Yabelo', localName: 'ያቤሎ', region: 'Oromia', zone: 'Borena', lat: 4.88, lon: 38.08 },
+  { name: 'Negele Borana', localName: 'ነገሌ ቦረና', aliases: ['Negele'], region: 'Oromia', zone: 'Guji', lat: 5.33, lon: 39.58 },
+  { name: 'Bule Hora', localName: 'ቡሌ ሆራ', aliases: ['Hagere Mariam'], region: 'Oromia', zone: 'West Guji', lat: 5.63, lon: 38.23 },
+  { name: 'Moyale', localName: 'ሞያሌ', region: 'Oromia', zone: 'Borena', lat: 3.53, lon: 39.05 },
+  // Somali
+  { name: 'Jijiga', localName: 'ጅጅጋ', aliases: ['Jigjiga'], region: 'Somali', zone: 'Fafan', lat: 9.35, lon: 42.80 },
+  { name: 'Gode', localName: 'ጎዴ', region: 'Somali', zone: 'Shabelle', lat: 5.95, lon: 43.55 },
+  // Benishangul-Gumuz and Gambela
+  { name: 'Asosa', localName: 'አሶሳ', aliases: ['Assosa'], region: 'Benishangul-Gumuz', zone: 'Asosa', lat: 10.07, lon: 34.53 },
+  { name: 'Gambela', localName: 'ጋምቤላ', aliases: ['Gambella'], region: 'Gambela', zone: 'Anuak', lat: 8.25, lon: 34.58 },
+  // Harari
+  { name: 'Harar', localName: 'ሐረር', aliases: ['Harer'], region: 'Harari', lat: 9.31, lon: 42.12 },
+  // Sidama
+  { name: 'Hawassa', localName: 'ሀዋሳ', aliases: ['Awasa', 'Awassa'], region: 'Sidama', zone: 'Sidama', lat: 7.06, lon: 38.48 },
+  { name: 'Yirgalem', localName: 'ይርጋለም', region: 'Sidama', zone: 'Sidama', lat: 6.75, lon: 38.41 },
+  // Central Ethiopia
+  { name: 'Hosaena', localName: 'ሆሳዕና', aliases: ['Hosanna', 'Hossana'], region: 'Central Ethiopia', zone: 'Hadiya', lat: 7.55, lon: 37.85 },
+  { name: 'Butajira', localName: 'ቡታጅራ', region: 'Central Ethiopia', zone: 'Gurage', lat: 8.12, lon: 38.37 },
+  { name: 'Wolkite', localName: 'ወልቂጤ', aliases: ['Welkite'], region: 'Central Ethiopia', zone: 'Gurage', lat: 8.28, lon: 37.78 },
+  { name: 'Worabe', localName: 'ወራቤ', region: 'Central Ethiopia', zone: 'Silte', lat: 7.87, lon: 38.17 },
+  { name: 'Durame', localName: 'ዱራሜ', region: 'Central Ethiopia', zone: 'Kembata', lat: 7.23, lon: 37.89 },
+  // South Ethiopia
+  { name: 'Wolaita Sodo', localName: 'ወላይታ ሶዶ', aliases: ['Sodo', 'Soddo'], region: 'South Ethiopia', zone: 'Wolaita', lat: 6.86, lon: 37.76 },
+  { name: 'Arba Minch', localName: 'አርባ ምንጭ', region: 'South Ethiopia', zone: 'Gamo', lat: 6.03, lon: 37.55 },
+  { name: 'Chencha', localName: 'ጨንቻ', region: 'South Ethiopia', zone: 'Gamo', lat: 6.25, lon: 37.57 },
+  { name: 'Dilla', localName: 'ዲላ', region: 'South Ethiopia', zone: 'Gedeo', lat: 6.41, lon: 38.31 },
+  { name: 'Jinka', localName: 'ጂንካ', region: 'South Ethiopia', zone: 'South Omo', lat: 5.78, lon: 36.57 },
+  { name: 'Sawla', localName: 'ሳውላ', region: 'South Ethiopia', zone: 'Gofa', lat: 6.30, lon: 36.88 },
+  // South West Ethiopia Peoples'
+  { name: 'Bonga', localName: 'ቦንጋ', region: "South West Ethiopia Peoples'", zone: 'Kaffa', lat: 7.27, lon: 36.23 },
+  { name: 'Mizan Teferi', localName: 'ሚዛን ተፈሪ', aliases: ['Mizan', 'Mizan Aman'], region: "South West Ethiopia Peoples'", zone: 'Bench Sheko', lat: 6.99, lon: 35.59 },
+  { name: 'Tepi', localName: 'ቴፒ', region: "South West Ethiopia Peoples'", zone: 'Sheka', lat: 7.20, lon: 35.42 },
+  { name: 'Tarcha', localName: 'ታርጫ', region: "South West Ethiopia Peoples'", zone: 'Dawro', lat: 7.16, lon: 37.17 }
+];
+
+export interface KebeleEntry extends TownEntry {
+  /** Zone the kebele belongs to */
+  zone: string;
+  /** Woreda the kebele belongs to */
+  woreda: string;
+}
+
+/**
+ * A selection of rural kebeles, mostly long-running research watersheds and
+ * agricultural research sites that extension material refers to by name.
+ * Points are approximate kebele centres.
+ */
+export const ETHIOPIA_KEBELES: KebeleEntry[] = [
+  // Tigray
+  { name: 'Abreha we Atsbeha', localName: 'አብርሃ ወአጽብሃ', aliases: ['Abraha Atsbaha'], region: 'Tigray', zone: 'Eastern', woreda: 'Kilte Awulaelo', lat: 13.87, lon: 39.71 },
+  // Amhara
+  { name: 'Gudo Beret', localName: 'ጉዶ በረት', aliases: ['Gudoberet'], region: 'Amhara', zone: 'North Shewa', woreda: 'Basona Werana', lat: 9.78, lon: 39.64 },
+  { name: 'Andit Tid', localName: 'አንዲት ትድ', aliases: ['Andittid'], region: 'Amhara', zone: 'North Shewa', woreda: 'Basona Werana', lat: 9.80, lon: 39.72 },
+  { name: 'Maybar', localName: 'ማይባር', aliases: ['Mai Bar'], region: 'Amhara', zone: 'South Wollo', woreda: 'Albuko', lat: 10.98, lon: 39.65 },
+  { name: 'Anjeni', localName: 'አንጀኒ', region: 'Amhara', zone: 'West Gojjam', woreda: 'Dembecha', lat: 10.68, lon: 37.53 },
+  { name: 'Debre Mewi', localName: 'ደብረ መዊ', region: 'Amhara', zone: 'West Gojjam', woreda: 'Yilmana Densa', lat: 11.34, lon: 37.41 },
+  { name: 'Sirinka', localName: 'ሲሪንቃ', aliases: ['Sirinqa'], region: 'Amhara', zone: 'North Wollo', woreda: 'Habru', lat: 11.75, lon: 39.61 },
+  // Oromia
+  { name: 'Kulumsa', localName: 'ኩሉምሳ', region: 'Oromia', zone: 'Arsi', woreda: 'Tiyo', lat: 8.02, lon: 39.16 },
+  { name: 'Melkassa', localName: 'መልካሳ', aliases: ['Melkasa'], region: 'Oromia', zone: 'East Shewa', woreda: 'Adama', lat: 8.40, lon: 39.33 },
+  // South Ethiopia
+  { name: 'Kokate', localName: 'ኮካቴ', region: 'South Ethiopia', zone: 'Wolaita', woreda: 'Sodo Zuria', lat: 6.88, lon: 37.80 }
+];
@@ -0,0 +1,117 @@
+/**
+ * Environment Configuration
+ *
+ * Builds the SSFR client, layer registry and product settings from environment
+ * variables. Shared by every entry point (HTTP server, stdio server and CLI) so
+ * they answer with the same data and settings.
+ *
+ * @module environment
+ */
+
+import { SSFRClient } from './ssfr-client.js';
+import { FIXTURE_MODES, FixtureMode } from './fixtures.js';
+import { loadProductCompositions, ProductCompositions } from './nutrients.js';
+import { loadShoppingListConfig, ShoppingListConfig } from './shopping-list.js';
+import { loadLayerRegistry, LayerRegistry } from './layer-registry.js';
+import { loadGazetteer, Gazetteer } from './gazetteer.js';
+import { LogFormat, configureLogging } from './logger.js';
+
+/**
+ * Everything the tools need, as configured by the environment
+ */
+export interface ServiceEnvironment {
+  client: SSFRClient;
+  registry: LayerRegistry;
+  shoppingListConfig: ShoppingListConfig;
+  productCompositions: ProductCompositions;
+  gazetteer: Gazetteer;
+}
+
+/**
+ * Read an optional numeric environment variable
+ */
+export function numberFromEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return undefined;
+  const value = Number(raw);
+  if (isNaN(value)) {
+    throw new Error(`Environment variable ${name} must be a number, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Fixture settings (SSFR_FIXTURES_MODE=record|replay, fixtures in SSFR_FIXTURES_DIR), or undefined when unset
+ *
+ * @throws Error for an unknown mode
+ */
+function fixturesFromEnv(): { mode: FixtureMode; directory: string } | undefined {
+  const mode = process.env.SSFR_FIXTURES_MODE;
+  if (!mode) return undefined;
+  if (!(FIXTURE_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`Environment variable SSFR_FIXTURES_MODE must be one of ${FIXTURE_MODES.join(', ')}, got "${mode}"`);
+  }
+  return { mode: mode as FixtureMode, directory: process.env.SSFR_FIXTURES_DIR || './fixtures' };
+}
+
+/**
+ * Configure logging (LOG_FORMAT=json for structured logs; LOG_COORDINATE_DECIMALS rounds logged coordinates)
+ *
+ * @param stderr - Write every entry to stderr, for entry points whose stdout is data
+ */
+export function configureLoggingFromEnv(stderr = false): void {
+  configureLogging({
+    format: (process.env.LOG_FORMAT || undefined) as LogFormat | undefined,
+    coordinateDecimals: numberFromEnv('LOG_COORDINATE_DECIMALS'),
+    stderr
+  });
+}
+
+/**
+ * Load the registry, product settings, gazetteer and SSFR client
+ *
+ * @throws Error for an invalid variable or configuration file
+ */
+export function loadServiceEnvironment(): ServiceEnvironment {
+  const baseUrl = process.env.SSFR_API_BASE_URL || 'https://webapi.nextgenagroadvisory.com';
+
+  // Supported crops and their layers (SSFR_LAYERS_FILE adds or replaces crops)
+  const registry = loadLayerRegistry(process.env.SSFR_LAYERS_FILE || undefined);
+
+  // Optional JSON file overriding prices, area units, bag size and cart load size
+  const shoppingListConfig = loadShoppingListConfig(process.env.SSFR_SHOPPING_CONFIG_FILE || undefined);
+
+  // Fertilizer product compositions used for the nutrient breakdown
+  const productCompositions = loadProductCompositions(process.env.SSFR_PRODUCTS_FILE || undefined);
+
+  // Place names for the `place` argument (SSFR_PLACES_FILE adds more kebeles and other local names)
+  const gazetteer = loadGazetteer(process.env.SSFR_PLACES_FILE || undefined);
+
+  // Layer cache (SSFR_CACHE_ENABLED=false disables caching)
+  const client = new SSFRClient(baseUrl, {
+    cache: process.env.SSFR_CACHE_ENABLED !== 'false' && {
+      ttlSeconds: numberFromEnv('SSFR_CACHE_TTL_SECONDS'),
+      maxEntries: numberFromEnv('SSFR_CACHE_MAX_ENTRIES'),
+      cellSizeDegrees: numberFromEnv('SSFR_CACHE_CELL_SIZE'),
+      filePath: process.env.SSFR_CACHE_FILE || undefined
+    },
+    timeoutMs: numberFromEnv('SSFR_TIMEOUT_MS'),
+    retry: {
+      retries: numberFromEnv('SSFR_RETRY_ATTEMPTS'),
+      baseDelayMs: numberFromEnv('SSFR_RETRY_BASE_DELAY_MS'),
+      maxDelayMs: numberFromEnv('SSFR_RETRY_MAX_DELAY_MS')
+    },
+    circuitBreaker: {
+      failureThreshold: numberFromEnv('SSFR_BREAKER_FAILURE_THRESHOLD'),
+      resetTimeoutMs: numberFromEnv('SSFR_BREAKER_RESET_MS')
+    },
+    productCompositions,
+    layerRegistry: registry,
+    // Default search radius when a call opts in to the nearest-available-data fallback
+    nearestDataRadiusMeters: numberFromEnv('SSFR_NEAREST_DATA_RADIUS_M'),
+    // Record upstream responses to fixture files, or replay them offline
+    fixtures: fixturesFromEnv()
+  });
+
+  return { client, registry, shoppingListConfig, productCompositions, gazetteer };
+}
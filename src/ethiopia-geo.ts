@@ -0,0 +1,168 @@
+/**
+ * Offline Ethiopia Geography
+ *
+ * Country boundary and administrative lookups that run without any network access,
+ * using the simplified data bundled in `src/data`.
+ *
+ * Key Features:
+ * - Point-in-polygon check against the Ethiopia outline (instead of a bounding box)
+ * - Distance to the border, and the neighbouring country, for points outside Ethiopia
+ * - Approximate region / zone / woreda for points inside Ethiopia
+ *
+ * @module ethiopia-geo
+ */
+
+import { ETHIOPIA_OUTLINE, NEIGHBOURING_COUNTRIES } from './data/ethiopia-boundary.js';
+import { ETHIOPIA_ZONES, ETHIOPIA_WOREDAS } from './data/ethiopia-admin.js';
+import { isInField, PolygonGeometry } from './field-geometry.js';
+
+/** Mean Earth radius in kilometres */
+const EARTH_RADIUS_KM = 6371;
+
+/** Zones further than this from their reference point are not reported */
+const MAX_ZONE_DISTANCE_KM = 200;
+
+/** Woredas further than this from their reference point are not reported */
+const MAX_WOREDA_DISTANCE_KM = 15;
+
+/**
+ * Ethiopia outline as a GeoJSON polygon
+ */
+export const ETHIOPIA_BOUNDARY: PolygonGeometry = {
+  type: 'Polygon',
+  coordinates: [ETHIOPIA_OUTLINE]
+};
+
+/**
+ * Administrative area of a point inside Ethiopia
+ */
+export interface AdminArea {
+  /** Regional state or chartered city */
+  region: string;
+  /** Zone, when a zone reference point is close enough */
+  zone?: string;
+  /** Woreda, when a woreda reference point is close enough */
+  woreda?: string;
+}
+
+/**
+ * Where a point outside Ethiopia lies relative to its border
+ */
+export interface NearestBorder {
+  /** Neighbouring country the point lies in; undefined beyond the neighbours (or at sea) */
+  country?: string;
+  /** Distance from the point to Ethiopia's border, in kilometres */
+  distanceKm: number;
+}
+
+/**
+ * Result of locating a point relative to Ethiopia
+ */
+export type EthiopiaLocation =
+  | { inEthiopia: true; admin?: AdminArea }
+  | { inEthiopia: false; nearestBorder: NearestBorder };
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * toRad;
+  const dLon = (lon2 - lon1) * toRad;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * toRad) * Math.cos(lat2 * toRad) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Distance from a point to a segment in kilometres (local equirectangular projection)
+ */
+function distanceToSegmentKm(lat: number, lon: number, [lon1, lat1]: number[], [lon2, lat2]: number[]): number {
+  const scale = Math.cos(lat * (Math.PI / 180));
+  const ax = (lon1 - lon) * scale, ay = lat1 - lat;
+  const bx = (lon2 - lon) * scale, by = lat2 - lat;
+  const dx = bx - ax, dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+  const closestLat = lat + ay + t * dy;
+  const closestLon = lon + (ax + t * dx) / scale;
+  return distanceKm(lat, lon, closestLat, closestLon);
+}
+
+/**
+ * Check whether a point is inside the Ethiopia outline
+ */
+export function isInEthiopiaBoundary(lat: number, lon: number): boolean {
+  return isInField(lat, lon, ETHIOPIA_BOUNDARY);
+}
+
+/**
+ * Neighbouring country a point lies in, or undefined outside all of them
+ */
+export function neighbouringCountryAt(lat: number, lon: number): string | undefined {
+  return NEIGHBOURING_COUNTRIES.find(country =>
+    isInField(lat, lon, { type: 'MultiPolygon', coordinates: country.polygons })
+  )?.name;
+}
+
+/**
+ * Distance from a point outside Ethiopia to its border, and the neighbouring
+ * country the point is in
+ */
+export function findNearestBorder(lat: number, lon: number): NearestBorder {
+  let distance = Infinity;
+  for (let i = 0; i < ETHIOPIA_OUTLINE.length - 1; i++) {
+    distance = Math.min(distance, distanceToSegmentKm(lat, lon, ETHIOPIA_OUTLINE[i], ETHIOPIA_OUTLINE[i + 1]));
+  }
+  return { country: neighbouringCountryAt(lat, lon), distanceKm: Math.round(distance * 10) / 10 };
+}
+
+/**
+ * Approximate administrative area for a point inside Ethiopia
+ *
+ * Uses the nearest woreda reference point when one is within MAX_WOREDA_DISTANCE_KM,
+ * otherwise the nearest zone reference point within MAX_ZONE_DISTANCE_KM.
+ *
+ * @returns The admin area, or undefined if no reference point is close enough
+ */
+export function lookupAdminArea(lat: number, lon: number): AdminArea | undefined {
+  const nearestOf = <T extends { lat: number; lon: number }>(items: T[]) => {
+    let best: { item: T; distance: number } | undefined;
+    for (const item of items) {
+      const distance = distanceKm(lat, lon, item.lat, item.lon);
+      if (!best || distance < best.distance) {
+        best = { item, distance };
+      }
+    }
+    return best;
+  };
+
+  const woreda = nearestOf(ETHIOPIA_WOREDAS);
+  if (woreda && woreda.distance <= MAX_WOREDA_DISTANCE_KM) {
+    return { region: woreda.item.region, zone: woreda.item.zone, woreda: woreda.item.name };
+  }
+
+  const zone = nearestOf(ETHIOPIA_ZONES);
+  if (zone && zone.distance <= MAX_ZONE_DISTANCE_KM) {
+    return { region: zone.item.region, zone: zone.item.name };
+  }
+
+  return undefined;
+}
+
+/**
+ * Locate a point relative to Ethiopia: admin area when inside, nearest border when outside
+ */
+export function locateInEthiopia(lat: number, lon: number): EthiopiaLocation {
+  if (isInEthiopiaBoundary(lat, lon)) {
+    return { inEthiopia: true, admin: lookupAdminArea(lat, lon) };
+  }
+  return { inEthiopia: false, nearestBorder: findNearestBorder(lat, lon) };
+}
+
+/**
+ * Human-readable description of where an out-of-country point fell
+ */
+export function describeOutsideLocation(border: NearestBorder): string {
+  const distance = `about ${Math.round(border.distanceKm)} km beyond Ethiopia's border`;
+  return border.country ? `in ${border.country}, ${distance}` : distance;
+}
@@ -0,0 +1,299 @@
+/**
+ * Field Geometry Helpers
+ *
+ * Minimal GeoJSON geometry utilities used to turn a field boundary into a set of
+ * sample points for the SSFR layers. Kept dependency-free on purpose: fields are
+ * small (a few hectares), so spherical approximations are more than accurate enough.
+ *
+ * Key Features:
+ * - GeoJSON Polygon / MultiPolygon types (holes supported)
+ * - Point-in-polygon test (even-odd rule)
+ * - Geodesic area in hectares
+ * - Regular sampling grid clipped to the field
+ * - Rings of points around a location, with compass directions (nearest-data search)
+ *
+ * @module field-geometry
+ */
+
+import type { Coordinate } from './ssfr-client.js';
+
+/** Mean Earth radius in metres (WGS84 semi-major axis, as used by GeoJSON tooling) */
+const EARTH_RADIUS_M = 6378137;
+
+/** Metres per degree of latitude */
+const METERS_PER_DEGREE = (Math.PI / 180) * EARTH_RADIUS_M;
+
+/** Smallest outer ring area accepted as a field, in square metres (below this it is a line or a point) */
+const MIN_RING_AREA_M2 = 1;
+
+/**
+ * GeoJSON position: [longitude, latitude] (altitude, if present, is ignored)
+ */
+export type Position = number[];
+
+/**
+ * GeoJSON Polygon: first ring is the outer boundary, the rest are holes
+ */
+export interface PolygonGeometry {
+  type: 'Polygon';
+  coordinates: Position[][];
+}
+
+/**
+ * GeoJSON MultiPolygon
+ */
+export interface MultiPolygonGeometry {
+  type: 'MultiPolygon';
+  coordinates: Position[][][];
+}
+
+/**
+ * Field boundary accepted by the field recommendation tool
+ */
+export type FieldGeometry = PolygonGeometry | MultiPolygonGeometry;
+
+/**
+ * Sampling grid generated for a field
+ */
+export interface FieldSampleGrid {
+  /** Sample points inside the field */
+  points: Coordinate[];
+  /** Distance between neighbouring grid points, in metres */
+  spacingMeters: number;
+}
+
+/**
+ * Return the polygons of a geometry as a list of ring arrays
+ */
+function polygonsOf(geometry: FieldGeometry): Position[][][] {
+  return geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+}
+
+/**
+ * Validate that a geometry has at least one usable outer ring, and that every
+ * outer ring encloses an area
+ *
+ * @throws Error describing the first problem found
+ */
+export function validateFieldGeometry(geometry: FieldGeometry): void {
+  const polygons = polygonsOf(geometry);
+  if (polygons.length === 0) {
+    throw new Error('Field geometry has no polygons');
+  }
+  for (const rings of polygons) {
+    if (rings.length === 0) {
+      throw new Error('Field polygon has no outer ring');
+    }
+    for (const ring of rings) {
+      if (ring.length < 4) {
+        throw new Error('Field polygon rings need at least 4 positions (first and last must be equal)');
+      }
+      for (const [lon, lat] of ring) {
+        if (typeof lat !== 'number' || isNaN(lat) || lat < -90 || lat > 90 ||
+            typeof lon !== 'number' || isNaN(lon) || lon < -180 || lon > 180) {
+          throw new Error(`Invalid position in field polygon: [${lon}, ${lat}]`);
+        }
+      }
+    }
+    // Collinear or repeated positions enclose nothing
+    if (ringArea(rings[0]) < MIN_RING_AREA_M2) {
+      throw new Error('Field polygon has no area (its positions are repeated or on one line)');
+    }
+  }
+}
+
+/**
+ * Even-odd point-in-ring test
+ */
+function isInRing(lat: number, lon: number, ring: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Check whether a point lies inside a field (inside an outer ring and outside its holes)
+ */
+export function isInField(lat: number, lon: number, geometry: FieldGeometry): boolean {
+  return polygonsOf(geometry).some(([outer, ...holes]) =>
+    isInRing(lat, lon, outer) && !holes.some(hole => isInRing(lat, lon, hole))
+  );
+}
+
+/**
+ * Spherical area of a ring in square metres (unsigned)
+ */
+function ringArea(ring: Position[]): number {
+  const toRad = Math.PI / 180;
+  let total = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [lon1, lat1] = ring[i];
+    const [lon2, lat2] = ring[i + 1];
+    total += (lon2 - lon1) * toRad * (2 + Math.sin(lat1 * toRad) + Math.sin(lat2 * toRad));
+  }
+  return Math.abs((total * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2);
+}
+
+/**
+ * Area of a field in hectares (holes are subtracted)
+ */
+export function fieldAreaHectares(geometry: FieldGeometry): number {
+  let squareMeters = 0;
+  for (const [outer, ...holes] of polygonsOf(geometry)) {
+    squareMeters += ringArea(outer);
+    for (const hole of holes) {
+      squareMeters -= ringArea(hole);
+    }
+  }
+  return Math.max(squareMeters, 0) / 10000;
+}
+
+/**
+ * Bounding box of all outer rings
+ */
+function boundingBox(geometry: FieldGeometry) {
+  let minLat = Infinity, maxLat = -Infinity, minLon = Infinity, maxLon = -Infinity;
+  for (const [outer] of polygonsOf(geometry)) {
+    for (const [lon, lat] of outer) {
+      minLat = Math.min(minLat, lat);
+      maxLat = Math.max(maxLat, lat);
+      minLon = Math.min(minLon, lon);
+      maxLon = Math.max(maxLon, lon);
+    }
+  }
+  return { minLat, maxLat, minLon, maxLon };
+}
+
+/**
+ * Representative point of a field: the vertex average of the largest outer ring
+ * if it falls inside the field, otherwise the first vertex of that ring
+ */
+export function fieldCentroid(geometry: FieldGeometry): Coordinate {
+  const outer = polygonsOf(geometry)
+    .map(([ring]) => ring)
+    .reduce((largest, ring) => (ringArea(ring) > ringArea(largest) ? ring : largest));
+
+  // Skip the closing position so it is not counted twice
+  const vertices = outer.slice(0, -1);
+  const lat = vertices.reduce((sum, [, vLat]) => sum + vLat, 0) / vertices.length;
+  const lon = vertices.reduce((sum, [vLon]) => sum + vLon, 0) / vertices.length;
+
+  if (isInField(lat, lon, geometry)) {
+    return { lat, lon };
+  }
+  return { lat: outer[0][1], lon: outer[0][0] };
+}
+
+/**
+ * Build a regular sampling grid over a field
+ *
+ * The spacing is chosen so the grid has at most `maxSamples` points, but is never
+ * finer than `minSpacingMeters` (sampling below the raster resolution only repeats
+ * the same cell). Grid cell centres outside the field are dropped. If no grid point
+ * falls inside the field (very small or thin fields), the field centroid is used.
+ *
+ * @param geometry - Field boundary
+ * @param maxSamples - Upper bound on the number of sample points
+ * @param minSpacingMeters - Smallest allowed distance between grid points
+ */
+export function sampleFieldGrid(
+  geometry: FieldGeometry,
+  maxSamples: number,
+  minSpacingMeters: number
+): FieldSampleGrid {
+  const { minLat, maxLat, minLon, maxLon } = boundingBox(geometry);
+  const metersPerDegreeLon = METERS_PER_DEGREE * Math.cos(((minLat + maxLat) / 2) * (Math.PI / 180));
+
+  const widthMeters = (maxLon - minLon) * metersPerDegreeLon;
+  const heightMeters = (maxLat - minLat) * METERS_PER_DEGREE;
+  const spacingMeters = Math.max(Math.sqrt((widthMeters * heightMeters) / maxSamples), minSpacingMeters);
+
+  const latStep = spacingMeters / METERS_PER_DEGREE;
+  const lonStep = spacingMeters / metersPerDegreeLon;
+
+  const points: Coordinate[] = [];
+  for (let lat = minLat + latStep / 2; lat < maxLat; lat += latStep) {
+    for (let lon = minLon + lonStep / 2; lon < maxLon; lon += lonStep) {
+      if (isInField(lat, lon, geometry)) {
+        points.push({ lat: roundCoordinate(lat), lon: roundCoordinate(lon) });
+      }
+    }
+  }
+
+  if (points.length === 0) {
+    const centroid = fieldCentroid(geometry);
+    points.push({ lat: roundCoordinate(centroid.lat), lon: roundCoordinate(centroid.lon) });
+  }
+
+  // Non-square fields can overshoot the bound slightly; keep an even spread
+  if (points.length > maxSamples) {
+    const stride = points.length / maxSamples;
+    const thinned: Coordinate[] = [];
+    for (let i = 0; i < maxSamples; i++) {
+      thinned.push(points[Math.floor(i * stride)]);
+    }
+    return { points: thinned, spacingMeters };
+  }
+
+  return { points, spacingMeters };
+}
+
+/**
+ * Compass directions, clockwise from north in 45° steps
+ */
+export const COMPASS_DIRECTIONS = [
+  'north', 'north-east', 'east', 'south-east', 'south', 'south-west', 'west', 'north-west'
+] as const;
+export type CompassDirection = typeof COMPASS_DIRECTIONS[number];
+
+/**
+ * A point on a ring around a location
+ */
+export interface RingPoint extends Coordinate {
+  /** Degrees clockwise from north, as seen from the centre */
+  bearingDegrees: number;
+}
+
+/**
+ * Points evenly spaced on a circle around a location, starting due north and
+ * going clockwise
+ *
+ * @param center - Centre of the ring
+ * @param radiusMeters - Distance of every point from the centre
+ * @param count - Number of points
+ */
+export function sampleRing(center: Coordinate, radiusMeters: number, count: number): RingPoint[] {
+  const metersPerDegreeLon = METERS_PER_DEGREE * Math.cos(center.lat * (Math.PI / 180));
+  const points: RingPoint[] = [];
+  for (let i = 0; i < count; i++) {
+    const bearingDegrees = (360 * i) / count;
+    const bearing = bearingDegrees * (Math.PI / 180);
+    points.push({
+      lat: roundCoordinate(center.lat + (radiusMeters * Math.cos(bearing)) / METERS_PER_DEGREE),
+      lon: roundCoordinate(center.lon + (radiusMeters * Math.sin(bearing)) / metersPerDegreeLon),
+      bearingDegrees: Math.round(bearingDegrees * 10) / 10
+    });
+  }
+  return points;
+}
+
+/**
+ * Nearest of the eight compass directions for a bearing
+ */
+export function compassDirection(bearingDegrees: number): CompassDirection {
+  const index = Math.round((((bearingDegrees % 360) + 360) % 360) / 45) % COMPASS_DIRECTIONS.length;
+  return COMPASS_DIRECTIONS[index];
+}
+
+/**
+ * Round a coordinate to 6 decimals (~0.1 m) to keep request URLs short
+ */
+function roundCoordinate(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
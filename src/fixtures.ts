@@ -0,0 +1,135 @@
+/**
+ * Upstream Fixtures
+ *
+ * Recorded responses of the upstream `/coordinates/{layer}/{coords}/{date}` route,
+ * so the client (replay mode) and the local mock upstream can answer without
+ * network access. One JSON file per request, at
+ * `{directory}/{layer}/{date}/{key}.json`, where the key is a hash of the exact
+ * coordinate array sent. Files hold the raw status and body, so replaying goes
+ * through the same parsing as a live response; they can be edited by hand.
+ *
+ * @module fixtures
+ */
+
+import { createHash } from 'node:crypto';
+import { readFile, writeFile, mkdir, rename } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Coordinate } from './ssfr-client.js';
+
+/**
+ * Fixture modes of the SSFR client:
+ * - record: call the upstream and save every response below 500 as a fixture
+ * - replay: answer from fixtures only; a request without one fails
+ */
+export const FIXTURE_MODES = ['record', 'replay'] as const;
+export type FixtureMode = typeof FIXTURE_MODES[number];
+
+/**
+ * A recorded upstream response
+ */
+export interface LayerFixture {
+  request: {
+    layer: string;
+    date: string;
+    coordinates: Coordinate[];
+  };
+  response: {
+    status: number;
+    /** Parsed JSON body; `text` holds bodies that are not JSON */
+    body?: unknown;
+    text?: string;
+  };
+  /** When the response was recorded (ISO 8601) */
+  recordedAt: string;
+}
+
+/**
+ * Fixture files of one directory
+ */
+export class FixtureStore {
+  constructor(readonly directory: string) {}
+
+  /**
+   * Path of the fixture for a request (whether or not it exists)
+   *
+   * @throws Error for a layer or date that would leave the fixture directory
+   */
+  pathFor(layer: string, coordinates: Coordinate[], date: string): string {
+    return join(this.directory, safeSegment(layer), safeSegment(date), `${fixtureKey(coordinates)}.json`);
+  }
+
+  /**
+   * The recorded response for a request, or undefined without a fixture
+   *
+   * @throws Error for a fixture file that is not valid JSON
+   */
+  async read(layer: string, coordinates: Coordinate[], date: string): Promise<LayerFixture | undefined> {
+    const path = this.pathFor(layer, coordinates, date);
+    let text: string;
+    try {
+      text = await readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+    try {
+      return JSON.parse(text) as LayerFixture;
+    } catch (error) {
+      throw new Error(`Invalid fixture ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Save a response (replacing an earlier recording of the same request)
+   *
+   * @returns The fixture path
+   */
+  async write(layer: string, coordinates: Coordinate[], date: string, status: number, bodyText: string): Promise<string> {
+    const path = this.pathFor(layer, coordinates, date);
+    let body: unknown;
+    let text: string | undefined;
+    try {
+      body = JSON.parse(bodyText);
+    } catch {
+      text = bodyText;
+    }
+    const fixture: LayerFixture = {
+      request: { layer, date, coordinates: coordinates.map(({ lat, lon }) => ({ lat, lon })) },
+      response: { status, body, text },
+      recordedAt: new Date().toISOString()
+    };
+
+    await mkdir(join(path, '..'), { recursive: true });
+    const tempPath = `${path}.tmp`;
+    await writeFile(tempPath, `${JSON.stringify(fixture, null, 2)}\n`);
+    await rename(tempPath, path);
+    return path;
+  }
+}
+
+/**
+ * Body text of a recorded response, as the upstream sent it
+ */
+export function fixtureBodyText(fixture: LayerFixture): string {
+  return fixture.response.text ?? JSON.stringify(fixture.response.body ?? null);
+}
+
+/**
+ * Key of a coordinate array: a short hash of the coordinates as sent, in order
+ */
+function fixtureKey(coordinates: Coordinate[]): string {
+  const canonical = JSON.stringify(coordinates.map(({ lat, lon }) => [lat, lon]));
+  return createHash('sha256').update(canonical).digest('hex').slice(0, 16);
+}
+
+/**
+ * A layer name or date usable as a directory name
+ *
+ * @throws Error for values that would leave the fixture directory (`.`, `..` or containing `..`)
+ */
+function safeSegment(value: string): string {
+  if (value === '' || value === '.' || value.includes('..')) {
+    throw new Error(`Invalid fixture path segment: "${value}"`);
+  }
+  return value.replace(/[^\w.-]/g, '_');
+}
@@ -0,0 +1,397 @@
+/**
+ * Offline Place-Name Gazetteer
+ *
+ * Resolves Ethiopian place names ("near Bahir Dar", "ባሕር ዳር", "Adaamaa") to
+ * coordinates without any network access, for farmers who know their town,
+ * woreda or kebele but not their coordinates.
+ *
+ * Matching works on a spelling-insensitive key: Ge'ez script is transliterated to
+ * Latin letters, and common spelling variants are folded together (doubled
+ * letters, q/k, Afaan Oromo spellings like x and dh, "near" and "woreda"). Names
+ * are then compared by edit distance, both as spelled and as consonants only,
+ * since vowels are where Latin spellings of Ethiopian names differ most.
+ *
+ * The bundled places are towns and a selection of kebeles, plus the zone and
+ * woreda reference points of ethiopia-admin; towns, kebeles and woredas carry
+ * their Ge'ez names. More kebeles and other local names can be added with a JSON
+ * or YAML file.
+ *
+ * @module gazetteer
+ */
+
+import { z } from 'zod';
+import { ETHIOPIA_TOWNS, ETHIOPIA_KEBELES } from './data/ethiopia-places.js';
+import { ETHIOPIA_ZONES, ETHIOPIA_WOREDAS } from './data/ethiopia-admin.js';
+import { distanceKm } from './ethiopia-geo.js';
+import { loadConfigFile } from './config-file.js';
+
+export const PLACE_TYPES = ['town', 'kebele', 'woreda', 'zone'] as const;
+export type PlaceType = typeof PLACE_TYPES[number];
+
+/**
+ * A named place with a reference point
+ */
+export interface Place {
+  /** Usual Latin spelling */
+  name: string;
+  /** Name in Ge'ez script, if known */
+  localName?: string;
+  /** Other spellings and former names */
+  aliases?: string[];
+  type: PlaceType;
+  /** Regional state or chartered city */
+  region: string;
+  zone?: string;
+  woreda?: string;
+  lat: number;
+  lon: number;
+}
+
+/**
+ * A place that matches a query
+ */
+export interface PlaceMatch {
+  place: Place;
+  /** The spelling that matched best (name, local name or alias) */
+  matchedName: string;
+  /** 0-1, 1 for an exact match after spelling normalization */
+  confidence: number;
+}
+
+/**
+ * Outcome of resolving a query to a single place:
+ * - matched: one place stands out with enough confidence
+ * - ambiguous: several distinct places match about equally well, or the best match is too weak
+ * - not_found: nothing comes close
+ */
+export interface PlaceResolution {
+  query: string;
+  status: 'matched' | 'ambiguous' | 'not_found';
+  /** Set when status is 'matched' */
+  match?: PlaceMatch;
+  /** Best candidates, strongest first */
+  candidates: PlaceMatch[];
+}
+
+/** Candidates weaker than this are not reported */
+const MIN_CANDIDATE_CONFIDENCE = 0.6;
+
+/** The best candidate needs at least this confidence to be used */
+const MIN_MATCH_CONFIDENCE = 0.75;
+
+/** A different place this close in confidence to the best one makes the query ambiguous */
+const AMBIGUITY_MARGIN = 0.05;
+
+/** Candidates this close to a stronger one are the same place (e.g. a town and its woreda) */
+const SAME_PLACE_KM = 5;
+
+/** Places closer than this are interchangeable for a recommendation, so never ambiguous */
+const AMBIGUITY_DISTANCE_KM = 10;
+
+/** Weight of a consonants-only match (vowels carry most spelling differences) */
+const CONSONANT_WEIGHT = 0.9;
+
+/** Confidence of a query that is the start of a name, before adding the share of the name it covers */
+const PREFIX_BASE = 0.5;
+
+/** Type order among equally good candidates (towns are what people name most often) */
+const TYPE_ORDER: PlaceType[] = ['town', 'kebele', 'woreda', 'zone'];
+
+/**
+ * Words that describe rather than name a place, in English, Amharic and Afaan
+ * Oromo (written as they are after transliteration and folding)
+ */
+const FILLER_WORDS = new Set([
+  'near', 'around', 'close', 'to', 'in', 'at', 'the', 'of', 'area', 'village',
+  'town', 'city', 'kebele', 'woreda', 'wereda', 'district', 'zone', 'region',
+  'ketema', 'akrabiya', 'ategeb', 'zon', 'kilil',
+  'ganda', 'aanaa', 'magaalaa', 'naannoo', 'godina', 'biyya'
+].map(foldSpelling));
+
+/**
+ * Compass words in Amharic and Afaan Oromo, for zone names like "ሰሜን ሸዋ" (North Shewa)
+ */
+const DIRECTION_WORDS = new Map([
+  ['semen', 'north'], ['semien', 'north'], ['kaaba', 'north'],
+  ['debub', 'south'], ['kibba', 'south'],
+  ['msraq', 'east'], ['misraq', 'east'], ['bahaa', 'east'],
+  ['mirab', 'west'], ['mrab', 'west'], ['lixa', 'west'],
+  ['mehakelawi', 'central'], ['giddugala', 'central']
+].map(([word, english]) => [foldSpelling(word), english]));
+
+/**
+ * Latin consonant of each row of the Ethiopic syllabary (U+1200, 8 code points per row)
+ * Note: '' is a vowel carrier (አ, ዐ); the labialized rows are approximated.
+ */
+const ETHIOPIC_CONSONANTS = [
+  'h', 'l', 'h', 'm', 's', 'r', 's', 'sh', 'q', 'qw', 'q', 'qw', 'b', 'v', 't', 'ch',
+  'h', 'hw', 'n', 'ny', '', 'k', 'kw', 'h', 'hw', 'w', '', 'z', 'zh', 'y', 'd', 'd',
+  'j', 'g', 'gw', 'ng', 't', 'ch', 'p', 'ts', 'ts', 'f', 'p'
+];
+
+/** Vowel of each order (column); the sixth order is usually unwritten in Latin */
+const ETHIOPIC_VOWELS = ['e', 'u', 'i', 'a', 'e', '', 'o', 'wa'];
+
+/** Vowels of the vowel-carrier rows: አ is usually written "a", እ "i" */
+const ETHIOPIC_CARRIER_VOWELS = ['a', 'u', 'i', 'a', 'e', 'i', 'o', 'wa'];
+
+/**
+ * Comparison keys of a name
+ */
+interface NameKey {
+  /** Folded spelling without spaces */
+  spelling: string;
+  /** Folded spelling without vowels */
+  consonants: string;
+}
+
+interface IndexedName {
+  name: string;
+  key: NameKey;
+}
+
+interface IndexedPlace {
+  place: Place;
+  names: IndexedName[];
+  /** Region, zone and woreda keys, for "name, region" qualifiers */
+  context: NameKey[];
+}
+
+const placesFileSchema = z.object({
+  places: z.array(z.object({
+    name: z.string().min(1),
+    localName: z.string().min(1).optional(),
+    aliases: z.array(z.string().min(1)).optional(),
+    type: z.enum(PLACE_TYPES),
+    region: z.string().min(1),
+    zone: z.string().optional(),
+    woreda: z.string().optional(),
+    lat: z.number().min(-90).max(90),
+    lon: z.number().min(-180).max(180)
+  }))
+});
+
+/**
+ * Transliterate Ge'ez (Ethiopic) script to Latin letters; other text is kept as is
+ */
+export function transliterateEthiopic(text: string): string {
+  let result = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code >= 0x1200 && code < 0x1200 + ETHIOPIC_CONSONANTS.length * 8) {
+      const row = (code - 0x1200) >> 3;
+      const order = (code - 0x1200) & 7;
+      const consonant = ETHIOPIC_CONSONANTS[row];
+      result += consonant + (consonant ? ETHIOPIC_VOWELS : ETHIOPIC_CARRIER_VOWELS)[order];
+    } else if (code >= 0x1361 && code <= 0x1368) {
+      // Ethiopic word space and punctuation (፣ is a comma)
+      result += code === 0x1363 ? ',' : ' ';
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+/**
+ * Fold the spelling variants of one word together
+ */
+function foldSpelling(word: string): string {
+  return word
+    .replace(/ph/g, 'p')
+    .replace(/q/g, 'k')
+    .replace(/v/g, 'b')
+    .replace(/dh/g, 'd')
+    // Afaan Oromo: x is an ejective t, c an ejective ch
+    .replace(/x/g, 't')
+    .replace(/c(?!h)/g, 'ch')
+    .replace(/ts|tz/g, 's')
+    .replace(/iy/g, 'i')
+    .replace(/uw/g, 'u')
+    .replace(/(.)\1+/g, '$1');
+}
+
+/**
+ * Comparison keys of a name or query
+ */
+function nameKey(text: string): NameKey {
+  const words = transliterateEthiopic(text)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['`’ʼ]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(foldSpelling)
+    .map(word => DIRECTION_WORDS.get(word) ?? word);
+  // Keep descriptive words when they are all there is ("Zone 1" stays "zone1" rather than "1")
+  const naming = words.filter(word => !FILLER_WORDS.has(word));
+  const spelling = (naming.length > 0 ? naming : words).join('');
+  return { spelling, consonants: spelling.replace(/[aeiou]/g, '') };
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two strings, 0-1 (1 when equal)
+ */
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 0 : 1 - levenshtein(a, b) / length;
+}
+
+/**
+ * How well a query matches a name, 0-1
+ */
+function matchScore(query: NameKey, name: NameKey): number {
+  let score = Math.max(
+    similarity(query.spelling, name.spelling),
+    CONSONANT_WEIGHT * similarity(query.consonants, name.consonants)
+  );
+  // "Bahir" for Bahir Dar: a prefix counts by the share of the name it covers
+  if (query.spelling.length >= 3 && name.spelling.startsWith(query.spelling)) {
+    score = Math.max(score, PREFIX_BASE + (1 - PREFIX_BASE) * query.spelling.length / name.spelling.length);
+  }
+  return score;
+}
+
+/**
+ * Places from a gazetteer file (JSON or YAML with `places: [{ name, type, region, lat, lon, ... }]`)
+ *
+ * @throws Error if the file cannot be read or is invalid
+ */
+export function loadPlacesFile(filePath: string): Place[] {
+  return loadConfigFile(filePath, placesFileSchema, 'gazetteer').places;
+}
+
+/**
+ * The bundled places: towns, kebeles, zones and woredas
+ */
+export function bundledPlaces(): Place[] {
+  return [
+    ...ETHIOPIA_TOWNS.map((town): Place => ({ ...town, type: 'town' })),
+    ...ETHIOPIA_KEBELES.map((kebele): Place => ({ ...kebele, type: 'kebele' })),
+    ...ETHIOPIA_ZONES.map((zone): Place => ({ ...zone, type: 'zone' })),
+    ...ETHIOPIA_WOREDAS.map((woreda): Place => ({ ...woreda, type: 'woreda' }))
+  ];
+}
+
+/**
+ * Searchable set of places
+ */
+export class Gazetteer {
+  private places: IndexedPlace[];
+
+  constructor(places: Place[]) {
+    this.places = places.map(place => ({
+      place,
+      names: [place.name, ...(place.localName ? [place.localName] : []), ...(place.aliases ?? [])]
+        .map(name => ({ name, key: nameKey(name) })),
+      context: [place.region, place.zone, place.woreda]
+        .filter((name): name is string => name !== undefined)
+        .map(nameKey)
+    }));
+  }
+
+  get size(): number {
+    return this.places.length;
+  }
+
+  /**
+   * Places matching a query, strongest first
+   *
+   * Text after the first comma qualifies the name with its region, zone or woreda
+   * ("North Shewa, Oromia"); places outside it are ranked lower.
+   *
+   * @param query - Place name in Latin or Ge'ez script
+   * @param limit - Maximum number of candidates
+   */
+  search(query: string, limit = 5): PlaceMatch[] {
+    const [name, ...qualifiers] = transliterateEthiopic(query).split(',');
+    const key = nameKey(name);
+    if (!key.spelling) {
+      return [];
+    }
+    const context = qualifiers.map(nameKey).filter(qualifier => qualifier.spelling);
+
+    const scored: PlaceMatch[] = [];
+    for (const entry of this.places) {
+      let best: { name: string; score: number } | undefined;
+      for (const candidate of entry.names) {
+        const score = matchScore(key, candidate.key);
+        if (!best || score > best.score) {
+          best = { name: candidate.name, score };
+        }
+      }
+      if (!best) continue;
+
+      let confidence = best.score;
+      if (context.length > 0) {
+        const inContext = context.every(qualifier =>
+          entry.context.some(area => matchScore(qualifier, area) >= MIN_MATCH_CONFIDENCE));
+        confidence *= inContext ? 1 : 0.8;
+      }
+      if (confidence >= MIN_CANDIDATE_CONFIDENCE) {
+        scored.push({ place: entry.place, matchedName: best.name, confidence: Math.round(confidence * 100) / 100 });
+      }
+    }
+
+    scored.sort((a, b) => b.confidence - a.confidence || TYPE_ORDER.indexOf(a.place.type) - TYPE_ORDER.indexOf(b.place.type));
+
+    // A town, its woreda and its zone often share a reference point: keep the strongest
+    const distinct: PlaceMatch[] = [];
+    for (const match of scored) {
+      if (!distinct.some(kept => placeDistanceKm(kept.place, match.place) <= SAME_PLACE_KM)) {
+        distinct.push(match);
+      }
+      if (distinct.length >= limit) break;
+    }
+    return distinct;
+  }
+
+  /**
+   * Resolve a query to a single place, or report why it can't be
+   */
+  resolve(query: string, limit = 5): PlaceResolution {
+    const candidates = this.search(query, limit);
+    const [best, ...others] = candidates;
+    if (!best) {
+      return { query, status: 'not_found', candidates };
+    }
+    const rival = others.find(other =>
+      other.confidence >= best.confidence - AMBIGUITY_MARGIN
+      && placeDistanceKm(other.place, best.place) > AMBIGUITY_DISTANCE_KM);
+    if (best.confidence < MIN_MATCH_CONFIDENCE || rival) {
+      return { query, status: 'ambiguous', candidates };
+    }
+    return { query, status: 'matched', match: best, candidates };
+  }
+}
+
+/**
+ * Gazetteer of the bundled places plus, optionally, a places file
+ *
+ * @param filePath - JSON or YAML file with more places (e.g. kebeles)
+ * @throws Error if the file cannot be read or is invalid
+ */
+export function loadGazetteer(filePath?: string): Gazetteer {
+  return new Gazetteer([...(filePath ? loadPlacesFile(filePath) : []), ...bundledPlaces()]);
+}
+
+function placeDistanceKm(a: Place, b: Place): number {
+  return distanceKm(a.lat, a.lon, b.lat, b.lon);
+}
@@ -1,10 +1,18 @@
 import 'dotenv/config';
+import { randomUUID } from 'node:crypto';
 import express from 'express';
 import cors from 'cors';
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-import { z } from 'zod';
-import { SSFRClient, ETHIOPIA_BOUNDS } from './ssfr-client.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { SessionStore, FarmProfile } from './sessions.js';
+import { cropNames } from './layer-registry.js';
+import { RESOURCE_URIS, PROMPT_NAMES } from './catalog.js';
+import { createRestRouter, REST_ROUTES, OPENAPI_PATH } from './rest-api.js';
+import { ApiKeyStore, loadApiKeys, requireApiKey } from './api-keys.js';
+import { createLogger, logCoordinate, logFormat, requestIdMiddleware, REQUEST_ID_HEADER } from './logger.js';
+import { renderMetrics, METRICS_CONTENT_TYPE } from './metrics.js';
+import { configureLoggingFromEnv, loadServiceEnvironment, numberFromEnv } from './environment.js';
+import { createMcpServer, headerLocation, MAX_BATCH_FARMS, TOOL_NAMES, toolCallCost, FARM_PROFILE_TOOL_NAMES } from './mcp-server.js';
 
 const app = express();
 
@@ -12,29 +20,66 @@ const app = express();
 app.use(express.json());
 app.use(cors({
   origin: process.env.ALLOWED_ORIGINS?.split(',') || '*',
-  exposedHeaders: ['Mcp-Session-Id'],
-  allowedHeaders: ['Content-Type', 'mcp-session-id', 'Authorization', 'X-Farm-Latitude', 'X-Farm-Longitude']
+  exposedHeaders: ['Mcp-Session-Id', REQUEST_ID_HEADER, 'Retry-After', 'X-RateLimit-Limit', 'X-Quota-Remaining'],
+  allowedHeaders: ['Content-Type', 'mcp-session-id', 'Authorization', 'X-API-Key', REQUEST_ID_HEADER, 'X-Farm-Latitude', 'X-Farm-Longitude']
 }));
+// Request ID for the logs of everything done for the request, down to the upstream calls
+app.use(requestIdMiddleware());
 
 // Environment variables
 const PORT = process.env.PORT || 3001;
-const SSFR_API_BASE_URL = process.env.SSFR_API_BASE_URL || 'https://webapi.nextgenagroadvisory.com';
 
-// Initialize SSFR Client
-const ssfrClient = new SSFRClient(SSFR_API_BASE_URL);
+// Logging (LOG_FORMAT, LOG_COORDINATE_DECIMALS)
+configureLoggingFromEnv();
+const mcpLog = createLogger('MCP');
+const serverLog = createLogger('Server');
+
+// SSFR client, layer registry and product settings (SSFR_* variables), shared with the stdio server and CLI
+const environment = loadServiceEnvironment();
+const { client: ssfrClient, registry: layerRegistry, gazetteer } = environment;
+const supportedCrops = cropNames(layerRegistry);
+
+// Session mode (MCP_SESSIONS_ENABLED=true): Mcp-Session-Id, GET/DELETE /mcp and farm profiles
+const sessionStore = process.env.MCP_SESSIONS_ENABLED === 'true'
+  ? new SessionStore({
+    idleTimeoutSeconds: numberFromEnv('MCP_SESSION_IDLE_TIMEOUT_SECONDS'),
+    maxSessions: numberFromEnv('MCP_MAX_SESSIONS')
+  })
+  : undefined;
+
+// Optional API keys (MCP_API_KEYS and/or MCP_API_KEYS_FILE); /mcp and /api/v1 are open without any
+const apiKeyConfigs = loadApiKeys(process.env.MCP_API_KEYS, process.env.MCP_API_KEYS_FILE || undefined);
+const apiKeyStore = apiKeyConfigs.length > 0
+  ? new ApiKeyStore({
+    keys: apiKeyConfigs,
+    rateLimitPerMinute: numberFromEnv('MCP_RATE_LIMIT_PER_MINUTE'),
+    dailyQuota: numberFromEnv('MCP_DAILY_QUOTA')
+  })
+  : undefined;
 
 // Health check endpoint
 app.get('/health', (req, res) => {
+  const upstream = ssfrClient.getUpstreamStatus();
   res.json({
-    status: 'healthy',
+    // Still serving (from cache) while the upstream is down, but degraded
+    status: upstream.circuitBreaker.state === 'open' ? 'degraded' : 'healthy',
     service: 'ssfr-mcp-server',
     timestamp: new Date().toISOString(),
     version: '1.0.0',
-    supportedCrops: ['wheat', 'maize'],
-    supportedRegion: 'Ethiopia'
+    supportedCrops,
+    supportedRegion: 'Ethiopia',
+    cache: ssfrClient.getCacheStats(),
+    upstream,
+    sessions: sessionStore ? { enabled: true, ...sessionStore.getStats() } : { enabled: false },
+    auth: apiKeyStore ? apiKeyStore.getStats() : { enabled: false }
   });
 });
 
+// Prometheus metrics (tool calls, upstream latency and timeouts, rejections, partial data)
+app.get('/metrics', (req, res) => {
+  res.set('Content-Type', METRICS_CONTENT_TYPE).send(renderMetrics());
+});
+
 // Root endpoint
 app.get('/', (req, res) => {
   res.json({
@@ -43,128 +88,123 @@ app.get('/', (req, res) => {
     description: 'Site-Specific Fertilizer Recommendations for Ethiopian farmers via Next-gen Agro Advisory Service',
     endpoints: {
       health: '/health',
-      mcp: '/mcp (POST)'
+      metrics: '/metrics',
+      mcp: sessionStore ? '/mcp (POST, GET, DELETE)' : '/mcp (POST)',
+      rest: REST_ROUTES
     },
     tools: [
-      'get_fertilizer_recommendation'
+      ...TOOL_NAMES,
+      ...(sessionStore ? FARM_PROFILE_TOOL_NAMES : [])
     ],
-    supportedCrops: ['wheat', 'maize'],
+    resources: Object.values(RESOURCE_URIS),
+    prompts: PROMPT_NAMES,
+    sessions: sessionStore ? 'enabled' : 'disabled',
+    auth: apiKeyStore ? 'API key required (Authorization: Bearer <key> or X-API-Key)' : 'disabled',
+    supportedCrops,
     supportedRegion: 'Ethiopia only'
   });
 });
 
+// REST API for clients that don't speak MCP (same validation and response shapes as the tools)
+app.use(createRestRouter({ client: ssfrClient, registry: layerRegistry, gazetteer, maxBatchFarms: MAX_BATCH_FARMS, apiKeys: apiKeyStore }));
+
+// API key check for every /mcp request (401 / 429 as JSON-RPC errors); only tool calls are charged,
+// so GET / DELETE session streams cost nothing
+if (apiKeyStore) {
+  app.use('/mcp', requireApiKey(
+    apiKeyStore,
+    (res, rejection) => {
+      sendJsonRpcError(
+        res,
+        rejection.status,
+        -32000,
+        rejection.message,
+        rejection.status === 429 ? { retry_after_seconds: rejection.retryAfterSeconds } : undefined
+      );
+    },
+    req => (req.method === 'POST' ? toolCallCost(req.body) : 0)
+  ));
+}
+
+/**
+ * Send a JSON-RPC error outside of a transport (unknown session, wrong method, ...)
+ */
+function sendJsonRpcError(res: express.Response, status: number, code: number, message: string, data?: unknown): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message, data },
+    id: null
+  });
+}
+
+/**
+ * Handle POST /mcp in session mode: route to an existing session or open a new one on initialize
+ */
+async function handleSessionPost(req: express.Request, res: express.Response, store: SessionStore): Promise<void> {
+  const sessionId = req.headers['mcp-session-id'] as string | undefined;
+  if (sessionId) {
+    const session = store.touch(sessionId);
+    if (!session) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found or expired. Start a new session with an initialize request.');
+      return;
+    }
+    await session.transport.handleRequest(req, res, req.body);
+    return;
+  }
+
+  if (!isInitializeRequest(req.body)) {
+    sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required (start a session with an initialize request)');
+    return;
+  }
+  if (!store.hasCapacity()) {
+    sendJsonRpcError(res, 503, -32000, 'Too many open sessions. Try again later.');
+    return;
+  }
+
+  const profile: FarmProfile = {};
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: id => {
+      store.add(id, transport, profile);
+    }
+  });
+  // Set before connect: the server chains its own close handler onto this one
+  transport.onclose = () => {
+    if (transport.sessionId) {
+      store.remove(transport.sessionId);
+    }
+  };
+
+  const server = createMcpServer(environment, profile);
+  await server.connect(transport);
+  await transport.handleRequest(req, res, req.body);
+}
+
 // Main MCP endpoint
 app.post('/mcp', async (req, res) => {
   try {
-    // Extract default coordinates from custom headers
-    const headerLat = req.headers['x-farm-latitude'] as string;
-    const headerLon = req.headers['x-farm-longitude'] as string;
-    const defaultLatitude = headerLat ? parseFloat(headerLat) : undefined;
-    const defaultLongitude = headerLon ? parseFloat(headerLon) : undefined;
-
+    // Default coordinates from custom headers (tools read them per call, see farmDefaults)
+    const { latitude: defaultLatitude, longitude: defaultLongitude } = headerLocation(req.headers);
     if (defaultLatitude && defaultLongitude) {
-      console.log(`[MCP] Using default coordinates from headers: lat=${defaultLatitude}, lon=${defaultLongitude}`);
+      mcpLog.info(`Using default coordinates from headers: lat=${logCoordinate(defaultLatitude)}, lon=${logCoordinate(defaultLongitude)}`);
+    }
+
+    if (sessionStore) {
+      await handleSessionPost(req, res, sessionStore);
+      return;
     }
 
     const transport = new StreamableHTTPServerTransport({
       sessionIdGenerator: undefined // Stateless
     });
-
-    const server = new McpServer({
-      name: 'ssfr-fertilizer-recommendations',
-      version: '1.0.0',
-      description: 'Site-Specific Fertilizer Recommendations (SSFR) for Ethiopian farmers. Provides personalized fertilizer quantity and type advice based on location coordinates. Only works for Ethiopian locations.'
-    });
-
-    // Single Tool: Get fertilizer recommendation
-    server.tool(
-      'get_fertilizer_recommendation',
-      'Get Site-Specific Fertilizer Recommendation for wheat or maize in Ethiopia. This tool automatically checks if the location is in Ethiopia. Returns organic and inorganic fertilizer quantities (Compost, Vermicompost, Urea, NPS) plus expected yield.',
-      {
-        crop: z.enum(['wheat', 'maize']).describe('Crop type: wheat or maize'),
-        latitude: z.number().min(-90).max(90).optional().describe('Latitude coordinate. Optional if provided in headers.'),
-        longitude: z.number().min(-180).max(180).optional().describe('Longitude coordinate. Optional if provided in headers.')
-      },
-      async ({ crop, latitude, longitude }) => {
-        try {
-          const lat = latitude ?? defaultLatitude;
-          const lon = longitude ?? defaultLongitude;
-
-          console.log(`[MCP Tool] get_fertilizer_recommendation called: crop=${crop}, lat=${lat}, lon=${lon}`);
-
-          if (lat === undefined || lon === undefined) {
-            return {
-              content: [{
-                type: 'text',
-                text: 'I need to know your farm location to provide fertilizer recommendations. Please provide your latitude and longitude coordinates.'
-              }],
-              isError: true
-            };
-          }
-
-          // Automatically check if location is in Ethiopia (no separate tool needed)
-          if (!ssfrClient.isInEthiopia(lat, lon)) {
-            return {
-              content: [{
-                type: 'text',
-                text: JSON.stringify({
-                  error: 'Location not supported',
-                  message: 'Site-Specific Fertilizer Recommendations are only available for locations in Ethiopia. Your coordinates are outside the supported region.',
-                  location: {
-                    latitude: lat,
-                    longitude: lon
-                  },
-                  ethiopia_bounds: ETHIOPIA_BOUNDS
-                }, null, 2)
-              }],
-              isError: true
-            };
-          }
-
-          const recommendation = await ssfrClient.getFertilizerRecommendation(crop, lat, lon);
-
-          // Format response
-          const response = {
-            crop: recommendation.crop,
-            location: recommendation.location,
-            fertilizers: {
-              organic: recommendation.organic,
-              inorganic: recommendation.inorganic
-            },
-            expected_yield: recommendation.expectedYield,
-            data_source: recommendation.dataSource,
-            units: {
-              organic: 'tons/ha',
-              inorganic: 'kg/ha',
-              yield: 'kg/ha'
-            }
-          };
-
-          return {
-            content: [{
-              type: 'text',
-              text: JSON.stringify(response, null, 2)
-            }]
-          };
-        } catch (error: any) {
-          console.error('[MCP Tool] Error in get_fertilizer_recommendation:', error);
-          return {
-            content: [{
-              type: 'text',
-              text: `I'm having trouble getting fertilizer recommendations right now. ${error.message || 'Try again in a moment?'}`
-            }],
-            isError: true
-          };
-        }
-      }
-    );
+    const server = createMcpServer(environment);
 
     // Connect and handle the request
     await server.connect(transport);
     await transport.handleRequest(req, res, req.body);
 
   } catch (error) {
-    console.error('[MCP] Error:', error);
+    mcpLog.error('Error:', error);
     res.status(500).json({
       jsonrpc: '2.0',
       error: {
@@ -177,9 +217,50 @@ app.post('/mcp', async (req, res) => {
   }
 });
 
+// Session stream (GET) and session termination (DELETE)
+const handleSessionRequest = async (req: express.Request, res: express.Response) => {
+  try {
+    if (!sessionStore) {
+      sendJsonRpcError(res, 405, -32000, 'Method not allowed: sessions are disabled on this server (stateless mode)');
+      return;
+    }
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    if (!sessionId) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+      return;
+    }
+    const session = sessionStore.touch(sessionId);
+    if (!session) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found or expired');
+      return;
+    }
+    await session.transport.handleRequest(req, res);
+  } catch (error) {
+    mcpLog.error('Error:', error);
+    if (!res.headersSent) {
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    }
+  }
+};
+app.get('/mcp', handleSessionRequest);
+app.delete('/mcp', handleSessionRequest);
+
 // Start server
 const HOST = '0.0.0.0';
 const server = app.listen(Number(PORT), HOST, () => {
+  // The banner would break JSON log parsing, so log one structured entry instead
+  if (logFormat() === 'json') {
+    serverLog.info('Server started', {
+      host: HOST,
+      port: Number(PORT),
+      crops: supportedCrops,
+      tools: TOOL_NAMES,
+      sessions: sessionStore !== undefined,
+      api_keys: apiKeyStore?.size ?? 0
+    });
+    return;
+  }
+
   console.log('');
   console.log('🚀 =========================================');
   console.log('   SSFR Fertilizer Recommendations MCP Server');
@@ -187,9 +268,19 @@ const server = app.listen(Number(PORT), HOST, () => {
   console.log(`✅ Server running on ${HOST}:${PORT}`);
   console.log(`📍 Health check: http://localhost:${PORT}/health`);
   console.log(`🌾 MCP endpoint: http://localhost:${PORT}/mcp`);
+  console.log(`🔗 REST API: http://localhost:${PORT}/api/v1 (OpenAPI: http://localhost:${PORT}${OPENAPI_PATH})`);
+  console.log(`📈 Metrics: http://localhost:${PORT}/metrics`);
   console.log(`🌍 Supported Region: Ethiopia only`);
-  console.log(`🌾 Supported Crops: wheat, maize`);
-  console.log(`🛠️  Tools: 1 (get_fertilizer_recommendation)`);
+  console.log(`🌾 Supported Crops: ${supportedCrops.join(', ')}`);
+  console.log(`🛠️  Tools: ${TOOL_NAMES.length} (${TOOL_NAMES.join(', ')})`);
+  console.log(`📚 Resources: ${Object.values(RESOURCE_URIS).join(', ')}`);
+  console.log(`💬 Prompts: ${PROMPT_NAMES.join(', ')}`);
+  if (apiKeyStore) {
+    console.log(`🔐 API keys: ${apiKeyStore.size} configured, required on /mcp and /api/v1`);
+  }
+  if (sessionStore) {
+    console.log(`🔑 Sessions: enabled (idle timeout ${sessionStore.getStats().idleTimeoutSeconds}s, +2 tools: set_farm_profile, get_farm_profile)`);
+  }
   console.log('=========================================');
   console.log('📝 Provides fertilizer recommendations based on location');
   console.log('=========================================');
@@ -197,19 +288,36 @@ const server = app.listen(Number(PORT), HOST, () => {
 });
 
 // Graceful shutdown handling
-process.on('SIGTERM', () => {
-  console.log('SIGTERM signal received: closing HTTP server');
-  server.close(() => {
-    console.log('HTTP server closed');
+process.on('SIGTERM', async () => {
+  serverLog.info('SIGTERM signal received: closing HTTP server');
+  // Open session streams would otherwise keep the server from closing
+  await sessionStore?.closeAll();
+  server.close(async () => {
+    serverLog.info('HTTP server closed');
+    await flushCacheOnExit();
     process.exit(0);
   });
 });
 
-process.on('SIGINT', () => {
-  console.log('SIGINT signal received: closing HTTP server');
-  server.close(() => {
-    console.log('HTTP server closed');
+process.on('SIGINT', async () => {
+  serverLog.info('SIGINT signal received: closing HTTP server');
+  // Open session streams would otherwise keep the server from closing
+  await sessionStore?.closeAll();
+  server.close(async () => {
+    serverLog.info('HTTP server closed');
+    await flushCacheOnExit();
     process.exit(0);
   });
 });
 
+/**
+ * Persist the layer cache before exiting (no-op without SSFR_CACHE_FILE)
+ */
+async function flushCacheOnExit(): Promise<void> {
+  try {
+    await ssfrClient.flushCache();
+  } catch (error) {
+    serverLog.error('Could not persist the layer cache on shutdown:', error);
+  }
+}
+
@@ -0,0 +1,294 @@
+/**
+ * SSFR Layer Cache
+ *
+ * In-memory cache for per-point layer values. SSFR layers are static rasters for a
+ * given release date, so a value fetched once for a raster cell stays valid for the
+ * whole release; the TTL only guards against upstream re-publishing a release.
+ * Expired entries are kept (until evicted) as last known values, which are served,
+ * marked stale, when the upstream is unavailable.
+ *
+ * Key Features:
+ * - Keys built from layer, date and the coordinate snapped to a grid cell
+ * - TTL expiry and a maximum entry count (least recently used entries are evicted)
+ * - Optional persistence to a JSON file so the cache survives restarts
+ * - Last known (stale) values for upstream outages
+ * - Hit / miss / eviction / expiry counters for monitoring
+ *
+ * @module layer-cache
+ */
+
+import { readFileSync } from 'node:fs';
+import { writeFile, rename } from 'node:fs/promises';
+import { createLogger } from './logger.js';
+
+const log = createLogger('SSFR Cache');
+
+/** Version of the persisted file format */
+const CACHE_FILE_VERSION = 2;
+
+/** Delay before writing the cache file after a change, in milliseconds */
+const PERSIST_DEBOUNCE_MS = 5000;
+
+/**
+ * Cache configuration
+ */
+export interface LayerCacheOptions {
+  /** Time to live for entries, in seconds (default: 7 days) */
+  ttlSeconds?: number;
+  /** Maximum number of entries kept (default: 50000) */
+  maxEntries?: number;
+  /**
+   * Grid cell size used to snap coordinates, in degrees (default: 0.001, ~110 m).
+   * Keep this at or below the raster resolution so points in one cache cell
+   * fall in the same raster cell.
+   */
+  cellSizeDegrees?: number;
+  /** Path of a JSON file to persist the cache to (default: memory only) */
+  filePath?: string;
+}
+
+/**
+ * Cached value for one point of one layer. `null` records that the upstream
+ * returned no data for the point, which is as stable as a value.
+ */
+export type CachedLayerValue = number | string | null;
+
+/**
+ * Last known value for a point, regardless of expiry
+ */
+export interface StaleLayerValue {
+  value: CachedLayerValue;
+  /** When the value was fetched from the upstream */
+  storedAt: Date;
+}
+
+/**
+ * Cache counters and configuration, as reported on /health
+ */
+export interface LayerCacheStats {
+  entries: number;
+  maxEntries: number;
+  ttlSeconds: number;
+  cellSizeDegrees: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  expirations: number;
+  staleServed: number;
+  hitRate: number;
+  persistence: string | null;
+}
+
+interface CacheEntry {
+  value: CachedLayerValue;
+  storedAt: number;
+  expiresAt: number;
+  /** Set once the expiry has been counted */
+  expired?: boolean;
+}
+
+/**
+ * LRU + TTL cache for layer values keyed by snapped coordinates
+ */
+export class LayerCache {
+  private entries = new Map<string, CacheEntry>();
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly cellSizeDegrees: number;
+  private readonly filePath?: string;
+  private persistTimer?: NodeJS.Timeout;
+
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expirations = 0;
+  private staleServed = 0;
+
+  /**
+   * Creates a new cache, loading persisted entries if a file path is configured
+   *
+   * @param options - Cache configuration
+   */
+  constructor(options: LayerCacheOptions = {}) {
+    this.ttlMs = (options.ttlSeconds ?? 7 * 24 * 60 * 60) * 1000;
+    this.maxEntries = options.maxEntries ?? 50000;
+    this.cellSizeDegrees = options.cellSizeDegrees ?? 0.001;
+    this.filePath = options.filePath;
+
+    if (!(this.ttlMs > 0) || !(this.maxEntries > 0) || !(this.cellSizeDegrees > 0)) {
+      throw new Error('Cache TTL, size limit and cell size must be positive');
+    }
+
+    if (this.filePath) {
+      this.load();
+    }
+  }
+
+  /**
+   * Look up a cached value
+   *
+   * @returns The cached value (possibly `null` for "no data"), or undefined on a miss
+   */
+  get(layer: string, date: string, lat: number, lon: number): CachedLayerValue | undefined {
+    const key = this.key(layer, date, lat, lon);
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      // Keep the entry as a last known value for getStale()
+      if (!entry.expired) {
+        entry.expired = true;
+        this.expirations++;
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    // Refresh recency: Map iteration order is insertion order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  /**
+   * Store a value, evicting the least recently used entries when full
+   */
+  set(layer: string, date: string, lat: number, lon: number, value: CachedLayerValue): void {
+    const key = this.key(layer, date, lat, lon);
+    this.entries.delete(key);
+    const now = Date.now();
+    this.entries.set(key, { value, storedAt: now, expiresAt: now + this.ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+
+    this.schedulePersist();
+  }
+
+  /**
+   * Look up the last known value for a point, even if it has expired
+   * (not counted as served: see countStaleServed)
+   */
+  getStale(layer: string, date: string, lat: number, lon: number): StaleLayerValue | undefined {
+    const entry = this.entries.get(this.key(layer, date, lat, lon));
+    if (!entry) return undefined;
+    return { value: entry.value, storedAt: new Date(entry.storedAt) };
+  }
+
+  /**
+   * Count last known values that were actually served in place of fresh ones
+   */
+  countStaleServed(points: number): void {
+    this.staleServed += points;
+  }
+
+  /**
+   * Remove every entry (counters are kept)
+   */
+  clear(): void {
+    this.entries.clear();
+    this.schedulePersist();
+  }
+
+  /**
+   * Current counters and configuration
+   */
+  getStats(): LayerCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      entries: this.entries.size,
+      maxEntries: this.maxEntries,
+      ttlSeconds: this.ttlMs / 1000,
+      cellSizeDegrees: this.cellSizeDegrees,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      expirations: this.expirations,
+      staleServed: this.staleServed,
+      hitRate: lookups === 0 ? 0 : Math.round((this.hits / lookups) * 1000) / 1000,
+      persistence: this.filePath ?? null
+    };
+  }
+
+  /**
+   * Write pending changes to disk immediately (call on shutdown)
+   */
+  async flush(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = undefined;
+    }
+    if (!this.filePath) return;
+
+    // Expired entries are written too: they are the last known values after a restart
+    const payload = {
+      version: CACHE_FILE_VERSION,
+      cellSizeDegrees: this.cellSizeDegrees,
+      entries: Array.from(this.entries.entries())
+    };
+
+    // Write to a temporary file first so a crash never leaves a truncated cache
+    const tempPath = `${this.filePath}.tmp`;
+    await writeFile(tempPath, JSON.stringify(payload));
+    await rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Build the cache key for a point, snapping it to the grid cell that contains it
+   */
+  private key(layer: string, date: string, lat: number, lon: number): string {
+    const row = Math.floor(lat / this.cellSizeDegrees);
+    const col = Math.floor(lon / this.cellSizeDegrees);
+    return `${layer}|${date}|${row}|${col}`;
+  }
+
+  /**
+   * Load persisted entries, ignoring a missing, unreadable or incompatible file
+   */
+  private load(): void {
+    try {
+      const payload = JSON.parse(readFileSync(this.filePath!, 'utf8'));
+      if (payload?.version !== CACHE_FILE_VERSION || payload.cellSizeDegrees !== this.cellSizeDegrees) {
+        log.info(`Ignoring ${this.filePath}: written with different cache settings`);
+        return;
+      }
+
+      for (const [key, entry] of payload.entries as Array<[string, CacheEntry]>) {
+        this.entries.set(key, entry);
+      }
+      while (this.entries.size > this.maxEntries) {
+        this.entries.delete(this.entries.keys().next().value as string);
+      }
+
+      log.info(`Loaded ${this.entries.size} entries from ${this.filePath}`, { entries: this.entries.size });
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        log.error(`Could not load ${this.filePath}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  /**
+   * Persist after a quiet period, batching bursts of writes into one file write
+   */
+  private schedulePersist(): void {
+    if (!this.filePath || this.persistTimer) return;
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = undefined;
+      this.flush().catch(error => {
+        log.error(`Could not write ${this.filePath}:`, error instanceof Error ? error.message : error);
+      });
+    }, PERSIST_DEBOUNCE_MS);
+    // Never keep the process alive just to persist the cache
+    this.persistTimer.unref();
+  }
+}
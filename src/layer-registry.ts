@@ -0,0 +1,271 @@
+/**
+ * SSFR Layer Registry
+ *
+ * Single description of the supported crops: for each crop, its upstream layers
+ * (layer ID, release date, unit and where the value is reported) and its
+ * split-application schedule. The tool schemas, the recommendation mapping,
+ * /health, / and the list_supported_crops tool are all generated from it, so
+ * adding a crop is a configuration change.
+ *
+ * Key Features:
+ * - Built-in registry for wheat and maize
+ * - Additional or replacement crops from a JSON or YAML file
+ * - Validation of units, categories and schedules at startup
+ *
+ * @module layer-registry
+ */
+
+import { z } from 'zod';
+import { loadConfigFile } from './config-file.js';
+import { validateSchedule } from './application-plan.js';
+
+/**
+ * Fields a layer value can be reported in
+ */
+export const LAYER_OUTPUTS = ['compost', 'vermicompost', 'urea', 'nps', 'yield'] as const;
+export type LayerOutput = typeof LAYER_OUTPUTS[number];
+
+/**
+ * Output category and unit of each output field
+ * Note: organic products are recommended in tons/ha, inorganic products and yield
+ * in kg/ha; the nutrient and shopping list calculations rely on these units.
+ */
+export const LAYER_OUTPUT_TYPES: Record<LayerOutput, { category: LayerCategory; unit: LayerUnit }> = {
+  compost: { category: 'organic', unit: 'tons/ha' },
+  vermicompost: { category: 'organic', unit: 'tons/ha' },
+  urea: { category: 'inorganic', unit: 'kg/ha' },
+  nps: { category: 'inorganic', unit: 'kg/ha' },
+  yield: { category: 'yield', unit: 'kg/ha' }
+};
+
+export type LayerCategory = 'organic' | 'inorganic' | 'yield';
+export type LayerUnit = 'kg/ha' | 'tons/ha';
+
+/**
+ * One upstream layer of a crop
+ */
+export interface LayerDefinition {
+  /** Upstream layer ID */
+  layer: string;
+  /** Layer release date (YYYY-MM) */
+  date: string;
+  /** Unit of the layer values */
+  unit: LayerUnit;
+  /** Output category */
+  category: LayerCategory;
+  /** Field the value is reported in */
+  output: LayerOutput;
+}
+
+/**
+ * Products whose application can be split across growth stages
+ */
+export type ScheduledProduct = 'urea' | 'nps' | 'compost' | 'vermicompost';
+
+/**
+ * One application stage in a crop's fertilizer schedule
+ */
+export interface ApplicationStage {
+  /** Stage identifier */
+  stage: string;
+  /** Farmer-facing stage name */
+  label: string;
+  /** Timing relative to the planting date, in days (negative = before planting) */
+  daysAfterPlanting: number;
+  /** Share of each product's total applied at this stage (0-1) */
+  shares: Partial<Record<ScheduledProduct, number>>;
+  /** Practical advice for this application */
+  guidance: string;
+}
+
+/**
+ * One supported crop
+ */
+export interface CropDefinition {
+  /** Display name */
+  label: string;
+  /** Layers keyed by layer key (e.g. compost, nps, urea, vcompost, yield) */
+  layers: Record<string, LayerDefinition>;
+  /** Split-application schedule (optional; without it no application plan is offered) */
+  schedule?: ApplicationStage[];
+}
+
+/**
+ * Registry of supported crops, keyed by crop name
+ */
+export interface LayerRegistry {
+  crops: Record<string, CropDefinition>;
+}
+
+/**
+ * Release date used when a layer is queried without an explicit date
+ */
+export const DEFAULT_LAYER_DATE = '2024-07';
+
+/**
+ * Layers shared by the built-in crops
+ * Note: the yield layer uses 2025-07, all other layers use 2024-07 per API documentation
+ */
+function standardLayers(crop: string): Record<string, LayerDefinition> {
+  return {
+    compost: { layer: `et_${crop}_compost_probabilistic_dominant`, date: '2024-07', unit: 'tons/ha', category: 'organic', output: 'compost' },
+    nps: { layer: `et_${crop}_nps_probabilistic_dominant`, date: '2024-07', unit: 'kg/ha', category: 'inorganic', output: 'nps' },
+    urea: { layer: `et_${crop}_urea_probabilistic_dominant`, date: '2024-07', unit: 'kg/ha', category: 'inorganic', output: 'urea' },
+    vcompost: { layer: `et_${crop}_vcompost_probabilistic_dominant`, date: '2024-07', unit: 'tons/ha', category: 'organic', output: 'vermicompost' },
+    yield: { layer: `et_${crop}_yieldtypes_optimal_dominant`, date: '2025-07', unit: 'kg/ha', category: 'yield', output: 'yield' }
+  };
+}
+
+/**
+ * Built-in registry
+ * Note: the shares of each product across a crop's stages must add up to 1.
+ * Organic inputs go in before planting so they can start to decompose; NPS is
+ * all basal; urea is split so nitrogen is available when demand peaks.
+ */
+export const DEFAULT_LAYER_REGISTRY: LayerRegistry = {
+  crops: {
+    wheat: {
+      label: 'Wheat',
+      layers: standardLayers('wheat'),
+      schedule: [
+        {
+          stage: 'land_preparation',
+          label: 'Land preparation',
+          daysAfterPlanting: -14,
+          shares: { compost: 1, vermicompost: 1 },
+          guidance: 'Spread the compost or the vermicompost (one of them, not both) evenly and mix it into the soil during the last ploughing.'
+        },
+        {
+          stage: 'basal',
+          label: 'At planting (basal)',
+          daysAfterPlanting: 0,
+          shares: { nps: 1, urea: 1 / 3 },
+          guidance: 'Apply NPS and the first part of the urea in the rows at sowing, and cover with soil.'
+        },
+        {
+          stage: 'tillering',
+          label: 'Tillering',
+          daysAfterPlanting: 30,
+          shares: { urea: 2 / 3 },
+          guidance: 'Top-dress the remaining urea when the soil is moist, ideally right after weeding.'
+        }
+      ]
+    },
+    maize: {
+      label: 'Maize',
+      layers: standardLayers('maize'),
+      schedule: [
+        {
+          stage: 'land_preparation',
+          label: 'Land preparation',
+          daysAfterPlanting: -14,
+          shares: { compost: 1, vermicompost: 1 },
+          guidance: 'Spread the compost or the vermicompost (one of them, not both) evenly and mix it into the soil during the last ploughing.'
+        },
+        {
+          stage: 'basal',
+          label: 'At planting (basal)',
+          daysAfterPlanting: 0,
+          shares: { nps: 1, urea: 1 / 2 },
+          guidance: 'Apply NPS and half of the urea near the seed at planting, not touching it, and cover with soil.'
+        },
+        {
+          stage: 'knee_high',
+          label: 'Knee-high',
+          daysAfterPlanting: 35,
+          shares: { urea: 1 / 2 },
+          guidance: 'Side-dress the remaining urea about 5 cm from the plants when the soil is moist, and cover it.'
+        }
+      ]
+    }
+  }
+};
+
+const share = z.number().min(0).max(1);
+
+const layerDefinitionSchema = z.object({
+  layer: z.string().min(1),
+  date: z.string().regex(/^\d{4}-\d{2}$/, 'expected YYYY-MM'),
+  unit: z.enum(['kg/ha', 'tons/ha']),
+  category: z.enum(['organic', 'inorganic', 'yield']),
+  output: z.enum(LAYER_OUTPUTS)
+}).strict().superRefine((definition, ctx) => {
+  const expected = LAYER_OUTPUT_TYPES[definition.output];
+  if (definition.category !== expected.category || definition.unit !== expected.unit) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `output "${definition.output}" must have category "${expected.category}" and unit "${expected.unit}"`
+    });
+  }
+});
+
+const applicationStageSchema = z.object({
+  stage: z.string().min(1),
+  label: z.string().min(1),
+  daysAfterPlanting: z.number().int(),
+  shares: z.object({ urea: share, nps: share, compost: share, vermicompost: share }).partial().strict(),
+  guidance: z.string()
+}).strict();
+
+const cropDefinitionSchema = z.object({
+  label: z.string().min(1),
+  layers: z.record(layerDefinitionSchema).refine(layers => Object.keys(layers).length > 0, 'at least one layer is required'),
+  schedule: z.array(applicationStageSchema).min(1).optional()
+}).strict().superRefine((crop, ctx) => {
+  const outputs = Object.values(crop.layers).map(layer => layer.output);
+  const duplicate = outputs.find((output, index) => outputs.indexOf(output) !== index);
+  if (duplicate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['layers'], message: `more than one layer reports "${duplicate}"` });
+  }
+});
+
+const layerRegistrySchema = z.object({
+  /** Drop the built-in crops instead of adding to them */
+  replaceDefaults: z.boolean().optional(),
+  crops: z.record(
+    z.string().regex(/^[a-z][a-z0-9_]*$/, 'crop names must be lowercase identifiers'),
+    cropDefinitionSchema
+  )
+}).strict();
+
+/**
+ * Load the layer registry, adding the crops from a JSON or YAML file to the built-in ones
+ *
+ * A crop in the file replaces the built-in crop of the same name. With
+ * `"replaceDefaults": true` only the crops from the file are used.
+ *
+ * @param filePath - Optional path to a .json, .yaml or .yml file
+ * @returns The effective registry
+ */
+export function loadLayerRegistry(filePath?: string): LayerRegistry {
+  if (!filePath) {
+    return DEFAULT_LAYER_REGISTRY;
+  }
+
+  const file = loadConfigFile(filePath, layerRegistrySchema, 'layer registry');
+  const crops = file.replaceDefaults ? file.crops : { ...DEFAULT_LAYER_REGISTRY.crops, ...file.crops };
+  for (const [crop, definition] of Object.entries(file.crops)) {
+    if (definition.schedule) {
+      validateSchedule(crop, definition.schedule);
+    }
+  }
+  if (Object.keys(crops).length === 0) {
+    throw new Error(`Invalid layer registry in ${filePath}: no crops configured`);
+  }
+  return { crops };
+}
+
+/**
+ * Names of the supported crops, in registry order
+ */
+export function cropNames(registry: LayerRegistry): string[] {
+  return Object.keys(registry.crops);
+}
+
+/**
+ * Human-readable list of crop names, e.g. "wheat, maize or teff"
+ */
+export function describeCropChoices(registry: LayerRegistry): string {
+  const names = cropNames(registry);
+  return names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`;
+}
@@ -0,0 +1,284 @@
+/**
+ * Localized Farmer Summaries
+ *
+ * Builds short farmer-facing text from a recommendation (or from the common error
+ * cases) in English, Amharic, Afaan Oromo and Tigrinya. Text comes from the
+ * templates below; numbers and unit strings are inserted unchanged so the
+ * summary always matches the JSON exactly.
+ *
+ * @module localized-summary
+ */
+
+import type { FertilizerRecommendation } from './ssfr-client.js';
+import type { NearestBorder } from './ethiopia-geo.js';
+import type { CompassDirection } from './field-geometry.js';
+import { LAYER_OUTPUTS, LayerOutput } from './layer-registry.js';
+
+/**
+ * Supported summary languages (ISO 639-1)
+ */
+export const SUMMARY_LANGUAGES = ['en', 'am', 'om', 'ti'] as const;
+export type SummaryLanguage = typeof SUMMARY_LANGUAGES[number];
+
+/**
+ * Translatable templates for one language. `{name}` placeholders are replaced verbatim.
+ */
+export interface SummaryTemplates {
+  /** Crop names (crops without a translation are shown by their registry name) */
+  crops: Record<string, string>;
+  /** Product names, used in lines and in the list of missing data */
+  products: {
+    compost: string;
+    vermicompost: string;
+    urea: string;
+    nps: string;
+    yield: string;
+  };
+  /** Neighbouring country names */
+  countries: Record<string, string>;
+  /** Compass directions */
+  directions: Record<CompassDirection, string>;
+  /** Opening line: {crop}, {place} */
+  intro: string;
+  /** One product line: {product}, {value}, {unit} */
+  productLine: string;
+  /** Expected yield line: {value}, {unit} */
+  expectedYield: string;
+  /** Nutrient line: {n}, {p2o5}, {s}, {unit} */
+  nutrients: string;
+  /** Values from the nearest point with data: {distance}, {direction} */
+  nearestData: string;
+  /** Partial data: {missing} */
+  partial: string;
+  /** Stale data: {date} */
+  stale: string;
+  /** Data source: {source} */
+  source: string;
+  /** Outside Ethiopia, in a neighbouring country: {latitude}, {longitude}, {distance}, {country} */
+  outsideEthiopia: string;
+  /** Outside Ethiopia, beyond its neighbours (or at sea): {latitude}, {longitude}, {distance} */
+  outsideEthiopiaElsewhere: string;
+  /** No data for the location: {latitude}, {longitude} */
+  noData: string;
+  /** The data service could not be reached (every layer request failed) */
+  unavailable: string;
+  /** No location given */
+  missingLocation: string;
+}
+
+/**
+ * Summary templates per language
+ * Note: translations should be reviewed by native-speaking extension staff when
+ * they are changed; keep every placeholder in each template.
+ */
+export const SUMMARY_TEMPLATES: Record<SummaryLanguage, SummaryTemplates> = {
+  en: {
+    crops: { wheat: 'wheat', maize: 'maize', teff: 'teff', barley: 'barley', sorghum: 'sorghum' },
+    products: { compost: 'Compost', vermicompost: 'Vermicompost', urea: 'Urea', nps: 'NPS', yield: 'expected yield' },
+    countries: { Eritrea: 'Eritrea', Djibouti: 'Djibouti', Somaliland: 'Somaliland', Somalia: 'Somalia', Kenya: 'Kenya', 'South Sudan': 'South Sudan', Sudan: 'Sudan' },
+    directions: {
+      north: 'north', 'north-east': 'north-east', east: 'east', 'south-east': 'south-east',
+      south: 'south', 'south-west': 'south-west', west: 'west', 'north-west': 'north-west'
+    },
+    intro: 'Fertilizer advice for {crop} at {place}:',
+    productLine: '{product}: {value} {unit}',
+    expectedYield: 'Expected yield with this advice: {value} {unit}',
+    nutrients: 'Nutrients supplied: N {n} {unit}, P2O5 {p2o5} {unit}, S {s} {unit}.',
+    nearestData: 'There is no data for this exact point, so this advice is for the nearest land with data, {distance} m {direction} of it.',
+    partial: 'No data was available for: {missing}.',
+    stale: 'The data service is currently unavailable. These are the last known values (from {date}) and may be out of date.',
+    source: 'Source: {source}.',
+    outsideEthiopia: 'The location {latitude}, {longitude} is in {country}, about {distance} km beyond the border of Ethiopia. This advice is only available for farms in Ethiopia.',
+    outsideEthiopiaElsewhere: 'The location {latitude}, {longitude} is outside Ethiopia, about {distance} km from its border. This advice is only available for farms in Ethiopia.',
+    noData: 'No fertilizer advice is available for the location {latitude}, {longitude}. The point may be on a road, in a town or on water. Try a point on nearby farmland.',
+    unavailable: 'The fertilizer advice service cannot be reached right now. Please try again later.',
+    missingLocation: 'I need to know where your farm is to give fertilizer advice. Please share its latitude and longitude.'
+  },
+  am: {
+    crops: { wheat: 'ስንዴ', maize: 'በቆሎ', teff: 'ጤፍ', barley: 'ገብስ', sorghum: 'ማሽላ' },
+    products: { compost: 'ኮምፖስት', vermicompost: 'ቨርሚ ኮምፖስት', urea: 'ዩሪያ', nps: 'ኤንፒኤስ (NPS)', yield: 'የሚጠበቅ ምርት' },
+    countries: { Eritrea: 'ኤርትራ', Djibouti: 'ጅቡቲ', Somaliland: 'ሶማሊላንድ', Somalia: 'ሶማሊያ', Kenya: 'ኬንያ', 'South Sudan': 'ደቡብ ሱዳን', Sudan: 'ሱዳን' },
+    directions: {
+      north: 'ሰሜን', 'north-east': 'ሰሜን ምሥራቅ', east: 'ምሥራቅ', 'south-east': 'ደቡብ ምሥራቅ',
+      south: 'ደቡብ', 'south-west': 'ደቡብ ምዕራብ', west: 'ምዕራብ', 'north-west': 'ሰሜን ምዕራብ'
+    },
+    intro: 'ለ{crop} የማዳበሪያ ምክር፤ ቦታ፦ {place}',
+    productLine: '{product}፦ {value} {unit}',
+    expectedYield: 'በዚህ ምክር የሚጠበቀው ምርት፦ {value} {unit}',
+    nutrients: 'የሚሰጠው ንጥረ ነገር፦ N {n} {unit}፣ P2O5 {p2o5} {unit}፣ S {s} {unit}።',
+    nearestData: 'ለዚህ ትክክለኛ ቦታ መረጃ ስለሌለ፣ ይህ ምክር መረጃ ላለው በአቅራቢያ ላለ መሬት ነው፤ ከቦታው በ{direction} በኩል {distance} m ርቀት ላይ።',
+    partial: 'ለሚከተሉት መረጃ አልተገኘም፦ {missing}።',
+    stale: 'የመረጃ አገልግሎቱ በአሁኑ ጊዜ አይሰራም። እነዚህ የመጨረሻዎቹ የሚታወቁ እሴቶች ናቸው ({date})፤ ወቅታዊ ላይሆኑ ይችላሉ።',
+    source: 'ምንጭ፦ {source}።',
+    outsideEthiopia: 'ቦታው {latitude}, {longitude} በ{country} ውስጥ ነው፤ ከኢትዮጵያ ድንበር {distance} km ገደማ ይርቃል። ይህ ምክር የሚሰጠው በኢትዮጵያ ውስጥ ላሉ እርሻዎች ብቻ ነው።',
+    outsideEthiopiaElsewhere: 'ቦታው {latitude}, {longitude} ከኢትዮጵያ ውጭ ነው፤ ከኢትዮጵያ ድንበር {distance} km ገደማ ይርቃል። ይህ ምክር የሚሰጠው በኢትዮጵያ ውስጥ ላሉ እርሻዎች ብቻ ነው።',
+    noData: 'ለቦታው {latitude}, {longitude} የማዳበሪያ ምክር አልተገኘም። ቦታው መንገድ፣ ከተማ ወይም ውሃ ላይ ሊሆን ይችላል። በአቅራቢያ ያለ የእርሻ መሬት ይሞክሩ።',
+    unavailable: 'የማዳበሪያ ምክር አገልግሎቱ በአሁኑ ጊዜ አይገኝም። እባክዎ ቆይተው እንደገና ይሞክሩ።',
+    missingLocation: 'የማዳበሪያ ምክር ለመስጠት የእርሻዎን ቦታ ማወቅ አለብኝ። እባክዎ ኬክሮስ (latitude) እና ኬንትሮስ (longitude) ያጋሩ።'
+  },
+  om: {
+    crops: { wheat: 'qamadii', maize: 'boqqolloo', teff: 'xaafii', barley: 'garbuu', sorghum: 'mishingaa' },
+    products: { compost: 'Kompostii', vermicompost: 'Vermikompostii', urea: 'Yuuriyaa', nps: 'NPS', yield: 'oomisha eegamu' },
+    countries: { Eritrea: 'Eertiraa', Djibouti: 'Jibuutii', Somaliland: 'Somaaliilaandii', Somalia: 'Somaaliyaa', Kenya: 'Keeniyaa', 'South Sudan': 'Sudaan Kibbaa', Sudan: 'Sudaan' },
+    directions: {
+      north: 'kaabaa', 'north-east': 'kaabaa-bahaa', east: 'bahaa', 'south-east': 'kibbaa-bahaa',
+      south: 'kibbaa', 'south-west': 'kibbaa-dhihaa', west: 'dhihaa', 'north-west': 'kaabaa-dhihaa'
+    },
+    intro: 'Gorsa xaa\'oo {crop}; bakka: {place}',
+    productLine: '{product}: {value} {unit}',
+    expectedYield: 'Oomisha gorsa kanaan eegamu: {value} {unit}',
+    nutrients: 'Nyaata biqiltuu kennamu: N {n} {unit}, P2O5 {p2o5} {unit}, S {s} {unit}.',
+    nearestData: 'Bakka kana qofaaf odeeffannoon hin jiru; gorsi kun lafa odeeffannoo qabu isa dhihoo, bakka kana irraa gara {direction} {distance} m fagaatuuf.',
+    partial: 'Odeeffannoon kanneen armaan gadiif hin argamne: {missing}.',
+    stale: 'Tajaajilli odeeffannoo amma hin hojjetu. Gatiiwwan kun kanneen dhumaa beekaman ({date}) yoo ta\'an, yeroon isaanii darbee ta\'uu danda\'a.',
+    source: 'Madda: {source}.',
+    outsideEthiopia: 'Bakki {latitude}, {longitude} {country} keessa jira; daangaa Itoophiyaa irraa gara {distance} km fagaata. Gorsi kun qonnaan bultoota Itoophiyaa keessa jiraniif qofa.',
+    outsideEthiopiaElsewhere: 'Bakki {latitude}, {longitude} Itoophiyaa ala jira; daangaa Itoophiyaa irraa gara {distance} km fagaata. Gorsi kun qonnaan bultoota Itoophiyaa keessa jiraniif qofa.',
+    noData: 'Bakka {latitude}, {longitude} irratti gorsi xaa\'oo hin argamne. Bakki kun daandii, magaalaa ykn bishaan irra ta\'uu danda\'a. Lafa qonnaa naannoo jiru yaalaa.',
+    unavailable: 'Tajaajilli gorsa xaa\'oo amma hin argamu. Maaloo booda irra deebi\'aa yaalaa.',
+    missingLocation: 'Gorsa xaa\'oo kennuuf bakka qonna keessanii beekuu qaba. Maaloo latitude fi longitude isaa naaf kennaa.'
+  },
+  ti: {
+    crops: { wheat: 'ስርናይ', maize: 'ዕፉን', teff: 'ጣፍ', barley: 'ስገም', sorghum: 'ማሽላ' },
+    products: { compost: 'ኮምፖስት', vermicompost: 'ቨርሚ ኮምፖስት', urea: 'ዩርያ', nps: 'ኤንፒኤስ (NPS)', yield: 'ዝጽበ ፍርያት' },
+    countries: { Eritrea: 'ኤርትራ', Djibouti: 'ጅቡቲ', Somaliland: 'ሶማሊላንድ', Somalia: 'ሶማልያ', Kenya: 'ኬንያ', 'South Sudan': 'ደቡብ ሱዳን', Sudan: 'ሱዳን' },
+    directions: {
+      north: 'ሰሜን', 'north-east': 'ሰሜን ምብራቕ', east: 'ምብራቕ', 'south-east': 'ደቡብ ምብራቕ',
+      south: 'ደቡብ', 'south-west': 'ደቡብ ምዕራብ', west: 'ምዕራብ', 'north-west': 'ሰሜን ምዕራብ'
+    },
+    intro: 'ምኽሪ ማዳበሪያ ን{crop}፤ ቦታ፦ {place}',
+    productLine: '{product}፦ {value} {unit}',
+    expectedYield: 'ብዚ ምኽሪ ዝጽበ ፍርያት፦ {value} {unit}',
+    nutrients: 'ዝህቦ ኣልሚ፦ N {n} {unit}፣ P2O5 {p2o5} {unit}፣ S {s} {unit}።',
+    nearestData: 'ነዚ ልክዕ ቦታ ሓበሬታ የለን፤ እዚ ምኽሪ ነቲ ሓበሬታ ዘለዎ ጥቓ መሬት እዩ፣ ካብቲ ቦታ ናብ {direction} {distance} m ርሒቑ ዘሎ።',
+    partial: 'ንዞም ዝስዕቡ ሓበሬታ ኣይተረኽበን፦ {missing}።',
+    stale: 'ኣገልግሎት ሓበሬታ ሕጂ ኣይሰርሕን ዘሎ። እዚኦም ናይ መወዳእታ ዝፍለጡ ዋጋታት ({date}) እዮም፤ ዘይሓደሱ ክኾኑ ይኽእሉ።',
+    source: 'ምንጪ፦ {source}።',
+    outsideEthiopia: 'እቲ ቦታ {latitude}, {longitude} ኣብ {country} እዩ፤ ካብ ዶብ ኢትዮጵያ ብግምት {distance} km ይርሕቕ። እዚ ምኽሪ ንኣብ ኢትዮጵያ ዘለዉ ሕርሻታት ጥራይ እዩ።',
+    outsideEthiopiaElsewhere: 'እቲ ቦታ {latitude}, {longitude} ካብ ኢትዮጵያ ወጻኢ እዩ፤ ካብ ዶብ ኢትዮጵያ ብግምት {distance} km ይርሕቕ። እዚ ምኽሪ ንኣብ ኢትዮጵያ ዘለዉ ሕርሻታት ጥራይ እዩ።',
+    noData: 'ኣብ ቦታ {latitude}, {longitude} ምኽሪ ማዳበሪያ ኣይተረኽበን። እቲ ቦታ ጽርግያ፣ ከተማ ወይ ማይ ክኸውን ይኽእል። ኣብ ጥቓ ዘሎ ሕርሻ ፈትኑ።',
+    unavailable: 'ኣገልግሎት ምኽሪ ማዳበሪያ ሕጂ ኣይርከብን ዘሎ። በጃኹም ድሒርኩም ደጊምኩም ፈትኑ።',
+    missingLocation: 'ምኽሪ ማዳበሪያ ንምሃብ ቦታ ሕርሻኹም ክፈልጥ የድልየኒ። በጃኹም latitude ከምኡውን longitude ሃቡ።'
+  }
+};
+
+/**
+ * Replace `{name}` placeholders with values (unknown placeholders are left as is)
+ */
+function fill(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    values[name] !== undefined ? String(values[name]) : match
+  );
+}
+
+/**
+ * Place description: admin names when known, coordinates otherwise
+ */
+function describePlace(location: FertilizerRecommendation['location']): string {
+  const names = [location.woreda, location.zone, location.region].filter((name): name is string => !!name);
+  // Zone and region share a name for the chartered cities
+  const unique = names.filter((name, index) => names.indexOf(name) === index);
+  return unique.length > 0
+    ? `${unique.join(', ')} (${location.latitude}, ${location.longitude})`
+    : `${location.latitude}, ${location.longitude}`;
+}
+
+/**
+ * Farmer-facing summary of a recommendation
+ *
+ * Covers where the values come from (when it is the nearest point with data),
+ * every product, the expected yield, the nutrient breakdown, missing layers
+ * (partial data), stale data and the data source.
+ *
+ * @param outputs - Outputs the crop has layers for; only these are reported as missing
+ */
+export function summarizeRecommendation(
+  recommendation: FertilizerRecommendation,
+  language: SummaryLanguage,
+  outputs: readonly LayerOutput[] = LAYER_OUTPUTS
+): string {
+  const t = SUMMARY_TEMPLATES[language];
+  const lines: string[] = [
+    fill(t.intro, { crop: t.crops[recommendation.crop] ?? recommendation.crop, place: describePlace(recommendation.location) })
+  ];
+  if (recommendation.nearestData) {
+    lines.push(fill(t.nearestData, {
+      distance: recommendation.nearestData.distanceMeters,
+      direction: t.directions[recommendation.nearestData.direction]
+    }));
+  }
+  const missing: string[] = [];
+
+  const productLine = (key: keyof SummaryTemplates['products'], value: number | undefined, unit: string) => {
+    if (value === undefined) {
+      if (outputs.includes(key)) missing.push(t.products[key]);
+      return;
+    }
+    lines.push(fill(t.productLine, { product: t.products[key], value, unit }));
+  };
+
+  productLine('compost', recommendation.organic.compost, 'tons/ha');
+  productLine('vermicompost', recommendation.organic.vermicompost, 'tons/ha');
+  productLine('urea', recommendation.inorganic.urea, 'kg/ha');
+  productLine('nps', recommendation.inorganic.nps, 'kg/ha');
+
+  if (recommendation.expectedYield !== undefined) {
+    lines.push(fill(t.expectedYield, { value: recommendation.expectedYield, unit: 'kg/ha' }));
+  } else if (outputs.includes('yield')) {
+    missing.push(t.products.yield);
+  }
+
+  // Nutrient totals cover urea and NPS; compost and vermicompost are alternatives
+  if (recommendation.nutrients && recommendation.nutrients.products.length > 0) {
+    const totals = recommendation.nutrients.totals;
+    lines.push(fill(t.nutrients, { n: totals.n, p2o5: totals.p2o5, s: totals.s, unit: 'kg/ha' }));
+  }
+
+  if (missing.length > 0) {
+    lines.push(fill(t.partial, { missing: missing.join(', ') }));
+  }
+
+  if (recommendation.staleData) {
+    lines.push(fill(t.stale, { date: recommendation.staleData.fetchedAt.slice(0, 10) }));
+  }
+
+  lines.push(fill(t.source, { source: recommendation.dataSource }));
+  return lines.join('\n');
+}
+
+/**
+ * Farmer-facing message for a location outside Ethiopia
+ */
+export function summarizeOutsideEthiopia(
+  latitude: number,
+  longitude: number,
+  border: NearestBorder,
+  language: SummaryLanguage
+): string {
+  const t = SUMMARY_TEMPLATES[language];
+  const values = { latitude, longitude, distance: Math.round(border.distanceKm) };
+  return border.country
+    ? fill(t.outsideEthiopia, { ...values, country: t.countries[border.country] ?? border.country })
+    : fill(t.outsideEthiopiaElsewhere, values);
+}
+
+/**
+ * Farmer-facing message when the upstream has no data for a location
+ */
+export function summarizeNoData(latitude: number, longitude: number, language: SummaryLanguage): string {
+  return fill(SUMMARY_TEMPLATES[language].noData, { latitude, longitude });
+}
+
+/**
+ * Farmer-facing message when the data service could not be reached
+ */
+export function summarizeUnavailable(language: SummaryLanguage): string {
+  return SUMMARY_TEMPLATES[language].unavailable;
+}
+
+/**
+ * Farmer-facing message asking for the farm location
+ */
+export function summarizeMissingLocation(language: SummaryLanguage): string {
+  return SUMMARY_TEMPLATES[language].missingLocation;
+}
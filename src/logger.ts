@@ -0,0 +1,156 @@
+/**
+ * Structured Logging
+ *
+ * One-line log entries, either as readable text (the default, "[Component] message")
+ * or as JSON objects for log aggregation (`LOG_FORMAT=json`).
+ *
+ * JSON entries carry the ID of the HTTP request they were written for. The ID is
+ * kept in async context by `requestIdMiddleware`, so it reaches the upstream calls
+ * (getLayerData and friends) without being passed along explicitly.
+ *
+ * Coordinates should go through `logCoordinate`, which rounds them to
+ * `LOG_COORDINATE_DECIMALS` places when set (2 decimals is roughly 1 km), so farm
+ * locations don't end up in the logs.
+ *
+ * @module logger
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import type { Request, Response, NextFunction } from 'express';
+
+export const LOG_FORMATS = ['text', 'json'] as const;
+export type LogFormat = typeof LOG_FORMATS[number];
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+/**
+ * Extra fields of a JSON entry (ignored in text format)
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logging configuration
+ */
+export interface LoggingOptions {
+  /** Output format (default: text) */
+  format?: LogFormat;
+  /** Round logged coordinates to this many decimals (default: not rounded) */
+  coordinateDecimals?: number;
+  /** Write every entry to stderr, e.g. when stdout carries the MCP stdio transport (default: false) */
+  stderr?: boolean;
+}
+
+export interface Logger {
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  /** The error's message (JSON) or the error itself (text) is appended */
+  error(message: string, error?: unknown, fields?: LogFields): void;
+}
+
+/**
+ * Request ID header, read from the client when present and echoed on the response
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+const settings: { format: LogFormat; coordinateDecimals?: number; stderr: boolean } = { format: 'text', stderr: false };
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+/**
+ * Apply the logging configuration (call once at startup, before anything is logged)
+ *
+ * @throws Error for an unknown format or a negative number of decimals
+ */
+export function configureLogging(options: LoggingOptions): void {
+  const format = options.format ?? 'text';
+  if (!LOG_FORMATS.includes(format)) {
+    throw new Error(`Log format must be one of ${LOG_FORMATS.join(', ')}, got "${format}"`);
+  }
+  const decimals = options.coordinateDecimals;
+  if (decimals !== undefined && !(Number.isInteger(decimals) && decimals >= 0)) {
+    throw new Error('Logged coordinate decimals must be a whole number of at least 0');
+  }
+  settings.format = format;
+  settings.coordinateDecimals = decimals;
+  settings.stderr = options.stderr ?? false;
+}
+
+export function logFormat(): LogFormat {
+  return settings.format;
+}
+
+/**
+ * A coordinate as it may appear in the logs (rounded when configured)
+ */
+export function logCoordinate(value: number): number {
+  if (settings.coordinateDecimals === undefined || !Number.isFinite(value)) {
+    return value;
+  }
+  const factor = 10 ** settings.coordinateDecimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * ID of the request being served, if any
+ */
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+/**
+ * Run a function with a request ID in context
+ */
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+  return requestContext.run({ requestId }, fn);
+}
+
+/**
+ * Express middleware giving each request an ID (the client's X-Request-Id when it
+ * looks safe, a random UUID otherwise), echoed in the response header
+ */
+export function requestIdMiddleware() {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const header = req.get(REQUEST_ID_HEADER);
+    const requestId = header && /^[\w.:-]{1,128}$/.test(header) ? header : randomUUID();
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+    runWithRequestId(requestId, next);
+  };
+}
+
+/**
+ * Create a logger for a component, e.g. "SSFR API" or "MCP Tool"
+ */
+export function createLogger(component: string): Logger {
+  return {
+    info: (message, fields) => write('info', component, message, undefined, fields),
+    warn: (message, fields) => write('warn', component, message, undefined, fields),
+    error: (message, error, fields) => write('error', component, message, error, fields)
+  };
+}
+
+function write(level: LogLevel, component: string, message: string, error: unknown, fields?: LogFields): void {
+  const print = settings.stderr || level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+
+  if (settings.format === 'text') {
+    if (error === undefined) {
+      print(`[${component}] ${message}`);
+    } else {
+      print(`[${component}] ${message}`, error);
+    }
+    return;
+  }
+
+  const entry: LogFields = {
+    time: new Date().toISOString(),
+    level,
+    component,
+    message,
+    request_id: currentRequestId(),
+    ...fields
+  };
+  if (error !== undefined) {
+    entry.error = error instanceof Error ? error.message : String(error);
+  }
+  print(JSON.stringify(entry));
+}
@@ -0,0 +1,909 @@
+/**
+ * MCP Server
+ *
+ * Creates the MCP server with every tool, resource and prompt registered. The
+ * transports (Streamable HTTP in index.ts, stdio in stdio.ts) only connect it.
+ *
+ * @module mcp-server
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { RequestInfo } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { NoRecommendationDataError, MAX_COMPARISON_DATES, NEAREST_DATA_SEARCH } from './ssfr-client.js';
+import { buildShoppingList, toHectares, SEASONS, ShoppingListItem } from './shopping-list.js';
+import { buildApplicationPlan, parsePlantingDate, PlannedProduct } from './application-plan.js';
+import { FarmProfile } from './sessions.js';
+import { LayerRegistry, cropNames, describeCropChoices } from './layer-registry.js';
+import { layerCatalog, registerResources, registerPrompts } from './catalog.js';
+import {
+  ToolErrorContent,
+  recommendationOutputShape,
+  placeResolutionOutputShape,
+  batchOutputShape,
+  toolError,
+  errorCodeFor,
+  errorContentFor,
+  outsideEthiopiaError,
+  unresolvedPlaceError,
+  recommendationResponse,
+  batchResponse,
+  formatPlaceResolution,
+  formatFarmerSummary,
+  formatProvenance,
+  formatStaleData,
+  formatLayerStatistics
+} from './tool-output.js';
+import { createLogger, logCoordinate } from './logger.js';
+import { metrics } from './metrics.js';
+import {
+  SUMMARY_LANGUAGES,
+  SummaryLanguage,
+  summarizeNoData,
+  summarizeUnavailable,
+  summarizeMissingLocation
+} from './localized-summary.js';
+import { RESPONSE_FORMATS, SMS_SEGMENT_LIMITS, MIN_SMS_SEGMENT_CHARS, MAX_SMS_SEGMENT_CHARS } from './sms-format.js';
+import { ServiceEnvironment } from './environment.js';
+import { PlaceResolution } from './gazetteer.js';
+
+const log = createLogger('MCP Tool');
+
+/**
+ * Maximum number of farms accepted by a single batch tool call
+ */
+export const MAX_BATCH_FARMS = 500;
+
+/**
+ * API key units charged for a POST /mcp body (a JSON-RPC message or a batch of them)
+ *
+ * Only tool calls cost anything: one unit each, or one per farm for the batch
+ * tool. The handshake, listings and notifications are free.
+ */
+export function toolCallCost(body: unknown): number {
+  const messages: any[] = Array.isArray(body) ? body : [body];
+  return messages.reduce((units, message) => {
+    if (message?.method !== 'tools/call') {
+      return units;
+    }
+    const farms = message.params?.name === 'get_batch_fertilizer_recommendations' ? message.params.arguments?.farms : undefined;
+    return units + (Array.isArray(farms) ? Math.min(Math.max(farms.length, 1), MAX_BATCH_FARMS) : 1);
+  }, 0);
+}
+
+/**
+ * Tools registered on every server (session mode adds the farm profile tools)
+ */
+export const TOOL_NAMES = [
+  'get_fertilizer_recommendation',
+  'get_batch_fertilizer_recommendations',
+  'get_field_fertilizer_recommendation',
+  'get_fertilizer_shopping_list',
+  'get_fertilizer_application_plan',
+  'compare_recommendation_dates',
+  'list_supported_crops',
+  'find_location'
+];
+
+/**
+ * Tools added in session mode
+ */
+export const FARM_PROFILE_TOOL_NAMES = ['set_farm_profile', 'get_farm_profile'];
+
+/**
+ * Tool result: text content, plus structured content for typed clients
+ */
+type ToolResult = {
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
+/**
+ * Tool result asking for the farm location, with the farmer-facing text when a language is given
+ */
+function missingLocationResult(language?: SummaryLanguage): ToolResult {
+  const message = 'I need to know your farm location to provide fertilizer recommendations. Please provide your latitude and longitude coordinates.';
+  const content: ToolResult['content'] = [{ type: 'text', text: message }];
+  if (language) {
+    content.push({ type: 'text', text: summarizeMissingLocation(language) });
+  }
+  return {
+    content,
+    structuredContent: toolError('MISSING_COORDINATES', message, {
+      farmer_summary: formatFarmerSummary(language, summarizeMissingLocation)
+    }),
+    isError: true
+  };
+}
+
+/**
+ * Tool result for a location outside Ethiopia, naming the nearest border
+ */
+function outsideEthiopiaResult(lat: number, lon: number, language?: SummaryLanguage): ToolResult {
+  metrics.outsideEthiopia.inc();
+  const { error, ...details } = outsideEthiopiaError(lat, lon, language);
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        error: 'Location not supported',
+        code: error.code,
+        message: error.message,
+        ...details
+      }, null, 2)
+    }],
+    structuredContent: { error, ...details },
+    isError: true
+  };
+}
+
+/**
+ * Tool result asking for an argument that was neither given nor saved in the farm profile
+ */
+function missingArgumentResult(description: string, profile: FarmProfile | undefined): ToolResult {
+  const message = `Please provide the ${description}.${profile ? ' You can also save it once with set_farm_profile.' : ''}`;
+  return {
+    content: [{ type: 'text', text: message }],
+    structuredContent: toolError('MISSING_ARGUMENT', message),
+    isError: true
+  };
+}
+
+/**
+ * Tool result for a place name that matched no place, or several, listing the candidates
+ */
+function unresolvedPlaceResult(resolution: PlaceResolution): ToolResult {
+  const structured = unresolvedPlaceError(resolution);
+  return {
+    content: [{ type: 'text', text: structured.error.message }],
+    structuredContent: structured,
+    isError: true
+  };
+}
+
+/**
+ * Tool result for an exception, with its machine-readable error code
+ *
+ * @param prefix - Friendly lead-in, followed by the error message
+ */
+function failureResult(prefix: string, error: any): ToolResult {
+  const structured = errorContentFor(error);
+  return {
+    content: [{ type: 'text', text: `${prefix} ${structured.error.message}` }],
+    structuredContent: structured,
+    isError: true
+  };
+}
+
+/**
+ * A possibly missing coordinate as it may appear in the logs
+ */
+function logged(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : logCoordinate(value);
+}
+
+/**
+ * Wrap a tool callback so every call is counted by crop and outcome (ok, or the
+ * error code of the result) in the tool-call metric
+ */
+function countedTool<Args extends object, Extra>(
+  tool: string,
+  profile: FarmProfile | undefined,
+  handler: (args: Args, extra: Extra) => Promise<ToolResult>
+): (args: Args, extra: Extra) => Promise<ToolResult> {
+  return async (args, extra) => {
+    const result = await handler(args, extra);
+    const cropArg = (args as { crop?: unknown }).crop;
+    const crop = typeof cropArg === 'string' ? cropArg : profile?.crop;
+    const error = result.isError ? (result.structuredContent as ToolErrorContent | undefined)?.error : undefined;
+    metrics.toolCalls.inc({
+      tool,
+      crop: crop ?? 'none',
+      outcome: result.isError ? error?.code ?? 'REQUEST_FAILED' : 'ok',
+      transport: 'mcp'
+    });
+    return result;
+  };
+}
+
+/**
+ * Default coordinates from the X-Farm-Latitude / X-Farm-Longitude headers
+ */
+export function headerLocation(headers: RequestInfo['headers']): { latitude?: number; longitude?: number } {
+  const header = (name: string) => {
+    const value = headers[name];
+    return typeof value === 'string' && value ? parseFloat(value) : undefined;
+  };
+  return {
+    latitude: header('x-farm-latitude'),
+    longitude: header('x-farm-longitude')
+  };
+}
+
+/**
+ * Defaults for omitted tool arguments: the session's farm profile, then the location headers
+ */
+function farmDefaults(profile: FarmProfile | undefined, extra: { requestInfo?: RequestInfo }): FarmProfile {
+  const headers = headerLocation(extra.requestInfo?.headers ?? {});
+  const hasProfileLocation = profile?.latitude !== undefined && profile.longitude !== undefined;
+  return {
+    ...profile,
+    latitude: hasProfileLocation ? profile!.latitude : headers.latitude,
+    longitude: hasProfileLocation ? profile!.longitude : headers.longitude
+  };
+}
+
+/**
+ * Format a farm profile for tool responses
+ */
+function formatFarmProfile(profile: FarmProfile) {
+  return {
+    location: profile.latitude !== undefined && profile.longitude !== undefined
+      ? { latitude: profile.latitude, longitude: profile.longitude }
+      : undefined,
+    crop: profile.crop,
+    farm_size: profile.farmSize,
+    planting_date: profile.plantingDate,
+    updated_at: profile.updatedAt
+  };
+}
+
+/**
+ * Format a shopping list item for tool responses
+ */
+function formatShoppingListItem(item: ShoppingListItem) {
+  return {
+    product: item.product,
+    rate_per_ha: item.ratePerHa,
+    rate_unit: item.rateUnit,
+    total_kg: item.totalKg,
+    bags: item.bags,
+    cart_loads: item.cartLoads,
+    purchase_kg: item.purchaseKg,
+    price_per_kg: item.pricePerKg,
+    cost: item.cost
+  };
+}
+
+/**
+ * Format a planned product for tool responses
+ */
+function formatPlannedProduct(product: PlannedProduct) {
+  return {
+    product: product.product,
+    amount: product.amount,
+    unit: product.unit,
+    share_percent: product.sharePercent
+  };
+}
+
+/**
+ * Crop argument accepted by the tools, generated from the layer registry
+ */
+function cropArgument(registry: LayerRegistry) {
+  const supportedCrops = cropNames(registry);
+  return {
+    supportedCrops,
+    cropChoices: describeCropChoices(registry),
+    cropSchema: z.enum(supportedCrops as [string, ...string[]])
+  };
+}
+
+/**
+ * Create an MCP server with all tools registered
+ *
+ * @param environment - Client, registry and product settings the tools answer from
+ * @param profile - Farm profile of the session (session mode only); enables the farm profile tools
+ */
+export function createMcpServer(environment: ServiceEnvironment, profile?: FarmProfile): McpServer {
+  const { client: ssfrClient, registry: layerRegistry, shoppingListConfig, productCompositions, gazetteer } = environment;
+  const { supportedCrops, cropChoices, cropSchema } = cropArgument(layerRegistry);
+  const server = new McpServer({
+    name: 'ssfr-fertilizer-recommendations',
+    version: '1.0.0',
+    description: 'Site-Specific Fertilizer Recommendations (SSFR) for Ethiopian farmers. Provides personalized fertilizer quantity and type advice based on location coordinates. Only works for Ethiopian locations.'
+  });
+
+  // Single Tool: Get fertilizer recommendation (typed output: structuredContent matches recommendationOutputShape)
+  server.registerTool(
+    'get_fertilizer_recommendation',
+    {
+      description: `Get Site-Specific Fertilizer Recommendation for ${cropChoices} in Ethiopia. This tool automatically checks if the location is in Ethiopia. Returns organic and inorganic fertilizer quantities (Compost, Vermicompost, Urea, NPS) plus expected yield. Without coordinates, a place name (town, woreda, zone or kebele, in Latin or Ge'ez script) can be given instead; the response then says which place was matched and how confidently. Points on roads, towns or water often have no data: with nearest_data, the nearest point with data is used instead and nearest_data in the response gives its distance and direction (e.g. "based on land 400 m north of you"). Optionally adds a short farmer-facing summary in English, Amharic, Afaan Oromo or Tigrinya, or (format "sms") a compact message split into numbered SMS segments. Errors carry a machine-readable code in structuredContent.error.code.`,
+      inputSchema: {
+        crop: cropSchema.optional().describe(`Crop type: ${cropChoices}. Optional if set in the farm profile.`),
+        latitude: z.number().min(-90).max(90).optional().describe('Latitude coordinate. Optional if provided in headers or the farm profile.'),
+        longitude: z.number().min(-180).max(180).optional().describe('Longitude coordinate. Optional if provided in headers or the farm profile.'),
+        place: z.string().min(1).max(200).optional().describe('Place name used when latitude and longitude are not given, e.g. "Bahir Dar", "ባሕር ዳር" or "North Shewa, Oromia" (a region or zone after a comma narrows it down). Ambiguous names return the candidates instead of a recommendation.'),
+        nearest_data: z.boolean().optional().describe('When the location has no data, use the nearest point that has (searched in rings up to max_distance_m). Default false.'),
+        max_distance_m: z.number().int().min(100).max(NEAREST_DATA_SEARCH.maxRadiusMeters).optional().describe('Search radius for nearest_data, in metres (default set by the server, usually 1000)'),
+        language: z.enum(SUMMARY_LANGUAGES).optional().describe('Language of the farmer summary: en (English), am (Amharic), om (Afaan Oromo) or ti (Tigrinya). Omit for no summary.'),
+        format: z.enum(RESPONSE_FORMATS).optional().describe('Response format: json (default), or sms for a compact message in the summary language (English by default) with abbreviated products and units, returned as one text block per segment'),
+        max_chars: z.number().int().min(MIN_SMS_SEGMENT_CHARS).max(MAX_SMS_SEGMENT_CHARS).optional().describe(`Characters per SMS segment, to fit a shorter budget (default and maximum ${SMS_SEGMENT_LIMITS.gsm7}, or ${SMS_SEGMENT_LIMITS.unicode} when the message needs Unicode, e.g. Amharic or Tigrinya)`)
+      },
+      outputSchema: recommendationOutputShape
+    },
+    countedTool('get_fertilizer_recommendation', profile, async ({ crop: cropArg, latitude, longitude, place, nearest_data, max_distance_m, language, format, max_chars }, extra) => {
+      const defaults = farmDefaults(profile, extra);
+      const crop = cropArg ?? defaults.crop;
+      // Explicit coordinates win over the place name, which wins over the profile and headers
+      const placeResolution = place !== undefined && (latitude === undefined || longitude === undefined)
+        ? gazetteer.resolve(place)
+        : undefined;
+      const placeMatch = placeResolution?.match?.place;
+      const lat = placeMatch ? placeMatch.lat : latitude ?? defaults.latitude;
+      const lon = placeMatch ? placeMatch.lon : longitude ?? defaults.longitude;
+      try {
+        // The place name itself is not logged, only whether it resolved
+        log.info(`get_fertilizer_recommendation called: crop=${crop}, lat=${logged(lat)}, lon=${logged(lon)}${placeResolution ? `, place=${placeResolution.status}` : ''}${language ? `, language=${language}` : ''}${format ? `, format=${format}` : ''}`, {
+          tool: 'get_fertilizer_recommendation',
+          crop,
+          lat: logged(lat),
+          lon: logged(lon),
+          place: placeResolution?.status,
+          language,
+          format
+        });
+
+        if (placeResolution && !placeMatch) {
+          return unresolvedPlaceResult(placeResolution);
+        }
+        if (lat === undefined || lon === undefined) {
+          return missingLocationResult(language);
+        }
+        if (!crop) {
+          return missingArgumentResult(`crop (${cropChoices})`, profile);
+        }
+
+        // Automatically check if location is in Ethiopia (no separate tool needed)
+        if (!ssfrClient.isInEthiopia(lat, lon)) {
+          return outsideEthiopiaResult(lat, lon, language);
+        }
+
+        const recommendation = await ssfrClient.getFertilizerRecommendation(crop, lat, lon, {
+          nearestData: nearest_data,
+          nearestDataRadiusMeters: max_distance_m
+        });
+
+        // Format response
+        const response = recommendationResponse(
+          recommendation,
+          language,
+          Object.values(layerRegistry.crops[crop].layers).map(layer => layer.output),
+          format === 'sms' ? { maxChars: max_chars } : undefined,
+          placeResolution
+        );
+
+        if (response.sms) {
+          return {
+            content: response.sms.segments.map(segment => ({ type: 'text' as const, text: segment })),
+            structuredContent: response
+          };
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(response, null, 2)
+          }],
+          structuredContent: response
+        };
+      } catch (error: any) {
+        log.error('Error in get_fertilizer_recommendation:', error, { tool: 'get_fertilizer_recommendation' });
+        const result = failureResult('I\'m having trouble getting fertilizer recommendations right now.', error);
+        // A service outage is not a location problem: tell the farmer to try again, not to move
+        const unavailable = errorCodeFor(error) === 'UPSTREAM_UNAVAILABLE';
+        if (language && (unavailable || (error instanceof NoRecommendationDataError && lat !== undefined && lon !== undefined))) {
+          const text = unavailable ? summarizeUnavailable(language) : summarizeNoData(lat!, lon!, language);
+          result.content.push({ type: 'text', text });
+          result.structuredContent!.farmer_summary = { language, text };
+        }
+        if (error instanceof NoRecommendationDataError && error.provenance) {
+          result.content.push({ type: 'text', text: JSON.stringify({ provenance: formatProvenance(error.provenance) }, null, 2) });
+        }
+        return result;
+      }
+    })
+  );
+
+  // Batch tool: recommendations for many farms in one call (typed output: structuredContent matches batchOutputShape)
+  server.registerTool(
+    'get_batch_fertilizer_recommendations',
+    {
+      description: `Get Site-Specific Fertilizer Recommendations for many farms (up to ${MAX_BATCH_FARMS}) in one call. Each farm has an id, crop (${cropChoices}), latitude and longitude. Returns one result per farm; farms that are outside Ethiopia or have no data get their own error, with a machine-readable code, without failing the others.`,
+      inputSchema: {
+        farms: z.array(z.object({
+          id: z.string().min(1).describe('Farm identifier, echoed back in the result'),
+          crop: cropSchema.describe(`Crop type: ${cropChoices}`),
+          latitude: z.number().min(-90).max(90).describe('Latitude coordinate'),
+          longitude: z.number().min(-180).max(180).describe('Longitude coordinate')
+        })).min(1).max(MAX_BATCH_FARMS).describe('Farms to get recommendations for')
+      },
+      outputSchema: batchOutputShape
+    },
+    countedTool('get_batch_fertilizer_recommendations', profile, async ({ farms }) => {
+      try {
+        log.info(`get_batch_fertilizer_recommendations called: farms=${farms.length}`, {
+          tool: 'get_batch_fertilizer_recommendations',
+          farms: farms.length
+        });
+
+        const results = await ssfrClient.getBatchFertilizerRecommendations(
+          farms.map(farm => ({ id: farm.id, crop: farm.crop, lat: farm.latitude, lon: farm.longitude }))
+        );
+
+        const response = batchResponse(results);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(response, null, 2)
+          }],
+          structuredContent: response
+        };
+      } catch (error: any) {
+        log.error('Error in get_batch_fertilizer_recommendations:', error, { tool: 'get_batch_fertilizer_recommendations' });
+        return failureResult('I\'m having trouble getting batch fertilizer recommendations right now.', error);
+      }
+    })
+  );
+
+  // Field tool: aggregated recommendation across a field boundary
+  const position = z.array(z.number()).min(2).describe('[longitude, latitude]');
+  const ring = z.array(position).min(4).describe('Closed ring of positions (first and last equal)');
+  server.tool(
+    'get_field_fertilizer_recommendation',
+    'Get Site-Specific Fertilizer Recommendation for a whole field in Ethiopia. Takes a GeoJSON Polygon or MultiPolygon field boundary and a crop, samples the SSFR layers on a grid across the field, and returns min/mean/max/dominant values for compost, vermicompost, urea, NPS and expected yield, plus the field area in hectares.',
+    {
+      crop: cropSchema.describe(`Crop type: ${cropChoices}`),
+      field: z.discriminatedUnion('type', [
+        z.object({
+          type: z.literal('Polygon'),
+          coordinates: z.array(ring).min(1)
+        }),
+        z.object({
+          type: z.literal('MultiPolygon'),
+          coordinates: z.array(z.array(ring).min(1)).min(1)
+        })
+      ]).describe('GeoJSON Polygon or MultiPolygon geometry of the field boundary (WGS84, [longitude, latitude] order)')
+    },
+    countedTool('get_field_fertilizer_recommendation', profile, async ({ crop, field }) => {
+      try {
+        log.info(`get_field_fertilizer_recommendation called: crop=${crop}, type=${field.type}`, {
+          tool: 'get_field_fertilizer_recommendation',
+          crop,
+          geometry: field.type
+        });
+
+        const recommendation = await ssfrClient.getFieldRecommendation(crop, field);
+
+        const response = {
+          crop: recommendation.crop,
+          field: {
+            area_hectares: recommendation.areaHectares,
+            centroid: recommendation.centroid,
+            sample_points: recommendation.sampling.points,
+            sample_spacing_meters: recommendation.sampling.spacingMeters
+          },
+          fertilizers: {
+            organic: {
+              compost: formatLayerStatistics(recommendation.organic.compost),
+              vermicompost: formatLayerStatistics(recommendation.organic.vermicompost)
+            },
+            inorganic: {
+              urea: formatLayerStatistics(recommendation.inorganic.urea),
+              nps: formatLayerStatistics(recommendation.inorganic.nps)
+            }
+          },
+          expected_yield: formatLayerStatistics(recommendation.expectedYield),
+          stale_data: formatStaleData(recommendation.staleData),
+          data_source: recommendation.dataSource,
+          units: {
+            organic: 'tons/ha',
+            inorganic: 'kg/ha',
+            yield: 'kg/ha'
+          }
+        };
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(response, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        log.error('Error in get_field_fertilizer_recommendation:', error, { tool: 'get_field_fertilizer_recommendation' });
+        return failureResult('I\'m having trouble getting a fertilizer recommendation for this field right now.', error);
+      }
+    })
+  );
+
+  // Shopping list tool: quantities, bags and cost for the farmer's farm size
+  server.tool(
+    'get_fertilizer_shopping_list',
+    `Turn a fertilizer recommendation into a shopping list for the farmer's actual farm size. Accepts the farm size in hectares or local units (${Object.keys(shoppingListConfig.areaUnits).join(', ')}). Returns total quantities, whole ${shoppingListConfig.bagSizeKg} kg bag counts for urea and NPS, cart loads of compost or vermicompost (alternatives, costed separately), an estimated cost, and a one-sentence summary for the farmer.`,
+    {
+      crop: cropSchema.optional().describe(`Crop type: ${cropChoices}. Optional if set in the farm profile.`),
+      latitude: z.number().min(-90).max(90).optional().describe('Latitude coordinate. Optional if provided in headers or the farm profile.'),
+      longitude: z.number().min(-180).max(180).optional().describe('Longitude coordinate. Optional if provided in headers or the farm profile.'),
+      farm_size: z.number().positive().optional().describe('Farm size, in farm_size_unit. Optional if set in the farm profile.'),
+      farm_size_unit: z.string().optional().describe(`Unit of farm_size: ${Object.keys(shoppingListConfig.areaUnits).join(', ')} (default: hectare)`),
+      region: z.string().optional().describe('Region for prices. Defaults to the region of the farm location.'),
+      season: z.enum(SEASONS).optional().describe('Cropping season for prices: meher, belg or irrigated')
+    },
+    countedTool('get_fertilizer_shopping_list', profile, async ({ crop: cropArg, latitude, longitude, farm_size, farm_size_unit, region, season }, extra) => {
+      try {
+        const defaults = farmDefaults(profile, extra);
+        const crop = cropArg ?? defaults.crop;
+        const lat = latitude ?? defaults.latitude;
+        const lon = longitude ?? defaults.longitude;
+        const farmSize = farm_size !== undefined
+          ? { value: farm_size, unit: farm_size_unit ?? 'hectare' }
+          : defaults.farmSize;
+
+        log.info(`get_fertilizer_shopping_list called: crop=${crop}, lat=${logged(lat)}, lon=${logged(lon)}, size=${farmSize?.value} ${farmSize?.unit}`, {
+          tool: 'get_fertilizer_shopping_list',
+          crop,
+          lat: logged(lat),
+          lon: logged(lon),
+          farm_size: farmSize?.value,
+          farm_size_unit: farmSize?.unit
+        });
+
+        if (lat === undefined || lon === undefined) {
+          return missingLocationResult();
+        }
+        if (!crop) {
+          return missingArgumentResult(`crop (${cropChoices})`, profile);
+        }
+        if (!farmSize) {
+          return missingArgumentResult('farm size (farm_size and farm_size_unit)', profile);
+        }
+        if (!ssfrClient.isInEthiopia(lat, lon)) {
+          return outsideEthiopiaResult(lat, lon);
+        }
+
+        const recommendation = await ssfrClient.getFertilizerRecommendation(crop, lat, lon);
+        const list = buildShoppingList(
+          recommendation,
+          farmSize,
+          { region, season },
+          shoppingListConfig
+        );
+
+        const response = {
+          crop: recommendation.crop,
+          location: recommendation.location,
+          farm_size: list.farmSize,
+          summary: list.summary,
+          items: list.items.map(formatShoppingListItem),
+          organic_alternatives: list.organicAlternatives.map(formatShoppingListItem),
+          cost_estimate: {
+            total: list.cost.total,
+            currency: list.cost.currency,
+            region: list.cost.region,
+            season: list.cost.season,
+            prices_as_of: list.cost.pricesAsOf,
+            price_source: list.cost.priceSource,
+            note: 'Estimate only. Bagged products are costed by whole bags; actual prices vary by cooperative and season. The total leaves out compost and vermicompost: apply one of them, at the cost shown for it.'
+          },
+          packaging: {
+            bag_size_kg: shoppingListConfig.bagSizeKg,
+            cart_load_tons: shoppingListConfig.cartLoadTons
+          },
+          stale_data: formatStaleData(recommendation.staleData),
+          data_source: recommendation.dataSource
+        };
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(response, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        log.error('Error in get_fertilizer_shopping_list:', error, { tool: 'get_fertilizer_shopping_list' });
+        return failureResult('I\'m having trouble preparing the fertilizer shopping list right now.', error);
+      }
+    })
+  );
+
+  // Application plan tool: dated split-application schedule
+  server.tool(
+    'get_fertilizer_application_plan',
+    `Turn a fertilizer recommendation into a dated application schedule from the planting date, for crops with a configured schedule (${supportedCrops.filter(crop => layerRegistry.crops[crop].schedule).join(', ')}). Compost goes in at land preparation, NPS at planting, and urea is split between planting and a later growth stage (e.g. tillering for wheat, knee-high for maize). Returns per-hectare amounts, dates and practical guidance for each application.`,
+    {
+      crop: cropSchema.optional().describe(`Crop type: ${cropChoices}. Optional if set in the farm profile.`),
+      latitude: z.number().min(-90).max(90).optional().describe('Latitude coordinate. Optional if provided in headers or the farm profile.'),
+      longitude: z.number().min(-180).max(180).optional().describe('Longitude coordinate. Optional if provided in headers or the farm profile.'),
+      planting_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Planned or actual planting date (YYYY-MM-DD). Optional if set in the farm profile.')
+    },
+    countedTool('get_fertilizer_application_plan', profile, async ({ crop: cropArg, latitude, longitude, planting_date }, extra) => {
+      try {
+        const defaults = farmDefaults(profile, extra);
+        const crop = cropArg ?? defaults.crop;
+        const lat = latitude ?? defaults.latitude;
+        const lon = longitude ?? defaults.longitude;
+        const plantingDate = planting_date ?? defaults.plantingDate;
+
+        log.info(`get_fertilizer_application_plan called: crop=${crop}, lat=${logged(lat)}, lon=${logged(lon)}, planting=${plantingDate}`, {
+          tool: 'get_fertilizer_application_plan',
+          crop,
+          lat: logged(lat),
+          lon: logged(lon),
+          planting_date: plantingDate
+        });
+
+        if (lat === undefined || lon === undefined) {
+          return missingLocationResult();
+        }
+        if (!crop) {
+          return missingArgumentResult(`crop (${cropChoices})`, profile);
+        }
+        if (!plantingDate) {
+          return missingArgumentResult('planting date (planting_date, YYYY-MM-DD)', profile);
+        }
+        if (!ssfrClient.isInEthiopia(lat, lon)) {
+          return outsideEthiopiaResult(lat, lon);
+        }
+
+        const schedule = layerRegistry.crops[crop]?.schedule;
+        if (!schedule) {
+          throw new Error(`No application schedule is configured for ${crop}.`);
+        }
+
+        const recommendation = await ssfrClient.getFertilizerRecommendation(crop, lat, lon);
+        const plan = buildApplicationPlan(recommendation, plantingDate, schedule);
+
+        const response = {
+          crop: plan.crop,
+          location: recommendation.location,
+          planting_date: plan.plantingDate,
+          applications: plan.applications.map(application => ({
+            stage: application.stage,
+            label: application.label,
+            date: application.date,
+            days_after_planting: application.daysAfterPlanting,
+            products: application.products.map(formatPlannedProduct),
+            organic_alternatives: application.organicAlternatives.map(formatPlannedProduct),
+            guidance: application.guidance
+          })),
+          stale_data: formatStaleData(recommendation.staleData),
+          data_source: recommendation.dataSource
+        };
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(response, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        log.error('Error in get_fertilizer_application_plan:', error, { tool: 'get_fertilizer_application_plan' });
+        return failureResult('I\'m having trouble preparing the application plan right now.', error);
+      }
+    })
+  );
+
+  // Date comparison tool: how the layers changed between releases
+  server.tool(
+    'compare_recommendation_dates',
+    `Compare the SSFR layer values for a crop at one location across two to ${MAX_COMPARISON_DATES} layer release dates (YYYY-MM), to see how the advice changed between releases. Every layer is fetched for every date and the values are returned side by side, with the absolute and percentage change from the earliest date that has data. Dates without data are listed explicitly.`,
+    {
+      crop: cropSchema.optional().describe(`Crop type: ${cropChoices}. Optional if set in the farm profile.`),
+      latitude: z.number().min(-90).max(90).optional().describe('Latitude coordinate. Optional if provided in headers or the farm profile.'),
+      longitude: z.number().min(-180).max(180).optional().describe('Longitude coordinate. Optional if provided in headers or the farm profile.'),
+      dates: z.array(z.string().regex(/^\d{4}-\d{2}$/)).min(2).max(MAX_COMPARISON_DATES).describe('Layer release dates to compare (YYYY-MM), e.g. ["2024-07", "2025-07"]')
+    },
+    countedTool('compare_recommendation_dates', profile, async ({ crop: cropArg, latitude, longitude, dates }, extra) => {
+      try {
+        const defaults = farmDefaults(profile, extra);
+        const crop = cropArg ?? defaults.crop;
+        const lat = latitude ?? defaults.latitude;
+        const lon = longitude ?? defaults.longitude;
+
+        log.info(`compare_recommendation_dates called: crop=${crop}, lat=${logged(lat)}, lon=${logged(lon)}, dates=${dates.join(',')}`, {
+          tool: 'compare_recommendation_dates',
+          crop,
+          lat: logged(lat),
+          lon: logged(lon),
+          dates
+        });
+
+        if (lat === undefined || lon === undefined) {
+          return missingLocationResult();
+        }
+        if (!crop) {
+          return missingArgumentResult(`crop (${cropChoices})`, profile);
+        }
+        if (!ssfrClient.isInEthiopia(lat, lon)) {
+          return outsideEthiopiaResult(lat, lon);
+        }
+
+        const comparison = await ssfrClient.compareLayerDates(crop, lat, lon, dates);
+
+        const response = {
+          crop: comparison.crop,
+          location: comparison.location,
+          dates: comparison.dates,
+          layers: comparison.layers.map(layer => ({
+            key: layer.key,
+            layer_id: layer.layer,
+            output: layer.output,
+            unit: layer.unit,
+            current_date: layer.currentDate,
+            baseline_date: layer.baselineDate,
+            values: layer.values.map(entry => ({
+              date: entry.date,
+              status: entry.status,
+              value: entry.value,
+              change: entry.change,
+              stale: entry.stale,
+              error: entry.error
+            }))
+          })),
+          dates_without_data: comparison.datesWithoutData,
+          note: 'Changes are relative to each layer\'s baseline_date, the earliest compared date with a value. current_date is the release the recommendation tools use.',
+          data_source: comparison.dataSource
+        };
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(response, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        log.error('Error in compare_recommendation_dates:', error, { tool: 'compare_recommendation_dates' });
+        return failureResult('I\'m having trouble comparing the layer dates right now.', error);
+      }
+    })
+  );
+
+  // Crop catalog tool: what the layer registry supports
+  server.tool(
+    'list_supported_crops',
+    'List the crops this server can give fertilizer recommendations for, with each crop\'s SSFR layers (layer ID, release date, unit and output field) and whether an application schedule is available.',
+    {},
+    countedTool('list_supported_crops', profile, async () => {
+      log.info('list_supported_crops called', { tool: 'list_supported_crops' });
+
+      const response = layerCatalog(layerRegistry);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(response, null, 2)
+        }]
+      };
+    })
+  );
+
+  // Gazetteer tool: place names to coordinates, for farmers who don't know theirs
+  server.registerTool(
+    'find_location',
+    {
+      description: 'Find the coordinates of an Ethiopian place (town, kebele, woreda or zone) by name, in Latin or Ge\'ez script, e.g. "Bahir Dar", "ባሕር ዳር", "Adaamaa" or "near Nekemte". Spelling variants are matched fuzzily. Returns the best candidates with a confidence from 0 to 1, and the single match when one place stands out; status "ambiguous" means the name fits several places (add the region or zone after a comma, e.g. "North Shewa, Oromia"). Works offline.',
+      inputSchema: {
+        query: z.string().min(1).max(200).describe('Place name, optionally followed by a comma and its region or zone'),
+        limit: z.number().int().min(1).max(10).optional().describe('Maximum number of candidates (default 5)')
+      },
+      outputSchema: placeResolutionOutputShape
+    },
+    countedTool('find_location', profile, async ({ query, limit }) => {
+      const resolution = gazetteer.resolve(query, limit);
+      log.info(`find_location called: ${resolution.status}, ${resolution.candidates.length} candidates`, {
+        tool: 'find_location',
+        status: resolution.status,
+        candidates: resolution.candidates.length
+      });
+
+      const response = formatPlaceResolution(resolution);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(response, null, 2)
+        }],
+        structuredContent: response
+      };
+    })
+  );
+
+  registerResources(server, layerRegistry, productCompositions);
+  registerPrompts(server, layerRegistry);
+
+  if (profile) {
+    registerFarmProfileTools(server, profile, environment);
+  }
+
+  return server;
+}
+
+/**
+ * Register the farm profile tools on a session's server
+ */
+function registerFarmProfileTools(server: McpServer, profile: FarmProfile, environment: ServiceEnvironment): void {
+  const { client: ssfrClient, shoppingListConfig } = environment;
+  const { cropChoices, cropSchema } = cropArgument(environment.registry);
+  server.tool(
+    'set_farm_profile',
+    'Save the farm details for this session so later tool calls can omit them: location (latitude and longitude together), crop, farm size and planting date. Only the given fields are changed; set clear to true to start over.',
+    {
+      latitude: z.number().min(-90).max(90).optional().describe('Farm latitude (give together with longitude)'),
+      longitude: z.number().min(-180).max(180).optional().describe('Farm longitude (give together with latitude)'),
+      crop: cropSchema.optional().describe(`Crop type: ${cropChoices}`),
+      farm_size: z.number().positive().optional().describe('Farm size, in farm_size_unit'),
+      farm_size_unit: z.string().optional().describe(`Unit of farm_size: ${Object.keys(shoppingListConfig.areaUnits).join(', ')} (default: hectare)`),
+      planting_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Planned or actual planting date (YYYY-MM-DD)'),
+      clear: z.boolean().optional().describe('Remove all saved details before applying the given fields')
+    },
+    countedTool('set_farm_profile', profile, async ({ latitude, longitude, crop, farm_size, farm_size_unit, planting_date, clear }) => {
+      try {
+        log.info(`set_farm_profile called: lat=${logged(latitude)}, lon=${logged(longitude)}, crop=${crop}, size=${farm_size} ${farm_size_unit ?? ''}, planting=${planting_date}, clear=${!!clear}`, {
+          tool: 'set_farm_profile',
+          crop,
+          lat: logged(latitude),
+          lon: logged(longitude),
+          clear: !!clear
+        });
+
+        if ((latitude === undefined) !== (longitude === undefined)) {
+          throw new Error('Latitude and longitude must be given together');
+        }
+        if (latitude !== undefined && longitude !== undefined && !ssfrClient.isInEthiopia(latitude, longitude)) {
+          return outsideEthiopiaResult(latitude, longitude);
+        }
+        if (farm_size === undefined && farm_size_unit !== undefined) {
+          throw new Error('farm_size_unit needs a farm_size');
+        }
+        if (farm_size !== undefined) {
+          toHectares(farm_size, farm_size_unit ?? 'hectare', shoppingListConfig);
+        }
+        if (planting_date !== undefined) {
+          parsePlantingDate(planting_date);
+        }
+
+        // Validate everything before changing anything
+        if (clear) {
+          for (const key of Object.keys(profile) as Array<keyof FarmProfile>) {
+            delete profile[key];
+          }
+        }
+        if (latitude !== undefined && longitude !== undefined) {
+          profile.latitude = latitude;
+          profile.longitude = longitude;
+        }
+        if (crop !== undefined) profile.crop = crop;
+        if (farm_size !== undefined) profile.farmSize = { value: farm_size, unit: farm_size_unit ?? 'hectare' };
+        if (planting_date !== undefined) profile.plantingDate = planting_date;
+        profile.updatedAt = new Date().toISOString();
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ farm_profile: formatFarmProfile(profile) }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        log.error('Error in set_farm_profile:', error, { tool: 'set_farm_profile' });
+        return failureResult('I couldn\'t save the farm profile.', error);
+      }
+    })
+  );
+
+  server.tool(
+    'get_farm_profile',
+    'Show the farm details saved for this session with set_farm_profile.',
+    {},
+    countedTool('get_farm_profile', profile, async () => {
+      log.info('get_farm_profile called', { tool: 'get_farm_profile' });
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ farm_profile: formatFarmProfile(profile) }, null, 2)
+        }]
+      };
+    })
+  );
+}
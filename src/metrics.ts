@@ -0,0 +1,151 @@
+/**
+ * Prometheus Metrics
+ *
+ * Counters and histograms for the /metrics endpoint, rendered in the Prometheus
+ * text exposition format. Kept in memory per process; they reset on restart.
+ *
+ * Label values must come from bounded sets (tool names, crops from the registry,
+ * layer IDs, error codes), never from free-form input.
+ *
+ * @module metrics
+ */
+
+type Labels = Record<string, string>;
+
+/**
+ * Content type of the exposition format
+ */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Upstream latency buckets, in seconds (the default timeout is 30 s)
+ */
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+interface Metric {
+  render(): string[];
+}
+
+/**
+ * Monotonic counter with labels
+ */
+export class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string, private labelNames: string[]) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(this.labelNames, labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  render(): string[] {
+    // A counter without labels is reported from the start, at zero
+    const entries = this.values.size === 0 && this.labelNames.length === 0
+      ? [{ labels: {}, value: 0 }]
+      : [...this.values.values()];
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...entries.map(entry => `${this.name}${formatLabels(this.labelNames, entry.labels)} ${entry.value}`)
+    ];
+  }
+}
+
+/**
+ * Histogram with cumulative buckets
+ */
+export class Histogram implements Metric {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private labelNames: string[],
+    private buckets: number[] = LATENCY_BUCKETS
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(this.labelNames, labels);
+    const entry = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.counts[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const entry of this.series.values()) {
+      const bucketLabels = [...this.labelNames, 'le'];
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels(bucketLabels, { ...entry.labels, le: String(bound) })} ${entry.counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels(bucketLabels, { ...entry.labels, le: '+Inf' })} ${entry.count}`);
+      lines.push(`${this.name}_sum${formatLabels(this.labelNames, entry.labels)} ${entry.sum}`);
+      lines.push(`${this.name}_count${formatLabels(this.labelNames, entry.labels)} ${entry.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * The server's metrics
+ */
+export const metrics = {
+  toolCalls: new Counter(
+    'ssfr_tool_calls_total',
+    'Tool calls by tool, crop and outcome (ok or the error code), over MCP and the REST API',
+    ['tool', 'crop', 'outcome', 'transport']
+  ),
+  upstreamDuration: new Histogram(
+    'ssfr_upstream_request_duration_seconds',
+    'Duration of single upstream layer requests (each retry attempt counts), by layer and outcome (ok, error, timeout)',
+    ['layer', 'outcome']
+  ),
+  upstreamTimeouts: new Counter(
+    'ssfr_upstream_timeouts_total',
+    'Upstream layer requests that hit the timeout',
+    ['layer']
+  ),
+  outsideEthiopia: new Counter(
+    'ssfr_outside_ethiopia_rejections_total',
+    'Locations rejected for being outside Ethiopia',
+    []
+  ),
+  partialResponses: new Counter(
+    'ssfr_partial_responses_total',
+    'Recommendations returned with some layers missing, by crop',
+    ['crop']
+  ),
+  nearestDataSearches: new Counter(
+    'ssfr_nearest_data_searches_total',
+    'Searches for the nearest point with data after the requested point had none, by outcome (found, not_found)',
+    ['outcome']
+  )
+};
+
+/**
+ * All metrics in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  const all: Metric[] = Object.values(metrics);
+  return `${all.flatMap(metric => metric.render()).join('\n')}\n`;
+}
+
+function labelKey(labelNames: string[], labels: Labels): string {
+  return labelNames.map(name => labels[name] ?? '').join('\u0000');
+}
+
+function formatLabels(labelNames: string[], labels: Labels): string {
+  if (labelNames.length === 0) return '';
+  const pairs = labelNames.map(name => {
+    const value = (labels[name] ?? '').replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+    return `${name}="${value}"`;
+  });
+  return `{${pairs.join(',')}}`;
+}
@@ -0,0 +1,255 @@
+/**
+ * Mock Upstream Server
+ *
+ * A local stand-in for the Next-gen Agro Advisory API, for development and
+ * testing without network access. Serves `POST /coordinates/{layer}/{coords}/{date}`
+ * from recorded fixtures (see the fixtures module) or with generated values, and
+ * can inject every response shape the client has to handle. Started from the
+ * command line by the mock module (`npm run mock`), or in-process by tests with
+ * startMockUpstream.
+ *
+ * The scenario can be changed while it runs, for every layer or for the layers
+ * whose ID contains a given text:
+ *
+ *   curl -X PUT localhost:4555/mock/scenario -H 'content-type: application/json' \
+ *     -d '{"scenario": "error", "status": 503, "layer": "urea"}'
+ *   curl -X DELETE localhost:4555/mock/scenario
+ *
+ * @module mock-upstream
+ */
+
+import express from 'express';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { z } from 'zod';
+import { FixtureStore, fixtureBodyText } from './fixtures.js';
+import type { Coordinate } from './ssfr-client.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Mock Upstream');
+
+/**
+ * Response scenarios:
+ * - fixture: the recorded response when there is one, else generated values as `value`
+ * - value / value_dominant / dominant_value: an array with the value under that field
+ * - wrapped: an object in the SSFRResponse shape ({ coordinates, date, layer })
+ * - empty: an empty array (no data at the location)
+ * - invalid_json: a body that is not JSON
+ * - error: an HTTP error with `status` (default 503)
+ */
+export const MOCK_SCENARIOS = ['fixture', 'value', 'value_dominant', 'dominant_value', 'wrapped', 'empty', 'invalid_json', 'error'] as const;
+export type MockScenario = typeof MOCK_SCENARIOS[number];
+
+/**
+ * How the mock answers, optionally after a delay (slow replies)
+ */
+interface ScenarioSettings {
+  scenario: MockScenario;
+  status: number;
+  delayMs: number;
+}
+
+/**
+ * Mock upstream settings
+ */
+export interface MockUpstreamOptions {
+  /** Port to listen on (default: 0, a free port) */
+  port?: number;
+  /** Interface to listen on (default: all interfaces) */
+  host?: string;
+  /** Fixture directory answered from in the `fixture` scenario */
+  fixtures?: string;
+  /** Scenario of every layer until changed (default: fixture) */
+  scenario?: MockScenario;
+  /** HTTP status of the `error` scenario (default: 503) */
+  status?: number;
+  /** Delay before each answer, in milliseconds (default: 0) */
+  delayMs?: number;
+}
+
+/**
+ * A running mock upstream
+ */
+export interface MockUpstream {
+  /** Base URL to use as SSFR_API_BASE_URL */
+  url: string;
+  port: number;
+  close(): Promise<void>;
+}
+
+/**
+ * Generated values, by the first layer key found in the layer ID (vcompost before compost)
+ */
+const GENERATED_VALUES: Array<[string, number]> = [
+  ['urea', 120],
+  ['nps', 100],
+  ['vcompost', 1.5],
+  ['compost', 2.5],
+  ['yield', 3200]
+];
+
+const scenarioRequestSchema = z.object({
+  scenario: z.enum(MOCK_SCENARIOS),
+  /** Only layers whose ID contains this text (default: every layer) */
+  layer: z.string().min(1).optional(),
+  status: z.number().int().min(400).max(599).optional(),
+  delay_ms: z.number().int().min(0).max(600000).optional()
+});
+
+const coordinatesSchema = z.array(z.object({ lat: z.number(), lon: z.number() })).min(1);
+
+/**
+ * Generated value of a layer (1 for layers the table does not know)
+ */
+function generatedValue(layer: string): number {
+  return GENERATED_VALUES.find(([key]) => layer.includes(key))?.[1] ?? 1;
+}
+
+/**
+ * Start a mock upstream
+ *
+ * @throws Error for invalid options (an unknown scenario, an error status outside 400-599)
+ */
+export async function startMockUpstream(options: MockUpstreamOptions = {}): Promise<MockUpstream> {
+  const startup = scenarioRequestSchema.safeParse({
+    scenario: options.scenario ?? 'fixture',
+    status: options.status,
+    delay_ms: options.delayMs
+  });
+  if (!startup.success) {
+    throw new Error(`Invalid mock upstream options (scenarios: ${MOCK_SCENARIOS.join(', ')}): ${startup.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+  }
+
+  const defaultSettings: ScenarioSettings = {
+    scenario: startup.data.scenario,
+    status: startup.data.status ?? 503,
+    delayMs: startup.data.delay_ms ?? 0
+  };
+  const store = options.fixtures ? new FixtureStore(options.fixtures) : undefined;
+
+  /** Scenario for every layer, and overrides for the layers whose ID contains the key */
+  let settings = defaultSettings;
+  const layerSettings = new Map<string, ScenarioSettings>();
+
+  /**
+   * Settings that apply to a layer (the first matching override, else the global ones)
+   */
+  function settingsFor(layer: string): ScenarioSettings {
+    for (const [match, override] of layerSettings) {
+      if (layer.includes(match)) return override;
+    }
+    return settings;
+  }
+
+  /**
+   * Status and body text for a request under a scenario
+   */
+  async function respond(
+    scenario: MockScenario,
+    status: number,
+    layer: string,
+    coordinates: Coordinate[],
+    date: string
+  ): Promise<{ status: number; body: string }> {
+    const value = generatedValue(layer);
+    switch (scenario) {
+      case 'fixture': {
+        const fixture = await store?.read(layer, coordinates, date);
+        if (fixture) {
+          return { status: fixture.response.status, body: fixtureBodyText(fixture) };
+        }
+        return respond('value', status, layer, coordinates, date);
+      }
+      case 'value':
+      case 'value_dominant':
+      case 'dominant_value':
+        return { status: 200, body: JSON.stringify(coordinates.map(({ lat, lon }) => ({ lat, lon, [scenario]: value }))) };
+      case 'wrapped':
+        return { status: 200, body: JSON.stringify({ coordinates: coordinates.map(({ lat, lon }) => ({ lat, lon, value })), date, layer }) };
+      case 'empty':
+        return { status: 200, body: '[]' };
+      case 'invalid_json':
+        return { status: 200, body: '<html>Bad Gateway</html>' };
+      case 'error':
+        return { status, body: JSON.stringify({ error: `Mock upstream error (${status})` }) };
+    }
+  }
+
+  const app = express();
+  app.use(express.json());
+
+  app.post('/coordinates/:layer/:coordinates/:date', async (req, res) => {
+    const { layer, date } = req.params;
+    let coordinates: Coordinate[];
+    try {
+      coordinates = coordinatesSchema.parse(JSON.parse(req.params.coordinates));
+    } catch {
+      res.status(400).json({ error: 'coordinates must be a JSON array of { lat, lon } objects' });
+      return;
+    }
+
+    const current = settingsFor(layer);
+    if (current.delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, current.delayMs));
+    }
+    try {
+      const { status, body } = await respond(current.scenario, current.status, layer, coordinates, date);
+      log.info(`${layer} on ${date}: ${current.scenario} (HTTP ${status}, ${coordinates.length} coordinates)`, {
+        layer,
+        date,
+        scenario: current.scenario,
+        status,
+        points: coordinates.length
+      });
+      res.status(status).type('application/json').send(body);
+    } catch (error) {
+      log.error(`Could not answer ${layer} on ${date}:`, error);
+      res.status(500).json({ error: 'Mock upstream failed' });
+    }
+  });
+
+  app.get('/mock/scenario', (_req, res) => {
+    res.json({ default: settings, layers: Object.fromEntries(layerSettings) });
+  });
+
+  app.put('/mock/scenario', (req, res) => {
+    const parsed = scenarioRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; ') });
+      return;
+    }
+    const { scenario, layer, status, delay_ms } = parsed.data;
+    const next: ScenarioSettings = { scenario, status: status ?? 503, delayMs: delay_ms ?? 0 };
+    if (layer) {
+      layerSettings.set(layer, next);
+    } else {
+      settings = next;
+    }
+    log.info(`Scenario ${scenario}${layer ? ` for layers matching "${layer}"` : ''}`, { scenario, layer, status: next.status, delay_ms: next.delayMs });
+    res.json({ default: settings, layers: Object.fromEntries(layerSettings) });
+  });
+
+  app.delete('/mock/scenario', (_req, res) => {
+    settings = defaultSettings;
+    layerSettings.clear();
+    res.json({ default: settings, layers: {} });
+  });
+
+  const server = createServer(app);
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen({ port: options.port ?? 0, host: options.host }, resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+  log.info(`Mock upstream listening on port ${port} (scenario: ${settings.scenario}${store ? `, fixtures: ${store.directory}` : ''})`, {
+    port,
+    scenario: settings.scenario,
+    fixtures: store?.directory
+  });
+
+  return {
+    url: `http://${options.host ?? 'localhost'}:${port}`,
+    port,
+    close: () => new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+  };
+}
@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+/**
+ * Mock Upstream Command
+ *
+ * Starts the mock upstream (see the mock-upstream module) until interrupted:
+ *
+ *   npm run mock -- [--port 4555] [--fixtures ./fixtures] [--scenario value_dominant] [--status 503] [--delay-ms 2000]
+ *
+ * Point the server at it with SSFR_API_BASE_URL=http://localhost:4555.
+ *
+ * @module mock
+ */
+
+import { parseArgs } from 'node:util';
+import { startMockUpstream, MockScenario } from './mock-upstream.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Mock Upstream');
+
+try {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      port: { type: 'string', default: '4555' },
+      fixtures: { type: 'string' },
+      scenario: { type: 'string', default: 'fixture' },
+      status: { type: 'string', default: '503' },
+      'delay-ms': { type: 'string', default: '0' }
+    }
+  });
+  await startMockUpstream({
+    port: Number(values.port),
+    fixtures: values.fixtures,
+    scenario: values.scenario as MockScenario,
+    status: Number(values.status),
+    delayMs: Number(values['delay-ms'])
+  });
+} catch (error) {
+  log.error('Could not start the mock upstream:', error);
+  process.exit(2);
+}
@@ -0,0 +1,217 @@
+/**
+ * Fertilizer Nutrient Conversion
+ *
+ * Converts product application rates (urea / NPS in kg/ha, compost / vermicompost
+ * in tons/ha) into the nutrients they supply, so agronomists can reason in N,
+ * P2O5 and S rather than product names.
+ *
+ * Key Features:
+ * - Product composition table (percent by weight), overridable from a JSON file
+ * - Nutrient totals per hectare from the inorganic products, with each product's share
+ * - Organic products (compost, vermicompost) reported as alternatives: a farm applies
+ *   one of them, so they are kept out of the combined totals
+ *
+ * @module nutrients
+ */
+
+import { z } from 'zod';
+import { loadConfigFile } from './config-file.js';
+
+/**
+ * Nutrient content of a product, in percent by weight (as applied)
+ */
+export interface ProductComposition {
+  /** Nitrogen, % N */
+  n: number;
+  /** Phosphate, % P2O5 */
+  p2o5: number;
+  /** Sulphur, % S */
+  s: number;
+  /** True for organic products, which are alternatives to each other */
+  organic: boolean;
+}
+
+/**
+ * Products that appear in a recommendation
+ */
+export type FertilizerProduct = 'urea' | 'nps' | 'compost' | 'vermicompost';
+
+/**
+ * Composition table keyed by product
+ */
+export type ProductCompositions = Record<FertilizerProduct, ProductComposition>;
+
+/**
+ * Default product compositions
+ * Note: urea and NPS are the nominal grades (46-0-0, 19-38-0-7S). Compost and
+ * vermicompost vary widely with feedstock and moisture; the defaults are typical
+ * as-applied values and should be overridden with local analyses where available.
+ */
+export const DEFAULT_PRODUCT_COMPOSITIONS: ProductCompositions = {
+  urea: { n: 46, p2o5: 0, s: 0, organic: false },
+  nps: { n: 19, p2o5: 38, s: 7, organic: false },
+  compost: { n: 1.0, p2o5: 0.6, s: 0, organic: true },
+  vermicompost: { n: 1.5, p2o5: 1.0, s: 0, organic: true }
+};
+
+/**
+ * Schema for a composition override file: any subset of products and fields
+ */
+const percent = z.number().min(0).max(100);
+const compositionOverride = z.object({ n: percent, p2o5: percent, s: percent, organic: z.boolean() }).partial().strict();
+const compositionOverridesSchema = z.object({
+  urea: compositionOverride,
+  nps: compositionOverride,
+  compost: compositionOverride,
+  vermicompost: compositionOverride
+}).partial().strict();
+
+/**
+ * Load product compositions, applying overrides from a JSON file on top of the defaults
+ *
+ * @param filePath - Optional path to a JSON file, e.g. `{ "compost": { "n": 1.2 } }`
+ * @returns The effective composition table
+ */
+export function loadProductCompositions(filePath?: string): ProductCompositions {
+  if (!filePath) {
+    return DEFAULT_PRODUCT_COMPOSITIONS;
+  }
+
+  const overrides = loadConfigFile(filePath, compositionOverridesSchema, 'fertilizer product compositions');
+  const compositions = { ...DEFAULT_PRODUCT_COMPOSITIONS };
+  for (const product of Object.keys(compositions) as FertilizerProduct[]) {
+    compositions[product] = { ...compositions[product], ...overrides[product] };
+  }
+  return compositions;
+}
+
+/**
+ * Amounts of each nutrient, in kg/ha
+ */
+export interface NutrientAmounts {
+  n: number;
+  p2o5: number;
+  s: number;
+}
+
+/**
+ * Nutrients supplied by one product
+ */
+export interface ProductNutrients {
+  product: FertilizerProduct;
+  /** Product applied, kg/ha */
+  amountKgPerHa: number;
+  /** Nutrients supplied, kg/ha */
+  nutrients: NutrientAmounts;
+  /** Share of each nutrient total supplied by this product, in percent */
+  sharePercent: NutrientAmounts;
+}
+
+/**
+ * Nutrients supplied by one organic product, applied instead of the others
+ */
+export interface OrganicAlternativeNutrients {
+  product: FertilizerProduct;
+  /** Product applied, kg/ha */
+  amountKgPerHa: number;
+  /** Nutrients supplied, kg/ha */
+  nutrients: NutrientAmounts;
+  /** Total nutrients with this product and the inorganic products, kg/ha */
+  totalsWith: NutrientAmounts;
+}
+
+/**
+ * Nutrient breakdown of a recommendation
+ */
+export interface NutrientBreakdown {
+  /** Total nutrients from the inorganic products, kg/ha */
+  totals: NutrientAmounts;
+  /** Contribution of each recommended inorganic product */
+  products: ProductNutrients[];
+  /** Each recommended organic product on its own (they are alternatives, not cumulative) */
+  organicAlternatives: OrganicAlternativeNutrients[];
+}
+
+/**
+ * Compute the nutrient breakdown for product rates
+ *
+ * @param rates - Urea / NPS in kg/ha, compost / vermicompost in tons/ha (missing products are skipped)
+ * @param compositions - Composition table (default: DEFAULT_PRODUCT_COMPOSITIONS)
+ * @returns The breakdown, or undefined if no product rate is given
+ */
+export function computeNutrientBreakdown(
+  rates: { urea?: number; nps?: number; compost?: number; vermicompost?: number },
+  compositions: ProductCompositions = DEFAULT_PRODUCT_COMPOSITIONS
+): NutrientBreakdown | undefined {
+  const amountsKg: Array<[FertilizerProduct, number]> = [];
+  if (rates.urea !== undefined) amountsKg.push(['urea', rates.urea]);
+  if (rates.nps !== undefined) amountsKg.push(['nps', rates.nps]);
+  // Organic products are recommended in tons/ha
+  if (rates.compost !== undefined) amountsKg.push(['compost', rates.compost * 1000]);
+  if (rates.vermicompost !== undefined) amountsKg.push(['vermicompost', rates.vermicompost * 1000]);
+
+  if (amountsKg.length === 0) {
+    return undefined;
+  }
+
+  const all = amountsKg.map(([product, amountKgPerHa]) => {
+    const composition = compositions[product];
+    return {
+      product,
+      amountKgPerHa,
+      organic: composition.organic,
+      nutrients: {
+        n: (amountKgPerHa * composition.n) / 100,
+        p2o5: (amountKgPerHa * composition.p2o5) / 100,
+        s: (amountKgPerHa * composition.s) / 100
+      }
+    };
+  });
+  const contributions = all.filter(c => !c.organic);
+
+  const sum = (pick: (c: typeof contributions[number]) => number) =>
+    contributions.reduce((total, c) => total + pick(c), 0);
+  const totals = {
+    n: sum(c => c.nutrients.n),
+    p2o5: sum(c => c.nutrients.p2o5),
+    s: sum(c => c.nutrients.s)
+  };
+
+  const share = (part: number, total: number) => (total > 0 ? round((part / total) * 100) : 0);
+  const rounded = (amounts: NutrientAmounts): NutrientAmounts => ({
+    n: round(amounts.n),
+    p2o5: round(amounts.p2o5),
+    s: round(amounts.s)
+  });
+
+  return {
+    totals: rounded(totals),
+    products: contributions.map(c => ({
+      product: c.product,
+      amountKgPerHa: round(c.amountKgPerHa),
+      nutrients: rounded(c.nutrients),
+      sharePercent: {
+        n: share(c.nutrients.n, totals.n),
+        p2o5: share(c.nutrients.p2o5, totals.p2o5),
+        s: share(c.nutrients.s, totals.s)
+      }
+    })),
+    organicAlternatives: all.filter(c => c.organic).map(c => ({
+      product: c.product,
+      amountKgPerHa: round(c.amountKgPerHa),
+      nutrients: rounded(c.nutrients),
+      totalsWith: rounded({
+        n: totals.n + c.nutrients.n,
+        p2o5: totals.p2o5 + c.nutrients.p2o5,
+        s: totals.s + c.nutrients.s
+      })
+    }))
+  };
+}
+
+/**
+ * Round to one decimal place
+ */
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
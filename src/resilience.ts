@@ -0,0 +1,212 @@
+/**
+ * Upstream Resilience Helpers
+ *
+ * Retry and circuit-breaker building blocks for calls to the Next-gen Agro Advisory API.
+ *
+ * Key Features:
+ * - UpstreamError carrying the HTTP status and whether the failure is worth retrying
+ * - Exponential backoff with full jitter
+ * - Circuit breaker (closed / open / half-open) that fails fast while the upstream is down
+ *
+ * @module resilience
+ */
+
+/**
+ * Error raised for failed upstream calls
+ */
+export class UpstreamError extends Error {
+  /** HTTP status code, when the upstream answered */
+  readonly status?: number;
+  /** True for failures that may succeed on retry (5xx, timeouts, network errors) */
+  readonly retryable: boolean;
+  /** True when the call was rejected by an open circuit breaker */
+  readonly circuitOpen: boolean;
+
+  constructor(message: string, options: { status?: number; retryable?: boolean; circuitOpen?: boolean } = {}) {
+    super(message);
+    this.name = 'UpstreamError';
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+    this.circuitOpen = options.circuitOpen ?? false;
+  }
+}
+
+/**
+ * Retry configuration
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt (default: 2) */
+  retries?: number;
+  /** Base delay for exponential backoff, in milliseconds (default: 500) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay, in milliseconds (default: 5000) */
+  maxDelayMs?: number;
+}
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a trial request, in milliseconds (default: 30000) */
+  resetTimeoutMs?: number;
+}
+
+/**
+ * Circuit breaker state
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker status, as reported on /health
+ */
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  resetTimeoutMs: number;
+  openedAt: string | null;
+  nextAttemptAt: string | null;
+  totalOpened: number;
+  rejectedRequests: number;
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): full jitter over an exponential ceiling
+ */
+export function backoffDelay(attempt: number, options: Required<RetryOptions>): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Resolve after the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run an operation, retrying retryable UpstreamErrors with backoff
+ *
+ * @param operation - Operation to run; receives the 0-based attempt number
+ * @param options - Retry configuration
+ * @param onRetry - Called before each retry with the error and the chosen delay
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: Required<RetryOptions>,
+  onRetry?: (error: UpstreamError, attempt: number, delayMs: number) => void
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (!(error instanceof UpstreamError) || !error.retryable || attempt >= options.retries) {
+        throw error;
+      }
+      const delayMs = backoffDelay(attempt, options);
+      onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * Circuit breaker shared by all calls to one upstream
+ *
+ * After `failureThreshold` consecutive failures the circuit opens and calls are
+ * rejected immediately. Once `resetTimeoutMs` has passed, a single trial call is
+ * let through (half-open); its outcome closes or re-opens the circuit.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+  private totalOpened = 0;
+  private rejectedRequests = 0;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+  }
+
+  /**
+   * Check whether a call may go ahead, moving from open to half-open when due
+   */
+  allowRequest(): boolean {
+    if (this.state === 'open' && Date.now() - (this.openedAt ?? 0) >= this.resetTimeoutMs) {
+      this.state = 'half-open';
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    this.rejectedRequests++;
+    return false;
+  }
+
+  /**
+   * Record a successful call
+   */
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a failed call (only upstream outages should be recorded, not bad requests)
+   */
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        this.totalOpened++;
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Seconds until the next trial call is allowed (0 unless open)
+   */
+  retryAfterSeconds(): number {
+    if (this.state !== 'open' || this.openedAt === undefined) return 0;
+    return Math.max(0, Math.ceil((this.openedAt + this.resetTimeoutMs - Date.now()) / 1000));
+  }
+
+  /**
+   * Current breaker status
+   */
+  getStatus(): CircuitBreakerStatus {
+    // Report a due transition without consuming the trial slot
+    const state = this.state === 'open' && Date.now() - (this.openedAt ?? 0) >= this.resetTimeoutMs
+      ? 'half-open'
+      : this.state;
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.failureThreshold,
+      resetTimeoutMs: this.resetTimeoutMs,
+      openedAt: this.openedAt !== undefined ? new Date(this.openedAt).toISOString() : null,
+      nextAttemptAt: this.state === 'open' && this.openedAt !== undefined
+        ? new Date(this.openedAt + this.resetTimeoutMs).toISOString()
+        : null,
+      totalOpened: this.totalOpened,
+      rejectedRequests: this.rejectedRequests
+    };
+  }
+}
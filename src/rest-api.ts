@@ -0,0 +1,447 @@
+/**
+ * REST API
+ *
+ * Plain HTTP routes for clients that don't speak MCP, such as SMS/USSD gateways
+ * and mobile apps. The routes reuse the SSFR client, the tools' argument ranges
+ * and the tools' response and error shapes (see tool-output), and are described
+ * by an OpenAPI document.
+ *
+ * Routes:
+ * - GET  /api/v1/recommendation?crop=&lat=&lon=[&language=][&format=sms&max_chars=]
+ *   (place= instead of lat and lon: a place name resolved by the gazetteer;
+ *   nearest_data=true[&max_distance_m=] for the nearest point with data;
+ *   format=sms answers text/plain, one SMS segment per line, unless the client
+ *   accepts only JSON)
+ * - POST /api/v1/recommendations/batch  { "farms": [{ id, crop, latitude, longitude }] }
+ * - GET  /api/v1/usage  (with API keys: the calling key's limits and usage)
+ * - GET  /openapi.json
+ *
+ * With API keys configured, every /api/v1 route needs a key and counts against
+ * its limits; the OpenAPI document stays public.
+ *
+ * @module rest-api
+ */
+
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { SSFRClient, NEAREST_DATA_SEARCH } from './ssfr-client.js';
+import { ApiKeyStore, ApiKeyUsage, ApiKeyRejection, requireApiKey, chargeApiKey } from './api-keys.js';
+import { createLogger, logCoordinate } from './logger.js';
+import { metrics } from './metrics.js';
+import { LayerRegistry, cropNames } from './layer-registry.js';
+import { Gazetteer } from './gazetteer.js';
+import { SUMMARY_LANGUAGES } from './localized-summary.js';
+import { RESPONSE_FORMATS, SMS_SEGMENT_LIMITS, MIN_SMS_SEGMENT_CHARS, MAX_SMS_SEGMENT_CHARS } from './sms-format.js';
+import {
+  ToolErrorCode,
+  ToolErrorContent,
+  TOOL_ERROR_CODES,
+  ERROR_HTTP_STATUS,
+  toolError,
+  describeIssues,
+  errorContentFor,
+  outsideEthiopiaError,
+  unresolvedPlaceError,
+  recommendationResponse,
+  batchResponse,
+  recommendationOutputShape,
+  batchOutputSchema,
+  toolErrorSchema
+} from './tool-output.js';
+
+const log = createLogger('REST');
+
+/**
+ * Path of the OpenAPI document
+ */
+export const OPENAPI_PATH = '/openapi.json';
+
+/**
+ * REST routes, as listed on /
+ */
+export const REST_ROUTES = {
+  recommendation: 'GET /api/v1/recommendation?crop=&lat=&lon=',
+  batch: 'POST /api/v1/recommendations/batch',
+  usage: 'GET /api/v1/usage',
+  openapi: `GET ${OPENAPI_PATH}`
+};
+
+/**
+ * REST API configuration
+ */
+export interface RestApiOptions {
+  client: SSFRClient;
+  registry: LayerRegistry;
+  /** Resolves the `place` parameter */
+  gazetteer: Gazetteer;
+  /** Maximum farms per batch request (same limit as the batch tool) */
+  maxBatchFarms: number;
+  /** API keys; the /api/v1 routes are open without them */
+  apiKeys?: ApiKeyStore;
+}
+
+/**
+ * Send an error in the tools' structured error shape, with the matching HTTP status
+ */
+function sendError(res: Response, content: ToolErrorContent): void {
+  res.status(ERROR_HTTP_STATUS[content.error.code]).json(content);
+}
+
+/**
+ * Count a REST call in the same tool-call metric as the MCP tools
+ */
+function countCall(tool: string, crop: string | undefined, outcome: string): void {
+  metrics.toolCalls.inc({ tool, crop: crop ?? 'none', outcome, transport: 'rest' });
+}
+
+/**
+ * Create the router with the REST routes and the OpenAPI document
+ */
+export function createRestRouter(options: RestApiOptions): Router {
+  const { client, registry, gazetteer, maxBatchFarms, apiKeys } = options;
+  const crops = cropNames(registry) as [string, ...string[]];
+  const cropSchema = z.enum(crops);
+
+  const recommendationQuery = z.object({
+    crop: cropSchema,
+    lat: z.coerce.number().min(-90).max(90).optional(),
+    lon: z.coerce.number().min(-180).max(180).optional(),
+    place: z.string().min(1).max(200).optional(),
+    nearest_data: z.enum(['true', 'false']).optional(),
+    max_distance_m: z.coerce.number().int().min(100).max(NEAREST_DATA_SEARCH.maxRadiusMeters).optional(),
+    language: z.enum(SUMMARY_LANGUAGES).optional(),
+    format: z.enum(RESPONSE_FORMATS).optional(),
+    max_chars: z.coerce.number().int().min(MIN_SMS_SEGMENT_CHARS).max(MAX_SMS_SEGMENT_CHARS).optional()
+  });
+
+  const batchRequest = z.object({
+    farms: z.array(z.object({
+      id: z.string().min(1),
+      crop: cropSchema,
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180)
+    })).min(1).max(maxBatchFarms)
+  });
+
+  const router = Router();
+
+  const rejectKey = (res: Response, rejection: ApiKeyRejection) => {
+    sendError(res, toolError(rejection.status === 401 ? 'UNAUTHORIZED' : 'RATE_LIMITED', rejection.message));
+  };
+  // One unit per recommendation, one per farm of a batch, charged once the request is
+  // valid; invalid requests and reading the usage are free
+  const charge = (res: Response, units: number) => !apiKeys || chargeApiKey(apiKeys, res, units, rejectKey);
+
+  if (apiKeys) {
+    router.use('/api/v1', requireApiKey(apiKeys, rejectKey, () => 0));
+
+    router.get('/api/v1/usage', (req, res) => {
+      const usage: ApiKeyUsage = res.locals.apiKey;
+      res.json({
+        key: usage.name,
+        rate_limit_per_minute: usage.rateLimitPerMinute,
+        daily_quota: usage.dailyQuota,
+        used_today: usage.usedToday,
+        remaining_today: Math.max(0, usage.dailyQuota - usage.usedToday),
+        requests: usage.requests,
+        rate_limited: usage.rateLimited,
+        quota_exceeded: usage.quotaExceeded,
+        last_used_at: usage.lastUsedAt
+      });
+    });
+  }
+
+  router.get('/api/v1/recommendation', async (req, res) => {
+    const query = req.query as Record<string, unknown>;
+    const fail = (content: ToolErrorContent, crop?: string) => {
+      countCall('get_fertilizer_recommendation', crop, content.error.code);
+      sendError(res, content);
+    };
+
+    const missing = (name: string) => query[name] === undefined || query[name] === '';
+    const hasCoordinates = !missing('lat') && !missing('lon');
+    if (!hasCoordinates && missing('place')) {
+      return fail(toolError('MISSING_COORDINATES', 'The lat and lon query parameters (or a place name) are required.'));
+    }
+    if (missing('crop')) {
+      return fail(toolError('MISSING_ARGUMENT', `The crop query parameter is required (${crops.join(', ')}).`));
+    }
+    const parsed = recommendationQuery.safeParse(query);
+    if (!parsed.success) {
+      return fail(toolError('INVALID_ARGUMENT', describeIssues(parsed.error)));
+    }
+    if (!charge(res, 1)) {
+      return;
+    }
+
+    const { crop, place, nearest_data, max_distance_m, language, format, max_chars } = parsed.data;
+    // Coordinates win over the place name
+    const placeResolution = hasCoordinates ? undefined : gazetteer.resolve(place!);
+    if (placeResolution && !placeResolution.match) {
+      log.info(`GET /api/v1/recommendation: crop=${crop}, place=${placeResolution.status}`, {
+        route: 'GET /api/v1/recommendation',
+        crop,
+        place: placeResolution.status
+      });
+      return fail(unresolvedPlaceError(placeResolution), crop);
+    }
+    const lat = placeResolution ? placeResolution.match!.place.lat : parsed.data.lat!;
+    const lon = placeResolution ? placeResolution.match!.place.lon : parsed.data.lon!;
+    log.info(`GET /api/v1/recommendation: crop=${crop}, lat=${logCoordinate(lat)}, lon=${logCoordinate(lon)}${placeResolution ? ', place=matched' : ''}`, {
+      route: 'GET /api/v1/recommendation',
+      crop,
+      lat: logCoordinate(lat),
+      lon: logCoordinate(lon),
+      place: placeResolution?.status
+    });
+    if (!client.isInEthiopia(lat, lon)) {
+      metrics.outsideEthiopia.inc();
+      return fail(outsideEthiopiaError(lat, lon, language), crop);
+    }
+
+    try {
+      const recommendation = await client.getFertilizerRecommendation(crop, lat, lon, {
+        nearestData: nearest_data === 'true',
+        nearestDataRadiusMeters: max_distance_m
+      });
+      const response = recommendationResponse(
+        recommendation,
+        language,
+        Object.values(registry.crops[crop].layers).map(layer => layer.output),
+        format === 'sms' ? { maxChars: max_chars } : undefined,
+        placeResolution
+      );
+      // SMS gateways forward the body as is; clients that accept only JSON get the sms block instead
+      if (response.sms && req.accepts(['text/plain', 'application/json']) !== 'application/json') {
+        res.type('text/plain').send(`${response.sms.segments.join('\n')}\n`);
+      } else {
+        res.json(response);
+      }
+      countCall('get_fertilizer_recommendation', crop, 'ok');
+    } catch (error) {
+      log.error('Error in GET /api/v1/recommendation:', error);
+      fail(errorContentFor(error), crop);
+    }
+  });
+
+  router.post('/api/v1/recommendations/batch', async (req, res) => {
+    const fail = (content: ToolErrorContent) => {
+      countCall('get_batch_fertilizer_recommendations', undefined, content.error.code);
+      sendError(res, content);
+    };
+
+    const parsed = batchRequest.safeParse(req.body);
+    if (!parsed.success) {
+      return fail(toolError('INVALID_ARGUMENT', describeIssues(parsed.error)));
+    }
+
+    const { farms } = parsed.data;
+    if (!charge(res, farms.length)) {
+      return;
+    }
+    log.info(`POST /api/v1/recommendations/batch: farms=${farms.length}`, {
+      route: 'POST /api/v1/recommendations/batch',
+      farms: farms.length
+    });
+
+    try {
+      const results = await client.getBatchFertilizerRecommendations(
+        farms.map(farm => ({ id: farm.id, crop: farm.crop, lat: farm.latitude, lon: farm.longitude }))
+      );
+      res.json(batchResponse(results));
+      countCall('get_batch_fertilizer_recommendations', undefined, 'ok');
+    } catch (error) {
+      log.error('Error in POST /api/v1/recommendations/batch:', error);
+      fail(errorContentFor(error));
+    }
+  });
+
+  const document = openApiDocument(crops, maxBatchFarms, apiKeys !== undefined);
+  router.get(OPENAPI_PATH, (req, res) => {
+    res.json(document);
+  });
+
+  return router;
+}
+
+/**
+ * OpenAPI 3.0 document for the REST routes
+ * Note: the response schemas are generated from the same zod schemas as the MCP
+ * tools' outputSchema, so the two cannot drift apart.
+ */
+function openApiDocument(crops: string[], maxBatchFarms: number, authEnabled: boolean) {
+  const schema = (zodSchema: z.ZodTypeAny) => zodToJsonSchema(zodSchema, { target: 'openApi3', $refStrategy: 'none' });
+  const errorResponse = (description: string, codes: ToolErrorCode[]) => ({
+    description: `${description} (error.code: ${codes.join(', ')})`,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+  });
+  const codesWithStatus = (status: number) => TOOL_ERROR_CODES.filter(code => ERROR_HTTP_STATUS[code] === status);
+  const authResponses = authEnabled
+    ? {
+      401: errorResponse('Missing or unknown API key', ['UNAUTHORIZED']),
+      429: errorResponse('Rate limit or daily quota used up; see the Retry-After header', ['RATE_LIMITED'])
+    }
+    : {};
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'SSFR Fertilizer Recommendations API',
+      version: '1.0.0',
+      description: 'Site-Specific Fertilizer Recommendations for Ethiopian farmers via Next-gen Agro Advisory Service. Same data, validation and response shapes as the MCP tools at /mcp. Only locations in Ethiopia are supported.'
+    },
+    paths: {
+      '/api/v1/recommendation': {
+        get: {
+          operationId: 'getRecommendation',
+          summary: 'Fertilizer recommendation for one location',
+          parameters: [
+            { name: 'crop', in: 'query', required: true, schema: { type: 'string', enum: crops } },
+            {
+              name: 'lat',
+              in: 'query',
+              required: false,
+              description: 'Required unless place is given',
+              schema: { type: 'number', minimum: -90, maximum: 90 }
+            },
+            {
+              name: 'lon',
+              in: 'query',
+              required: false,
+              description: 'Required unless place is given',
+              schema: { type: 'number', minimum: -180, maximum: 180 }
+            },
+            {
+              name: 'place',
+              in: 'query',
+              required: false,
+              description: 'Place name used when lat and lon are not given (town, woreda, zone or kebele, in Latin or Ge\'ez script; a region or zone after a comma narrows it down). The response reports the matched place and its confidence.',
+              schema: { type: 'string', minLength: 1, maxLength: 200 }
+            },
+            {
+              name: 'nearest_data',
+              in: 'query',
+              required: false,
+              description: 'When the location has no data (roads, towns, water), use the nearest point that has; the response reports its distance and direction in nearest_data',
+              schema: { type: 'boolean', default: false }
+            },
+            {
+              name: 'max_distance_m',
+              in: 'query',
+              required: false,
+              description: 'Search radius for nearest_data, in metres (default set by the server)',
+              schema: { type: 'integer', minimum: 100, maximum: NEAREST_DATA_SEARCH.maxRadiusMeters }
+            },
+            {
+              name: 'language',
+              in: 'query',
+              required: false,
+              description: 'Adds a farmer summary in this language',
+              schema: { type: 'string', enum: [...SUMMARY_LANGUAGES] }
+            },
+            {
+              name: 'format',
+              in: 'query',
+              required: false,
+              description: 'json (default) for the recommendation, or sms for a compact message (in the summary language, English by default) split into numbered segments, returned as text/plain with one segment per line. With sms and Accept: application/json, the JSON recommendation is returned with the segments in sms.segments. Errors are always JSON.',
+              schema: { type: 'string', enum: [...RESPONSE_FORMATS], default: 'json' }
+            },
+            {
+              name: 'max_chars',
+              in: 'query',
+              required: false,
+              description: `Characters per SMS segment, to fit a shorter budget (default and maximum ${SMS_SEGMENT_LIMITS.gsm7}, or ${SMS_SEGMENT_LIMITS.unicode} when the message needs Unicode)`,
+              schema: { type: 'integer', minimum: MIN_SMS_SEGMENT_CHARS, maximum: MAX_SMS_SEGMENT_CHARS }
+            }
+          ],
+          responses: {
+            200: {
+              description: 'Recommendation (same shape as the get_fertilizer_recommendation tool), or with format=sms the SMS segments, one per line',
+              content: {
+                'application/json': { schema: { $ref: '#/components/schemas/Recommendation' } },
+                'text/plain': { schema: { type: 'string' } }
+              }
+            },
+            400: errorResponse('Missing or invalid parameters, or a place name that matches several places', codesWithStatus(400)),
+            404: errorResponse('No data for this location, or no place matches the place name', codesWithStatus(404)),
+            422: errorResponse('Location outside Ethiopia', codesWithStatus(422)),
+            503: errorResponse('Upstream data service unavailable; retry later', codesWithStatus(503)),
+            ...authResponses
+          }
+        }
+      },
+      '/api/v1/recommendations/batch': {
+        post: {
+          operationId: 'getBatchRecommendations',
+          summary: `Fertilizer recommendations for up to ${maxBatchFarms} farms; errors are reported per farm`,
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['farms'],
+                  properties: {
+                    farms: {
+                      type: 'array',
+                      minItems: 1,
+                      maxItems: maxBatchFarms,
+                      items: {
+                        type: 'object',
+                        required: ['id', 'crop', 'latitude', 'longitude'],
+                        properties: {
+                          id: { type: 'string', minLength: 1 },
+                          crop: { type: 'string', enum: crops },
+                          latitude: { type: 'number', minimum: -90, maximum: 90 },
+                          longitude: { type: 'number', minimum: -180, maximum: 180 }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          },
+          responses: {
+            200: {
+              description: 'One result per farm, in request order',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/BatchResult' } } }
+            },
+            400: errorResponse('Invalid request body', ['INVALID_ARGUMENT']),
+            503: errorResponse('Upstream data service unavailable; retry later', codesWithStatus(503)),
+            ...authResponses
+          }
+        }
+      },
+      ...(authEnabled
+        ? {
+          '/api/v1/usage': {
+            get: {
+              operationId: 'getUsage',
+              summary: 'Limits and usage counters of the calling API key (this request included)',
+              responses: {
+                200: { description: 'Usage of the key', content: { 'application/json': { schema: { type: 'object' } } } },
+                ...authResponses
+              }
+            }
+          }
+        }
+        : {})
+    },
+    security: authEnabled ? [{ bearerAuth: [] }, { apiKeyHeader: [] }] : undefined,
+    components: {
+      securitySchemes: authEnabled
+        ? {
+          bearerAuth: { type: 'http', scheme: 'bearer' },
+          apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+        }
+        : undefined,
+      schemas: {
+        Recommendation: schema(z.object(recommendationOutputShape)),
+        BatchResult: schema(batchOutputSchema),
+        Error: schema(toolErrorSchema)
+      }
+    }
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * MCP Sessions and Farm Profiles
+ *
+ * Optional stateful mode for the /mcp endpoint: each session keeps its own
+ * transport plus a farm profile (location, crop, farm size, planting date) that
+ * tools fall back to when arguments are omitted. Idle sessions are closed after
+ * a configurable timeout.
+ *
+ * @module sessions
+ */
+
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { Crop } from './ssfr-client.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Sessions');
+
+/**
+ * Farm details remembered for a session (every field optional)
+ */
+export interface FarmProfile {
+  latitude?: number;
+  longitude?: number;
+  crop?: Crop;
+  farmSize?: {
+    value: number;
+    unit: string;
+  };
+  /** Planting date (YYYY-MM-DD) */
+  plantingDate?: string;
+  /** When the profile was last changed (ISO timestamp) */
+  updatedAt?: string;
+}
+
+/**
+ * Session store configuration
+ */
+export interface SessionStoreOptions {
+  /** Close sessions idle for longer than this (default: 30 minutes) */
+  idleTimeoutSeconds?: number;
+  /** Maximum concurrent sessions; new sessions are refused beyond this (default: 1000) */
+  maxSessions?: number;
+}
+
+/**
+ * One open session
+ */
+export interface McpSession {
+  id: string;
+  transport: StreamableHTTPServerTransport;
+  profile: FarmProfile;
+  createdAt: number;
+  lastActivityAt: number;
+}
+
+/**
+ * Session statistics, as reported on /health
+ */
+export interface SessionStats {
+  active: number;
+  maxSessions: number;
+  idleTimeoutSeconds: number;
+  created: number;
+  expired: number;
+}
+
+/**
+ * In-memory session registry with idle expiry
+ */
+export class SessionStore {
+  private sessions = new Map<string, McpSession>();
+  private idleTimeoutMs: number;
+  private maxSessions: number;
+  private created = 0;
+  private expired = 0;
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(options: SessionStoreOptions = {}) {
+    const idleTimeoutSeconds = options.idleTimeoutSeconds ?? 30 * 60;
+    const maxSessions = options.maxSessions ?? 1000;
+    if (!(idleTimeoutSeconds > 0)) {
+      throw new Error('Session idle timeout must be greater than zero');
+    }
+    if (!(maxSessions >= 1)) {
+      throw new Error('Maximum sessions must be at least 1');
+    }
+    this.idleTimeoutMs = idleTimeoutSeconds * 1000;
+    this.maxSessions = Math.floor(maxSessions);
+
+    // Sweep often enough that a session never outlives its timeout by much
+    this.sweepTimer = setInterval(() => this.expireIdle(), Math.min(60_000, this.idleTimeoutMs));
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Whether another session can be opened
+   */
+  hasCapacity(): boolean {
+    return this.sessions.size < this.maxSessions;
+  }
+
+  /**
+   * Register a newly initialized session
+   */
+  add(id: string, transport: StreamableHTTPServerTransport, profile: FarmProfile): McpSession {
+    const now = Date.now();
+    const session: McpSession = { id, transport, profile, createdAt: now, lastActivityAt: now };
+    this.sessions.set(id, session);
+    this.created++;
+    log.info(`Opened ${id} (${this.sessions.size} active)`, { session_id: id, active: this.sessions.size });
+    return session;
+  }
+
+  /**
+   * Look up a session and mark it active
+   */
+  touch(id: string): McpSession | undefined {
+    const session = this.sessions.get(id);
+    if (session) {
+      session.lastActivityAt = Date.now();
+    }
+    return session;
+  }
+
+  /**
+   * Forget a session (the transport is closed by the caller or has closed itself)
+   */
+  remove(id: string): void {
+    if (this.sessions.delete(id)) {
+      log.info(`Closed ${id} (${this.sessions.size} active)`, { session_id: id, active: this.sessions.size });
+    }
+  }
+
+  /**
+   * Close sessions that have been idle for longer than the timeout
+   */
+  expireIdle(now: number = Date.now()): void {
+    for (const session of [...this.sessions.values()]) {
+      if (now - session.lastActivityAt > this.idleTimeoutMs) {
+        this.expired++;
+        log.info(`Expiring idle session ${session.id}`, { session_id: session.id });
+        this.sessions.delete(session.id);
+        session.transport.close().catch(error => {
+          log.error(`Error closing session ${session.id}:`, error, { session_id: session.id });
+        });
+      }
+    }
+  }
+
+  /**
+   * Close every session and stop the expiry timer (used on shutdown)
+   */
+  async closeAll(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.allSettled(sessions.map(session => session.transport.close()));
+  }
+
+  getStats(): SessionStats {
+    return {
+      active: this.sessions.size,
+      maxSessions: this.maxSessions,
+      idleTimeoutSeconds: this.idleTimeoutMs / 1000,
+      created: this.created,
+      expired: this.expired
+    };
+  }
+}
@@ -0,0 +1,339 @@
+/**
+ * Farm-Size Shopping List
+ *
+ * Turns a per-hectare recommendation into what a farmer actually buys for their
+ * farm: total product quantities, 50 kg bag counts, compost cart loads and an
+ * estimated cost.
+ *
+ * Key Features:
+ * - Farm size in hectares or local units (timad, kert, gasha, ...)
+ * - Bag and cart-load rounding
+ * - Cost estimate from a price table per region and season
+ * - Compost and vermicompost listed as alternatives (a farm applies one), outside
+ *   the total cost
+ * - All tables overridable from a JSON file
+ *
+ * @module shopping-list
+ */
+
+import { z } from 'zod';
+import { loadConfigFile } from './config-file.js';
+import type { FertilizerRecommendation } from './ssfr-client.js';
+import type { FertilizerProduct } from './nutrients.js';
+
+/**
+ * Cropping seasons used to select prices
+ */
+export const SEASONS = ['meher', 'belg', 'irrigated'] as const;
+export type Season = typeof SEASONS[number];
+
+/**
+ * Prices per kg of product, by product
+ */
+export type ProductPrices = Record<FertilizerProduct, number>;
+
+/**
+ * Shopping list configuration
+ */
+export interface ShoppingListConfig {
+  /** Currency of all prices */
+  currency: string;
+  /** When the prices were collected (shown to the user) */
+  pricesAsOf: string;
+  /** Where the prices come from (shown to the user) */
+  priceSource: string;
+  /** Default prices per kg */
+  prices: ProductPrices;
+  /** Regional (and optionally seasonal) overrides, keyed by region name */
+  regions: Record<string, { default?: Partial<ProductPrices> } & Partial<Record<Season, Partial<ProductPrices>>>>;
+  /** Area units and their size in hectares */
+  areaUnits: Record<string, number>;
+  /** Bag size for urea and NPS, in kg */
+  bagSizeKg: number;
+  /** Compost / vermicompost cart load, in tons */
+  cartLoadTons: number;
+}
+
+/**
+ * Default shopping list configuration
+ * Note: local area units differ between localities (a timad is the area a pair of
+ * oxen ploughs in a day), and fertilizer prices change every season. The defaults
+ * are indicative only; deployments should override them with local values.
+ */
+export const DEFAULT_SHOPPING_LIST_CONFIG: ShoppingListConfig = {
+  currency: 'ETB',
+  pricesAsOf: '2024-07',
+  priceSource: 'Indicative national defaults; replace with local cooperative prices',
+  prices: {
+    urea: 38,
+    nps: 40,
+    compost: 1,
+    vermicompost: 5
+  },
+  regions: {},
+  areaUnits: {
+    hectare: 1,
+    timad: 0.25,
+    kert: 0.25,
+    gasha: 40,
+    square_meter: 0.0001
+  },
+  bagSizeKg: 50,
+  cartLoadTons: 0.5
+};
+
+const productPricesSchema = z.object({
+  urea: z.number().nonnegative(),
+  nps: z.number().nonnegative(),
+  compost: z.number().nonnegative(),
+  vermicompost: z.number().nonnegative()
+}).partial().strict();
+
+const shoppingListConfigSchema = z.object({
+  currency: z.string().min(1),
+  pricesAsOf: z.string().min(1),
+  priceSource: z.string().min(1),
+  prices: productPricesSchema,
+  regions: z.record(z.object({
+    default: productPricesSchema,
+    meher: productPricesSchema,
+    belg: productPricesSchema,
+    irrigated: productPricesSchema
+  }).partial().strict()),
+  areaUnits: z.record(z.number().positive()),
+  bagSizeKg: z.number().positive(),
+  cartLoadTons: z.number().positive()
+}).partial().strict();
+
+/**
+ * Load the shopping list configuration, applying a JSON file on top of the defaults
+ *
+ * Prices and area units from the file are merged into the defaults; regional
+ * tables replace the (empty) default set.
+ *
+ * @param filePath - Optional path to a JSON file
+ */
+export function loadShoppingListConfig(filePath?: string): ShoppingListConfig {
+  if (!filePath) {
+    return DEFAULT_SHOPPING_LIST_CONFIG;
+  }
+
+  const overrides = loadConfigFile(filePath, shoppingListConfigSchema, 'shopping list configuration');
+  return {
+    ...DEFAULT_SHOPPING_LIST_CONFIG,
+    ...overrides,
+    prices: { ...DEFAULT_SHOPPING_LIST_CONFIG.prices, ...overrides.prices },
+    regions: overrides.regions ?? DEFAULT_SHOPPING_LIST_CONFIG.regions,
+    areaUnits: { ...DEFAULT_SHOPPING_LIST_CONFIG.areaUnits, ...overrides.areaUnits }
+  };
+}
+
+/**
+ * Quantity of one product to buy
+ */
+export interface ShoppingListItem {
+  product: FertilizerProduct;
+  /** Recommended rate: kg/ha for urea and NPS, tons/ha for compost and vermicompost */
+  ratePerHa: number;
+  /** Unit of ratePerHa */
+  rateUnit: 'kg/ha' | 'tons/ha';
+  /** Exact quantity for the farm, in kg */
+  totalKg: number;
+  /** Whole bags to buy (urea and NPS) */
+  bags?: number;
+  /** Cart loads to bring (compost and vermicompost) */
+  cartLoads?: number;
+  /** Quantity the cost estimate is based on, in kg (whole bags for bagged products) */
+  purchaseKg: number;
+  /** Price per kg used for the estimate */
+  pricePerKg: number;
+  /** Estimated cost */
+  cost: number;
+}
+
+/**
+ * Shopping list for a farm
+ */
+export interface ShoppingList {
+  farmSize: {
+    value: number;
+    unit: string;
+    hectares: number;
+  };
+  /** Urea and NPS */
+  items: ShoppingListItem[];
+  /** Compost and vermicompost: alternatives to each other, each with its own cost */
+  organicAlternatives: ShoppingListItem[];
+  cost: {
+    /** Cost of the items, without the organic alternatives */
+    total: number;
+    currency: string;
+    region?: string;
+    season?: Season;
+    pricesAsOf: string;
+    priceSource: string;
+  };
+  /** One-sentence summary for the farmer */
+  summary: string;
+}
+
+/**
+ * Convert a farm size to hectares
+ *
+ * @throws Error for unknown units
+ */
+export function toHectares(value: number, unit: string, config: ShoppingListConfig = DEFAULT_SHOPPING_LIST_CONFIG): number {
+  const hectaresPerUnit = config.areaUnits[unit];
+  if (hectaresPerUnit === undefined) {
+    throw new Error(`Unknown area unit "${unit}". Supported units: ${Object.keys(config.areaUnits).join(', ')}`);
+  }
+  return value * hectaresPerUnit;
+}
+
+/**
+ * Prices for a region and season (season table, then region default, then national default)
+ */
+export function pricesFor(config: ShoppingListConfig, region?: string, season?: Season): ProductPrices {
+  const regional = region ? config.regions[region] : undefined;
+  return {
+    ...config.prices,
+    ...regional?.default,
+    ...(season ? regional?.[season] : undefined)
+  };
+}
+
+/**
+ * Build the shopping list for a recommendation and farm size
+ *
+ * @param recommendation - Per-hectare recommendation
+ * @param farmSize - Farm size value and unit (see ShoppingListConfig.areaUnits)
+ * @param options - Region and season for prices (region defaults to the recommendation's region)
+ * @param config - Shopping list configuration
+ */
+export function buildShoppingList(
+  recommendation: FertilizerRecommendation,
+  farmSize: { value: number; unit: string },
+  options: { region?: string; season?: Season } = {},
+  config: ShoppingListConfig = DEFAULT_SHOPPING_LIST_CONFIG
+): ShoppingList {
+  if (!(farmSize.value > 0)) {
+    throw new Error('Farm size must be greater than zero');
+  }
+
+  const hectares = toHectares(farmSize.value, farmSize.unit, config);
+  const region = options.region ?? recommendation.location.region;
+  const prices = pricesFor(config, region, options.season);
+
+  const itemsFor = (rates: Array<[FertilizerProduct, number | undefined]>) => rates
+    .filter((rate): rate is [FertilizerProduct, number] => rate[1] !== undefined)
+    .map(([product, ratePerHa]) => shoppingListItem(product, ratePerHa, hectares, prices, config));
+  const items = itemsFor([
+    ['urea', recommendation.inorganic.urea],
+    ['nps', recommendation.inorganic.nps]
+  ]);
+  const organicAlternatives = itemsFor([
+    ['compost', recommendation.organic.compost],
+    ['vermicompost', recommendation.organic.vermicompost]
+  ]);
+
+  return {
+    farmSize: { value: farmSize.value, unit: farmSize.unit, hectares: round(hectares, 4) },
+    items,
+    organicAlternatives,
+    cost: {
+      total: items.reduce((sum, item) => sum + item.cost, 0),
+      currency: config.currency,
+      region,
+      season: options.season,
+      pricesAsOf: config.pricesAsOf,
+      priceSource: config.priceSource
+    },
+    summary: summarize(items, organicAlternatives, farmSize, config)
+  };
+}
+
+/**
+ * Quantity, packaging and cost of one product for the farm
+ */
+function shoppingListItem(
+  product: FertilizerProduct,
+  ratePerHa: number,
+  hectares: number,
+  prices: ProductPrices,
+  config: ShoppingListConfig
+): ShoppingListItem {
+  const organic = product === 'compost' || product === 'vermicompost';
+  const totalKg = ratePerHa * (organic ? 1000 : 1) * hectares;
+  const item: ShoppingListItem = {
+    product,
+    ratePerHa,
+    rateUnit: organic ? 'tons/ha' : 'kg/ha',
+    totalKg: round(totalKg, 1),
+    purchaseKg: round(totalKg, 1),
+    pricePerKg: prices[product],
+    cost: 0
+  };
+
+  if (organic) {
+    item.cartLoads = roundUpCount(totalKg / 1000 / config.cartLoadTons);
+  } else {
+    item.bags = roundUpCount(totalKg / config.bagSizeKg);
+    item.purchaseKg = item.bags * config.bagSizeKg;
+  }
+  item.cost = round(item.purchaseKg * item.pricePerKg, 0);
+  return item;
+}
+
+/**
+ * Round a count up to a whole number, so the farmer never buys less than recommended
+ */
+function roundUpCount(count: number): number {
+  if (count <= 0) return 0;
+  // Ignore floating-point noise such as 2.0000000001 bags
+  return Math.ceil(round(count, 6));
+}
+
+/**
+ * Round to the given number of decimals
+ */
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Farmer-facing sentence, e.g. "Buy 2 bags of urea and 1 bag of NPS and apply 2 cart
+ * loads of compost or 1 cart load of vermicompost for your 0.75 timad."
+ */
+function summarize(
+  items: ShoppingListItem[],
+  organicAlternatives: ShoppingListItem[],
+  farmSize: { value: number; unit: string },
+  config: ShoppingListConfig
+): string {
+  const names: Record<FertilizerProduct, string> = {
+    urea: 'urea',
+    nps: 'NPS',
+    compost: 'compost',
+    vermicompost: 'vermicompost'
+  };
+  const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+  const purchases = items
+    .filter(item => item.bags)
+    .map(item => `${plural(item.bags!, 'bag')} (${config.bagSizeKg} kg) of ${names[item.product]}`);
+  const loads = organicAlternatives
+    .filter(item => item.cartLoads)
+    .map(item => `${plural(item.cartLoads!, 'cart load')} of ${names[item.product]}`);
+
+  const join = (parts: string[]) =>
+    parts.length <= 1 ? parts.join('') : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+
+  const sentences: string[] = [];
+  if (purchases.length > 0) sentences.push(`Buy ${join(purchases)}`);
+  if (loads.length > 0) sentences.push(`${purchases.length > 0 ? 'apply' : 'Apply'} ${loads.join(' or ')}`);
+  if (sentences.length === 0) {
+    return `No fertilizer quantities are available for your ${farmSize.value} ${farmSize.unit}.`;
+  }
+  return `${sentences.join(' and ')} for your ${farmSize.value} ${farmSize.unit}.`;
+}
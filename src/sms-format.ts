@@ -0,0 +1,269 @@
+/**
+ * Compact SMS / USSD Format
+ *
+ * Renders a recommendation as a short message for feature phones: fixed
+ * abbreviations for products and units, rounded rates, and a per-segment
+ * character budget (160 characters for GSM-7 text, 70 when the text needs
+ * Unicode, e.g. Ge'ez script). Longer messages are split at word boundaries into
+ * numbered parts, "(1/2) ...", each within the budget including its part number.
+ *
+ * @module sms-format
+ */
+
+import type { FertilizerRecommendation } from './ssfr-client.js';
+import { LAYER_OUTPUTS, LayerOutput } from './layer-registry.js';
+import { SummaryLanguage, SUMMARY_TEMPLATES } from './localized-summary.js';
+
+/**
+ * Response formats of the recommendation tool and REST route
+ */
+export const RESPONSE_FORMATS = ['json', 'sms'] as const;
+export type ResponseFormat = typeof RESPONSE_FORMATS[number];
+
+/**
+ * Character budget of one segment, by encoding
+ */
+export const SMS_SEGMENT_LIMITS = {
+  gsm7: 160,
+  unicode: 70
+};
+
+/**
+ * Smallest accepted segment budget (room for a part number plus a few words)
+ */
+export const MIN_SMS_SEGMENT_CHARS = 30;
+
+/**
+ * Largest accepted segment budget (one GSM-7 segment; Unicode messages are held to 70)
+ */
+export const MAX_SMS_SEGMENT_CHARS = 160;
+
+export type SmsEncoding = keyof typeof SMS_SEGMENT_LIMITS;
+
+/**
+ * Message labels for one language
+ */
+interface SmsLabels {
+  /** Abbreviated product names */
+  products: Record<LayerOutput, string>;
+  /** Lead-in for the products without data */
+  noData: string;
+  /** Lead-in for the date of stale values */
+  stale: string;
+  /** Lead-in for the distance and direction of the nearest point with data */
+  nearestData: string;
+}
+
+/**
+ * Abbreviations per language
+ * Note: units are always "kg/ha" and "t/ha" (tons), in every language.
+ */
+const SMS_LABELS: Record<SummaryLanguage, SmsLabels> = {
+  en: {
+    products: { urea: 'Urea', nps: 'NPS', compost: 'Comp', vermicompost: 'VComp', yield: 'Yield' },
+    noData: 'No data',
+    stale: 'Old data',
+    nearestData: 'Nearby land'
+  },
+  am: {
+    products: { urea: 'ዩሪያ', nps: 'NPS', compost: 'ኮምፖስት', vermicompost: 'ቨርሚ', yield: 'ምርት' },
+    noData: 'መረጃ የለም',
+    stale: 'የቆየ መረጃ',
+    nearestData: 'የአቅራቢያ መሬት'
+  },
+  om: {
+    products: { urea: 'Yuuriyaa', nps: 'NPS', compost: 'Komp', vermicompost: 'VKomp', yield: 'Oomisha' },
+    noData: 'Odeeffannoon hin jiru',
+    stale: 'Odeeffannoo moofaa',
+    nearestData: 'Lafa naannoo'
+  },
+  ti: {
+    products: { urea: 'ዩርያ', nps: 'NPS', compost: 'ኮምፖስት', vermicompost: 'ቨርሚ', yield: 'ፍርያት' },
+    noData: 'ሓበሬታ የለን',
+    stale: 'ዝኣረገ ሓበሬታ',
+    nearestData: 'ጥቓ መሬት'
+  }
+};
+
+/**
+ * Product order in the message: inorganic products first, as farmers buy those
+ */
+const PRODUCT_ORDER: Exclude<LayerOutput, 'yield'>[] = ['urea', 'nps', 'compost', 'vermicompost'];
+
+/**
+ * GSM 03.38 basic character set, and the extension characters that take two positions
+ */
+const GSM7_BASIC = '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM7_EXTENSION = '^{}\\[~]|€';
+
+/**
+ * A message ready to send
+ */
+export interface SmsMessage {
+  /** GSM-7 when every character fits, Unicode (UCS-2) otherwise */
+  encoding: SmsEncoding;
+  /** Character budget per segment */
+  segmentLimit: number;
+  /** Length of the whole message before splitting, in segment characters */
+  characters: number;
+  /** Segments to send in order; numbered "(i/n) " when there is more than one */
+  segments: string[];
+}
+
+/**
+ * Options for rendering a message
+ */
+export interface SmsOptions {
+  /** Message language (default: en) */
+  language?: SummaryLanguage;
+  /** Character budget per segment, never above the encoding's limit (default: 160 for GSM-7, 70 for Unicode) */
+  maxChars?: number;
+  /** Outputs the crop has layers for; only these are listed as missing */
+  outputs?: readonly LayerOutput[];
+}
+
+/**
+ * Encoding needed for a text
+ */
+export function smsEncoding(text: string): SmsEncoding {
+  for (const char of text) {
+    if (!GSM7_BASIC.includes(char) && !GSM7_EXTENSION.includes(char)) {
+      return 'unicode';
+    }
+  }
+  return 'gsm7';
+}
+
+/**
+ * Length of a text in segment characters (GSM-7 extension characters count twice)
+ */
+export function smsLength(text: string, encoding: SmsEncoding): number {
+  if (encoding === 'unicode') {
+    return text.length;
+  }
+  let length = 0;
+  for (const char of text) {
+    length += GSM7_EXTENSION.includes(char) ? 2 : 1;
+  }
+  return length;
+}
+
+/**
+ * Split a message into numbered segments within the character budget
+ *
+ * @param text - Whole message
+ * @param encoding - Encoding used to count characters
+ * @param limit - Character budget per segment
+ * @returns The text itself when it fits, numbered parts otherwise
+ */
+export function splitSmsSegments(text: string, encoding: SmsEncoding, limit: number): string[] {
+  if (smsLength(text, encoding) <= limit) {
+    return [text];
+  }
+
+  // The prefix length depends on the number of parts, so retry until it is stable
+  let parts = 2;
+  for (;;) {
+    const capacity = limit - smsLength(`(${parts}/${parts}) `, encoding);
+    const chunks = chunkWords(text, encoding, capacity);
+    if (chunks.length <= parts || String(chunks.length).length === String(parts).length) {
+      return chunks.map((chunk, index) => `(${index + 1}/${chunks.length}) ${chunk}`);
+    }
+    parts = chunks.length;
+  }
+}
+
+/**
+ * Greedily pack words into chunks of at most `capacity` characters, cutting words that are too long
+ */
+function chunkWords(text: string, encoding: SmsEncoding, capacity: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const word of text.split(' ')) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (smsLength(candidate, encoding) <= capacity) {
+      current = candidate;
+      continue;
+    }
+    if (current) {
+      chunks.push(current);
+    }
+    current = word;
+    while (smsLength(current, encoding) > capacity) {
+      let cut = current.length;
+      while (cut > 1 && smsLength(current.slice(0, cut), encoding) > capacity) cut--;
+      chunks.push(current.slice(0, cut));
+      current = current.slice(cut);
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Render a recommendation as a compact SMS / USSD message
+ *
+ * Rates are rounded for readability: kg/ha to whole numbers, t/ha to one decimal.
+ */
+export function renderSms(recommendation: FertilizerRecommendation, options: SmsOptions = {}): SmsMessage {
+  const language = options.language ?? 'en';
+  const labels = SMS_LABELS[language];
+  const outputs = options.outputs ?? LAYER_OUTPUTS;
+
+  const values: Record<LayerOutput, number | undefined> = {
+    urea: recommendation.inorganic.urea,
+    nps: recommendation.inorganic.nps,
+    compost: recommendation.organic.compost,
+    vermicompost: recommendation.organic.vermicompost,
+    yield: recommendation.expectedYield
+  };
+  const kg = (value: number) => `${Math.round(value)}kg/ha`;
+  const tons = (value: number) => `${Math.round(value * 10) / 10}t/ha`;
+
+  const crop = SUMMARY_TEMPLATES[language].crops[recommendation.crop] ?? recommendation.crop;
+  const { location } = recommendation;
+  const place = location.zone ?? location.region ?? `${location.latitude.toFixed(2)},${location.longitude.toFixed(2)}`;
+
+  const products = PRODUCT_ORDER
+    .filter(product => values[product] !== undefined)
+    .map(product => {
+      const value = values[product]!;
+      return `${labels.products[product]} ${product === 'urea' || product === 'nps' ? kg(value) : tons(value)}`;
+    });
+
+  const sentences = [`${capitalize(crop)}, ${place}: ${products.join(', ')}`];
+  if (recommendation.nearestData) {
+    const { distanceMeters, direction } = recommendation.nearestData;
+    sentences.push(`${labels.nearestData}: ${distanceMeters}m ${SUMMARY_TEMPLATES[language].directions[direction]}`);
+  }
+  if (values.yield !== undefined) {
+    sentences.push(`${labels.products.yield} ${kg(values.yield)}`);
+  }
+  const missing = outputs.filter(output => values[output] === undefined);
+  if (missing.length > 0) {
+    sentences.push(`${labels.noData}: ${missing.map(output => labels.products[output]).join(', ')}`);
+  }
+  if (recommendation.staleData) {
+    sentences.push(`${labels.stale} ${recommendation.staleData.fetchedAt.slice(0, 10)}`);
+  }
+
+  const text = `${sentences.join('. ')}.`;
+  const encoding = smsEncoding(text);
+  // max_chars can only shorten segments: a longer one would not fit in a single SMS
+  const segmentLimit = Math.min(
+    SMS_SEGMENT_LIMITS[encoding],
+    Math.max(MIN_SMS_SEGMENT_CHARS, Math.floor(options.maxChars ?? SMS_SEGMENT_LIMITS[encoding]))
+  );
+  return {
+    encoding,
+    segmentLimit,
+    characters: smsLength(text, encoding),
+    segments: splitSmsSegments(text, encoding, segmentLimit)
+  };
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
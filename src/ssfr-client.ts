@@ -5,17 +5,65 @@
  * which provides Site-Specific Fertilizer Recommendations (SSFR) for Ethiopian farmers.
  *
  * Key Features:
- * - Fetches fertilizer recommendations for wheat and maize
+ * - Fetches fertilizer recommendations for every crop in the layer registry (wheat and maize built in)
  * - Supports multiple fertilizer types: Urea, NPS, Compost, VCompost, Optimal Yield
  * - Location-based recommendations using coordinates
+ * - Offline Ethiopia boundary check and region / zone / woreda lookup
+ * - Per-point layer cache so nearby farms share upstream results
+ * - Retries with backoff, a circuit breaker and last-known (stale) values during outages
+ * - Nutrient breakdown (N, P2O5, S, organic N) from a configurable product table
+ * - Batch recommendations that share one upstream request per layer across many farms
+ * - Field (polygon) recommendations with per-layer statistics across the field
+ * - Comparison of layer values across release dates
+ * - Per-layer provenance (status, error, latency) and a completeness score
+ * - Opt-in fallback to the nearest point with data when a point has none
+ * - Record/replay of upstream responses as fixture files, for offline development
  *
  * @module ssfr-client
  */
 
 import fetch from 'node-fetch';
+import {
+  FieldGeometry,
+  validateFieldGeometry,
+  sampleFieldGrid,
+  fieldAreaHectares,
+  fieldCentroid,
+  sampleRing,
+  compassDirection,
+  CompassDirection,
+  RingPoint
+} from './field-geometry.js';
+import { isInEthiopiaBoundary, lookupAdminArea, findNearestBorder, describeOutsideLocation, distanceKm } from './ethiopia-geo.js';
+import { LayerCache, LayerCacheOptions, LayerCacheStats } from './layer-cache.js';
+import { FixtureStore, FixtureMode, fixtureBodyText } from './fixtures.js';
+import { createLogger, logCoordinate } from './logger.js';
+import { metrics } from './metrics.js';
+import {
+  UpstreamError,
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  CircuitBreakerStatus,
+  RetryOptions,
+  withRetry
+} from './resilience.js';
+import { ProductCompositions, NutrientBreakdown, DEFAULT_PRODUCT_COMPOSITIONS, computeNutrientBreakdown } from './nutrients.js';
+import { ToolErrorCode, errorCodeFor } from './tool-output.js';
+import {
+  LayerRegistry,
+  CropDefinition,
+  LayerOutput,
+  LayerUnit,
+  DEFAULT_LAYER_REGISTRY,
+  DEFAULT_LAYER_DATE,
+  cropNames
+} from './layer-registry.js';
+
+const log = createLogger('SSFR API');
+const cacheLog = createLogger('SSFR Cache');
 
 /**
- * Ethiopian location bounds for validation
+ * Ethiopian bounding box, used as a cheap pre-filter before the boundary check
  */
 export const ETHIOPIA_BOUNDS = {
   minLat: 3.0,
@@ -25,34 +73,62 @@ export const ETHIOPIA_BOUNDS = {
 };
 
 /**
- * SSFR Layer types for different crops and fertilizer types
+ * Maximum number of coordinates sent in a single upstream request.
+ * The coordinates are JSON-encoded into the URL path, so large batches are
+ * split into chunks to stay well below common URL length limits.
  */
-export const SSFR_LAYERS = {
-  wheat: {
-    compost: 'et_wheat_compost_probabilistic_dominant',
-    nps: 'et_wheat_nps_probabilistic_dominant',
-    urea: 'et_wheat_urea_probabilistic_dominant',
-    vcompost: 'et_wheat_vcompost_probabilistic_dominant',
-    yield: 'et_wheat_yieldtypes_optimal_dominant'
-  },
-  maize: {
-    compost: 'et_maize_compost_probabilistic_dominant',
-    nps: 'et_maize_nps_probabilistic_dominant',
-    urea: 'et_maize_urea_probabilistic_dominant',
-    vcompost: 'et_maize_vcompost_probabilistic_dominant',
-    yield: 'et_maize_yieldtypes_optimal_dominant'
-  }
+export const MAX_COORDINATES_PER_REQUEST = 50;
+
+/**
+ * Largest difference, in degrees, between a requested coordinate and the one the
+ * upstream echoes back for it (~0.1 m; absorbs rounding, never another farm)
+ */
+const COORDINATE_MATCH_TOLERANCE = 1e-6;
+
+/**
+ * Maximum number of release dates in a single date comparison.
+ * Every date costs one upstream request per layer.
+ */
+export const MAX_COMPARISON_DATES = 6;
+
+/**
+ * Field sampling defaults
+ * Note: minSpacingMeters roughly matches the SSFR raster resolution; sampling finer
+ * than that only re-reads the same cell. maxAreaHectares bounds the fields accepted
+ * at all: larger areas are regions, not fields, and would be sampled too coarsely.
+ */
+export const FIELD_SAMPLING = {
+  maxSamples: 100,
+  minSpacingMeters: 250,
+  maxAreaHectares: 1000
 };
 
 /**
- * Dates for different layer types
- * Note: Yield layer uses 2025-07, all other layers use 2024-07 per API documentation
+ * Nearest-available-data search settings
+ * Note: ringSpacingMeters matches the field sampling spacing (roughly the SSFR
+ * raster resolution); closer rings would mostly re-read the same cells. Rings
+ * have 8 more points than the previous one, up to maxPointsPerRing.
  */
-export const LAYER_DATES = {
-  default: '2024-07',
-  yield: '2025-07'
+export const NEAREST_DATA_SEARCH = {
+  defaultRadiusMeters: 1000,
+  maxRadiusMeters: 2000,
+  ringSpacingMeters: 250,
+  maxPointsPerRing: 32
 };
 
+/**
+ * Crop name, as configured in the layer registry
+ */
+export type Crop = string;
+
+/**
+ * A single coordinate pair as sent to the upstream API
+ */
+export interface Coordinate {
+  lat: number;
+  lon: number;
+}
+
 /**
  * Response from Next-gen Agro Advisory API
  * Note: Actual API response structure may vary - this is a flexible interface
@@ -71,6 +147,10 @@ export interface SSFRResponse {
   }>;
   /** Date used for the query */
   date?: string;
+  /** True when the values are last known values served during an upstream outage */
+  stale?: boolean;
+  /** When stale values were originally fetched (ISO 8601) */
+  fetchedAt?: string;
   /** Additional fields that may be present */
   [key: string]: any;
 }
@@ -80,11 +160,17 @@ export interface SSFRResponse {
  */
 export interface FertilizerRecommendation {
   /** Crop type */
-  crop: 'wheat' | 'maize';
+  crop: Crop;
   /** Location coordinates */
   location: {
     latitude: number;
     longitude: number;
+    /** Regional state (approximate, from the offline admin lookup) */
+    region?: string;
+    /** Zone (approximate) */
+    zone?: string;
+    /** Woreda (approximate, only near a known woreda centre) */
+    woreda?: string;
   };
   /** Organic fertilizers */
   organic: {
@@ -98,10 +184,310 @@ export interface FertilizerRecommendation {
   };
   /** Expected yield */
   expectedYield?: number; // kg/ha
+  /** Nutrients supplied by the recommended products (kg/ha) */
+  nutrients?: NutrientBreakdown;
+  /** Set when some values are last known values because the upstream was unavailable */
+  staleData?: StaleDataInfo;
+  /** Set when the values come from the nearest point with data, not the requested location */
+  nearestData?: NearestDataInfo;
+  /** Where each value came from, and how complete the recommendation is */
+  provenance: RecommendationProvenance;
   /** Data source */
   dataSource: 'Next-gen Agro Advisory Service';
 }
 
+/**
+ * Outcome of one layer request:
+ * - ok: a numeric value was returned
+ * - empty: the upstream has no value for this point
+ * - error: the request failed (timeout, HTTP error, outage)
+ * - unparseable: a value was returned but is not a number
+ */
+export type LayerStatus = 'ok' | 'empty' | 'error' | 'unparseable';
+
+/**
+ * Provenance of one layer in a recommendation
+ */
+export interface LayerProvenance {
+  /** Layer key in the registry (e.g. 'urea', 'vcompost') */
+  key: string;
+  /** Upstream layer ID */
+  layer: string;
+  /** Layer release date (YYYY-MM) */
+  date: string;
+  /** Field the value is reported in */
+  output: LayerOutput;
+  status: LayerStatus;
+  /** Error message, or the raw value when it could not be parsed */
+  error?: string;
+  /** Time taken to get the layer, in milliseconds (shared by all points of a batch request) */
+  latencyMs?: number;
+  /** True when the value is a last known value served during an upstream outage */
+  stale?: boolean;
+}
+
+/**
+ * Per-layer provenance plus an overall completeness score
+ */
+export interface RecommendationProvenance {
+  layers: LayerProvenance[];
+  /** Share of the crop's layers that returned a usable value, from 0 to 1 */
+  completeness: number;
+}
+
+/**
+ * Which layers were served from last known values, and how old they are
+ */
+export interface StaleDataInfo {
+  /** Layers whose values are stale */
+  layers: string[];
+  /** Oldest fetch time among the stale values (ISO 8601) */
+  fetchedAt: string;
+}
+
+/**
+ * Where a nearest-available-data recommendation comes from, relative to the requested location
+ */
+export interface NearestDataInfo {
+  /** Point the values come from */
+  latitude: number;
+  longitude: number;
+  /** Distance from the requested location, in metres */
+  distanceMeters: number;
+  /** Degrees clockwise from north, as seen from the requested location */
+  bearingDegrees: number;
+  direction: CompassDirection;
+  /** Radius that was searched, in metres */
+  radiusMeters: number;
+  /** Points checked before one with data was found */
+  pointsSearched: number;
+}
+
+/**
+ * Per-call recommendation options
+ */
+export interface RecommendationOptions {
+  /** Use the nearest point with data when the location has none (off by default) */
+  nearestData?: boolean;
+  /** Search radius for the nearest point with data, in metres (default: the client's nearestDataRadiusMeters) */
+  nearestDataRadiusMeters?: number;
+}
+
+/**
+ * A single farm in a batch recommendation request
+ */
+export interface BatchFarm {
+  /** Caller-supplied farm identifier, echoed back in the result */
+  id: string;
+  /** Crop type */
+  crop: Crop;
+  /** Latitude coordinate */
+  lat: number;
+  /** Longitude coordinate */
+  lon: number;
+}
+
+/**
+ * Result for a single farm in a batch request.
+ * Exactly one of `recommendation` or `error` is set.
+ */
+export interface BatchRecommendationResult {
+  /** Farm identifier from the request */
+  id: string;
+  /** Recommendation, if the farm could be served */
+  recommendation?: FertilizerRecommendation;
+  /** Why the farm could not be served: a machine-readable code and a message */
+  error?: BatchFarmError;
+}
+
+/**
+ * Error of one farm in a batch request
+ */
+export interface BatchFarmError {
+  code: ToolErrorCode;
+  message: string;
+}
+
+/**
+ * Summary statistics for one layer across the sample points of a field
+ */
+export interface LayerStatistics {
+  /** Smallest sampled value */
+  min: number;
+  /** Mean of sampled values */
+  mean: number;
+  /** Largest sampled value */
+  max: number;
+  /** Most frequent sampled value (ties go to the value seen first) */
+  dominant: number;
+  /** Number of sample points that returned a value */
+  samplesWithData: number;
+}
+
+/**
+ * Aggregated recommendation for a field boundary
+ */
+export interface FieldRecommendation {
+  /** Crop type */
+  crop: Crop;
+  /** Field area in hectares */
+  areaHectares: number;
+  /** Representative point of the field */
+  centroid: {
+    latitude: number;
+    longitude: number;
+  };
+  /** Sampling details */
+  sampling: {
+    /** Number of points sampled inside the field */
+    points: number;
+    /** Distance between grid points, in metres */
+    spacingMeters: number;
+  };
+  /** Organic fertilizers (tons/ha) */
+  organic: {
+    compost?: LayerStatistics;
+    vermicompost?: LayerStatistics;
+  };
+  /** Inorganic fertilizers (kg/ha) */
+  inorganic: {
+    urea?: LayerStatistics;
+    nps?: LayerStatistics;
+  };
+  /** Expected yield (kg/ha) */
+  expectedYield?: LayerStatistics;
+  /** Set when some values are last known values because the upstream was unavailable */
+  staleData?: StaleDataInfo;
+  /** Data source */
+  dataSource: 'Next-gen Agro Advisory Service';
+}
+
+/**
+ * Value of one layer on one release date
+ */
+export interface LayerDateValue {
+  /** Release date (YYYY-MM) */
+  date: string;
+  /** 'ok' with a value, 'no_data' when the upstream returned nothing, 'error' when the request failed */
+  status: 'ok' | 'no_data' | 'error';
+  /** Layer value, when status is 'ok' */
+  value?: number;
+  /** Change from the layer's baseline date (undefined for the baseline itself and dates without a value) */
+  change?: {
+    absolute: number;
+    /** Percentage change; undefined when the baseline value is 0 */
+    percent?: number;
+  };
+  /** True when the value is a last known value served during an upstream outage */
+  stale?: boolean;
+  /** Error message, when status is 'error' */
+  error?: string;
+}
+
+/**
+ * One layer's values across the compared dates
+ */
+export interface LayerDateComparison {
+  /** Layer key in the registry (e.g. 'urea', 'vcompost') */
+  key: string;
+  /** Upstream layer ID */
+  layer: string;
+  /** Field the value is reported in */
+  output: LayerOutput;
+  /** Unit of the values */
+  unit: LayerUnit;
+  /** Release date the recommendation tools currently use for this layer */
+  currentDate: string;
+  /** Earliest compared date with a value; changes are relative to it */
+  baselineDate?: string;
+  /** One entry per compared date, in date order */
+  values: LayerDateValue[];
+}
+
+/**
+ * Recommendation layers compared across release dates
+ */
+export interface DateComparison {
+  /** Crop type */
+  crop: Crop;
+  /** Location coordinates */
+  location: FertilizerRecommendation['location'];
+  /** Compared dates, oldest first */
+  dates: string[];
+  /** Per-layer values and changes */
+  layers: LayerDateComparison[];
+  /** Dates for which no layer returned a value */
+  datesWithoutData: string[];
+  /** Data source */
+  dataSource: 'Next-gen Agro Advisory Service';
+}
+
+/**
+ * Client configuration
+ */
+export interface SSFRClientOptions {
+  /** Layer cache settings, or false to disable caching (default: in-memory cache) */
+  cache?: LayerCacheOptions | false;
+  /** Per-attempt request timeout in milliseconds (default: 30000) */
+  timeoutMs?: number;
+  /** Retry settings for 5xx errors, timeouts and network failures */
+  retry?: RetryOptions;
+  /** Circuit breaker settings for the upstream API */
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Product compositions used for the nutrient breakdown (default: DEFAULT_PRODUCT_COMPOSITIONS) */
+  productCompositions?: ProductCompositions;
+  /** Supported crops and their layers (default: DEFAULT_LAYER_REGISTRY) */
+  layerRegistry?: LayerRegistry;
+  /** Default search radius of the nearest-data fallback, in metres (default: NEAREST_DATA_SEARCH.defaultRadiusMeters) */
+  nearestDataRadiusMeters?: number;
+  /** Record upstream responses to fixture files, or replay them instead of calling the upstream */
+  fixtures?: { mode: FixtureMode; directory: string };
+}
+
+/**
+ * Upstream health, as reported on /health
+ */
+export interface UpstreamStatus {
+  circuitBreaker: CircuitBreakerStatus;
+  timeoutMs: number;
+  retry: Required<RetryOptions>;
+}
+
+/**
+ * A failed layer request
+ */
+type LayerError = { error: string; layer: string };
+
+/**
+ * Outcome of fetching one layer for one point: either the API response or the error message,
+ * with the time the request took
+ */
+type LayerResult = (SSFRResponse | LayerError) & { latencyMs?: number };
+
+/**
+ * Thrown when every layer came back empty or failed for a location or field
+ */
+export class NoRecommendationDataError extends Error {
+  /** Per-layer outcome, when the error comes from a single-point recommendation */
+  provenance?: RecommendationProvenance;
+
+  constructor(message: string, provenance?: RecommendationProvenance) {
+    super(message);
+    this.name = 'NoRecommendationDataError';
+    this.provenance = provenance;
+  }
+}
+
+/**
+ * Thrown when a location, or every sample point of a field, is outside Ethiopia
+ */
+export class OutsideEthiopiaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutsideEthiopiaError';
+  }
+}
+
 /**
  * Client for interacting with the Next-gen Agro Advisory API
  */
@@ -109,24 +495,106 @@ export class SSFRClient {
   /** Base URL for Next-gen Agro Advisory API */
   private baseUrl: string;
 
+  /** Per-point layer cache (undefined when caching is disabled) */
+  private cache?: LayerCache;
+
+  /** Per-attempt request timeout in milliseconds */
+  private timeoutMs: number;
+
+  /** Retry settings */
+  private retryOptions: Required<RetryOptions>;
+
+  /** Circuit breaker shared by all layer requests */
+  private breaker: CircuitBreaker;
+
+  /** Product compositions for the nutrient breakdown */
+  private productCompositions: ProductCompositions;
+
+  /** Supported crops and their layers */
+  private layerRegistry: LayerRegistry;
+
+  /** Default search radius of the nearest-data fallback, in metres */
+  private nearestDataRadiusMeters: number;
+
+  /** Fixture recording or replay (undefined when calling the upstream normally) */
+  private fixtures?: { mode: FixtureMode; store: FixtureStore };
+
   /**
    * Creates a new SSFR API client
    *
    * @param baseUrl - Base URL for API (default: https://webapi.nextgenagroadvisory.com)
+   * @param options - Client options (caching, timeout, retries, circuit breaker, crops, fixtures)
    */
-  constructor(baseUrl: string = 'https://webapi.nextgenagroadvisory.com') {
+  constructor(baseUrl: string = 'https://webapi.nextgenagroadvisory.com', options: SSFRClientOptions = {}) {
     this.baseUrl = baseUrl;
+    if (options.cache !== false) {
+      this.cache = new LayerCache(options.cache ?? {});
+    }
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.retryOptions = {
+      retries: options.retry?.retries ?? 2,
+      baseDelayMs: options.retry?.baseDelayMs ?? 500,
+      maxDelayMs: options.retry?.maxDelayMs ?? 5000
+    };
+    this.breaker = new CircuitBreaker(options.circuitBreaker);
+    this.productCompositions = options.productCompositions ?? DEFAULT_PRODUCT_COMPOSITIONS;
+    this.layerRegistry = options.layerRegistry ?? DEFAULT_LAYER_REGISTRY;
+    this.nearestDataRadiusMeters = validateSearchRadius(options.nearestDataRadiusMeters ?? NEAREST_DATA_SEARCH.defaultRadiusMeters);
+    if (options.fixtures) {
+      this.fixtures = { mode: options.fixtures.mode, store: new FixtureStore(options.fixtures.directory) };
+    }
+  }
+
+  /**
+   * Registry entry for a crop
+   *
+   * @throws Error for crops that are not in the registry
+   */
+  private getCropDefinition(crop: Crop): CropDefinition {
+    const definition = Object.prototype.hasOwnProperty.call(this.layerRegistry.crops, crop)
+      ? this.layerRegistry.crops[crop]
+      : undefined;
+    if (!definition) {
+      throw new Error(`Unsupported crop "${crop}". Supported crops: ${cropNames(this.layerRegistry).join(', ')}`);
+    }
+    return definition;
+  }
+
+  /**
+   * Circuit breaker state and retry settings for the upstream API
+   */
+  getUpstreamStatus(): UpstreamStatus {
+    return {
+      circuitBreaker: this.breaker.getStatus(),
+      timeoutMs: this.timeoutMs,
+      retry: this.retryOptions
+    };
+  }
+
+  /**
+   * Cache counters, or null when caching is disabled
+   */
+  getCacheStats(): LayerCacheStats | null {
+    return this.cache ? this.cache.getStats() : null;
+  }
+
+  /**
+   * Persist the cache to disk, if persistence is configured (call on shutdown)
+   */
+  async flushCache(): Promise<void> {
+    await this.cache?.flush();
   }
 
   /**
-   * Check if coordinates are within Ethiopia bounds
+   * Check if coordinates are within Ethiopia (bundled offline boundary)
    */
   isInEthiopia(lat: number, lon: number): boolean {
     return (
       lat >= ETHIOPIA_BOUNDS.minLat &&
       lat <= ETHIOPIA_BOUNDS.maxLat &&
       lon >= ETHIOPIA_BOUNDS.minLon &&
-      lon <= ETHIOPIA_BOUNDS.maxLon
+      lon <= ETHIOPIA_BOUNDS.maxLon &&
+      isInEthiopiaBoundary(lat, lon)
     );
   }
 
@@ -143,33 +611,218 @@ export class SSFRClient {
     layer: string,
     lat: number,
     lon: number,
-    date: string = LAYER_DATES.default
+    date: string = DEFAULT_LAYER_DATE
+  ): Promise<SSFRResponse> {
+    return this.getLayerDataForCoordinates(layer, [{ lat, lon }], date);
+  }
+
+  /**
+   * Fetch data from a specific SSFR layer for several coordinates in one request
+   *
+   * @param layer - Layer name (e.g., 'et_wheat_urea_probabilistic_dominant')
+   * @param coordinates - Coordinates to query (sent together as a JSON array)
+   * @param date - Date for the query (default: '2024-07')
+   * @returns Response from the API, with one coordinate entry per returned point
+   */
+  async getLayerDataForCoordinates(
+    layer: string,
+    coordinates: Coordinate[],
+    date: string = DEFAULT_LAYER_DATE
   ): Promise<SSFRResponse> {
     // Validate inputs
     if (!layer || typeof layer !== 'string') {
       throw new Error('Invalid layer name');
     }
-    if (typeof lat !== 'number' || isNaN(lat) || lat < -90 || lat > 90) {
-      throw new Error(`Invalid latitude: ${lat}`);
+    if (!Array.isArray(coordinates) || coordinates.length === 0) {
+      throw new Error('At least one coordinate is required');
     }
-    if (typeof lon !== 'number' || isNaN(lon) || lon < -180 || lon > 180) {
-      throw new Error(`Invalid longitude: ${lon}`);
+    for (const { lat, lon } of coordinates) {
+      if (typeof lat !== 'number' || isNaN(lat) || lat < -90 || lat > 90) {
+        throw new Error(`Invalid latitude: ${lat}`);
+      }
+      if (typeof lon !== 'number' || isNaN(lon) || lon < -180 || lon > 180) {
+        throw new Error(`Invalid longitude: ${lon}`);
+      }
     }
     if (!date || typeof date !== 'string') {
       throw new Error('Invalid date format');
     }
 
+    if (!this.cache) {
+      return this.fetchLayerData(layer, coordinates, date);
+    }
+
+    // Serve what we can from the cache and only fetch the missing points
+    const cache = this.cache;
+    const cached = coordinates.map(({ lat, lon }) => cache.get(layer, date, lat, lon));
+    const missing = coordinates.filter((_, index) => cached[index] === undefined);
+
+    if (missing.length > 0) {
+      let response: SSFRResponse;
+      try {
+        response = await this.fetchLayerData(layer, missing, date);
+      } catch (error) {
+        const stale = this.staleResponse(layer, coordinates, date, error);
+        if (stale) return stale;
+        throw error;
+      }
+      // Only explicit answers are cached: a point the upstream returned (with or without
+      // a value), or an empty array (no data anywhere). Points missing from a non-empty
+      // response and responses of an unknown shape are not, so a parsing or alignment
+      // problem cannot hide a point's data for a whole TTL.
+      const returned = Array.isArray(response.coordinates) ? response.coordinates : undefined;
+      const aligned = alignToCoordinates(missing, returned ?? []);
+      missing.forEach(({ lat, lon }, index) => {
+        const match = aligned[index];
+        if (match) {
+          cache.set(layer, date, lat, lon, match.value ?? null);
+        } else if (returned?.length === 0) {
+          cache.set(layer, date, lat, lon, null);
+        }
+      });
+
+      // Nothing came from the cache: hand back the upstream response untouched
+      if (missing.length === coordinates.length) {
+        return response;
+      }
+
+      let missingIndex = 0;
+      coordinates.forEach((_, index) => {
+        if (cached[index] === undefined) {
+          const value = aligned[missingIndex++]?.value;
+          cached[index] = value === undefined ? null : value;
+        }
+      });
+    } else {
+      cacheLog.info(`Hit: ${layer} for ${coordinates.length} coordinate(s) on ${date}`, { layer, date, points: coordinates.length });
+    }
+
+    // Points without data are left out, as the upstream does with an empty array
+    return {
+      coordinates: coordinates
+        .map(({ lat, lon }, index) => ({ lat, lon, value: cached[index] }))
+        .filter(item => item.value !== null),
+      date,
+      layer
+    };
+  }
+
+  /**
+   * Build a response from last known values after an upstream outage
+   *
+   * @returns The stale response, or undefined if the error is not an outage or
+   *          any of the points has no last known value
+   */
+  private staleResponse(
+    layer: string,
+    coordinates: Coordinate[],
+    date: string,
+    error: unknown
+  ): SSFRResponse | undefined {
+    if (!this.cache || !(error instanceof UpstreamError) || !(error.retryable || error.circuitOpen)) {
+      return undefined;
+    }
+
+    const cache = this.cache;
+    const stale = coordinates.map(({ lat, lon }) => cache.getStale(layer, date, lat, lon));
+    if (stale.some(entry => entry === undefined)) {
+      return undefined;
+    }
+    cache.countStaleServed(coordinates.length);
+
+    const oldest = Math.min(...stale.map(entry => entry!.storedAt.getTime()));
+    log.warn(`Serving stale values for ${layer} (${coordinates.length} coordinate(s)) after: ${error.message}`, {
+      layer,
+      date,
+      points: coordinates.length,
+      error: error.message
+    });
+
+    return {
+      coordinates: coordinates
+        .map(({ lat, lon }, index) => ({ lat, lon, value: stale[index]!.value }))
+        .filter(item => item.value !== null),
+      date,
+      layer,
+      stale: true,
+      fetchedAt: new Date(oldest).toISOString()
+    };
+  }
+
+  /**
+   * Fetch layer data from the upstream API (no caching)
+   *
+   * Goes through the circuit breaker and retries 5xx errors, timeouts and network
+   * failures with exponential backoff and jitter.
+   */
+  private async fetchLayerData(
+    layer: string,
+    coordinates: Coordinate[],
+    date: string
+  ): Promise<SSFRResponse> {
     // Format coordinates as URL-encoded JSON array
-    const coordinates = JSON.stringify([{ lat, lon }]);
-    const encodedCoords = encodeURIComponent(coordinates);
+    const encodedCoords = encodeURIComponent(JSON.stringify(coordinates.map(({ lat, lon }) => ({ lat, lon }))));
 
     const url = `${this.baseUrl}/coordinates/${layer}/${encodedCoords}/${date}`;
 
-    console.log(`[SSFR API] Fetching: ${layer} for (${lat}, ${lon}) on ${date}`);
+    if (coordinates.length === 1) {
+      const lat = logCoordinate(coordinates[0].lat);
+      const lon = logCoordinate(coordinates[0].lon);
+      log.info(`Fetching: ${layer} for (${lat}, ${lon}) on ${date}`, { layer, date, lat, lon });
+    } else {
+      log.info(`Fetching: ${layer} for ${coordinates.length} coordinates on ${date}`, { layer, date, points: coordinates.length });
+    }
+
+    if (!this.breaker.allowRequest()) {
+      throw new UpstreamError(
+        `SSFR API is unavailable (circuit open after repeated failures). Retrying in ${this.breaker.retryAfterSeconds()}s.`,
+        { circuitOpen: true }
+      );
+    }
+
+    try {
+      const data = await withRetry(
+        () => this.requestLayer(url, layer, coordinates, date),
+        this.retryOptions,
+        (error, attempt, delayMs) => {
+          log.warn(`Retry ${attempt}/${this.retryOptions.retries} for ${layer} in ${delayMs}ms: ${error.message}`, {
+            layer,
+            date,
+            attempt,
+            delay_ms: delayMs,
+            error: error.message
+          });
+        }
+      );
+      this.breaker.recordSuccess();
+      return data;
+    } catch (error) {
+      // Only outages count against the breaker; any other answer means the upstream is up
+      if (error instanceof UpstreamError && error.retryable) {
+        this.breaker.recordFailure();
+      } else {
+        this.breaker.recordSuccess();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Perform a single upstream request and normalise the response
+   *
+   * In replay mode the response comes from the fixture store instead; in record
+   * mode every response below 500 is saved there before it is parsed.
+   */
+  private async requestLayer(url: string, layer: string, coordinates: Coordinate[], date: string): Promise<SSFRResponse> {
+    if (this.fixtures?.mode === 'replay') {
+      return this.replayLayer(layer, coordinates, date);
+    }
 
-    // Create AbortController for timeout (30 seconds)
+    // Create AbortController for timeout
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000);
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    const startedAt = Date.now();
+    let outcome: 'ok' | 'error' | 'timeout' = 'ok';
 
     try {
       const response = await fetch(url, {
@@ -182,181 +835,587 @@ export class SSFRClient {
         signal: controller.signal
       });
 
+      const text = await response.text();
       clearTimeout(timeoutId);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`SSFR API error (${response.status}): ${errorText || response.statusText}`);
+      if (this.fixtures?.mode === 'record' && response.status < 500) {
+        await this.recordLayer(layer, coordinates, date, response.status, text);
       }
 
-      let data: SSFRResponse;
-      try {
-        data = await response.json() as SSFRResponse;
-      } catch (parseError) {
-        throw new Error(`Failed to parse API response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
-      }
-
-      // Validate response structure
-      if (!data || typeof data !== 'object') {
-        throw new Error('Invalid API response format: expected object or array');
-      }
-
-      // Handle direct array response (API returns array of coordinate objects)
-      if (Array.isArray(data)) {
-        // Empty array means no data for this location/layer
-        if (data.length === 0) {
-          return {
-            coordinates: [],
-            date,
-            layer
-          };
-        }
-        return {
-          coordinates: data.map((item: any) => ({
-            lat: item.lat,
-            lon: item.lon,
-            value: item.value !== undefined ? item.value : (item.value_dominant !== undefined ? item.value_dominant : item.dominant_value)
-          })),
-          date,
-          layer
-        };
+      if (!response.ok) {
+        throw upstreamStatusError(response.status, text || response.statusText);
       }
 
-      // Handle object response (if API wraps in object)
-      return data;
+      return parseLayerResponse(text, layer, date);
     } catch (error: any) {
       clearTimeout(timeoutId);
       if (error.name === 'AbortError') {
-        throw new Error('Request timeout: API took too long to respond (30s limit)');
+        outcome = 'timeout';
+        metrics.upstreamTimeouts.inc({ layer });
+        throw new UpstreamError(`Request timeout: API took too long to respond (${this.timeoutMs / 1000}s limit)`, { retryable: true });
+      }
+      outcome = 'error';
+      if (error.name === 'FetchError') {
+        throw new UpstreamError(`SSFR API unreachable: ${error.message}`, { retryable: true });
       }
       throw error;
+    } finally {
+      metrics.upstreamDuration.observe({ layer, outcome }, (Date.now() - startedAt) / 1000);
+    }
+  }
+
+  /**
+   * Answer a layer request from its recorded fixture (replay mode)
+   *
+   * @throws Error when the request was never recorded
+   */
+  private async replayLayer(layer: string, coordinates: Coordinate[], date: string): Promise<SSFRResponse> {
+    const store = this.fixtures!.store;
+    const fixture = await store.read(layer, coordinates, date);
+    if (!fixture) {
+      throw new Error(`No fixture for ${layer} on ${date} (${coordinates.length} coordinates) in replay mode: expected ${store.pathFor(layer, coordinates, date)}`);
+    }
+    const text = fixtureBodyText(fixture);
+    if (fixture.response.status < 200 || fixture.response.status >= 300) {
+      throw upstreamStatusError(fixture.response.status, text);
+    }
+    return parseLayerResponse(text, layer, date);
+  }
+
+  /**
+   * Save an upstream response as a fixture (record mode); a failed write is logged, not thrown
+   */
+  private async recordLayer(layer: string, coordinates: Coordinate[], date: string, status: number, text: string): Promise<void> {
+    try {
+      const path = await this.fixtures!.store.write(layer, coordinates, date, status, text);
+      log.info(`Recorded fixture: ${layer} on ${date} (HTTP ${status})`, { layer, date, status, path });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.warn(`Could not record fixture for ${layer} on ${date}: ${message}`, { layer, date, error: message });
     }
   }
 
   /**
    * Get complete fertilizer recommendation for a crop
    *
-   * @param crop - Crop type ('wheat' or 'maize')
+   * With `nearestData`, a location where every layer came back empty (a road, a
+   * town, water) gets the recommendation of the nearest point with data instead,
+   * reported in `nearestData`. Failed requests never trigger the search.
+   *
+   * @param crop - Crop name from the layer registry (e.g. 'wheat' or 'maize')
    * @param lat - Latitude coordinate
    * @param lon - Longitude coordinate
+   * @param options - Nearest-data fallback
    * @returns Complete fertilizer recommendation
    */
   async getFertilizerRecommendation(
-    crop: 'wheat' | 'maize',
+    crop: Crop,
     lat: number,
-    lon: number
+    lon: number,
+    options: RecommendationOptions = {}
   ): Promise<FertilizerRecommendation> {
+    const layers = this.getCropDefinition(crop).layers;
+
     // Validate location is in Ethiopia
     if (!this.isInEthiopia(lat, lon)) {
-      throw new Error(`Coordinates (${lat}, ${lon}) are outside Ethiopia. SSFR is only available for Ethiopian locations.`);
+      metrics.outsideEthiopia.inc();
+      throw new OutsideEthiopiaError(outsideEthiopiaMessage(lat, lon));
     }
 
-    const layers = SSFR_LAYERS[crop];
-    const recommendation: FertilizerRecommendation = {
-      crop,
-      location: { latitude: lat, longitude: lon },
-      organic: {},
-      inorganic: {},
-      dataSource: 'Next-gen Agro Advisory Service'
-    };
-
     // Fetch all layer data in parallel with error handling per layer
     // Each promise resolves to either SSFRResponse or an error object
-    type LayerResult = SSFRResponse | { error: string; layer: string };
-
-    const layerPromises: Promise<LayerResult>[] = [
-      this.getLayerData(layers.compost, lat, lon).catch(err => ({ error: err instanceof Error ? err.message : String(err), layer: 'compost' })),
-      this.getLayerData(layers.nps, lat, lon).catch(err => ({ error: err instanceof Error ? err.message : String(err), layer: 'nps' })),
-      this.getLayerData(layers.urea, lat, lon).catch(err => ({ error: err instanceof Error ? err.message : String(err), layer: 'urea' })),
-      this.getLayerData(layers.vcompost, lat, lon).catch(err => ({ error: err instanceof Error ? err.message : String(err), layer: 'vcompost' })),
-      this.getLayerData(layers.yield, lat, lon, LAYER_DATES.yield).catch(err => ({ error: err instanceof Error ? err.message : String(err), layer: 'yield' }))
-    ];
-
-    const results = await Promise.all(layerPromises);
-
-    // Helper function to safely parse numeric values
-    const parseNumericValue = (value: any): number | undefined => {
-      if (value === null || value === undefined) return undefined;
-      const parsed = parseFloat(value.toString());
-      return isNaN(parsed) ? undefined : parsed;
-    };
+    const layerKeys = Object.keys(layers);
+    const results = await Promise.all(
+      layerKeys.map(async (key): Promise<LayerResult> => {
+        const startedAt = Date.now();
+        try {
+          const data = await this.getLayerData(layers[key].layer, lat, lon, layers[key].date);
+          return { ...data, latencyMs: Date.now() - startedAt };
+        } catch (err) {
+          return { error: err instanceof Error ? err.message : String(err), layer: key, latencyMs: Date.now() - startedAt };
+        }
+      })
+    );
 
-    // Helper function to check if result is an error
-    const isError = (result: LayerResult): result is { error: string; layer: string } => {
-      return 'error' in result;
-    };
+    const layerResults: Record<string, LayerResult> = {};
+    layerKeys.forEach((key, index) => {
+      layerResults[key] = results[index];
+    });
 
-    // Extract values from responses (handle partial failures gracefully)
-    const compostData = results[0];
-    const npsData = results[1];
-    const ureaData = results[2];
-    const vcompostData = results[3];
-    const yieldData = results[4];
+    try {
+      return this.buildRecommendation(crop, lat, lon, layerResults);
+    } catch (error) {
+      const onlyEmpty = error instanceof NoRecommendationDataError
+        && error.provenance?.layers.every(layer => layer.status !== 'error');
+      if (!options.nearestData || !onlyEmpty) {
+        throw error;
+      }
+      const radiusMeters = validateSearchRadius(options.nearestDataRadiusMeters ?? this.nearestDataRadiusMeters);
+      return this.recommendationFromNearestData(crop, lat, lon, radiusMeters, error);
+    }
+  }
 
-    // Track which layers returned data
-    const layersWithData: string[] = [];
-    const layersWithErrors: string[] = [];
+  /**
+   * Recommendation for a location from the nearest point with data
+   *
+   * Searches outward in rings (see NEAREST_DATA_SEARCH). Whole rings are packed
+   * into one coordinate array of up to MAX_COORDINATES_PER_REQUEST points, so
+   * each group of rings costs one request per layer, and the search stops at the
+   * first group with data. Within it, the closest point wins, then the most
+   * complete one. The location and admin area stay those of the requested point.
+   *
+   * @param noData - Error for the requested point, extended and rethrown when no point has data
+   */
+  private async recommendationFromNearestData(
+    crop: Crop,
+    lat: number,
+    lon: number,
+    radiusMeters: number,
+    noData: NoRecommendationDataError
+  ): Promise<FertilizerRecommendation> {
+    const layers = this.getCropDefinition(crop).layers;
+    const layerKeys = Object.keys(layers);
+    const rings = nearestDataRings({ lat, lon }, radiusMeters)
+      .map(ring => ({ ...ring, points: ring.points.filter(point => this.isInEthiopia(point.lat, point.lon)) }))
+      .filter(ring => ring.points.length > 0);
 
-    if (!isError(compostData)) {
-      if (compostData.coordinates && compostData.coordinates.length > 0 && compostData.coordinates[0]?.value) {
-        const value = parseNumericValue(compostData.coordinates[0].value);
-        if (value !== undefined) {
-          recommendation.organic.compost = value;
-          layersWithData.push('compost');
+    let searched = 0;
+    let next = 0;
+    while (next < rings.length) {
+      const group: Array<{ point: RingPoint; distanceMeters: number }> = [];
+      do {
+        const ring = rings[next++];
+        group.push(...ring.points.map(point => ({ point, distanceMeters: ring.distanceMeters })));
+      } while (next < rings.length && group.length + rings[next].points.length <= MAX_COORDINATES_PER_REQUEST);
+
+      const points = group.map(({ point }) => ({ lat: point.lat, lon: point.lon }));
+      const perLayer = await Promise.all(
+        layerKeys.map(key => this.getLayerResultsForPoints(layers[key].layer, key, points, layers[key].date))
+      );
+      searched += group.length;
+
+      let best: { index: number; layersWithData: number } | undefined;
+      for (let index = 0; index < group.length; index++) {
+        const layersWithData = perLayer.filter(results => {
+          const result = results[index];
+          return !isLayerError(result) && readLayerValue(result).status === 'ok';
+        }).length;
+        if (layersWithData === 0) continue;
+        if (!best
+          || group[index].distanceMeters < group[best.index].distanceMeters
+          || (group[index].distanceMeters === group[best.index].distanceMeters && layersWithData > best.layersWithData)) {
+          best = { index, layersWithData };
         }
       }
-    } else {
-      layersWithErrors.push(`compost: ${compostData.error}`);
+      if (!best) continue;
+
+      const layerResults: Record<string, LayerResult> = {};
+      layerKeys.forEach((key, layerIndex) => {
+        layerResults[key] = perLayer[layerIndex][best!.index];
+      });
+      const { point } = group[best.index];
+      const recommendation = this.buildRecommendation(crop, lat, lon, layerResults);
+      recommendation.nearestData = {
+        latitude: point.lat,
+        longitude: point.lon,
+        distanceMeters: Math.round(distanceKm(lat, lon, point.lat, point.lon) * 1000),
+        bearingDegrees: point.bearingDegrees,
+        direction: compassDirection(point.bearingDegrees),
+        radiusMeters,
+        pointsSearched: searched
+      };
+      metrics.nearestDataSearches.inc({ outcome: 'found' });
+      log.info(`Nearest data: ${recommendation.nearestData.distanceMeters} m ${recommendation.nearestData.direction} (${searched} points searched)`, {
+        crop,
+        distance_m: recommendation.nearestData.distanceMeters,
+        direction: recommendation.nearestData.direction,
+        points_searched: searched
+      });
+      return recommendation;
     }
 
-    if (!isError(vcompostData)) {
-      if (vcompostData.coordinates && vcompostData.coordinates.length > 0 && vcompostData.coordinates[0]?.value) {
-        const value = parseNumericValue(vcompostData.coordinates[0].value);
-        if (value !== undefined) {
-          recommendation.organic.vermicompost = value;
-          layersWithData.push('vermicompost');
-        }
+    metrics.nearestDataSearches.inc({ outcome: 'not_found' });
+    log.info(`Nearest data: none within ${radiusMeters} m (${searched} points searched)`, {
+      crop,
+      radius_m: radiusMeters,
+      points_searched: searched
+    });
+    throw new NoRecommendationDataError(
+      `${noData.message} No point within ${radiusMeters} m has data either (${searched} points searched).`,
+      noData.provenance
+    );
+  }
+
+  /**
+   * Get fertilizer recommendations for many farms at once
+   *
+   * Farms are grouped by crop, and each crop layer is fetched once for all of its
+   * farms (chunked by MAX_COORDINATES_PER_REQUEST) instead of once per farm.
+   * Failures are reported per farm and never fail the whole batch.
+   *
+   * @param farms - Farms to get recommendations for
+   * @returns One result per farm, in the same order as the input
+   */
+  async getBatchFertilizerRecommendations(farms: BatchFarm[]): Promise<BatchRecommendationResult[]> {
+    const results: BatchRecommendationResult[] = farms.map(farm => ({ id: farm.id }));
+
+    // Group farms inside Ethiopia by crop, keeping their position in the input
+    const farmsByCrop = new Map<Crop, number[]>();
+    farms.forEach((farm, index) => {
+      if (!Object.prototype.hasOwnProperty.call(this.layerRegistry.crops, farm.crop)) {
+        results[index].error = {
+          code: 'INVALID_ARGUMENT',
+          message: `Unsupported crop "${farm.crop}". Supported crops: ${cropNames(this.layerRegistry).join(', ')}`
+        };
+        return;
       }
-    } else {
-      layersWithErrors.push(`vermicompost: ${vcompostData.error}`);
+      if (!this.isInEthiopia(farm.lat, farm.lon)) {
+        metrics.outsideEthiopia.inc();
+        results[index].error = { code: 'LOCATION_NOT_SUPPORTED', message: outsideEthiopiaMessage(farm.lat, farm.lon) };
+        return;
+      }
+      const indices = farmsByCrop.get(farm.crop) ?? [];
+      indices.push(index);
+      farmsByCrop.set(farm.crop, indices);
+    });
+
+    await Promise.all(
+      Array.from(farmsByCrop.entries()).map(async ([crop, indices]) => {
+        const layers = this.getCropDefinition(crop).layers;
+        const layerKeys = Object.keys(layers);
+        const points = indices.map(index => ({ lat: farms[index].lat, lon: farms[index].lon }));
+
+        const perLayer = await Promise.all(
+          layerKeys.map(key => this.getLayerResultsForPoints(layers[key].layer, key, points, layers[key].date))
+        );
+
+        indices.forEach((farmIndex, pointIndex) => {
+          const layerResults: Record<string, LayerResult> = {};
+          layerKeys.forEach((key, layerIndex) => {
+            layerResults[key] = perLayer[layerIndex][pointIndex];
+          });
+
+          const { lat, lon } = farms[farmIndex];
+          try {
+            results[farmIndex].recommendation = this.buildRecommendation(crop, lat, lon, layerResults);
+          } catch (error) {
+            results[farmIndex].error = {
+              code: errorCodeFor(error),
+              message: error instanceof Error ? error.message : String(error)
+            };
+          }
+        });
+      })
+    );
+
+    return results;
+  }
+
+  /**
+   * Get an aggregated fertilizer recommendation for a field boundary
+   *
+   * The field is sampled on a regular grid (see FIELD_SAMPLING); every layer is
+   * fetched for all sample points together, and the values are summarised as
+   * min/mean/max/dominant. Sample points outside Ethiopia are skipped.
+   *
+   * @param crop - Crop name from the layer registry (e.g. 'wheat' or 'maize')
+   * @param geometry - GeoJSON Polygon or MultiPolygon field boundary
+   * @returns Aggregated field recommendation
+   * @throws Error for invalid or zero-area geometries and fields above FIELD_SAMPLING.maxAreaHectares
+   */
+  async getFieldRecommendation(
+    crop: Crop,
+    geometry: FieldGeometry
+  ): Promise<FieldRecommendation> {
+    const layers = this.getCropDefinition(crop).layers;
+    validateFieldGeometry(geometry);
+    const areaHectares = fieldAreaHectares(geometry);
+    if (areaHectares > FIELD_SAMPLING.maxAreaHectares) {
+      throw new Error(`Field area ${Math.round(areaHectares)} ha exceeds the ${FIELD_SAMPLING.maxAreaHectares} ha limit; split it into smaller fields`);
     }
 
-    if (!isError(ureaData)) {
-      if (ureaData.coordinates && ureaData.coordinates.length > 0 && ureaData.coordinates[0]?.value) {
-        const value = parseNumericValue(ureaData.coordinates[0].value);
+    const grid = sampleFieldGrid(geometry, FIELD_SAMPLING.maxSamples, FIELD_SAMPLING.minSpacingMeters);
+    const points = grid.points.filter(point => this.isInEthiopia(point.lat, point.lon));
+    if (points.length === 0) {
+      metrics.outsideEthiopia.inc();
+      throw new OutsideEthiopiaError('The field is outside Ethiopia. SSFR is only available for Ethiopian locations.');
+    }
+
+    const layerKeys = Object.keys(layers);
+    const perLayer = await Promise.all(
+      layerKeys.map(key => this.getLayerResultsForPoints(layers[key].layer, key, points, layers[key].date))
+    );
+
+    const statistics: Record<string, LayerStatistics | undefined> = {};
+    const layersWithErrors: string[] = [];
+    const staleResults: Array<[string, SSFRResponse]> = [];
+    layerKeys.forEach((key, index) => {
+      const values: number[] = [];
+      for (const result of perLayer[index]) {
+        if (isLayerError(result)) {
+          layersWithErrors.push(`${key}: ${result.error}`);
+          continue;
+        }
+        const value = firstValue(result);
         if (value !== undefined) {
-          recommendation.inorganic.urea = value;
-          layersWithData.push('urea');
+          values.push(value);
+          if (result.stale) {
+            staleResults.push([layers[key].output, result]);
+          }
         }
       }
-    } else {
-      layersWithErrors.push(`urea: ${ureaData.error}`);
+      statistics[key] = summarize(values);
+    });
+
+    const centroid = fieldCentroid(geometry);
+    const recommendation: FieldRecommendation = {
+      crop,
+      areaHectares: Math.round(areaHectares * 10000) / 10000,
+      centroid: { latitude: centroid.lat, longitude: centroid.lon },
+      sampling: {
+        points: points.length,
+        spacingMeters: Math.round(grid.spacingMeters)
+      },
+      organic: {},
+      inorganic: {},
+      staleData: staleDataInfo(staleResults),
+      dataSource: 'Next-gen Agro Advisory Service'
+    };
+    layerKeys.forEach(key => {
+      const layerStatistics = statistics[key];
+      if (layerStatistics) {
+        setOutput(recommendation, layers[key].output, layerStatistics);
+      }
+    });
+
+    if (layerKeys.every(key => statistics[key] === undefined)) {
+      const errorDetails = layersWithErrors.length > 0
+        ? ` API errors: ${Array.from(new Set(layersWithErrors)).join(', ')}.`
+        : ' All API calls returned empty results (no data available for this field).';
+      throw new NoRecommendationDataError(`No fertilizer recommendation data was returned from the API.${errorDetails} The field may not have data available, or it may be outside the API coverage area.`);
     }
 
-    if (!isError(npsData)) {
-      if (npsData.coordinates && npsData.coordinates.length > 0 && npsData.coordinates[0]?.value) {
-        const value = parseNumericValue(npsData.coordinates[0].value);
-        if (value !== undefined) {
-          recommendation.inorganic.nps = value;
-          layersWithData.push('nps');
+    return recommendation;
+  }
+
+  /**
+   * Compare a crop's layer values at one location across several release dates
+   *
+   * Every layer of the crop is fetched for every date, regardless of the date the
+   * recommendation tools use for it. Changes are reported per layer relative to
+   * the earliest date that has a value. Dates without data or with failed
+   * requests are kept in the result with their status.
+   *
+   * @param crop - Crop name from the layer registry (e.g. 'wheat' or 'maize')
+   * @param lat - Latitude coordinate
+   * @param lon - Longitude coordinate
+   * @param dates - Two or more release dates (YYYY-MM); duplicates are ignored
+   * @returns Side-by-side values with absolute and percentage changes
+   * @throws NoRecommendationDataError if no layer has a value on any date
+   */
+  async compareLayerDates(
+    crop: Crop,
+    lat: number,
+    lon: number,
+    dates: string[]
+  ): Promise<DateComparison> {
+    const layers = this.getCropDefinition(crop).layers;
+
+    const sortedDates = Array.from(new Set(dates)).sort();
+    const invalid = sortedDates.filter(date => !/^\d{4}-(0[1-9]|1[0-2])$/.test(date));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid date(s): ${invalid.join(', ')}. Expected YYYY-MM, e.g. 2024-07.`);
+    }
+    if (sortedDates.length < 2) {
+      throw new Error('At least two different dates are required for a comparison.');
+    }
+    if (sortedDates.length > MAX_COMPARISON_DATES) {
+      throw new Error(`At most ${MAX_COMPARISON_DATES} dates can be compared at once.`);
+    }
+
+    if (!this.isInEthiopia(lat, lon)) {
+      metrics.outsideEthiopia.inc();
+      throw new OutsideEthiopiaError(outsideEthiopiaMessage(lat, lon));
+    }
+
+    const layerKeys = Object.keys(layers);
+    const results = await Promise.all(
+      layerKeys.map(key => Promise.all(
+        sortedDates.map(date =>
+          this.getLayerData(layers[key].layer, lat, lon, date)
+            .catch((err): LayerResult => ({ error: err instanceof Error ? err.message : String(err), layer: key }))
+        )
+      ))
+    );
+
+    const comparisons = layerKeys.map((key, layerIndex): LayerDateComparison => {
+      const values = sortedDates.map((date, dateIndex): LayerDateValue => {
+        const result = results[layerIndex][dateIndex];
+        if (isLayerError(result)) {
+          return { date, status: 'error', error: result.error };
+        }
+        const value = firstValue(result);
+        if (value === undefined) {
+          return { date, status: 'no_data' };
+        }
+        return { date, status: 'ok', value, stale: result.stale || undefined };
+      });
+
+      const baseline = values.find(entry => entry.value !== undefined);
+      if (baseline) {
+        const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+        for (const entry of values) {
+          if (entry === baseline || entry.value === undefined) continue;
+          const absolute = entry.value - baseline.value!;
+          entry.change = {
+            absolute: round(absolute, 2),
+            percent: baseline.value !== 0 ? round(absolute / baseline.value! * 100, 1) : undefined
+          };
         }
       }
-    } else {
-      layersWithErrors.push(`nps: ${npsData.error}`);
+
+      return {
+        key,
+        layer: layers[key].layer,
+        output: layers[key].output,
+        unit: layers[key].unit,
+        currentDate: layers[key].date,
+        baselineDate: baseline?.date,
+        values
+      };
+    });
+
+    const datesWithoutData = sortedDates.filter((_, dateIndex) =>
+      comparisons.every(comparison => comparison.values[dateIndex].value === undefined)
+    );
+    if (datesWithoutData.length === sortedDates.length) {
+      const errors = comparisons.flatMap(comparison =>
+        comparison.values.filter(entry => entry.error).map(entry => `${comparison.key} ${entry.date}: ${entry.error}`)
+      );
+      const errorDetails = errors.length > 0
+        ? ` API errors: ${errors.join(', ')}.`
+        : ' All API calls returned empty results.';
+      throw new NoRecommendationDataError(`No layer data was returned for ${sortedDates.join(', ')}.${errorDetails} The location or the dates may not have data available.`);
     }
 
-    if (!isError(yieldData)) {
-      if (yieldData.coordinates && yieldData.coordinates.length > 0 && yieldData.coordinates[0]?.value) {
-        const value = parseNumericValue(yieldData.coordinates[0].value);
+    return {
+      crop,
+      location: { latitude: lat, longitude: lon, ...lookupAdminArea(lat, lon) },
+      dates: sortedDates,
+      layers: comparisons,
+      datesWithoutData,
+      dataSource: 'Next-gen Agro Advisory Service'
+    };
+  }
+
+  /**
+   * Fetch one layer for many points and split the response back into one result per point
+   *
+   * Points are sent in chunks of MAX_COORDINATES_PER_REQUEST. A failed chunk marks
+   * every point in that chunk as failed; other chunks are unaffected.
+   */
+  private async getLayerResultsForPoints(
+    layer: string,
+    layerKey: string,
+    points: Coordinate[],
+    date: string
+  ): Promise<LayerResult[]> {
+    const results: LayerResult[] = [];
+
+    for (let start = 0; start < points.length; start += MAX_COORDINATES_PER_REQUEST) {
+      const chunk = points.slice(start, start + MAX_COORDINATES_PER_REQUEST);
+      const startedAt = Date.now();
+      try {
+        const response = await this.getLayerDataForCoordinates(layer, chunk, date);
+        const latencyMs = Date.now() - startedAt;
+        const aligned = alignToCoordinates(chunk, response.coordinates ?? []);
+        aligned.forEach(match => {
+          results.push({ coordinates: match ? [match] : [], date, layer, stale: response.stale, fetchedAt: response.fetchedAt, latencyMs });
+        });
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        const latencyMs = Date.now() - startedAt;
+        chunk.forEach(() => results.push({ error, layer: layerKey, latencyMs }));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Build a recommendation from the per-layer results for a single point
+   *
+   * @throws Error if none of the layers returned usable data
+   */
+  private buildRecommendation(
+    crop: Crop,
+    lat: number,
+    lon: number,
+    results: Record<string, LayerResult>
+  ): FertilizerRecommendation {
+    const layers = this.getCropDefinition(crop).layers;
+    const provenance: RecommendationProvenance = { layers: [], completeness: 0 };
+    const recommendation: FertilizerRecommendation = {
+      crop,
+      location: { latitude: lat, longitude: lon, ...lookupAdminArea(lat, lon) },
+      organic: {},
+      inorganic: {},
+      provenance,
+      dataSource: 'Next-gen Agro Advisory Service'
+    };
+
+    // Track which layers returned data
+    const layersWithData: string[] = [];
+    const layersWithErrors: string[] = [];
+    const staleResults: Array<[string, SSFRResponse]> = [];
+
+    // Extract values from responses (handle partial failures gracefully)
+    const extract = (key: string, label: string, assign: (value: number) => void): Pick<LayerProvenance, 'status' | 'error' | 'stale'> => {
+      const data = results[key];
+      if (!isLayerError(data)) {
+        const { status, raw, value } = readLayerValue(data);
         if (value !== undefined) {
-          recommendation.expectedYield = value;
-          layersWithData.push('yield');
+          assign(value);
+          layersWithData.push(label);
+          if (data.stale) {
+            staleResults.push([label, data]);
+          }
         }
+        return {
+          status,
+          error: status === 'unparseable' ? `Unparseable value: ${JSON.stringify(raw)}` : undefined,
+          stale: data.stale || undefined
+        };
+      } else {
+        layersWithErrors.push(`${label}: ${data.error}`);
+        return { status: 'error', error: data.error };
       }
-    } else {
-      layersWithErrors.push(`yield: ${yieldData.error}`);
+    };
+
+    for (const [key, definition] of Object.entries(layers)) {
+      const outcome = extract(key, definition.output, value => setOutput(recommendation, definition.output, value));
+      provenance.layers.push({
+        key,
+        layer: definition.layer,
+        date: definition.date,
+        output: definition.output,
+        ...outcome,
+        latencyMs: results[key].latencyMs
+      });
+    }
+    provenance.completeness = provenance.layers.length > 0
+      ? Math.round(layersWithData.length / provenance.layers.length * 100) / 100
+      : 0;
+    if (layersWithData.length > 0 && provenance.completeness < 1) {
+      metrics.partialResponses.inc({ crop });
     }
 
+    recommendation.nutrients = computeNutrientBreakdown(
+      { ...recommendation.inorganic, ...recommendation.organic },
+      this.productCompositions
+    );
+    recommendation.staleData = staleDataInfo(staleResults);
+
     // Check if we got at least some data
     const hasOrganicData = recommendation.organic.compost !== undefined || recommendation.organic.vermicompost !== undefined;
     const hasInorganicData = recommendation.inorganic.urea !== undefined || recommendation.inorganic.nps !== undefined;
@@ -366,10 +1425,242 @@ export class SSFRClient {
       const errorDetails = layersWithErrors.length > 0 
         ? ` API errors: ${layersWithErrors.join(', ')}.`
         : ' All API calls returned empty results (no data available for this location).';
-      throw new Error(`No fertilizer recommendation data was returned from the API.${errorDetails} The location may not have data available, or the coordinates may be outside the API coverage area.`);
+      throw new NoRecommendationDataError(
+        `No fertilizer recommendation data was returned from the API.${errorDetails} The location may not have data available, or the coordinates may be outside the API coverage area.`,
+        provenance
+      );
     }
 
     return recommendation;
   }
 }
 
+/**
+ * Match returned coordinate entries to the requested coordinates
+ *
+ * Entries are matched by coordinate, within COORDINATE_MATCH_TOLERANCE (the
+ * upstream may round, reorder or leave out points); a requested point without a
+ * matching entry is missing. Only a response whose entries carry no coordinates
+ * at all is matched by position, and only when it has one entry per point.
+ */
+function alignToCoordinates(
+  requested: Coordinate[],
+  returned: NonNullable<SSFRResponse['coordinates']>
+): Array<NonNullable<SSFRResponse['coordinates']>[number] | undefined> {
+  const located = returned.filter(item => Number.isFinite(item.lat) && Number.isFinite(item.lon));
+  if (located.length === 0) {
+    return requested.map((_, index) => (returned.length === requested.length ? returned[index] : undefined));
+  }
+  return requested.map(point => {
+    let match: (typeof located)[number] | undefined;
+    let matchOffset = Infinity;
+    for (const item of located) {
+      const offset = Math.max(Math.abs(item.lat! - point.lat), Math.abs(item.lon! - point.lon));
+      if (offset <= COORDINATE_MATCH_TOLERANCE && offset < matchOffset) {
+        match = item;
+        matchOffset = offset;
+      }
+    }
+    return match;
+  });
+}
+
+/**
+ * Error for a non-2xx upstream answer; 5xx and 429 are worth retrying
+ */
+function upstreamStatusError(status: number, detail: string): UpstreamError {
+  return new UpstreamError(`SSFR API error (${status}): ${detail}`, {
+    status,
+    retryable: status >= 500 || status === 429
+  });
+}
+
+/**
+ * Normalise an upstream response body
+ *
+ * The API answers with an array of coordinate objects (empty when there is no
+ * data, the value as `value`, `value_dominant` or `dominant_value`), or with an
+ * object already in the SSFRResponse shape.
+ *
+ * @throws Error for bodies that are not JSON objects or arrays
+ */
+function parseLayerResponse(text: string, layer: string, date: string): SSFRResponse {
+  let data: SSFRResponse;
+  try {
+    data = JSON.parse(text) as SSFRResponse;
+  } catch (parseError) {
+    throw new Error(`Failed to parse API response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+  }
+
+  // Validate response structure
+  if (!data || typeof data !== 'object') {
+    throw new Error('Invalid API response format: expected object or array');
+  }
+
+  // Handle direct array response (API returns array of coordinate objects)
+  if (Array.isArray(data)) {
+    // Empty array means no data for this location/layer
+    if (data.length === 0) {
+      return {
+        coordinates: [],
+        date,
+        layer
+      };
+    }
+    return {
+      coordinates: data.map((item: any) => ({
+        lat: item.lat,
+        lon: item.lon,
+        value: item.value !== undefined ? item.value : (item.value_dominant !== undefined ? item.value_dominant : item.dominant_value)
+      })),
+      date,
+      layer
+    };
+  }
+
+  // Handle object response (if API wraps in object)
+  return data;
+}
+
+/**
+ * Rings of the nearest-data search, closest first
+ */
+function nearestDataRings(center: Coordinate, radiusMeters: number): Array<{ distanceMeters: number; points: RingPoint[] }> {
+  const count = Math.max(1, Math.round(radiusMeters / NEAREST_DATA_SEARCH.ringSpacingMeters));
+  return Array.from({ length: count }, (_, index) => {
+    const distanceMeters = Math.round((radiusMeters * (index + 1)) / count);
+    return {
+      distanceMeters,
+      points: sampleRing(center, distanceMeters, Math.min(8 * (index + 1), NEAREST_DATA_SEARCH.maxPointsPerRing))
+    };
+  });
+}
+
+/**
+ * Check a nearest-data search radius
+ *
+ * @throws Error unless it is a positive number up to NEAREST_DATA_SEARCH.maxRadiusMeters
+ */
+function validateSearchRadius(radiusMeters: number): number {
+  if (!(radiusMeters > 0 && radiusMeters <= NEAREST_DATA_SEARCH.maxRadiusMeters)) {
+    throw new Error(`Invalid nearest-data search radius: ${radiusMeters} (expected 1-${NEAREST_DATA_SEARCH.maxRadiusMeters} m)`);
+  }
+  return radiusMeters;
+}
+
+/**
+ * Error message for coordinates outside Ethiopia, naming the nearest border
+ */
+function outsideEthiopiaMessage(lat: number, lon: number): string {
+  return `Coordinates (${lat}, ${lon}) are outside Ethiopia (${describeOutsideLocation(findNearestBorder(lat, lon))}). SSFR is only available for Ethiopian locations.`;
+}
+
+/**
+ * Summarise which layers were served stale, or undefined if none were
+ */
+function staleDataInfo(staleResults: Array<[string, SSFRResponse]>): StaleDataInfo | undefined {
+  if (staleResults.length === 0) return undefined;
+
+  const fetchedAt = staleResults
+    .map(([, result]) => result.fetchedAt)
+    .filter((value): value is string => value !== undefined)
+    .sort()[0];
+
+  return {
+    layers: Array.from(new Set(staleResults.map(([label]) => label))),
+    fetchedAt
+  };
+}
+
+/**
+ * Safely parse a numeric value from the API
+ */
+function parseNumericValue(value: any): number | undefined {
+  if (value === null || value === undefined) return undefined;
+  const parsed = parseFloat(value.toString());
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Check whether a layer result is an error
+ */
+function isLayerError(result: LayerResult): result is LayerError & { latencyMs?: number } {
+  return 'error' in result;
+}
+
+/**
+ * Numeric value of the first coordinate in a layer response, if any
+ */
+function firstValue(data: SSFRResponse): number | undefined {
+  return readLayerValue(data).value;
+}
+
+/**
+ * Read the first coordinate's value, telling an empty response from one that cannot be parsed
+ */
+function readLayerValue(data: SSFRResponse): { status: Exclude<LayerStatus, 'error'>; raw?: unknown; value?: number } {
+  const raw = data.coordinates && data.coordinates.length > 0 ? data.coordinates[0]?.value : undefined;
+  // 0 is a valid recommendation (no product needed), not an empty answer
+  if (raw === undefined || raw === null || raw === '') {
+    return { status: 'empty' };
+  }
+  const value = parseNumericValue(raw);
+  return value === undefined ? { status: 'unparseable', raw } : { status: 'ok', raw, value };
+}
+
+/**
+ * Summarise sampled layer values (undefined when there are none)
+ */
+function summarize(values: number[]): LayerStatistics | undefined {
+  if (values.length === 0) return undefined;
+
+  const counts = new Map<number, number>();
+  let dominant = values[0];
+  for (const value of values) {
+    const count = (counts.get(value) ?? 0) + 1;
+    counts.set(value, count);
+    if (count > (counts.get(dominant) ?? 0)) {
+      dominant = value;
+    }
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    min: Math.min(...values),
+    mean: round(values.reduce((sum, value) => sum + value, 0) / values.length),
+    max: Math.max(...values),
+    dominant,
+    samplesWithData: values.length
+  };
+}
+
+/**
+ * Store a layer value (or statistic) in the field named by the layer's registry output
+ */
+function setOutput<T>(
+  target: {
+    organic: { compost?: T; vermicompost?: T };
+    inorganic: { urea?: T; nps?: T };
+    expectedYield?: T;
+  },
+  output: LayerOutput,
+  value: T
+): void {
+  switch (output) {
+    case 'compost':
+      target.organic.compost = value;
+      break;
+    case 'vermicompost':
+      target.organic.vermicompost = value;
+      break;
+    case 'urea':
+      target.inorganic.urea = value;
+      break;
+    case 'nps':
+      target.inorganic.nps = value;
+      break;
+    case 'yield':
+      target.expectedYield = value;
+      break;
+  }
+}
@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+/**
+ * stdio MCP Server
+ *
+ * Serves the same tools, resources and prompts as /mcp over stdin/stdout, for
+ * desktop MCP clients that launch the server as a local process. Configured by
+ * the same environment variables as the HTTP server; logs go to stderr, as
+ * stdout carries the protocol.
+ *
+ * With MCP_SESSIONS_ENABLED=true the farm profile tools are registered too; the
+ * profile lasts as long as the process (one client connection).
+ *
+ * @module stdio
+ */
+
+import dotenv from 'dotenv';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { FarmProfile } from './sessions.js';
+import { createLogger } from './logger.js';
+import { configureLoggingFromEnv, loadServiceEnvironment } from './environment.js';
+import { createMcpServer, TOOL_NAMES, FARM_PROFILE_TOOL_NAMES } from './mcp-server.js';
+
+// Quiet: dotenv's own message would land on stdout
+dotenv.config({ quiet: true });
+configureLoggingFromEnv(true);
+const serverLog = createLogger('Server');
+
+const environment = loadServiceEnvironment();
+const profile: FarmProfile | undefined = process.env.MCP_SESSIONS_ENABLED === 'true' ? {} : undefined;
+const server = createMcpServer(environment, profile);
+const transport = new StdioServerTransport();
+
+let closing = false;
+
+/**
+ * Close the connection and persist the layer cache (no-op without SSFR_CACHE_FILE)
+ */
+async function shutdown(reason: string): Promise<void> {
+  if (closing) return;
+  closing = true;
+  serverLog.info(`${reason}: closing stdio server`);
+  try {
+    await server.close();
+    await environment.client.flushCache();
+  } catch (error) {
+    serverLog.error('Could not persist the layer cache on shutdown:', error);
+  }
+  process.exit(0);
+}
+
+process.stdin.on('end', () => shutdown('stdin closed'));
+process.on('SIGTERM', () => shutdown('SIGTERM signal received'));
+process.on('SIGINT', () => shutdown('SIGINT signal received'));
+
+await server.connect(transport);
+const tools = [...TOOL_NAMES, ...(profile ? FARM_PROFILE_TOOL_NAMES : [])];
+serverLog.info(`stdio server ready (${tools.length} tools)`, { transport: 'stdio', tools, sessions: profile !== undefined });
@@ -0,0 +1,575 @@
+/**
+ * Tool Output
+ *
+ * Response shapes shared by the MCP tools and the REST API: the formatting of
+ * recommendations and errors, the zod schemas of the structured content, and
+ * the machine-readable error codes.
+ *
+ * Only get_fertilizer_recommendation, get_batch_fertilizer_recommendations and
+ * find_location register an outputSchema and return their response as
+ * structuredContent; the other tools return it as JSON in the text block.
+ * Failed calls of every tool carry a `toolErrorSchema` object as
+ * structuredContent (error results are not validated against an outputSchema).
+ *
+ * @module tool-output
+ */
+
+import { z } from 'zod';
+import { LAYER_OUTPUTS, LayerOutput } from './layer-registry.js';
+import {
+  SUMMARY_LANGUAGES,
+  SummaryLanguage,
+  summarizeRecommendation,
+  summarizeOutsideEthiopia
+} from './localized-summary.js';
+import { SMS_SEGMENT_LIMITS, SmsMessage, renderSms } from './sms-format.js';
+import {
+  FertilizerRecommendation,
+  BatchRecommendationResult,
+  StaleDataInfo,
+  LayerStatistics,
+  NearestDataInfo,
+  RecommendationProvenance,
+  NoRecommendationDataError,
+  OutsideEthiopiaError
+} from './ssfr-client.js';
+import { NutrientBreakdown } from './nutrients.js';
+import { findNearestBorder, describeOutsideLocation } from './ethiopia-geo.js';
+import { PLACE_TYPES, PlaceMatch, PlaceResolution } from './gazetteer.js';
+import { COMPASS_DIRECTIONS } from './field-geometry.js';
+import { UpstreamError } from './resilience.js';
+
+/**
+ * Machine-readable error codes
+ * - MISSING_COORDINATES: no location in the arguments, headers or farm profile
+ * - MISSING_ARGUMENT: another required value (crop, farm size, planting date) is missing
+ * - INVALID_ARGUMENT: a value failed validation (REST API and CLI; MCP reports these as JSON-RPC errors)
+ * - LOCATION_NOT_SUPPORTED: the location is outside Ethiopia
+ * - PLACE_NOT_FOUND: no known place matches the `place` name
+ * - AMBIGUOUS_PLACE: the `place` name matches several places (the candidates are listed)
+ * - NO_DATA: the upstream has no data for this location
+ * - UPSTREAM_UNAVAILABLE: the upstream could not be reached (timeouts, 5xx, open circuit)
+ * - UNAUTHORIZED: missing or unknown API key (REST API; MCP gets a JSON-RPC error)
+ * - RATE_LIMITED: the API key's rate limit or daily quota is used up (REST API)
+ * - REQUEST_FAILED: any other failure (invalid values, unexpected errors)
+ */
+export const TOOL_ERROR_CODES = [
+  'MISSING_COORDINATES',
+  'MISSING_ARGUMENT',
+  'INVALID_ARGUMENT',
+  'LOCATION_NOT_SUPPORTED',
+  'PLACE_NOT_FOUND',
+  'AMBIGUOUS_PLACE',
+  'NO_DATA',
+  'UPSTREAM_UNAVAILABLE',
+  'UNAUTHORIZED',
+  'RATE_LIMITED',
+  'REQUEST_FAILED'
+] as const;
+export type ToolErrorCode = typeof TOOL_ERROR_CODES[number];
+
+/**
+ * Error codes worth retrying later without changing the request
+ */
+const RETRYABLE_ERROR_CODES: ToolErrorCode[] = ['UPSTREAM_UNAVAILABLE', 'RATE_LIMITED'];
+
+/**
+ * HTTP status of each error code (REST API)
+ */
+export const ERROR_HTTP_STATUS: Record<ToolErrorCode, number> = {
+  MISSING_COORDINATES: 400,
+  MISSING_ARGUMENT: 400,
+  INVALID_ARGUMENT: 400,
+  LOCATION_NOT_SUPPORTED: 422,
+  PLACE_NOT_FOUND: 404,
+  AMBIGUOUS_PLACE: 400,
+  NO_DATA: 404,
+  UPSTREAM_UNAVAILABLE: 503,
+  UNAUTHORIZED: 401,
+  RATE_LIMITED: 429,
+  REQUEST_FAILED: 400
+};
+
+const locationSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+  region: z.string().optional(),
+  zone: z.string().optional(),
+  woreda: z.string().optional()
+});
+
+const nutrientAmountsSchema = z.object({
+  n: z.number(),
+  p2o5: z.number(),
+  s: z.number()
+});
+
+const layerStatusSchema = z.enum(['ok', 'empty', 'error', 'unparseable']);
+
+const provenanceSchema = z.object({
+  completeness: z.number().min(0).max(1).describe('Share of the crop\'s layers with a usable value'),
+  partial: z.boolean(),
+  missing: z.array(z.enum(LAYER_OUTPUTS)),
+  layers: z.array(z.object({
+    key: z.string(),
+    layer_id: z.string(),
+    date: z.string(),
+    output: z.enum(LAYER_OUTPUTS),
+    status: layerStatusSchema,
+    error: z.string().optional(),
+    latency_ms: z.number().optional(),
+    stale: z.boolean().optional()
+  }))
+});
+
+const farmerSummarySchema = z.object({
+  language: z.enum(SUMMARY_LANGUAGES),
+  text: z.string()
+});
+
+const smsSchema = z.object({
+  encoding: z.enum(Object.keys(SMS_SEGMENT_LIMITS) as [keyof typeof SMS_SEGMENT_LIMITS]),
+  segment_limit: z.number().int(),
+  characters: z.number().int().describe('Length of the whole message before splitting'),
+  segments: z.array(z.string()).describe('Messages to send in order, numbered "(i/n)" when split')
+});
+
+const placeMatchSchema = z.object({
+  name: z.string(),
+  local_name: z.string().optional(),
+  type: z.enum(PLACE_TYPES),
+  region: z.string(),
+  zone: z.string().optional(),
+  woreda: z.string().optional(),
+  latitude: z.number(),
+  longitude: z.number(),
+  matched_name: z.string().describe('The spelling that matched (name, local name or alias)'),
+  confidence: z.number().min(0).max(1).describe('1 for an exact match after spelling normalization')
+});
+
+/**
+ * Structured content of find_location (outputSchema shape), also reported as
+ * `place` by the recommendation when its location came from a place name
+ */
+export const placeResolutionOutputShape = {
+  query: z.string(),
+  status: z.enum(['matched', 'ambiguous', 'not_found']),
+  match: placeMatchSchema.optional().describe('The place used, when status is "matched"'),
+  candidates: z.array(placeMatchSchema).describe('Best matches, strongest first')
+};
+const placeResolutionSchema = z.object(placeResolutionOutputShape);
+
+/**
+ * Structured content of a failed tool call
+ */
+export const toolErrorSchema = z.object({
+  error: z.object({
+    code: z.enum(TOOL_ERROR_CODES),
+    message: z.string(),
+    retryable: z.boolean()
+  }),
+  location: locationSchema.optional(),
+  nearest_border: z.object({
+    country: z.string().optional(),
+    distance_km: z.number()
+  }).optional(),
+  provenance: provenanceSchema.optional(),
+  place: placeResolutionSchema.optional(),
+  farmer_summary: farmerSummarySchema.optional()
+});
+export type ToolErrorContent = z.infer<typeof toolErrorSchema>;
+
+/**
+ * Structured content of get_fertilizer_recommendation (outputSchema shape)
+ */
+export const recommendationOutputShape = {
+  crop: z.string(),
+  location: locationSchema,
+  fertilizers: z.object({
+    organic: z.object({
+      compost: z.number().optional(),
+      vermicompost: z.number().optional()
+    }).describe('tons/ha'),
+    inorganic: z.object({
+      urea: z.number().optional(),
+      nps: z.number().optional()
+    }).describe('kg/ha')
+  }),
+  expected_yield: z.number().optional().describe('kg/ha'),
+  nutrients: z.object({
+    total: nutrientAmountsSchema.describe('Inorganic products only'),
+    by_product: z.array(z.object({
+      product: z.string(),
+      product_kg_per_ha: z.number(),
+      n: z.number(),
+      p2o5: z.number(),
+      s: z.number(),
+      share_percent: nutrientAmountsSchema
+    })),
+    organic_alternatives: z.array(z.object({
+      product: z.string(),
+      product_kg_per_ha: z.number(),
+      n: z.number(),
+      p2o5: z.number(),
+      s: z.number(),
+      total_with: nutrientAmountsSchema
+    })).describe('Compost and vermicompost are alternatives: apply one, not both')
+  }).optional().describe('kg/ha'),
+  stale_data: z.object({
+    layers: z.array(z.string()),
+    fetched_at: z.string(),
+    note: z.string()
+  }).optional(),
+  nearest_data: z.object({
+    latitude: z.number(),
+    longitude: z.number(),
+    distance_m: z.number(),
+    bearing_deg: z.number().describe('Degrees clockwise from north, from the requested location'),
+    direction: z.enum(COMPASS_DIRECTIONS),
+    radius_m: z.number(),
+    points_searched: z.number().int(),
+    note: z.string()
+  }).optional().describe('Set when the requested location has no data and the values come from the nearest point that has'),
+  provenance: provenanceSchema,
+  data_source: z.string(),
+  units: z.object({
+    organic: z.string(),
+    inorganic: z.string(),
+    yield: z.string(),
+    nutrients: z.string()
+  }),
+  place: placeResolutionSchema.optional().describe('The matched place, when the location was given as a place name'),
+  farmer_summary: farmerSummarySchema.optional(),
+  sms: smsSchema.optional().describe('Compact message, with format "sms"')
+};
+
+/**
+ * Structured content of get_batch_fertilizer_recommendations (outputSchema shape):
+ * counts plus one result per farm (recommendation fields when status is 'ok')
+ */
+export const batchOutputShape = {
+  summary: z.object({
+    total: z.number().int(),
+    succeeded: z.number().int(),
+    failed: z.number().int()
+  }),
+  results: z.array(z.object(recommendationOutputShape).omit({ place: true, farmer_summary: true, sms: true }).partial().extend({
+    id: z.string(),
+    status: z.enum(['ok', 'error']),
+    error: z.object({
+      code: z.enum(TOOL_ERROR_CODES),
+      message: z.string()
+    }).optional().describe('Why the farm could not be served, when status is "error"')
+  }))
+};
+export const batchOutputSchema = z.object(batchOutputShape);
+
+/**
+ * Build the structured content of a failed call
+ */
+export function toolError(
+  code: ToolErrorCode,
+  message: string,
+  details: Omit<ToolErrorContent, 'error'> = {}
+): ToolErrorContent {
+  return {
+    error: { code, message, retryable: RETRYABLE_ERROR_CODES.includes(code) },
+    ...details
+  };
+}
+
+/**
+ * Describe zod validation issues in one line, e.g. "lat: Number must be less than or equal to 90"
+ */
+export function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+/**
+ * Error code for an exception thrown while serving a tool call
+ *
+ * A no-data error where every layer failed is reported as UPSTREAM_UNAVAILABLE,
+ * since the location may well have data once the upstream is back.
+ */
+export function errorCodeFor(error: unknown): ToolErrorCode {
+  if (error instanceof NoRecommendationDataError) {
+    const layers = error.provenance?.layers ?? [];
+    return layers.length > 0 && layers.every(layer => layer.status === 'error') ? 'UPSTREAM_UNAVAILABLE' : 'NO_DATA';
+  }
+  if (error instanceof UpstreamError && (error.retryable || error.circuitOpen)) {
+    return 'UPSTREAM_UNAVAILABLE';
+  }
+  if (error instanceof OutsideEthiopiaError) {
+    return 'LOCATION_NOT_SUPPORTED';
+  }
+  return 'REQUEST_FAILED';
+}
+
+/**
+ * Structured content of a failed call for an exception, including the
+ * per-layer provenance of no-data errors
+ */
+export function errorContentFor(error: any): ToolErrorContent {
+  return toolError(errorCodeFor(error), error?.message || 'Try again in a moment?', {
+    provenance: error instanceof NoRecommendationDataError && error.provenance ? formatProvenance(error.provenance) : undefined
+  });
+}
+
+/**
+ * Structured content for a location outside Ethiopia: its distance to the border and the country it is in
+ */
+export function outsideEthiopiaError(lat: number, lon: number, language?: SummaryLanguage): ToolErrorContent {
+  const nearestBorder = findNearestBorder(lat, lon);
+  return toolError(
+    'LOCATION_NOT_SUPPORTED',
+    `Site-Specific Fertilizer Recommendations are only available for locations in Ethiopia. Your coordinates are outside the supported region, ${describeOutsideLocation(nearestBorder)}.`,
+    {
+      location: {
+        latitude: lat,
+        longitude: lon
+      },
+      nearest_border: {
+        country: nearestBorder.country,
+        distance_km: nearestBorder.distanceKm
+      },
+      farmer_summary: formatFarmerSummary(language, lang => summarizeOutsideEthiopia(lat, lon, nearestBorder, lang))
+    }
+  );
+}
+
+/**
+ * Structured content for a place name that did not resolve to a single place,
+ * listing the candidates
+ */
+export function unresolvedPlaceError(resolution: PlaceResolution): ToolErrorContent {
+  if (resolution.status === 'not_found') {
+    return toolError(
+      'PLACE_NOT_FOUND',
+      `No known place matches "${resolution.query}". Try the nearest town or woreda, or give latitude and longitude.`,
+      { place: formatPlaceResolution(resolution) }
+    );
+  }
+  const candidates = resolution.candidates.map(describePlaceMatch).join('; ');
+  return toolError(
+    'AMBIGUOUS_PLACE',
+    `"${resolution.query}" could be several places: ${candidates}. Give a more specific name, add the region or zone after a comma (e.g. "North Shewa, Oromia"), or give latitude and longitude.`,
+    { place: formatPlaceResolution(resolution) }
+  );
+}
+
+/**
+ * Recommendation response, with the farmer summary when a language is given
+ * and the compact message when `sms` is given
+ *
+ * @param outputs - Outputs the crop has layers for (only these are reported as missing)
+ * @param sms - SMS options; the message uses the summary language, or English
+ * @param place - How a place name was resolved, when the location came from one
+ */
+export function recommendationResponse(
+  recommendation: FertilizerRecommendation,
+  language: SummaryLanguage | undefined,
+  outputs: readonly LayerOutput[],
+  sms?: { maxChars?: number },
+  place?: PlaceResolution
+) {
+  return {
+    ...formatRecommendation(recommendation),
+    place: place ? formatPlaceResolution(place) : undefined,
+    farmer_summary: formatFarmerSummary(language, lang => summarizeRecommendation(recommendation, lang, outputs)),
+    sms: sms ? formatSms(renderSms(recommendation, { language, outputs, maxChars: sms.maxChars })) : undefined
+  };
+}
+
+/**
+ * Batch response: counts plus one result per farm
+ */
+export function batchResponse(results: BatchRecommendationResult[]) {
+  const succeeded = results.filter(result => result.recommendation).length;
+  return {
+    summary: {
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded
+    },
+    results: results.map(result => result.recommendation
+      ? { id: result.id, status: 'ok' as const, ...formatRecommendation(result.recommendation) }
+      : { id: result.id, status: 'error' as const, error: result.error })
+  };
+}
+
+/**
+ * Format a recommendation into the tool response shape
+ */
+export function formatRecommendation(recommendation: FertilizerRecommendation) {
+  return {
+    crop: recommendation.crop,
+    location: recommendation.location,
+    fertilizers: {
+      organic: recommendation.organic,
+      inorganic: recommendation.inorganic
+    },
+    expected_yield: recommendation.expectedYield,
+    nutrients: formatNutrients(recommendation.nutrients),
+    stale_data: formatStaleData(recommendation.staleData),
+    nearest_data: formatNearestData(recommendation.nearestData),
+    provenance: formatProvenance(recommendation.provenance),
+    data_source: recommendation.dataSource,
+    units: {
+      organic: 'tons/ha',
+      inorganic: 'kg/ha',
+      yield: 'kg/ha',
+      nutrients: 'kg/ha'
+    }
+  };
+}
+
+/**
+ * Format the per-layer provenance and completeness score
+ */
+export function formatProvenance(provenance: RecommendationProvenance) {
+  const missing = provenance.layers.filter(layer => layer.status !== 'ok');
+  return {
+    completeness: provenance.completeness,
+    partial: missing.length > 0,
+    missing: missing.map(layer => layer.output),
+    layers: provenance.layers.map(layer => ({
+      key: layer.key,
+      layer_id: layer.layer,
+      date: layer.date,
+      output: layer.output,
+      status: layer.status,
+      error: layer.error,
+      latency_ms: layer.latencyMs,
+      stale: layer.stale
+    }))
+  };
+}
+
+/**
+ * Format the nutrient breakdown (undefined, and so omitted, without product data)
+ */
+function formatNutrients(nutrients: NutrientBreakdown | undefined) {
+  if (!nutrients) return undefined;
+  return {
+    total: nutrients.totals,
+    by_product: nutrients.products.map(product => ({
+      product: product.product,
+      product_kg_per_ha: product.amountKgPerHa,
+      n: product.nutrients.n,
+      p2o5: product.nutrients.p2o5,
+      s: product.nutrients.s,
+      share_percent: product.sharePercent
+    })),
+    organic_alternatives: nutrients.organicAlternatives.map(alternative => ({
+      product: alternative.product,
+      product_kg_per_ha: alternative.amountKgPerHa,
+      n: alternative.nutrients.n,
+      p2o5: alternative.nutrients.p2o5,
+      s: alternative.nutrients.s,
+      total_with: alternative.totalsWith
+    }))
+  };
+}
+
+/**
+ * Localized farmer summary (undefined, and so omitted, when no language was requested)
+ */
+export function formatFarmerSummary(language: SummaryLanguage | undefined, summarize: (language: SummaryLanguage) => string) {
+  if (!language) return undefined;
+  return {
+    language,
+    text: summarize(language)
+  };
+}
+
+/**
+ * Format where nearest-data values come from (undefined, and so omitted, for the requested point's own data)
+ */
+export function formatNearestData(nearestData: NearestDataInfo | undefined) {
+  if (!nearestData) return undefined;
+  return {
+    latitude: nearestData.latitude,
+    longitude: nearestData.longitude,
+    distance_m: nearestData.distanceMeters,
+    bearing_deg: nearestData.bearingDegrees,
+    direction: nearestData.direction,
+    radius_m: nearestData.radiusMeters,
+    points_searched: nearestData.pointsSearched,
+    note: `The requested location has no data. These values are for the nearest land with data, ${nearestData.distanceMeters} m ${nearestData.direction} of it.`
+  };
+}
+
+/**
+ * Format how a place name was resolved
+ */
+export function formatPlaceResolution(resolution: PlaceResolution) {
+  return {
+    query: resolution.query,
+    status: resolution.status,
+    match: resolution.match ? formatPlaceMatch(resolution.match) : undefined,
+    candidates: resolution.candidates.map(formatPlaceMatch)
+  };
+}
+
+function formatPlaceMatch(match: PlaceMatch) {
+  return {
+    name: match.place.name,
+    local_name: match.place.localName,
+    type: match.place.type,
+    region: match.place.region,
+    zone: match.place.zone,
+    woreda: match.place.woreda,
+    latitude: match.place.lat,
+    longitude: match.place.lon,
+    matched_name: match.matchedName,
+    confidence: match.confidence
+  };
+}
+
+/**
+ * One-line description of a candidate place, e.g. "North Shewa (zone, Amhara)"
+ */
+export function describePlaceMatch(match: PlaceMatch): string {
+  const { name, type, zone, region } = match.place;
+  return `${name} (${[type, zone !== name ? zone : undefined, region].filter(Boolean).join(', ')})`;
+}
+
+/**
+ * Format a compact SMS / USSD message
+ */
+export function formatSms(message: SmsMessage) {
+  return {
+    encoding: message.encoding,
+    segment_limit: message.segmentLimit,
+    characters: message.characters,
+    segments: message.segments
+  };
+}
+
+/**
+ * Format the statistics of one layer across a field's sample points (undefined when no point had data)
+ */
+export function formatLayerStatistics(statistics: LayerStatistics | undefined) {
+  if (!statistics) return undefined;
+  return {
+    min: statistics.min,
+    mean: statistics.mean,
+    max: statistics.max,
+    dominant: statistics.dominant,
+    samples_with_data: statistics.samplesWithData
+  };
+}
+
+/**
+ * Format the stale-data marker (undefined, and so omitted, when all data is fresh)
+ */
+export function formatStaleData(staleData: StaleDataInfo | undefined) {
+  if (!staleData) return undefined;
+  return {
+    layers: staleData.layers,
+    fetched_at: staleData.fetchedAt,
+    note: 'The fertilizer data service is currently unavailable. These values are the last known values for this location and may be out of date.'
+  };
+}
@@ -0,0 +1,145 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import { ApiKeyStore, hashApiKey, loadApiKeys, requireApiKey } from '../src/api-keys.js';
+import { toolCallCost } from '../src/mcp-server.js';
+import { createRestRouter } from '../src/rest-api.js';
+import { DEFAULT_LAYER_REGISTRY } from '../src/layer-registry.js';
+import { loadGazetteer } from '../src/gazetteer.js';
+import { startStubUpstream, testClient } from './helpers.js';
+
+// A fixed time after the stores are created, so their buckets start full
+const NOON = Date.parse('2030-06-20T12:00:00Z');
+
+function store(rateLimitPerMinute: number, dailyQuota: number): ApiKeyStore {
+  return new ApiKeyStore({ keys: [{ name: 'app', sha256: hashApiKey('secret') }], rateLimitPerMinute, dailyQuota });
+}
+
+test('allows bursts up to the limit, then refills the bucket over the minute', () => {
+  const keys = store(3, 100);
+  for (let i = 0; i < 3; i++) {
+    assert.equal(keys.consume('app', 1, NOON).allowed, true);
+  }
+  const refused = keys.consume('app', 1, NOON);
+  assert.equal(refused.allowed, false);
+  assert.deepEqual(refused.allowed ? undefined : [refused.reason, refused.retryAfterSeconds], ['rate_limited', 20]);
+
+  // One token every 20 s
+  assert.equal(keys.consume('app', 1, NOON + 20_000).allowed, true);
+  assert.equal(keys.consume('app', 1, NOON + 20_000).allowed, false);
+});
+
+test('charges weighted requests, letting a batch larger than the bucket through once', () => {
+  const keys = store(10, 1000);
+  const batch = keys.consume('app', 25, NOON);
+  assert.equal(batch.allowed, true);
+  assert.equal(batch.usage.usedToday, 25);
+
+  // The bucket is 15 tokens in debt: the next unit needs 16 tokens of refill (96 s)
+  const next = keys.consume('app', 1, NOON + 60_000);
+  assert.equal(next.allowed, false);
+  assert.equal(next.allowed ? undefined : next.retryAfterSeconds, 36);
+  assert.equal(keys.consume('app', 1, NOON + 96_000).allowed, true);
+});
+
+test('refuses requests that would exceed the daily quota until midnight UTC', () => {
+  const keys = store(1000, 10);
+  assert.equal(keys.consume('app', 8, NOON).allowed, true);
+  const over = keys.consume('app', 3, NOON);
+  assert.equal(over.allowed, false);
+  assert.deepEqual(over.allowed ? undefined : [over.reason, over.retryAfterSeconds], ['quota_exceeded', 12 * 3600]);
+  assert.equal(keys.consume('app', 2, NOON).allowed, true);
+  assert.equal(keys.consume('app', 10, Date.parse('2030-06-21T00:00:01Z')).allowed, true);
+  assert.deepEqual(keys.getStats(), { enabled: true, keys: 1, requests: 3, unauthorized: 0, rateLimited: 0, quotaExceeded: 1 });
+});
+
+test('loads name:hash pairs and rejects duplicates', () => {
+  const hash = hashApiKey('secret');
+  assert.deepEqual(loadApiKeys(`app:${hash}`), [{ name: 'app', sha256: hash }]);
+  assert.throws(() => store(0, 1), /greater than zero/);
+  assert.throws(
+    () => new ApiKeyStore({ keys: [{ name: 'a', sha256: hash }, { name: 'b', sha256: hash }] }),
+    /configured twice/
+  );
+});
+
+test('charges MCP tool calls only, and batch calls per farm', () => {
+  const call = (name: string, args: Record<string, unknown> = {}) =>
+    ({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } });
+  const farms = Array.from({ length: 40 }, (_, index) => ({ id: `${index}` }));
+
+  assert.equal(toolCallCost({ jsonrpc: '2.0', id: 0, method: 'initialize', params: {} }), 0);
+  assert.equal(toolCallCost({ jsonrpc: '2.0', method: 'notifications/initialized' }), 0);
+  assert.equal(toolCallCost({ jsonrpc: '2.0', id: 1, method: 'tools/list' }), 0);
+  assert.equal(toolCallCost(call('get_fertilizer_recommendation')), 1);
+  assert.equal(toolCallCost(call('get_batch_fertilizer_recommendations', { farms })), 40);
+  assert.equal(toolCallCost([call('find_location'), call('list_supported_crops'), { jsonrpc: '2.0', method: 'ping', id: 2 }]), 2);
+  assert.equal(toolCallCost(undefined), 0);
+});
+
+test('the middleware authenticates every request but charges only what the cost says', async t => {
+  const keys = store(60, 5);
+  const app = express();
+  app.use(express.json());
+  app.use('/mcp', requireApiKey(keys, (res, rejection) => res.status(rejection.status).end(), req => toolCallCost(req.body)));
+  app.post('/mcp', (req, res) => res.status(200).end());
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  t.after(() => new Promise(resolve => server.close(resolve)));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+  const post = (body: unknown, key = 'secret') => fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', authorization: `Bearer ${key}` },
+    body: JSON.stringify(body)
+  });
+
+  assert.equal((await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, 'wrong')).status, 401);
+  for (let i = 0; i < 10; i++) {
+    assert.equal((await post({ jsonrpc: '2.0', id: i, method: 'tools/list' })).status, 200);
+  }
+  const call = await post({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'get_fertilizer_recommendation', arguments: {} } });
+  assert.equal(call.status, 200);
+  assert.equal(call.headers.get('x-quota-remaining'), '4');
+});
+
+test('the REST API charges valid requests only: batches per farm, and reading the usage nothing', async t => {
+  const upstream = await startStubUpstream();
+  t.after(() => upstream.close());
+  const keys = store(60, 5);
+  const app = express();
+  app.use(express.json());
+  app.use(createRestRouter({
+    client: testClient(upstream.baseUrl),
+    registry: DEFAULT_LAYER_REGISTRY,
+    gazetteer: loadGazetteer(),
+    maxBatchFarms: 10,
+    apiKeys: keys
+  }));
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  t.after(() => new Promise(resolve => server.close(resolve)));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const headers = { 'content-type': 'application/json', 'x-api-key': 'secret' };
+  const batch = (count: number) => fetch(`${baseUrl}/api/v1/recommendations/batch`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ farms: Array.from({ length: count }, (_, index) => ({ id: `${index}`, crop: 'wheat', latitude: 9.03, longitude: 38.74 })) })
+  });
+
+  // Invalid requests and the OpenAPI document are free
+  assert.equal((await fetch(`${baseUrl}/api/v1/recommendation?crop=wheat&lat=95&lon=38`, { headers })).status, 400);
+  assert.equal((await fetch(`${baseUrl}/api/v1/recommendation?lat=9.03&lon=38.74`, { headers })).status, 400);
+  assert.equal((await fetch(`${baseUrl}/openapi.json`, { headers })).status, 200);
+  assert.equal((await fetch(`${baseUrl}/api/v1/usage`, { headers })).headers.get('x-quota-remaining'), '5');
+
+  assert.equal((await fetch(`${baseUrl}/api/v1/recommendation?crop=wheat&lat=9.03&lon=38.74`, { headers })).status, 200);
+  assert.equal((await batch(3)).status, 200);
+  const usage: any = await (await fetch(`${baseUrl}/api/v1/usage`, { headers })).json();
+  assert.equal(usage.used_today, 4);
+  assert.equal(usage.remaining_today, 1);
+
+  const refused = await batch(2);
+  assert.equal(refused.status, 429);
+  assert.equal(((await refused.json()) as any).error.code, 'RATE_LIMITED');
+});
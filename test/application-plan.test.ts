@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildApplicationPlan, parsePlantingDate, validateSchedule } from '../src/application-plan.js';
+import { DEFAULT_LAYER_REGISTRY } from '../src/layer-registry.js';
+import { sampleRecommendation } from './helpers.js';
+
+const WHEAT_SCHEDULE = DEFAULT_LAYER_REGISTRY.crops.wheat.schedule!;
+
+test('splits wheat urea over planting and tillering, with dates from the planting date', () => {
+  const plan = buildApplicationPlan(sampleRecommendation(), '2025-06-20', WHEAT_SCHEDULE);
+
+  assert.deepEqual(plan.applications.map(application => [application.stage, application.date]), [
+    ['land_preparation', '2025-06-06'],
+    ['basal', '2025-06-20'],
+    ['tillering', '2025-07-20']
+  ]);
+  const basal = plan.applications[1].products;
+  assert.deepEqual(basal.find(product => product.product === 'urea'), { product: 'urea', amount: 40, unit: 'kg/ha', sharePercent: 33.3 });
+  assert.equal(basal.find(product => product.product === 'nps')?.amount, 100);
+  assert.equal(plan.applications[2].products[0].amount, 80);
+});
+
+test('plans compost and vermicompost as alternatives, apart from the other products', () => {
+  const plan = buildApplicationPlan(sampleRecommendation(), '2025-06-20', WHEAT_SCHEDULE);
+  const landPreparation = plan.applications[0];
+
+  assert.deepEqual(landPreparation.products, []);
+  assert.deepEqual(landPreparation.organicAlternatives, [
+    { product: 'compost', amount: 2.5, unit: 'tons/ha', sharePercent: 100 },
+    { product: 'vermicompost', amount: 1.5, unit: 'tons/ha', sharePercent: 100 }
+  ]);
+  assert.deepEqual(plan.applications[1].organicAlternatives, []);
+});
+
+test('leaves out stages whose products are not in the recommendation', () => {
+  const plan = buildApplicationPlan(sampleRecommendation({ organic: {} }), '2025-06-20', WHEAT_SCHEDULE);
+  assert.deepEqual(plan.applications.map(application => application.stage), ['basal', 'tillering']);
+});
+
+test('rejects malformed and impossible planting dates', () => {
+  assert.equal(parsePlantingDate('2024-02-29').toISOString(), '2024-02-29T00:00:00.000Z');
+  for (const date of ['2025-02-29', '2025-13-01', '20-06-2025', '2025-6-1']) {
+    assert.throws(() => parsePlantingDate(date), /Invalid planting date/, date);
+  }
+});
+
+test('rejects schedules whose shares do not add up to the whole product', () => {
+  assert.doesNotThrow(() => validateSchedule('wheat', WHEAT_SCHEDULE));
+  assert.throws(
+    () => validateSchedule('teff', [
+      { stage: 'basal', label: 'Basal', daysAfterPlanting: 0, shares: { urea: 0.5 }, guidance: '' },
+      { stage: 'top', label: 'Top', daysAfterPlanting: 30, shares: { urea: 0.3 }, guidance: '' }
+    ]),
+    /teff: urea shares add up to 0.8/
+  );
+});
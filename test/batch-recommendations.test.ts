@@ -0,0 +1,183 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_COORDINATES_PER_REQUEST } from '../src/ssfr-client.js';
+import { startStubUpstream, testClient, valuesFor, testEnvironment, connectMcpClient } from './helpers.js';
+
+const ADDIS = { lat: 9.03, lon: 38.74 };
+const BAHIR_DAR = { lat: 11.6, lon: 37.39 };
+const HAWASSA = { lat: 7.05, lon: 38.47 };
+
+test('serves every farm with one request per layer, in input order', async t => {
+  const upstream = await startStubUpstream();
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl);
+
+  const results = await client.getBatchFertilizerRecommendations([
+    { id: 'a', crop: 'wheat', ...ADDIS },
+    { id: 'b', crop: 'wheat', ...BAHIR_DAR },
+    { id: 'c', crop: 'wheat', ...HAWASSA }
+  ]);
+
+  assert.deepEqual(results.map(result => result.id), ['a', 'b', 'c']);
+  for (const result of results) {
+    assert.equal(result.error, undefined);
+    assert.equal(result.recommendation?.inorganic.urea, 120);
+    assert.equal(result.recommendation?.expectedYield, 3200);
+  }
+  assert.equal(upstream.requests.length, 5);
+  assert.ok(upstream.requests.every(request => request.coordinates.length === 3));
+});
+
+test('aligns reordered and partial responses to the requested farms by coordinate', async t => {
+  // Returns the points reversed, and drops Bahir Dar for every layer
+  const upstream = await startStubUpstream(request => {
+    const { body } = valuesFor(request);
+    const points = (body as Array<{ lat: number }>).filter(point => point.lat !== BAHIR_DAR.lat);
+    return { body: points.reverse() };
+  });
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl);
+
+  const results = await client.getBatchFertilizerRecommendations([
+    { id: 'addis', crop: 'wheat', ...ADDIS },
+    { id: 'bahir-dar', crop: 'wheat', ...BAHIR_DAR },
+    { id: 'hawassa', crop: 'wheat', ...HAWASSA }
+  ]);
+
+  assert.equal(results[0].recommendation?.location.latitude, ADDIS.lat);
+  assert.equal(results[0].recommendation?.inorganic.nps, 100);
+  assert.equal(results[2].recommendation?.location.latitude, HAWASSA.lat);
+  assert.equal(results[2].recommendation?.inorganic.nps, 100);
+  assert.equal(results[1].recommendation, undefined);
+  assert.equal(results[1].error?.code, 'NO_DATA');
+  assert.match(results[1].error?.message ?? '', /No fertilizer recommendation data/);
+});
+
+test('matches a reordered response of full length by coordinate, not by position', async t => {
+  // Urea differs per farm, so a farm given its neighbour's entry would show it
+  const upstream = await startStubUpstream(request => ({
+    body: request.coordinates.map(({ lat, lon }) => ({ lat, lon, value: Math.round(lat * 10) })).reverse()
+  }));
+  t.after(() => upstream.close());
+
+  const results = await testClient(upstream.baseUrl).getBatchFertilizerRecommendations([
+    { id: 'addis', crop: 'wheat', ...ADDIS },
+    { id: 'bahir-dar', crop: 'wheat', ...BAHIR_DAR },
+    { id: 'hawassa', crop: 'wheat', ...HAWASSA }
+  ]);
+
+  assert.deepEqual(results.map(result => result.recommendation?.inorganic.urea), [90, 116, 71]);
+});
+
+test('matches rounded coordinates within a tolerance, and position only without coordinates', async t => {
+  const echoed = new Map([[ADDIS.lat, { lat: 9.0300004, lon: 38.7399996 }], [HAWASSA.lat, { lat: 7.05, lon: 38.470002 }]]);
+  const rounded = await startStubUpstream(request => ({
+    body: request.coordinates.map(({ lat, lon }) => ({ ...(echoed.get(lat) ?? { lat, lon }), value: Math.round(lat * 10) })).reverse()
+  }));
+  t.after(() => rounded.close());
+
+  const results = await testClient(rounded.baseUrl).getBatchFertilizerRecommendations([
+    { id: 'addis', crop: 'wheat', ...ADDIS },
+    { id: 'hawassa', crop: 'wheat', ...HAWASSA }
+  ]);
+  // Hawassa's longitude is 2e-6° off: too far to be the same point, so it is reported missing
+  assert.equal(results[0].recommendation?.inorganic.urea, 90);
+  assert.equal(results[1].recommendation, undefined);
+
+  const bare = await startStubUpstream(request => ({
+    body: request.coordinates.length === 2 ? request.coordinates.map(({ lat }) => ({ value: Math.round(lat * 10) })) : [{ value: 1 }]
+  }));
+  t.after(() => bare.close());
+  const client = testClient(bare.baseUrl);
+  const byPosition = await client.getBatchFertilizerRecommendations([
+    { id: 'addis', crop: 'wheat', ...ADDIS },
+    { id: 'hawassa', crop: 'wheat', ...HAWASSA }
+  ]);
+  assert.deepEqual(byPosition.map(result => result.recommendation?.inorganic.urea), [90, 71]);
+  const short = await client.getBatchFertilizerRecommendations([
+    { id: 'addis', crop: 'maize', ...ADDIS },
+    { id: 'bahir-dar', crop: 'maize', ...BAHIR_DAR },
+    { id: 'hawassa', crop: 'maize', ...HAWASSA }
+  ]);
+  assert.ok(short.every(result => result.recommendation === undefined));
+});
+
+test('reports unsupported crops and points outside Ethiopia per farm without fetching them', async t => {
+  const upstream = await startStubUpstream();
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl);
+
+  const results = await client.getBatchFertilizerRecommendations([
+    { id: 'ok', crop: 'wheat', ...ADDIS },
+    { id: 'rice', crop: 'rice', ...ADDIS },
+    { id: 'nairobi', crop: 'wheat', lat: -1.29, lon: 36.82 }
+  ]);
+
+  assert.ok(results[0].recommendation);
+  assert.equal(results[1].error?.code, 'INVALID_ARGUMENT');
+  assert.match(results[1].error?.message ?? '', /Unsupported crop "rice"/);
+  assert.equal(results[2].error?.code, 'LOCATION_NOT_SUPPORTED');
+  assert.match(results[2].error?.message ?? '', /outside Ethiopia \(in Kenya/);
+  assert.ok(upstream.requests.every(request => request.coordinates.length === 1));
+});
+
+test('the batch tool returns structured content with an error code per failed farm', async t => {
+  const upstream = await startStubUpstream();
+  t.after(() => upstream.close());
+  const mcp = await connectMcpClient(testEnvironment(testClient(upstream.baseUrl)));
+  t.after(() => mcp.close());
+
+  const result = await mcp.callTool({
+    name: 'get_batch_fertilizer_recommendations',
+    arguments: {
+      farms: [
+        { id: 'addis', crop: 'wheat', latitude: ADDIS.lat, longitude: ADDIS.lon },
+        { id: 'nairobi', crop: 'wheat', latitude: -1.29, longitude: 36.82 }
+      ]
+    }
+  });
+  const content = result.structuredContent as {
+    summary: { failed: number };
+    results: Array<{ id: string; status: string; error?: { code: string; message: string } }>;
+  };
+
+  assert.equal(result.isError, undefined);
+  assert.equal(content.summary.failed, 1);
+  assert.equal(content.results[0].status, 'ok');
+  assert.deepEqual(Object.keys(content.results[1].error ?? {}), ['code', 'message']);
+  assert.equal(content.results[1].error?.code, 'LOCATION_NOT_SUPPORTED');
+});
+
+test('splits large batches into chunks of MAX_COORDINATES_PER_REQUEST', async t => {
+  const upstream = await startStubUpstream();
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl);
+
+  const farms = Array.from({ length: MAX_COORDINATES_PER_REQUEST + 10 }, (_, index) => ({
+    id: String(index),
+    crop: 'maize',
+    lat: 9 + index * 0.001,
+    lon: 38.7
+  }));
+  const results = await client.getBatchFertilizerRecommendations(farms);
+
+  assert.ok(results.every(result => result.recommendation));
+  const sizes = upstream.requests.map(request => request.coordinates.length).sort((a, b) => a - b);
+  assert.deepEqual(sizes, [10, 10, 10, 10, 10, 50, 50, 50, 50, 50]);
+});
+
+test('a failed layer request fails that layer for its farms, not the batch', async t => {
+  const upstream = await startStubUpstream(request =>
+    request.layer.includes('urea') ? { status: 404, text: 'layer not found' } : valuesFor(request)
+  );
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl);
+
+  const [result] = await client.getBatchFertilizerRecommendations([{ id: 'a', crop: 'wheat', ...ADDIS }]);
+
+  assert.equal(result.recommendation?.inorganic.urea, undefined);
+  assert.equal(result.recommendation?.inorganic.nps, 100);
+  const urea = result.recommendation?.provenance.layers.find(layer => layer.key === 'urea');
+  assert.equal(urea?.status, 'error');
+  assert.match(urea?.error ?? '', /SSFR API error \(404\)/);
+});
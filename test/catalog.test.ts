@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RESOURCE_URIS, PROMPT_NAMES, layerCatalog } from '../src/catalog.js';
+import { DEFAULT_LAYER_REGISTRY } from '../src/layer-registry.js';
+import { testClient, testEnvironment, connectMcpClient } from './helpers.js';
+
+test('lists every catalog resource and prompt', async t => {
+  const mcp = await connectMcpClient(testEnvironment(testClient('http://127.0.0.1:9')));
+  t.after(() => mcp.close());
+
+  const { resources } = await mcp.listResources();
+  assert.deepEqual(resources.map(resource => resource.uri).sort(), Object.values(RESOURCE_URIS).sort());
+  const { prompts } = await mcp.listPrompts();
+  assert.deepEqual(prompts.map(prompt => prompt.name).sort(), [...PROMPT_NAMES].sort());
+});
+
+test('serves the layer catalog and coverage area as JSON', async t => {
+  const mcp = await connectMcpClient(testEnvironment(testClient('http://127.0.0.1:9')));
+  t.after(() => mcp.close());
+
+  const layers = await mcp.readResource({ uri: RESOURCE_URIS.layers });
+  const catalog = JSON.parse(layers.contents[0].text as string);
+  assert.deepEqual(catalog, JSON.parse(JSON.stringify(layerCatalog(DEFAULT_LAYER_REGISTRY))));
+  const wheatUrea = catalog.crops[0].layers.find((layer: { output: string }) => layer.output === 'urea');
+  assert.equal(wheatUrea.unit, 'kg/ha');
+
+  const coverage = JSON.parse((await mcp.readResource({ uri: RESOURCE_URIS.coverage })).contents[0].text as string);
+  assert.equal(coverage.boundary.geometry.type, 'Polygon');
+  assert.ok(coverage.neighbouring_countries.includes('Kenya'));
+  assert.ok(coverage.regions.includes('Amhara'));
+
+  const methodology = await mcp.readResource({ uri: RESOURCE_URIS.methodology });
+  assert.equal(methodology.contents[0].mimeType, 'text/markdown');
+  assert.match(methodology.contents[0].text as string, /urea: 46% N/);
+});
+
+test('fills the prompt templates with their arguments', async t => {
+  const mcp = await connectMcpClient(testEnvironment(testClient('http://127.0.0.1:9')));
+  t.after(() => mcp.close());
+
+  const advice = await mcp.getPrompt({
+    name: 'advise_smallholder',
+    arguments: { crop: 'maize', latitude: '7.05', longitude: '38.47', language: 'om' }
+  });
+  const text = (advice.messages[0].content as { text: string }).text;
+  assert.match(text, /crop "maize", latitude 7\.05 and longitude 38\.47 and language "om"/);
+  assert.match(text, /Ask the farmer for their farm size/);
+
+  const plan = await mcp.getPrompt({
+    name: 'plan_fertilizer_season',
+    arguments: { crop: 'wheat', latitude: '11.6', longitude: '37.39', planting_date: '2025-06-20', farm_size: '2 timad' }
+  });
+  assert.match((plan.messages[0].content as { text: string }).text, /planting_date "2025-06-20"/);
+
+  await assert.rejects(mcp.getPrompt({ name: 'advise_field', arguments: { crop: 'barley', field: '{}' } }));
+});
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NoRecommendationDataError } from '../src/ssfr-client.js';
+import { startStubUpstream, testClient, valuesFor } from './helpers.js';
+
+test('reports each layer per date with the change from the oldest date with data', async t => {
+  // Urea rises from 100 to 125 kg/ha between releases; 2023-07 has no data
+  const upstream = await startStubUpstream(request => {
+    if (!request.layer.includes('urea')) return valuesFor(request);
+    const value = { '2023-07': undefined, '2024-01': 100, '2024-07': 125 }[request.date];
+    return { body: value === undefined ? [] : request.coordinates.map(({ lat, lon }) => ({ lat, lon, value })) };
+  });
+  t.after(() => upstream.close());
+
+  const comparison = await testClient(upstream.baseUrl).compareLayerDates('wheat', 9.03, 38.74, ['2024-07', '2023-07', '2024-01', '2024-07']);
+
+  assert.deepEqual(comparison.dates, ['2023-07', '2024-01', '2024-07']);
+  const urea = comparison.layers.find(layer => layer.output === 'urea')!;
+  assert.equal(urea.baselineDate, '2024-01');
+  assert.deepEqual(urea.values, [
+    { date: '2023-07', status: 'no_data' },
+    { date: '2024-01', status: 'ok', value: 100, stale: undefined },
+    { date: '2024-07', status: 'ok', value: 125, stale: undefined, change: { absolute: 25, percent: 25 } }
+  ]);
+  assert.deepEqual(comparison.datesWithoutData, []);
+});
+
+test('reports failed requests per date instead of failing the comparison', async t => {
+  const upstream = await startStubUpstream(request =>
+    request.date === '2024-01' ? { status: 500, text: 'boom' } : valuesFor(request)
+  );
+  t.after(() => upstream.close());
+
+  const comparison = await testClient(upstream.baseUrl).compareLayerDates('maize', 7.05, 38.47, ['2024-01', '2024-07']);
+  assert.deepEqual(comparison.datesWithoutData, ['2024-01']);
+  for (const layer of comparison.layers) {
+    assert.equal(layer.values[0].status, 'error');
+    assert.equal(layer.baselineDate, '2024-07');
+    assert.equal(layer.values[1].change, undefined);
+  }
+});
+
+test('rejects invalid, single and too many dates before calling the upstream', async t => {
+  const upstream = await startStubUpstream();
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl);
+
+  await assert.rejects(client.compareLayerDates('wheat', 9.03, 38.74, ['2024-13', '2024-07']), /Invalid date\(s\): 2024-13/);
+  await assert.rejects(client.compareLayerDates('wheat', 9.03, 38.74, ['2024-07', '2024-07']), /At least two different dates/);
+  await assert.rejects(
+    client.compareLayerDates('wheat', 9.03, 38.74, ['2020-01', '2021-01', '2022-01', '2023-01', '2024-01', '2025-01', '2026-01']),
+    /At most/
+  );
+  assert.equal(upstream.requests.length, 0);
+});
+
+test('fails with no-data when no date returned anything', async t => {
+  const upstream = await startStubUpstream(() => ({ body: [] }));
+  t.after(() => upstream.close());
+
+  await assert.rejects(
+    testClient(upstream.baseUrl).compareLayerDates('wheat', 9.03, 38.74, ['2024-01', '2024-07']),
+    (error: unknown) => error instanceof NoRecommendationDataError && /All API calls returned empty results/.test(error.message)
+  );
+});
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { parseCsv, formatCsv } from '../src/csv.js';
+import { startStubUpstream } from './helpers.js';
+
+const run = promisify(execFile);
+
+test('parses quoted fields, escaped quotes, CRLF line endings and a byte order mark', () => {
+  const text = '\uFEFFid,name,note\r\n1,"Bahir Dar, Amhara","say ""hi"""\r\n\r\n2,Adama,"two\nlines"\n3,,';
+  assert.deepEqual(parseCsv(text), [
+    ['id', 'name', 'note'],
+    ['1', 'Bahir Dar, Amhara', 'say "hi"'],
+    ['2', 'Adama', 'two\nlines'],
+    ['3', '', '']
+  ]);
+  assert.deepEqual(parseCsv(''), []);
+  assert.throws(() => parseCsv('id\n"open'), /Unterminated quoted field/);
+});
+
+test('quotes only the fields that need it, and round-trips', () => {
+  const rows = [['id', 'note', 'value', 'missing'], ['a', 'x, "y"', 1.5, undefined]];
+  const text = formatCsv(rows);
+  assert.equal(text, 'id,note,value,missing\na,"x, ""y""",1.5,\n');
+  assert.deepEqual(parseCsv(text), [['id', 'note', 'value', 'missing'], ['a', 'x, "y"', '1.5', '']]);
+});
+
+test('the batch command writes one result per row, with invalid rows as errors', async t => {
+  const upstream = await startStubUpstream();
+  t.after(() => upstream.close());
+  const directory = await mkdtemp(join(tmpdir(), 'ssfr-cli-'));
+  t.after(() => rm(directory, { recursive: true, force: true }));
+  const input = join(directory, 'farms.csv');
+  await writeFile(input, 'farm_id,crop,lat,lon\nf1,Wheat,9.03,38.74\nf2,maize,north,38.74\nf3,teff,9.03,38.74\nf4,maize,-1.29,36.82\n');
+
+  const { stdout } = await run(process.execPath, ['--import', 'tsx', 'src/cli.ts', 'batch', '--input', input], {
+    env: { ...process.env, SSFR_API_BASE_URL: upstream.baseUrl, LOG_FORMAT: 'text' },
+    timeout: 60_000
+  });
+  const [header, ...rows] = parseCsv(stdout);
+  const field = (row: string[], name: string) => row[header.indexOf(name)];
+
+  assert.deepEqual(rows.map(row => [row[0], field(row, 'status')]), [['f1', 'ok'], ['f2', 'error'], ['f3', 'error'], ['f4', 'error']]);
+  assert.equal(field(rows[0], 'urea_kg_ha'), '120');
+  assert.match(field(rows[1], 'error'), /Invalid latitude "north"/);
+  assert.match(field(rows[2], 'error'), /Unsupported crop "teff"/);
+  assert.match(field(rows[3], 'error'), /outside Ethiopia/);
+  assert.deepEqual(
+    rows.map(row => field(row, 'error_code')),
+    ['', 'INVALID_ARGUMENT', 'INVALID_ARGUMENT', 'LOCATION_NOT_SUPPORTED']
+  );
+});
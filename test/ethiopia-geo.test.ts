@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  isInEthiopiaBoundary,
+  locateInEthiopia,
+  lookupAdminArea,
+  findNearestBorder,
+  describeOutsideLocation,
+  distanceKm
+} from '../src/ethiopia-geo.js';
+import { SSFRClient } from '../src/ssfr-client.js';
+
+test('accepts cities across the country, including near the borders', () => {
+  const cities: Array<[string, number, number]> = [
+    ['Addis Ababa', 9.03, 38.74],
+    ['Bahir Dar', 11.6, 37.39],
+    ['Mekelle', 13.5, 39.47],
+    ['Hawassa', 7.05, 38.47],
+    ['Jijiga', 9.35, 42.8],
+    ['Gambela', 8.25, 34.58],
+    ['Humera', 14.28, 36.62]
+  ];
+  for (const [name, lat, lon] of cities) {
+    assert.equal(isInEthiopiaBoundary(lat, lon), true, name);
+  }
+});
+
+test('rejects neighbouring cities inside the bounding box', () => {
+  // All of these are inside ETHIOPIA_BOUNDS, the box used before the boundary check
+  const outside: Array<[string, number, number]> = [
+    ['Djibouti', 11.59, 43.15],
+    ['Hargeisa', 9.56, 44.06],
+    ['Assab', 13.01, 42.74]
+  ];
+  for (const [name, lat, lon] of outside) {
+    assert.equal(isInEthiopiaBoundary(lat, lon), false, name);
+    assert.equal(new SSFRClient(undefined, { cache: false }).isInEthiopia(lat, lon), false, name);
+  }
+});
+
+test('places border towns on the right side of the border', () => {
+  const inside: Array<[string, number, number]> = [
+    ['Moyale', 3.53, 39.05],
+    ['Dolo Odo', 4.176, 42.058],
+    // Ferfer straddles the border, which runs at about 5.14° N here; (5.1, 45.15) is on the Somali side
+    ['Ferfer', 5.17, 45.15],
+    ['Kurmuk', 10.55, 34.283]
+  ];
+  for (const [name, lat, lon] of inside) {
+    assert.equal(isInEthiopiaBoundary(lat, lon), true, name);
+  }
+  const outside: Array<[string, number, number, string]> = [
+    ['Borama', 9.94, 43.18, 'Somaliland'],
+    ['Tog Wajaale', 9.605, 43.338, 'Somaliland'],
+    ['Dollo', 4.164, 42.077, 'Somalia'],
+    ['Ferfer', 5.1, 45.15, 'Somalia'],
+    ['Moyale', 3.52, 39.06, 'Kenya'],
+    ['Kurmuk', 10.55, 34.26, 'Sudan']
+  ];
+  for (const [name, lat, lon, country] of outside) {
+    assert.equal(isInEthiopiaBoundary(lat, lon), false, name);
+    assert.equal(findNearestBorder(lat, lon).country, country, name);
+  }
+});
+
+test('looks up the region and zone of a point', () => {
+  assert.deepEqual(lookupAdminArea(11.6, 37.39), { region: 'Amhara', zone: 'Bahir Dar' });
+  assert.equal(lookupAdminArea(13.5, 39.47)?.region, 'Tigray');
+  assert.equal(lookupAdminArea(7.05, 38.47)?.woreda, 'Hawassa Zuria');
+});
+
+test('names the country a point outside is in, not the nearest border', () => {
+  const location = locateInEthiopia(9.56, 44.06);
+  assert.equal(location.inEthiopia, false);
+  if (!location.inEthiopia) {
+    assert.equal(location.nearestBorder.country, 'Somaliland');
+    assert.match(describeOutsideLocation(location.nearestBorder), /^in Somaliland, about \d+ km beyond Ethiopia's border$/);
+  }
+  assert.equal(findNearestBorder(-1.29, 36.82).country, 'Kenya');
+  assert.equal(findNearestBorder(15.33, 38.93).country, 'Eritrea');
+  // Kassala is closer to the Eritrean border than to the Sudanese one, but in Sudan
+  assert.equal(findNearestBorder(15.45, 36.4).country, 'Sudan');
+});
+
+test('names no country beyond the neighbours or at sea', () => {
+  for (const [lat, lon] of [[15.37, 44.19], [14.5, 41.5]]) {
+    const border = findNearestBorder(lat, lon);
+    assert.equal(border.country, undefined);
+    assert.match(describeOutsideLocation(border), /^about \d+ km beyond Ethiopia's border$/);
+  }
+});
+
+test('computes great-circle distances', () => {
+  // Addis Ababa to Bahir Dar is about 320 km in a straight line
+  const distance = distanceKm(9.03, 38.74, 11.6, 37.39);
+  assert.ok(distance > 300 && distance < 340, `${distance} km`);
+  assert.equal(distanceKm(9, 38, 9, 38), 0);
+});
@@ -0,0 +1,127 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  FieldGeometry,
+  PolygonGeometry,
+  validateFieldGeometry,
+  fieldAreaHectares,
+  sampleFieldGrid,
+  isInField,
+  fieldCentroid
+} from '../src/field-geometry.js';
+import { FIELD_SAMPLING } from '../src/ssfr-client.js';
+import { formatLayerStatistics } from '../src/tool-output.js';
+import { startStubUpstream, testClient, valuesFor } from './helpers.js';
+
+/**
+ * Axis-aligned square field with its south-west corner at (lat, lon)
+ */
+function square(lat: number, lon: number, sizeDegrees: number): PolygonGeometry {
+  return {
+    type: 'Polygon',
+    coordinates: [[
+      [lon, lat],
+      [lon + sizeDegrees, lat],
+      [lon + sizeDegrees, lat + sizeDegrees],
+      [lon, lat + sizeDegrees],
+      [lon, lat]
+    ]]
+  };
+}
+
+test('computes the area of a field, subtracting holes', () => {
+  const field = square(9, 38.7, 0.01);
+  const area = fieldAreaHectares(field);
+  // 0.01° is ~1106 m north-south and ~1092 m east-west at 9°N
+  assert.ok(area > 118 && area < 124, `area ${area}`);
+
+  const withHole: FieldGeometry = {
+    type: 'Polygon',
+    coordinates: [field.coordinates[0], square(9.004, 38.704, 0.002).coordinates[0]]
+  };
+  assert.ok(fieldAreaHectares(withHole) < area);
+  assert.equal(isInField(9.005, 38.705, withHole), false);
+  assert.equal(isInField(9.001, 38.701, withHole), true);
+});
+
+test('rejects rings with too few positions, invalid positions and zero area', () => {
+  assert.throws(
+    () => validateFieldGeometry({ type: 'Polygon', coordinates: [[[38.7, 9], [38.8, 9], [38.7, 9]]] }),
+    /at least 4 positions/
+  );
+  assert.throws(
+    () => validateFieldGeometry({ type: 'Polygon', coordinates: [[[38.7, 9], [38.8, 95], [38.8, 9.1], [38.7, 9]]] }),
+    /Invalid position/
+  );
+  // Collinear positions: a line, not a field
+  assert.throws(
+    () => validateFieldGeometry({ type: 'Polygon', coordinates: [[[38.7, 9], [38.71, 9], [38.72, 9], [38.7, 9]]] }),
+    /no area/
+  );
+  assert.throws(
+    () => validateFieldGeometry({ type: 'Polygon', coordinates: [[[38.7, 9], [38.7, 9], [38.7, 9], [38.7, 9]]] }),
+    /no area/
+  );
+  assert.doesNotThrow(() => validateFieldGeometry(square(9, 38.7, 0.001)));
+});
+
+test('samples a grid inside the field, never finer than the minimum spacing', () => {
+  const field = square(9, 38.7, 0.01);
+  const grid = sampleFieldGrid(field, FIELD_SAMPLING.maxSamples, FIELD_SAMPLING.minSpacingMeters);
+  assert.equal(grid.spacingMeters, FIELD_SAMPLING.minSpacingMeters);
+  assert.ok(grid.points.length >= 9 && grid.points.length <= 25, `${grid.points.length} points`);
+  assert.ok(grid.points.every(point => isInField(point.lat, point.lon, field)));
+
+  const large = sampleFieldGrid(square(9, 38.7, 0.2), FIELD_SAMPLING.maxSamples, FIELD_SAMPLING.minSpacingMeters);
+  assert.ok(large.points.length <= FIELD_SAMPLING.maxSamples);
+  assert.ok(large.spacingMeters > FIELD_SAMPLING.minSpacingMeters);
+});
+
+test('falls back to the centroid for fields smaller than one grid cell', () => {
+  const field = square(9, 38.7, 0.0005);
+  const grid = sampleFieldGrid(field, FIELD_SAMPLING.maxSamples, FIELD_SAMPLING.minSpacingMeters);
+  const centroid = fieldCentroid(field);
+  assert.equal(grid.points.length, 1);
+  assert.ok(Math.abs(grid.points[0].lat - centroid.lat) < 1e-5);
+});
+
+test('summarises every layer across the sample points in one request per layer', async t => {
+  // Values vary with latitude so the statistics are not trivial
+  const upstream = await startStubUpstream(request => {
+    if (!request.layer.includes('urea')) return valuesFor(request);
+    return { body: request.coordinates.map(({ lat, lon }) => ({ lat, lon, value: lat < 9.005 ? 100 : 200 })) };
+  });
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl);
+
+  const recommendation = await client.getFieldRecommendation('wheat', square(9, 38.7, 0.01));
+
+  assert.equal(upstream.requests.length, 5);
+  assert.equal(recommendation.sampling.points, upstream.requests[0].coordinates.length);
+  const urea = recommendation.inorganic.urea!;
+  assert.equal(urea.min, 100);
+  assert.equal(urea.max, 200);
+  assert.equal(urea.samplesWithData, recommendation.sampling.points);
+  assert.equal(recommendation.organic.compost?.dominant, 2.5);
+
+  assert.deepEqual(Object.keys(formatLayerStatistics(urea)!), ['min', 'mean', 'max', 'dominant', 'samples_with_data']);
+});
+
+test('rejects fields larger than the area limit before fetching anything', async t => {
+  const upstream = await startStubUpstream();
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl);
+
+  // ~0.5° square: roughly 300,000 ha
+  await assert.rejects(client.getFieldRecommendation('wheat', square(9, 38.5, 0.5)), /exceeds the 1000 ha limit/);
+  assert.equal(upstream.requests.length, 0);
+});
+
+test('rejects fields outside Ethiopia', async t => {
+  const upstream = await startStubUpstream();
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl);
+
+  await assert.rejects(client.getFieldRecommendation('wheat', square(-1.3, 36.8, 0.01)), /outside Ethiopia/);
+  assert.equal(upstream.requests.length, 0);
+});
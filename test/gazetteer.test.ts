@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadGazetteer, transliterateEthiopic } from '../src/gazetteer.js';
+import { testClient, testEnvironment, connectMcpClient } from './helpers.js';
+
+const gazetteer = loadGazetteer();
+
+test('matches Ge\'ez, run-together, prefixed and misspelled town names', () => {
+  for (const query of ['Bahir Dar', 'ባሕር ዳር', 'Bahirdar', 'near Bahir Dar', 'Bahr Dar', 'Bahir Dor', 'bahir dar town']) {
+    const resolution = gazetteer.resolve(query);
+    assert.equal(resolution.status, 'matched', query);
+    assert.equal(resolution.match?.place.name, 'Bahir Dar', query);
+  }
+  assert.equal(gazetteer.resolve('Bahir Dar').match?.confidence, 1);
+  assert.equal(gazetteer.resolve('Bahir Dor').match?.confidence, 0.9);
+  assert.match(transliterateEthiopic('ባሕር ዳር'), /^ba.*r da?r$/);
+});
+
+test('matches former names and Afaan Oromo spellings', () => {
+  assert.equal(gazetteer.resolve('Nazret').match?.place.name, 'Adama');
+  assert.equal(gazetteer.resolve('Adaamaa').match?.place.name, 'Adama');
+  assert.equal(gazetteer.resolve('Ziway').match?.place.name, 'Batu');
+});
+
+test('reports names shared by distant places as ambiguous until qualified', () => {
+  const ambiguous = gazetteer.resolve('North Shewa');
+  assert.equal(ambiguous.status, 'ambiguous');
+  assert.deepEqual(new Set(ambiguous.candidates.slice(0, 2).map(match => match.place.region)), new Set(['Amhara', 'Oromia']));
+
+  const qualified = gazetteer.resolve('North Shewa, Oromia');
+  assert.equal(qualified.status, 'matched');
+  assert.equal(qualified.match?.place.region, 'Oromia');
+});
+
+test('finds nothing for unrelated names', () => {
+  assert.deepEqual(gazetteer.resolve('Nowhereville'), { query: 'Nowhereville', status: 'not_found', candidates: [] });
+  assert.equal(gazetteer.resolve('   ').status, 'not_found');
+});
+
+test('matches bundled kebeles and Ge\'ez woreda names', () => {
+  for (const query of ['Gudo Beret', 'ጉዶ በረት', 'Gudoberet', 'near Gudo Beret kebele']) {
+    const resolution = gazetteer.resolve(query);
+    assert.equal(resolution.status, 'matched', query);
+    assert.equal(resolution.match?.place.type, 'kebele', query);
+    assert.equal(resolution.match?.place.woreda, 'Basona Werana', query);
+  }
+  assert.equal(gazetteer.resolve('ደብረ መዊ').match?.place.name, 'Debre Mewi');
+
+  for (const [query, woreda] of [['ፎገራ', 'Fogera'], ['ባሶና ወራና', 'Basona Werana'], ['ሊቦ ከምከም', 'Libo Kemkem']]) {
+    const resolution = gazetteer.resolve(query);
+    assert.equal(resolution.status, 'matched', query);
+    assert.equal(resolution.match?.place.type, 'woreda', query);
+    assert.equal(resolution.match?.place.name, woreda, query);
+  }
+});
+
+test('adds kebeles from a places file', async t => {
+  const directory = await mkdtemp(join(tmpdir(), 'ssfr-places-'));
+  t.after(() => rm(directory, { recursive: true, force: true }));
+  const path = join(directory, 'places.yaml');
+  await writeFile(path, `places:
+  - name: Kudmi
+    localName: ኩድሚ
+    aliases: [Kudimi]
+    type: kebele
+    region: Amhara
+    zone: West Gojjam
+    woreda: Mecha
+    lat: 11.38
+    lon: 37.12
+`);
+
+  const withKebeles = loadGazetteer(path);
+  assert.equal(withKebeles.size, gazetteer.size + 1);
+  for (const query of ['Kudmi', 'ኩድሚ', 'Kudimi']) {
+    assert.equal(withKebeles.resolve(query).match?.place.name, 'Kudmi', query);
+  }
+  assert.ok(gazetteer.resolve('Kudmi').candidates.every(match => match.place.name !== 'Kudmi'));
+
+  await writeFile(path, 'places:\n  - { name: X, type: village, region: Amhara, lat: 9, lon: 39 }\n');
+  assert.throws(() => loadGazetteer(path));
+});
+
+test('find_location returns the match and candidates as structured content', async t => {
+  const mcp = await connectMcpClient(testEnvironment(testClient('http://127.0.0.1:9')));
+  t.after(() => mcp.close());
+
+  const found = await mcp.callTool({ name: 'find_location', arguments: { query: 'Nekemte' } });
+  const place = found.structuredContent as { status: string; match: { name: string; latitude: number; region: string } };
+  assert.equal(place.status, 'matched');
+  assert.equal(place.match.name, 'Nekemte');
+  assert.equal(place.match.region, 'Oromia');
+
+  // Not finding a place is an answer, not a failure
+  const missing = await mcp.callTool({ name: 'find_location', arguments: { query: 'Nowhereville' } });
+  assert.equal(missing.isError, undefined);
+  assert.deepEqual(missing.structuredContent, { query: 'Nowhereville', status: 'not_found', candidates: [] });
+});
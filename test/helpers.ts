@@ -0,0 +1,147 @@
+/**
+ * Shared test helpers: a scriptable stand-in for the upstream API, a client
+ * configured for tests (no cache, no retries, short timeout) and an in-process
+ * MCP client connected to the tools.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { SSFRClient, SSFRClientOptions, Coordinate, FertilizerRecommendation } from '../src/ssfr-client.js';
+import { ServiceEnvironment } from '../src/environment.js';
+import { DEFAULT_LAYER_REGISTRY } from '../src/layer-registry.js';
+import { DEFAULT_SHOPPING_LIST_CONFIG } from '../src/shopping-list.js';
+import { DEFAULT_PRODUCT_COMPOSITIONS } from '../src/nutrients.js';
+import { loadGazetteer } from '../src/gazetteer.js';
+import { FarmProfile } from '../src/sessions.js';
+import { createMcpServer } from '../src/mcp-server.js';
+
+/**
+ * One layer request received by the stub upstream
+ */
+export interface StubRequest {
+  layer: string;
+  coordinates: Coordinate[];
+  date: string;
+}
+
+/**
+ * Answer of the stub upstream: a JSON body (or raw text) and a status (default 200)
+ */
+export interface StubResponse {
+  status?: number;
+  body?: unknown;
+  text?: string;
+}
+
+export interface StubUpstream {
+  baseUrl: string;
+  /** Every layer request received, in order */
+  requests: StubRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * Values the stub answers with by default, by layer key found in the layer ID
+ */
+export const STUB_VALUES: Array<[string, number]> = [
+  ['urea', 120],
+  ['nps', 100],
+  ['vcompost', 1.5],
+  ['compost', 2.5],
+  ['yield', 3200]
+];
+
+/**
+ * Default stub answer: every requested point with the value of its layer
+ */
+export function valuesFor(request: StubRequest): StubResponse {
+  const value = STUB_VALUES.find(([key]) => request.layer.includes(key))?.[1] ?? 1;
+  return { body: request.coordinates.map(({ lat, lon }) => ({ lat, lon, value })) };
+}
+
+/**
+ * Start an upstream stand-in on a free port, answering `/coordinates/{layer}/{coords}/{date}`
+ */
+export async function startStubUpstream(
+  handler: (request: StubRequest) => StubResponse | Promise<StubResponse> = valuesFor
+): Promise<StubUpstream> {
+  const requests: StubRequest[] = [];
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const [, route, layer, coords, date] = (req.url ?? '').split('/');
+    if (route !== 'coordinates') {
+      res.writeHead(404).end();
+      return;
+    }
+    const request: StubRequest = {
+      layer: decodeURIComponent(layer),
+      coordinates: JSON.parse(decodeURIComponent(coords)),
+      date: decodeURIComponent(date)
+    };
+    requests.push(request);
+    const response = await handler(request);
+    res.writeHead(response.status ?? 200, { 'content-type': 'application/json' });
+    res.end(response.text ?? JSON.stringify(response.body ?? []));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
+/**
+ * Client for tests: no cache, no retries and a short timeout unless overridden
+ */
+export function testClient(baseUrl: string, options: SSFRClientOptions = {}): SSFRClient {
+  return new SSFRClient(baseUrl, {
+    cache: false,
+    timeoutMs: 2000,
+    retry: { retries: 0 },
+    ...options
+  });
+}
+
+/**
+ * A complete wheat recommendation for Bahir Dar, for tests of the formatters
+ */
+export function sampleRecommendation(overrides: Partial<FertilizerRecommendation> = {}): FertilizerRecommendation {
+  return {
+    crop: 'wheat',
+    location: { latitude: 11.6, longitude: 37.39, region: 'Amhara', zone: 'Bahir Dar' },
+    organic: { compost: 2.5, vermicompost: 1.5 },
+    inorganic: { urea: 120, nps: 100 },
+    expectedYield: 3200,
+    provenance: { layers: [], completeness: 1 },
+    dataSource: 'Next-gen Agro Advisory Service',
+    ...overrides
+  };
+}
+
+/**
+ * Service environment with the built-in registry, prices, products and places
+ */
+export function testEnvironment(client: SSFRClient): ServiceEnvironment {
+  return {
+    client,
+    registry: DEFAULT_LAYER_REGISTRY,
+    shoppingListConfig: DEFAULT_SHOPPING_LIST_CONFIG,
+    productCompositions: DEFAULT_PRODUCT_COMPOSITIONS,
+    gazetteer: loadGazetteer()
+  };
+}
+
+/**
+ * MCP client connected in-process to the tools of an environment
+ */
+export async function connectMcpClient(environment: ServiceEnvironment, profile?: FarmProfile): Promise<Client> {
+  const server = createMcpServer(environment, profile);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: 'ssfr-tests', version: '1.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
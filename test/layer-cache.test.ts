@@ -0,0 +1,148 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { LayerCache } from '../src/layer-cache.js';
+import { startStubUpstream, testClient, valuesFor } from './helpers.js';
+
+const LAYER = 'et_wheat_urea_probabilistic_dominant';
+
+test('shares entries between points in the same grid cell', () => {
+  const cache = new LayerCache({ cellSizeDegrees: 0.001 });
+  cache.set(LAYER, '2024-07', 9.0301, 38.7401, 120);
+
+  assert.equal(cache.get(LAYER, '2024-07', 9.0309, 38.7409), 120);
+  assert.equal(cache.get(LAYER, '2024-07', 9.0311, 38.7401), undefined);
+  assert.equal(cache.get(LAYER, '2025-07', 9.0301, 38.7401), undefined);
+  assert.deepEqual(
+    { hits: cache.getStats().hits, misses: cache.getStats().misses, hitRate: cache.getStats().hitRate },
+    { hits: 1, misses: 2, hitRate: 0.333 }
+  );
+});
+
+test('keeps "no data" answers as null, distinct from a miss', () => {
+  const cache = new LayerCache();
+  cache.set(LAYER, '2024-07', 9, 38, null);
+  assert.equal(cache.get(LAYER, '2024-07', 9, 38), null);
+  assert.equal(cache.get(LAYER, '2024-07', 10, 38), undefined);
+});
+
+test('expires entries after the TTL but keeps them as last known values', async () => {
+  const cache = new LayerCache({ ttlSeconds: 0.05 });
+  cache.set(LAYER, '2024-07', 9, 38, 120);
+  await sleep(80);
+
+  assert.equal(cache.get(LAYER, '2024-07', 9, 38), undefined);
+  assert.equal(cache.getStale(LAYER, '2024-07', 9, 38)?.value, 120);
+  assert.equal(cache.getStats().expirations, 1);
+  // Looking up a last known value does not serve it
+  assert.equal(cache.getStats().staleServed, 0);
+  cache.countStaleServed(1);
+  assert.equal(cache.getStats().staleServed, 1);
+});
+
+test('evicts the least recently used entry when full', () => {
+  const cache = new LayerCache({ maxEntries: 2 });
+  cache.set(LAYER, '2024-07', 9, 38, 1);
+  cache.set(LAYER, '2024-07', 10, 38, 2);
+  // Reading the first entry makes the second one the least recently used
+  assert.equal(cache.get(LAYER, '2024-07', 9, 38), 1);
+  cache.set(LAYER, '2024-07', 11, 38, 3);
+
+  assert.equal(cache.get(LAYER, '2024-07', 10, 38), undefined);
+  assert.equal(cache.get(LAYER, '2024-07', 9, 38), 1);
+  assert.equal(cache.get(LAYER, '2024-07', 11, 38), 3);
+  assert.equal(cache.getStats().evictions, 1);
+});
+
+test('rejects non-positive settings', () => {
+  assert.throws(() => new LayerCache({ ttlSeconds: 0 }), /must be positive/);
+  assert.throws(() => new LayerCache({ maxEntries: -1 }), /must be positive/);
+  assert.throws(() => new LayerCache({ cellSizeDegrees: 0 }), /must be positive/);
+});
+
+test('persists entries to a file and loads them on start', async t => {
+  const directory = await mkdtemp(join(tmpdir(), 'ssfr-cache-'));
+  t.after(() => rm(directory, { recursive: true, force: true }));
+  const filePath = join(directory, 'cache.json');
+
+  const cache = new LayerCache({ filePath });
+  cache.set(LAYER, '2024-07', 9, 38, 120);
+  cache.set(LAYER, '2024-07', 10, 38, null);
+  await cache.flush();
+
+  const restored = new LayerCache({ filePath });
+  assert.equal(restored.getStats().entries, 2);
+  assert.equal(restored.get(LAYER, '2024-07', 9, 38), 120);
+  assert.equal(restored.get(LAYER, '2024-07', 10, 38), null);
+
+  // Keys depend on the cell size, so a file written with another one is ignored
+  const otherGrid = new LayerCache({ filePath, cellSizeDegrees: 0.01 });
+  assert.equal(otherGrid.getStats().entries, 0);
+
+  // A truncated file is ignored rather than failing the start
+  const written = await readFile(filePath, 'utf8');
+  await writeFile(filePath, written.slice(0, written.length / 2));
+  assert.equal(new LayerCache({ filePath }).getStats().entries, 0);
+});
+
+test('the client only fetches points that are not cached', async t => {
+  const upstream = await startStubUpstream();
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl, { cache: {} });
+
+  await client.getLayerDataForCoordinates(LAYER, [{ lat: 9.03, lon: 38.74 }], '2024-07');
+  const response = await client.getLayerDataForCoordinates(
+    LAYER,
+    [{ lat: 9.0301, lon: 38.7401 }, { lat: 11.6, lon: 37.39 }],
+    '2024-07'
+  );
+
+  assert.equal(upstream.requests.length, 2);
+  assert.deepEqual(upstream.requests[1].coordinates, [{ lat: 11.6, lon: 37.39 }]);
+  assert.deepEqual(response.coordinates?.map(point => point.value), [120, 120]);
+  assert.equal(client.getCacheStats()?.hits, 1);
+});
+
+test('the client caches an explicit empty answer as "no data"', async t => {
+  const upstream = await startStubUpstream(() => ({ body: [] }));
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl, { cache: {} });
+
+  for (let i = 0; i < 2; i++) {
+    const response = await client.getLayerData(LAYER, 9.03, 38.74, '2024-07');
+    assert.deepEqual(response.coordinates, []);
+  }
+  assert.equal(upstream.requests.length, 1);
+});
+
+test('the client does not cache points missing from a non-empty response', async t => {
+  // Answers with the first point only, at a slightly different (rounded) position
+  const upstream = await startStubUpstream(request => ({
+    body: [{ lat: 9.03, lon: 38.74, value: 120 }].slice(0, request.coordinates.length - 1)
+  }));
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl, { cache: {} });
+  const points = [{ lat: 9.030001, lon: 38.740001 }, { lat: 11.6, lon: 37.39 }];
+
+  await client.getLayerDataForCoordinates(LAYER, points, '2024-07');
+  await client.getLayerDataForCoordinates(LAYER, points, '2024-07');
+
+  assert.equal(upstream.requests.length, 2);
+  assert.equal(upstream.requests[1].coordinates.length, 2);
+});
+
+test('the client does not cache responses of an unknown shape', async t => {
+  let calls = 0;
+  const upstream = await startStubUpstream(request => (calls++ === 0 ? { body: { result: 'unexpected' } } : valuesFor(request)));
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl, { cache: {} });
+
+  await client.getLayerData(LAYER, 9.03, 38.74, '2024-07');
+  const second = await client.getLayerData(LAYER, 9.03, 38.74, '2024-07');
+
+  assert.equal(upstream.requests.length, 2);
+  assert.equal(second.coordinates?.[0]?.value, 120);
+});
@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadLayerRegistry, describeCropChoices, DEFAULT_LAYER_REGISTRY } from '../src/layer-registry.js';
+import { startStubUpstream, testClient, testEnvironment, connectMcpClient } from './helpers.js';
+
+const TEFF_YAML = `
+crops:
+  teff:
+    label: Teff
+    layers:
+      urea:
+        layer: et_teff_urea_probabilistic
+        date: 2025-01
+        unit: kg/ha
+        category: inorganic
+        output: urea
+`;
+
+test('adds crops from a YAML file to the built-in ones', async t => {
+  const directory = await mkdtemp(join(tmpdir(), 'ssfr-registry-'));
+  t.after(() => rm(directory, { recursive: true, force: true }));
+  const path = join(directory, 'layers.yaml');
+  await writeFile(path, TEFF_YAML);
+
+  const registry = loadLayerRegistry(path);
+  assert.deepEqual(Object.keys(registry.crops), ['wheat', 'maize', 'teff']);
+  assert.equal(registry.crops.teff.layers.urea.date, '2025-01');
+  assert.equal(describeCropChoices(registry), 'wheat, maize or teff');
+
+  await writeFile(path, `replaceDefaults: true\n${TEFF_YAML}`);
+  assert.deepEqual(Object.keys(loadLayerRegistry(path).crops), ['teff']);
+  assert.equal(loadLayerRegistry(), DEFAULT_LAYER_REGISTRY);
+});
+
+test('rejects layers with the wrong unit, duplicate outputs and bad schedules', async t => {
+  const directory = await mkdtemp(join(tmpdir(), 'ssfr-registry-'));
+  t.after(() => rm(directory, { recursive: true, force: true }));
+  const path = join(directory, 'layers.yaml');
+
+  await writeFile(path, TEFF_YAML.replace('unit: kg/ha', 'unit: tons/ha'));
+  assert.throws(() => loadLayerRegistry(path), /output "urea" must have category "inorganic" and unit "kg\/ha"/);
+
+  await writeFile(path, `${TEFF_YAML}      urea2:
+        layer: et_teff_urea_other
+        date: 2025-01
+        unit: kg/ha
+        category: inorganic
+        output: urea
+`);
+  assert.throws(() => loadLayerRegistry(path), /more than one layer reports "urea"/);
+
+  await writeFile(path, `${TEFF_YAML}    schedule:
+      - stage: basal
+        label: Basal
+        daysAfterPlanting: 0
+        shares: { urea: 0.5 }
+        guidance: ''
+`);
+  assert.throws(() => loadLayerRegistry(path), /teff: urea shares add up to 0.5/);
+
+  await writeFile(path, 'replaceDefaults: true\ncrops: {}\n');
+  assert.throws(() => loadLayerRegistry(path), /no crops configured/);
+});
+
+test('a configured crop is accepted by the tools and requests its own layers', async t => {
+  const directory = await mkdtemp(join(tmpdir(), 'ssfr-registry-'));
+  t.after(() => rm(directory, { recursive: true, force: true }));
+  const path = join(directory, 'layers.yaml');
+  await writeFile(path, TEFF_YAML);
+  const registry = loadLayerRegistry(path);
+
+  const upstream = await startStubUpstream();
+  t.after(() => upstream.close());
+  const mcp = await connectMcpClient({ ...testEnvironment(testClient(upstream.baseUrl, { layerRegistry: registry })), registry });
+  t.after(() => mcp.close());
+
+  const result = await mcp.callTool({
+    name: 'get_fertilizer_recommendation',
+    arguments: { crop: 'teff', latitude: 9.03, longitude: 38.74 }
+  });
+  assert.equal(result.isError, undefined);
+  assert.deepEqual(upstream.requests.map(request => [request.layer, request.date]), [['et_teff_urea_probabilistic', '2025-01']]);
+});
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  SUMMARY_LANGUAGES,
+  SUMMARY_TEMPLATES,
+  summarizeRecommendation,
+  summarizeNoData,
+  summarizeUnavailable,
+  summarizeOutsideEthiopia
+} from '../src/localized-summary.js';
+import { startStubUpstream, testClient, testEnvironment, connectMcpClient, sampleRecommendation } from './helpers.js';
+
+/**
+ * Placeholders used in a template, sorted
+ */
+function placeholders(template: string): string[] {
+  return (template.match(/\{\w+\}/g) ?? []).sort();
+}
+
+test('every language has every template with the same placeholders as English', () => {
+  const english = SUMMARY_TEMPLATES.en;
+  for (const language of SUMMARY_LANGUAGES) {
+    const templates = SUMMARY_TEMPLATES[language];
+    for (const key of Object.keys(english) as Array<keyof typeof english>) {
+      const value = english[key];
+      if (typeof value === 'string') {
+        assert.equal(typeof templates[key], 'string', `${language}.${key}`);
+        assert.deepEqual(placeholders(templates[key] as string), placeholders(value), `${language}.${key}`);
+      } else {
+        assert.deepEqual(Object.keys(templates[key]).sort(), Object.keys(value).sort(), `${language}.${key}`);
+      }
+    }
+  }
+});
+
+test('copies numbers and units verbatim into every language', () => {
+  const recommendation = sampleRecommendation({ inorganic: { urea: 123.45, nps: 100 } });
+  for (const language of SUMMARY_LANGUAGES) {
+    const text = summarizeRecommendation(recommendation, language);
+    assert.match(text, /123\.45 kg\/ha/, language);
+    assert.match(text, /2\.5 tons\/ha/, language);
+    assert.match(text, /3200 kg\/ha/, language);
+  }
+  assert.match(summarizeRecommendation(recommendation, 'am'), /ስንዴ/);
+});
+
+test('lists missing products as partial data', () => {
+  const text = summarizeRecommendation(sampleRecommendation({ inorganic: { nps: 100 }, expectedYield: undefined }), 'en');
+  assert.match(text, /No data was available for: Urea, expected yield\./);
+});
+
+test('tells a no-data location from an unavailable service', () => {
+  for (const language of SUMMARY_LANGUAGES) {
+    assert.notEqual(summarizeUnavailable(language), summarizeNoData(9.03, 38.74, language));
+  }
+  assert.match(summarizeNoData(9.03, 38.74, 'en'), /9\.03, 38\.74.*road/);
+  assert.match(summarizeUnavailable('en'), /try again later/);
+  assert.match(
+    summarizeOutsideEthiopia(-1.29, 36.82, { country: 'Kenya', distanceKm: 574.9 }, 'om'),
+    /Keeniyaa.*575 km/
+  );
+  for (const language of SUMMARY_LANGUAGES) {
+    const elsewhere = summarizeOutsideEthiopia(15.37, 44.19, { distanceKm: 356.1 }, language);
+    assert.match(elsewhere, /15\.37, 44\.19.*356 km/, language);
+    assert.doesNotMatch(elsewhere, /\{country\}/, language);
+  }
+});
+
+test('the recommendation tool tells the farmer to try later when the upstream is down', async t => {
+  const upstream = await startStubUpstream(() => ({ status: 503, text: 'Service Unavailable' }));
+  t.after(() => upstream.close());
+  const mcp = await connectMcpClient(testEnvironment(testClient(upstream.baseUrl)));
+  t.after(() => mcp.close());
+
+  const result = await mcp.callTool({
+    name: 'get_fertilizer_recommendation',
+    arguments: { crop: 'wheat', latitude: 9.03, longitude: 38.74, language: 'am' }
+  });
+
+  const structured = result.structuredContent as { error: { code: string }; farmer_summary: { text: string } };
+  assert.equal(result.isError, true);
+  assert.equal(structured.error.code, 'UPSTREAM_UNAVAILABLE');
+  assert.equal(structured.farmer_summary.text, summarizeUnavailable('am'));
+});
+
+test('the recommendation tool suggests nearby farmland when the point has no data', async t => {
+  const upstream = await startStubUpstream(() => ({ body: [] }));
+  t.after(() => upstream.close());
+  const mcp = await connectMcpClient(testEnvironment(testClient(upstream.baseUrl)));
+  t.after(() => mcp.close());
+
+  const result = await mcp.callTool({
+    name: 'get_fertilizer_recommendation',
+    arguments: { crop: 'wheat', latitude: 9.03, longitude: 38.74, language: 'en' }
+  });
+
+  const structured = result.structuredContent as { error: { code: string }; farmer_summary: { text: string } };
+  assert.equal(structured.error.code, 'NO_DATA');
+  assert.equal(structured.farmer_summary.text, summarizeNoData(9.03, 38.74, 'en'));
+});
@@ -0,0 +1,113 @@
+import { test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { NoRecommendationDataError } from '../src/ssfr-client.js';
+import { UpstreamError } from '../src/resilience.js';
+import { FixtureStore, LayerFixture } from '../src/fixtures.js';
+import { startMockUpstream, MockUpstreamOptions, MockScenario } from '../src/mock-upstream.js';
+import { renderMetrics } from '../src/metrics.js';
+import { testClient } from './helpers.js';
+
+const LAT = 9.03;
+const LON = 38.74;
+const UREA_LAYER = 'et_wheat_urea_probabilistic_dominant';
+
+/**
+ * Start a mock upstream on a free port, closed when the test ends; returns its URL
+ */
+async function startMock(t: TestContext, options: MockUpstreamOptions = {}): Promise<string> {
+  const mock = await startMockUpstream({ host: '127.0.0.1', ...options });
+  t.after(() => mock.close());
+  return mock.url;
+}
+
+async function temporaryDirectory(t: TestContext): Promise<string> {
+  const directory = await mkdtemp(join(tmpdir(), 'ssfr-fixtures-'));
+  t.after(() => rm(directory, { recursive: true, force: true }));
+  return directory;
+}
+
+test('the client reads every value shape the upstream sends', async t => {
+  for (const scenario of ['value', 'value_dominant', 'dominant_value', 'wrapped'] as MockScenario[]) {
+    const url = await startMock(t, { scenario });
+    const recommendation = await testClient(url).getFertilizerRecommendation('wheat', LAT, LON);
+    assert.deepEqual(recommendation.inorganic, { urea: 120, nps: 100 }, scenario);
+    assert.equal(recommendation.expectedYield, 3200, scenario);
+  }
+});
+
+test('an empty answer means no data, a body that is not JSON is an error', async t => {
+  const empty = await startMock(t, { scenario: 'empty' });
+  await assert.rejects(testClient(empty).getFertilizerRecommendation('wheat', LAT, LON), NoRecommendationDataError);
+
+  const invalid = await startMock(t, { scenario: 'invalid_json' });
+  await assert.rejects(testClient(invalid).getLayerData(UREA_LAYER, LAT, LON), /Failed to parse API response/);
+});
+
+test('retries 5xx errors, but not other errors', async t => {
+  const url = await startMock(t, { scenario: 'error', status: 503 });
+  const layer = 'et_mock_retry_urea';
+  const client = testClient(url, { retry: { retries: 2, baseDelayMs: 1, maxDelayMs: 5 } });
+
+  await assert.rejects(client.getLayerData(layer, LAT, LON), (error: unknown) => error instanceof UpstreamError && error.status === 503);
+  assert.match(renderMetrics(), new RegExp(`ssfr_upstream_request_duration_seconds_count\\{layer="${layer}",outcome="error"\\} 3`));
+
+  const notFound = await startMock(t, { scenario: 'error', status: 404 });
+  const once = 'et_mock_no_retry_urea';
+  await assert.rejects(testClient(notFound, { retry: { retries: 2, baseDelayMs: 1 } }).getLayerData(once, LAT, LON), /SSFR API error \(404\)/);
+  assert.match(renderMetrics(), new RegExp(`ssfr_upstream_request_duration_seconds_count\\{layer="${once}",outcome="error"\\} 1`));
+});
+
+test('slow answers time out, and scenarios can be changed per layer while running', async t => {
+  const url = await startMock(t, { scenario: 'value', delayMs: 300 });
+  await assert.rejects(testClient(url, { timeoutMs: 100 }).getLayerData(UREA_LAYER, LAT, LON), /Request timeout/);
+
+  const put = await fetch(`${url}/mock/scenario`, {
+    method: 'PUT',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ scenario: 'empty', layer: 'urea' })
+  });
+  assert.equal(put.status, 200);
+  await fetch(`${url}/mock/scenario`, { method: 'PUT', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ scenario: 'value' }) });
+  const recommendation = await testClient(url).getFertilizerRecommendation('wheat', LAT, LON);
+  assert.deepEqual(recommendation.inorganic, { nps: 100 });
+
+  await assert.rejects(startMockUpstream({ scenario: 'broken' as MockScenario }), /Invalid mock upstream options/);
+});
+
+test('records fixtures, replays them offline and serves edited ones from the mock', async t => {
+  const directory = await temporaryDirectory(t);
+  const live = await startMock(t, { scenario: 'value_dominant' });
+  const recorded = await testClient(live, { fixtures: { mode: 'record', directory } }).getFertilizerRecommendation('wheat', LAT, LON);
+
+  // Nothing listens on port 9: replay must not touch the network
+  const replay = testClient('http://127.0.0.1:9', { fixtures: { mode: 'replay', directory } });
+  const replayed = await replay.getFertilizerRecommendation('wheat', LAT, LON);
+  assert.deepEqual(replayed.inorganic, recorded.inorganic);
+  await assert.rejects(replay.getLayerData(UREA_LAYER, 7.5, 38.5), /No fixture for et_wheat_urea_probabilistic_dominant/);
+
+  const store = new FixtureStore(directory);
+  const path = store.pathFor(UREA_LAYER, [{ lat: LAT, lon: LON }], '2024-07');
+  const fixture = JSON.parse(await readFile(path, 'utf8')) as LayerFixture;
+  assert.equal(fixture.response.status, 200);
+  assert.deepEqual(fixture.response.body, [{ lat: LAT, lon: LON, value_dominant: 120 }]);
+  await writeFile(path, JSON.stringify({ ...fixture, response: { status: 200, body: [{ lat: LAT, lon: LON, value: 95 }] } }));
+
+  const mock = await startMock(t, { fixtures: directory });
+  const served = await testClient(mock).getFertilizerRecommendation('wheat', LAT, LON);
+  assert.deepEqual(served.inorganic, { urea: 95, nps: 100 });
+  // Requests without a fixture get generated values
+  assert.equal((await testClient(mock).getLayerData(UREA_LAYER, 7.5, 38.5)).coordinates?.[0]?.value, 120);
+});
+
+test('fixture paths cannot leave the fixture directory', () => {
+  const store = new FixtureStore('/tmp/fixtures');
+  const coordinates = [{ lat: LAT, lon: LON }];
+  assert.ok(store.pathFor('a/b', coordinates, '2024-07').startsWith('/tmp/fixtures/a_b/2024-07/'));
+  for (const segment of ['..', '.', 'et..wheat', '../..']) {
+    assert.throws(() => store.pathFor(segment, coordinates, '2024-07'), /Invalid fixture path segment/, segment);
+    assert.throws(() => store.pathFor(UREA_LAYER, coordinates, segment), /Invalid fixture path segment/, segment);
+  }
+});
@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NoRecommendationDataError } from '../src/ssfr-client.js';
+import { startStubUpstream, testClient, testEnvironment, connectMcpClient, StubRequest, StubResponse, valuesFor } from './helpers.js';
+
+const LAT = 9.03;
+const LON = 38.74;
+
+/**
+ * Upstream with data only from about 490 m north of (LAT, LON): the 500 m ring
+ * has a single point with data, due north
+ */
+function dataToTheNorth(request: StubRequest): StubResponse {
+  const { body } = valuesFor(request);
+  return {
+    body: (body as Array<{ lat: number; lon: number; value: number }>).map(point => ({
+      ...point,
+      value: point.lat >= LAT + 0.0044 ? point.value : null
+    }))
+  };
+}
+
+test('uses the closest point with data and reports where it is', async t => {
+  const upstream = await startStubUpstream(dataToTheNorth);
+  t.after(() => upstream.close());
+
+  const recommendation = await testClient(upstream.baseUrl).getFertilizerRecommendation('wheat', LAT, LON, { nearestData: true });
+
+  assert.equal(recommendation.inorganic.urea, 120);
+  assert.equal(recommendation.location.latitude, LAT);
+  assert.equal(recommendation.nearestData?.direction, 'north');
+  assert.equal(recommendation.nearestData?.bearingDegrees, 0);
+  assert.ok(Math.abs(recommendation.nearestData!.distanceMeters - 500) <= 1, `${recommendation.nearestData!.distanceMeters}`);
+  assert.equal(recommendation.nearestData?.radiusMeters, 1000);
+  // The 250, 500 and 750 m rings (8 + 16 + 24 points) fit into one request per layer
+  assert.equal(recommendation.nearestData?.pointsSearched, 48);
+  const search = upstream.requests.filter(request => request.coordinates.length > 1);
+  assert.ok(search.length > 0 && search.every(request => request.coordinates.length === 48));
+});
+
+test('fails with the searched radius when no point within it has data', async t => {
+  const upstream = await startStubUpstream(dataToTheNorth);
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl);
+
+  await assert.rejects(
+    client.getFertilizerRecommendation('wheat', LAT, LON, { nearestData: true, nearestDataRadiusMeters: 300 }),
+    (error: unknown) => error instanceof NoRecommendationDataError && /No point within 300 m has data either \(8 points searched\)/.test(error.message)
+  );
+  await assert.rejects(
+    client.getFertilizerRecommendation('wheat', LAT, LON, { nearestData: true, nearestDataRadiusMeters: 5000 }),
+    /Invalid nearest-data search radius: 5000/
+  );
+});
+
+test('searches only when asked, and never after failed requests', async t => {
+  const failing = await startStubUpstream(() => ({ status: 500, text: 'down' }));
+  t.after(() => failing.close());
+  await assert.rejects(testClient(failing.baseUrl).getFertilizerRecommendation('wheat', LAT, LON, { nearestData: true }));
+  assert.ok(failing.requests.every(request => request.coordinates.length === 1));
+
+  const upstream = await startStubUpstream(dataToTheNorth);
+  t.after(() => upstream.close());
+  await assert.rejects(testClient(upstream.baseUrl).getFertilizerRecommendation('wheat', LAT, LON), NoRecommendationDataError);
+  assert.ok(upstream.requests.every(request => request.coordinates.length === 1));
+});
+
+test('the recommendation tool reports nearest_data in its structured output', async t => {
+  const upstream = await startStubUpstream(dataToTheNorth);
+  t.after(() => upstream.close());
+  const mcp = await connectMcpClient(testEnvironment(testClient(upstream.baseUrl)));
+  t.after(() => mcp.close());
+  const args = { crop: 'wheat', latitude: LAT, longitude: LON };
+
+  const withoutSearch = await mcp.callTool({ name: 'get_fertilizer_recommendation', arguments: args });
+  assert.equal(withoutSearch.isError, true);
+  assert.equal((withoutSearch.structuredContent as { error: { code: string } }).error.code, 'NO_DATA');
+
+  const result = await mcp.callTool({ name: 'get_fertilizer_recommendation', arguments: { ...args, nearest_data: true } });
+  const nearest = (result.structuredContent as { nearest_data: { direction: string; distance_m: number; radius_m: number } }).nearest_data;
+  assert.equal(nearest.direction, 'north');
+  assert.ok(Math.abs(nearest.distance_m - 500) <= 1);
+  assert.equal(nearest.radius_m, 1000);
+});
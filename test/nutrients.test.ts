@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { computeNutrientBreakdown, loadProductCompositions, DEFAULT_PRODUCT_COMPOSITIONS } from '../src/nutrients.js';
+
+test('converts product rates into nutrient totals and per-product shares', () => {
+  const breakdown = computeNutrientBreakdown({ urea: 100, nps: 100 })!;
+
+  // 46 N from urea, 19 N + 38 P2O5 + 7 S from NPS
+  assert.deepEqual(breakdown.totals, { n: 65, p2o5: 38, s: 7 });
+  const urea = breakdown.products.find(product => product.product === 'urea')!;
+  assert.equal(urea.sharePercent.n, 70.8);
+  assert.equal(urea.sharePercent.s, 0);
+  assert.deepEqual(breakdown.organicAlternatives, []);
+});
+
+test('reports compost and vermicompost as alternatives, outside the totals', () => {
+  const breakdown = computeNutrientBreakdown({ urea: 100, nps: 100, compost: 2, vermicompost: 2 })!;
+
+  assert.deepEqual(breakdown.totals, { n: 65, p2o5: 38, s: 7 });
+  assert.deepEqual(breakdown.products.map(product => product.product), ['urea', 'nps']);
+  const [compost, vermicompost] = breakdown.organicAlternatives;
+  assert.equal(compost.product, 'compost');
+  assert.equal(compost.amountKgPerHa, 2000);
+  // 20 N + 12 P2O5 from 2 t compost, 30 N + 20 P2O5 from 2 t vermicompost, each on top of urea and NPS
+  assert.deepEqual(compost.nutrients, { n: 20, p2o5: 12, s: 0 });
+  assert.deepEqual(compost.totalsWith, { n: 85, p2o5: 50, s: 7 });
+  assert.equal(vermicompost.product, 'vermicompost');
+  assert.deepEqual(vermicompost.totalsWith, { n: 95, p2o5: 58, s: 7 });
+
+  const organicOnly = computeNutrientBreakdown({ compost: 2 })!;
+  assert.deepEqual(organicOnly.totals, { n: 0, p2o5: 0, s: 0 });
+  assert.deepEqual(organicOnly.organicAlternatives[0].totalsWith, { n: 20, p2o5: 12, s: 0 });
+});
+
+test('skips missing products and returns undefined without any rate', () => {
+  assert.equal(computeNutrientBreakdown({}), undefined);
+  const ureaOnly = computeNutrientBreakdown({ urea: 50 })!;
+  assert.deepEqual(ureaOnly.products.map(product => product.product), ['urea']);
+  assert.deepEqual(ureaOnly.totals, { n: 23, p2o5: 0, s: 0 });
+});
+
+test('applies composition overrides from a file on top of the defaults', async t => {
+  const directory = await mkdtemp(join(tmpdir(), 'ssfr-products-'));
+  t.after(() => rm(directory, { recursive: true, force: true }));
+
+  const yamlPath = join(directory, 'products.yaml');
+  await writeFile(yamlPath, 'compost:\n  n: 1.2\n');
+  const compositions = loadProductCompositions(yamlPath);
+  assert.equal(compositions.compost.n, 1.2);
+  assert.equal(compositions.compost.p2o5, DEFAULT_PRODUCT_COMPOSITIONS.compost.p2o5);
+  assert.deepEqual(compositions.urea, DEFAULT_PRODUCT_COMPOSITIONS.urea);
+  assert.equal(computeNutrientBreakdown({ compost: 1 }, compositions)?.organicAlternatives[0].nutrients.n, 12);
+
+  const invalidPath = join(directory, 'invalid.json');
+  await writeFile(invalidPath, JSON.stringify({ urea: { n: 146 } }));
+  assert.throws(() => loadProductCompositions(invalidPath));
+  await writeFile(invalidPath, JSON.stringify({ dap: { n: 18 } }));
+  assert.throws(() => loadProductCompositions(invalidPath));
+});
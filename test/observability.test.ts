@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Counter, Histogram, metrics, renderMetrics } from '../src/metrics.js';
+import { configureLogging, createLogger, logCoordinate, runWithRequestId } from '../src/logger.js';
+import { startStubUpstream, testClient, valuesFor } from './helpers.js';
+
+test('renders counters and histograms in the Prometheus text format', () => {
+  const counter = new Counter('test_calls_total', 'Calls', ['tool']);
+  counter.inc({ tool: 'a' });
+  counter.inc({ tool: 'a' }, 2);
+  counter.inc({ tool: 'say "hi"\n' });
+  assert.deepEqual(counter.render(), [
+    '# HELP test_calls_total Calls',
+    '# TYPE test_calls_total counter',
+    'test_calls_total{tool="a"} 3',
+    'test_calls_total{tool="say \\"hi\\"\\n"} 1'
+  ]);
+  assert.equal(new Counter('test_unlabelled_total', 'Unlabelled', []).render()[2], 'test_unlabelled_total 0');
+
+  const histogram = new Histogram('test_seconds', 'Durations', ['layer'], [0.1, 1]);
+  histogram.observe({ layer: 'urea' }, 0.05);
+  histogram.observe({ layer: 'urea' }, 0.5);
+  assert.deepEqual(histogram.render().slice(2), [
+    'test_seconds_bucket{layer="urea",le="0.1"} 1',
+    'test_seconds_bucket{layer="urea",le="1"} 2',
+    'test_seconds_bucket{layer="urea",le="+Inf"} 2',
+    'test_seconds_sum{layer="urea"} 0.55',
+    'test_seconds_count{layer="urea"} 2'
+  ]);
+});
+
+test('records upstream durations and timeouts by layer', async t => {
+  const upstream = await startStubUpstream(async request => {
+    if (request.layer.includes('yield')) {
+      await new Promise(resolve => setTimeout(resolve, 300));
+    }
+    return valuesFor(request);
+  });
+  t.after(() => upstream.close());
+
+  await testClient(upstream.baseUrl, { timeoutMs: 100 }).getFertilizerRecommendation('maize', 7.05, 38.47);
+
+  const rendered = renderMetrics();
+  const yieldLayer = upstream.requests.find(request => request.layer.includes('yield'))!.layer;
+  const ureaLayer = upstream.requests.find(request => request.layer.includes('urea'))!.layer;
+  assert.match(rendered, new RegExp(`ssfr_upstream_timeouts_total\\{layer="${yieldLayer}"\\} 1`));
+  assert.match(rendered, new RegExp(`ssfr_upstream_request_duration_seconds_count\\{layer="${ureaLayer}",outcome="ok"\\} 1`));
+  assert.match(rendered, new RegExp(`ssfr_upstream_request_duration_seconds_count\\{layer="${yieldLayer}",outcome="timeout"\\} 1`));
+  assert.ok(metrics.partialResponses.render().some(line => line.startsWith('ssfr_partial_responses_total{crop="maize"}')));
+});
+
+test('writes JSON entries with the request ID, fields and error message', t => {
+  const lines: string[] = [];
+  t.mock.method(console, 'log', (line: string) => lines.push(line));
+  t.mock.method(console, 'error', (line: string) => lines.push(line));
+  configureLogging({ format: 'json' });
+  t.after(() => configureLogging({}));
+
+  const log = createLogger('Test');
+  runWithRequestId('req-1', () => log.info('hello', { crop: 'wheat' }));
+  log.error('failed', new Error('boom'));
+
+  const [info, error] = lines.map(line => JSON.parse(line));
+  assert.equal(info.level, 'info');
+  assert.equal(info.component, 'Test');
+  assert.equal(info.request_id, 'req-1');
+  assert.equal(info.crop, 'wheat');
+  assert.equal(error.level, 'error');
+  assert.equal(error.error, 'boom');
+  assert.equal(error.request_id, undefined);
+});
+
+test('rounds logged coordinates when configured and rejects invalid settings', t => {
+  t.after(() => configureLogging({}));
+  assert.equal(logCoordinate(9.03456), 9.03456);
+  configureLogging({ coordinateDecimals: 2 });
+  assert.equal(logCoordinate(9.03456), 9.03);
+  assert.throws(() => configureLogging({ coordinateDecimals: -1 }), /whole number/);
+  assert.throws(() => configureLogging({ format: 'xml' as 'json' }), /Log format must be one of text, json/);
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NoRecommendationDataError } from '../src/ssfr-client.js';
+import { startStubUpstream, testClient, valuesFor, StubRequest } from './helpers.js';
+
+/**
+ * Stub answer with one value for every requested point
+ */
+function answer(request: StubRequest, value: unknown) {
+  return { body: request.coordinates.map(({ lat, lon }) => ({ lat, lon, value })) };
+}
+
+test('reports each layer status and scores completeness', async t => {
+  const upstream = await startStubUpstream(request => {
+    if (request.layer.includes('vcompost')) return { body: [] };
+    if (request.layer.includes('nps')) return answer(request, 'n/a');
+    if (request.layer.includes('yield')) return { status: 500, text: 'boom' };
+    return valuesFor(request);
+  });
+  t.after(() => upstream.close());
+
+  const recommendation = await testClient(upstream.baseUrl).getFertilizerRecommendation('wheat', 9.03, 38.74);
+  const statuses = Object.fromEntries(recommendation.provenance.layers.map(layer => [layer.output, layer.status]));
+
+  assert.deepEqual(statuses, { compost: 'ok', vermicompost: 'empty', urea: 'ok', nps: 'unparseable', yield: 'error' });
+  assert.equal(recommendation.provenance.completeness, 0.4);
+  assert.equal(recommendation.provenance.layers.find(layer => layer.output === 'nps')?.error, 'Unparseable value: "n/a"');
+  assert.equal(recommendation.inorganic.nps, undefined);
+  assert.ok(recommendation.provenance.layers.every(layer => typeof layer.latencyMs === 'number'));
+});
+
+test('keeps a zero recommendation instead of treating it as missing', async t => {
+  const upstream = await startStubUpstream(request =>
+    request.layer.includes('urea') ? answer(request, 0) : request.layer.includes('nps') ? answer(request, '0') : valuesFor(request)
+  );
+  t.after(() => upstream.close());
+
+  const recommendation = await testClient(upstream.baseUrl).getFertilizerRecommendation('wheat', 9.03, 38.74);
+  assert.equal(recommendation.inorganic.urea, 0);
+  assert.equal(recommendation.inorganic.nps, 0);
+  assert.equal(recommendation.provenance.completeness, 1);
+});
+
+test('attaches the provenance to the no-data error', async t => {
+  const upstream = await startStubUpstream(request => (request.layer.includes('urea') ? { status: 503 } : { body: [] }));
+  t.after(() => upstream.close());
+
+  await assert.rejects(
+    testClient(upstream.baseUrl).getFertilizerRecommendation('maize', 7.05, 38.47),
+    (error: unknown) => {
+      assert.ok(error instanceof NoRecommendationDataError);
+      assert.equal(error.provenance?.completeness, 0);
+      assert.equal(error.provenance?.layers.find(layer => layer.output === 'urea')?.status, 'error');
+      return true;
+    }
+  );
+});
@@ -0,0 +1,150 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { CircuitBreaker, UpstreamError, backoffDelay, withRetry } from '../src/resilience.js';
+import { startStubUpstream, testClient, valuesFor } from './helpers.js';
+
+const FAST_RETRY = { retries: 2, baseDelayMs: 1, maxDelayMs: 5 };
+
+test('retries retryable upstream errors until the operation succeeds', async () => {
+  const delays: number[] = [];
+  let attempts = 0;
+  const result = await withRetry(
+    async () => {
+      attempts++;
+      if (attempts < 3) throw new UpstreamError('503', { status: 503, retryable: true });
+      return 'ok';
+    },
+    FAST_RETRY,
+    (_error, _attempt, delayMs) => delays.push(delayMs)
+  );
+
+  assert.equal(result, 'ok');
+  assert.equal(attempts, 3);
+  assert.equal(delays.length, 2);
+});
+
+test('gives up after the configured retries', async () => {
+  let attempts = 0;
+  await assert.rejects(
+    withRetry(async () => {
+      attempts++;
+      throw new UpstreamError('timeout', { retryable: true });
+    }, FAST_RETRY),
+    /timeout/
+  );
+  assert.equal(attempts, 3);
+});
+
+test('does not retry client errors or other exceptions', async () => {
+  for (const error of [new UpstreamError('404', { status: 404 }), new Error('bad input')]) {
+    let attempts = 0;
+    await assert.rejects(withRetry(async () => {
+      attempts++;
+      throw error;
+    }, FAST_RETRY));
+    assert.equal(attempts, 1);
+  }
+});
+
+test('keeps backoff delays under the exponential ceiling and the cap', () => {
+  const options = { retries: 5, baseDelayMs: 100, maxDelayMs: 300 };
+  for (let i = 0; i < 50; i++) {
+    assert.ok(backoffDelay(0, options) <= 100);
+    assert.ok(backoffDelay(1, options) <= 200);
+    assert.ok(backoffDelay(4, options) <= 300);
+  }
+});
+
+test('opens the circuit after consecutive failures and lets one trial through after the reset', async () => {
+  const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 50 });
+  breaker.recordFailure();
+  assert.equal(breaker.allowRequest(), true);
+  breaker.recordFailure();
+
+  assert.equal(breaker.getStatus().state, 'open');
+  assert.equal(breaker.allowRequest(), false);
+  assert.equal(breaker.getStatus().rejectedRequests, 1);
+
+  await sleep(60);
+  assert.equal(breaker.allowRequest(), true);
+  // Only one trial call at a time while half-open
+  assert.equal(breaker.allowRequest(), false);
+  breaker.recordSuccess();
+  assert.equal(breaker.getStatus().state, 'closed');
+  assert.equal(breaker.getStatus().totalOpened, 1);
+});
+
+test('a failed trial call re-opens the circuit', async () => {
+  const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 30 });
+  breaker.recordFailure();
+  await sleep(40);
+  assert.equal(breaker.allowRequest(), true);
+  breaker.recordFailure();
+  assert.equal(breaker.getStatus().state, 'open');
+  assert.ok(breaker.retryAfterSeconds() >= 0);
+});
+
+test('the client retries a 503 and succeeds', async t => {
+  let calls = 0;
+  const upstream = await startStubUpstream(request => (calls++ === 0 ? { status: 503, text: 'busy' } : valuesFor(request)));
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl, { retry: FAST_RETRY });
+
+  const response = await client.getLayerData('et_wheat_urea_probabilistic_dominant', 9.03, 38.74);
+  assert.equal(response.coordinates?.[0]?.value, 120);
+  assert.equal(upstream.requests.length, 2);
+});
+
+test('the client fails fast while the circuit is open', async t => {
+  const upstream = await startStubUpstream(() => ({ status: 502, text: 'bad gateway' }));
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl, { circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 } });
+  const layer = 'et_wheat_urea_probabilistic_dominant';
+
+  await assert.rejects(client.getLayerData(layer, 9.03, 38.74), /SSFR API error \(502\)/);
+  await assert.rejects(client.getLayerData(layer, 9.03, 38.74), /SSFR API error \(502\)/);
+  await assert.rejects(client.getLayerData(layer, 9.03, 38.74), /circuit open/);
+  assert.equal(upstream.requests.length, 2);
+  assert.equal(client.getUpstreamStatus().circuitBreaker.state, 'open');
+});
+
+test('the client serves last known values, marked stale, during an outage', async t => {
+  let down = false;
+  const upstream = await startStubUpstream(request => (down ? { status: 503, text: 'down' } : valuesFor(request)));
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl, { cache: { ttlSeconds: 0.01 } });
+
+  const first = await client.getFertilizerRecommendation('wheat', 9.03, 38.74);
+  assert.equal(first.staleData, undefined);
+
+  down = true;
+  await sleep(20);
+  const second = await client.getFertilizerRecommendation('wheat', 9.03, 38.74);
+  assert.equal(second.inorganic.urea, 120);
+  assert.ok(second.staleData);
+  assert.equal(second.staleData.layers.length, 5);
+  assert.equal(client.getCacheStats()?.staleServed, 5);
+});
+
+test('the client only counts stale values it serves, not an abandoned fallback', async t => {
+  let down = false;
+  const upstream = await startStubUpstream(request => (down ? { status: 503, text: 'down' } : valuesFor(request)));
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl, { cache: { ttlSeconds: 0.01 }, retry: FAST_RETRY });
+  const layer = 'et_wheat_urea_probabilistic_dominant';
+
+  await client.getLayerData(layer, 9.03, 38.74);
+  down = true;
+  await sleep(20);
+  // Hawassa has no last known value, so the fallback is abandoned for both points
+  await assert.rejects(
+    client.getLayerDataForCoordinates(layer, [{ lat: 9.03, lon: 38.74 }, { lat: 7.05, lon: 38.47 }]),
+    /SSFR API error \(503\)/
+  );
+  assert.equal(client.getCacheStats()?.staleServed, 0);
+
+  const stale = await client.getLayerData(layer, 9.03, 38.74);
+  assert.equal(stale.stale, true);
+  assert.equal(client.getCacheStats()?.staleServed, 1);
+});
@@ -0,0 +1,132 @@
+import { test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import { createRestRouter, RestApiOptions, OPENAPI_PATH } from '../src/rest-api.js';
+import { DEFAULT_LAYER_REGISTRY } from '../src/layer-registry.js';
+import { loadGazetteer } from '../src/gazetteer.js';
+import { startStubUpstream, testClient, StubRequest, StubResponse, valuesFor } from './helpers.js';
+
+/**
+ * Serve the REST routes on a free port, backed by a stub upstream; returns the base URL
+ */
+async function startRestApi(
+  t: TestContext,
+  handler: (request: StubRequest) => StubResponse = valuesFor,
+  options: Partial<RestApiOptions> = {}
+): Promise<string> {
+  const upstream = await startStubUpstream(handler);
+  t.after(() => upstream.close());
+  const app = express();
+  app.use(express.json());
+  app.use(createRestRouter({
+    client: testClient(upstream.baseUrl),
+    registry: DEFAULT_LAYER_REGISTRY,
+    gazetteer: loadGazetteer(),
+    maxBatchFarms: 3,
+    ...options
+  }));
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  t.after(() => new Promise(resolve => server.close(resolve)));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+test('returns a recommendation for coordinates or a place name', async t => {
+  const baseUrl = await startRestApi(t);
+
+  const response = await fetch(`${baseUrl}/api/v1/recommendation?crop=wheat&lat=9.03&lon=38.74&language=am`);
+  assert.equal(response.status, 200);
+  const body: any = await response.json();
+  assert.equal(body.fertilizers.inorganic.urea, 120);
+  assert.equal(body.farmer_summary.language, 'am');
+
+  const byPlace: any = await (await fetch(`${baseUrl}/api/v1/recommendation?crop=maize&place=Bahir%20Dar`)).json();
+  assert.equal(byPlace.place.status, 'matched');
+  assert.equal(byPlace.place.match.name, 'Bahir Dar');
+});
+
+test('answers format=sms with the segments as plain text, one per line', async t => {
+  const baseUrl = await startRestApi(t);
+  const url = `${baseUrl}/api/v1/recommendation?crop=wheat&lat=9.03&lon=38.74&format=sms&max_chars=40`;
+
+  const sms = await fetch(url);
+  assert.equal(sms.status, 200);
+  assert.match(sms.headers.get('content-type') ?? '', /^text\/plain/);
+  const lines = (await sms.text()).trimEnd().split('\n');
+  assert.ok(lines.length > 1);
+  assert.match(lines[0], /^\(1\/\d\) /);
+  assert.ok(lines.every(line => line.length <= 40), lines.join('|'));
+
+  const json: any = await (await fetch(url, { headers: { accept: 'application/json' } })).json();
+  assert.deepEqual(json.sms.segments, lines);
+  const plain: any = await (await fetch(url.replace('format=sms', 'format=json'))).json();
+  assert.equal(plain.fertilizers.inorganic.urea, 120);
+  assert.equal(plain.sms, undefined);
+});
+
+test('maps error codes to HTTP statuses', async t => {
+  const baseUrl = await startRestApi(t, request => (request.coordinates[0].lat === 9.5 ? { body: [] } : valuesFor(request)));
+  const cases: Array<[string, number, string]> = [
+    ['crop=wheat', 400, 'MISSING_COORDINATES'],
+    ['lat=9.03&lon=38.74', 400, 'MISSING_ARGUMENT'],
+    ['crop=teff&lat=9.03&lon=38.74', 400, 'INVALID_ARGUMENT'],
+    ['crop=wheat&lat=100&lon=38.74', 400, 'INVALID_ARGUMENT'],
+    ['crop=wheat&lat=-1.29&lon=36.82', 422, 'LOCATION_NOT_SUPPORTED'],
+    ['crop=wheat&place=Nowhereville', 404, 'PLACE_NOT_FOUND'],
+    ['crop=wheat&lat=9.5&lon=38.74', 404, 'NO_DATA']
+  ];
+  for (const [query, status, code] of cases) {
+    const response = await fetch(`${baseUrl}/api/v1/recommendation?${query}`);
+    assert.equal(response.status, status, query);
+    assert.equal(((await response.json()) as any).error.code, code, query);
+  }
+});
+
+test('falls back to the nearest point with data when nearest_data=true', async t => {
+  // Data only from about 490 m north of the requested point
+  const baseUrl = await startRestApi(t, request => ({
+    body: (valuesFor(request).body as Array<{ lat: number; value: number }>)
+      .map(point => ({ ...point, value: point.lat >= 9.0344 ? point.value : null }))
+  }));
+  const query = 'crop=wheat&lat=9.03&lon=38.74';
+
+  assert.equal((await fetch(`${baseUrl}/api/v1/recommendation?${query}`)).status, 404);
+  const response = await fetch(`${baseUrl}/api/v1/recommendation?${query}&nearest_data=true`);
+  assert.equal(response.status, 200);
+  const body: any = await response.json();
+  assert.equal(body.nearest_data.direction, 'north');
+  assert.equal(body.fertilizers.inorganic.urea, 120);
+});
+
+test('answers a batch with one result per farm and enforces the batch limit', async t => {
+  const baseUrl = await startRestApi(t);
+  const post = (farms: unknown[]) => fetch(`${baseUrl}/api/v1/recommendations/batch`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ farms })
+  });
+
+  const response = await post([
+    { id: 'a', crop: 'wheat', latitude: 9.03, longitude: 38.74 },
+    { id: 'b', crop: 'maize', latitude: -1.29, longitude: 36.82 }
+  ]);
+  const body: any = await response.json();
+  assert.deepEqual(body.summary, { total: 2, succeeded: 1, failed: 1 });
+  assert.deepEqual(body.results.map((result: { id: string; status: string }) => [result.id, result.status]), [['a', 'ok'], ['b', 'error']]);
+  assert.equal(body.results[1].error.code, 'LOCATION_NOT_SUPPORTED');
+  assert.match(body.results[1].error.message, /outside Ethiopia/);
+
+  const tooMany = await post(Array.from({ length: 4 }, (_, index) => ({ id: `${index}`, crop: 'wheat', latitude: 9, longitude: 38 })));
+  assert.equal(tooMany.status, 400);
+});
+
+test('publishes an OpenAPI document with the configured crops', async t => {
+  const baseUrl = await startRestApi(t);
+  const document: any = await (await fetch(`${baseUrl}${OPENAPI_PATH}`)).json();
+  assert.match(document.openapi, /^3\./);
+  assert.ok(document.paths['/api/v1/recommendation'].get);
+  const crop = document.paths['/api/v1/recommendation'].get.parameters.find((parameter: { name: string }) => parameter.name === 'crop');
+  assert.deepEqual(crop.schema.enum, ['wheat', 'maize']);
+  assert.equal(document.paths['/api/v1/usage'], undefined);
+});
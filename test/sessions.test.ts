@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SessionStore, FarmProfile } from '../src/sessions.js';
+import { startStubUpstream, testClient, testEnvironment, connectMcpClient } from './helpers.js';
+
+/**
+ * Transport stand-in that only records whether it was closed
+ */
+function fakeTransport(): StreamableHTTPServerTransport & { closed: boolean } {
+  const transport = { closed: false, close: async () => { transport.closed = true; } };
+  return transport as unknown as StreamableHTTPServerTransport & { closed: boolean };
+}
+
+/**
+ * Text of the first content block of a tool result, parsed as JSON
+ */
+function parsedText(result: unknown): any {
+  return JSON.parse(((result as { content: unknown }).content as Array<{ text: string }>)[0].text);
+}
+
+test('closes sessions idle for longer than the timeout and keeps active ones', async t => {
+  const store = new SessionStore({ idleTimeoutSeconds: 60, maxSessions: 2 });
+  t.after(() => store.closeAll());
+
+  const idle = fakeTransport();
+  const active = fakeTransport();
+  store.add('idle', idle, {});
+  const session = store.add('active', active, {});
+  assert.equal(store.hasCapacity(), false);
+
+  session.lastActivityAt += 30_000;
+  store.expireIdle(Date.now() + 61_000);
+
+  assert.equal(idle.closed, true);
+  assert.equal(active.closed, false);
+  assert.equal(store.touch('idle'), undefined);
+  assert.equal(store.touch('active'), session);
+  assert.deepEqual(store.getStats(), { active: 1, maxSessions: 2, idleTimeoutSeconds: 60, created: 2, expired: 1 });
+  assert.equal(store.hasCapacity(), true);
+});
+
+test('rejects invalid store limits', () => {
+  assert.throws(() => new SessionStore({ idleTimeoutSeconds: 0 }), /idle timeout/);
+  assert.throws(() => new SessionStore({ maxSessions: 0 }), /at least 1/);
+});
+
+test('saves a farm profile and uses it for omitted tool arguments', async t => {
+  const upstream = await startStubUpstream();
+  t.after(() => upstream.close());
+  const profile: FarmProfile = {};
+  const mcp = await connectMcpClient(testEnvironment(testClient(upstream.baseUrl)), profile);
+  t.after(() => mcp.close());
+
+  const saved = await mcp.callTool({
+    name: 'set_farm_profile',
+    arguments: { latitude: 11.6, longitude: 37.39, crop: 'wheat', farm_size: 2, farm_size_unit: 'timad' }
+  });
+  assert.equal(saved.isError, undefined);
+  assert.deepEqual(parsedText(saved).farm_profile.location, { latitude: 11.6, longitude: 37.39 });
+  assert.deepEqual(profile.farmSize, { value: 2, unit: 'timad' });
+
+  const recommendation = await mcp.callTool({ name: 'get_fertilizer_recommendation', arguments: {} });
+  assert.equal(recommendation.isError, undefined);
+  assert.deepEqual(upstream.requests[0].coordinates, [{ lat: 11.6, lon: 37.39 }]);
+
+  const shown = await mcp.callTool({ name: 'get_farm_profile', arguments: {} });
+  assert.equal(parsedText(shown).farm_profile.crop, 'wheat');
+});
+
+test('validates every profile field before changing any', async t => {
+  const profile = { crop: 'maize' } as FarmProfile;
+  const mcp = await connectMcpClient(testEnvironment(testClient('http://127.0.0.1:9')), profile);
+  t.after(() => mcp.close());
+
+  const invalid = await mcp.callTool({
+    name: 'set_farm_profile',
+    arguments: { crop: 'wheat', planting_date: '2025-02-30', clear: true }
+  });
+  assert.equal(invalid.isError, true);
+
+  const outside = await mcp.callTool({ name: 'set_farm_profile', arguments: { latitude: -1.29, longitude: 36.82 } });
+  assert.equal(outside.isError, true);
+  assert.deepEqual(profile, { crop: 'maize' });
+});
+
+test('offers the farm profile tools only in session mode', async t => {
+  const mcp = await connectMcpClient(testEnvironment(testClient('http://127.0.0.1:9')));
+  t.after(() => mcp.close());
+  const { tools } = await mcp.listTools();
+  assert.equal(tools.some(tool => tool.name === 'set_farm_profile'), false);
+});
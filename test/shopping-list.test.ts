@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildShoppingList, toHectares, pricesFor, DEFAULT_SHOPPING_LIST_CONFIG, ShoppingListConfig } from '../src/shopping-list.js';
+import { sampleRecommendation } from './helpers.js';
+
+test('rounds bag counts up so the farmer never under-buys', () => {
+  // 120 kg/ha of urea on 0.5 ha is 60 kg: one 50 kg bag would be 10 kg short
+  const list = buildShoppingList(
+    sampleRecommendation({ inorganic: { urea: 120 }, organic: {} }),
+    { value: 0.5, unit: 'hectare' }
+  );
+  const urea = list.items.find(item => item.product === 'urea')!;
+
+  assert.equal(urea.totalKg, 60);
+  assert.equal(urea.bags, 2);
+  assert.equal(urea.purchaseKg, 100);
+  assert.equal(urea.cost, 100 * DEFAULT_SHOPPING_LIST_CONFIG.prices.urea);
+  assert.equal(list.summary, 'Buy 2 bags (50 kg) of urea for your 0.5 hectare.');
+});
+
+test('does not add a bag for exact multiples or floating-point noise', () => {
+  // 0.1 + 1.1 ha is 1.2000000000000002 ha: 125 kg/ha gives 150.00000000000003 kg, still 3 bags
+  const list = buildShoppingList(
+    sampleRecommendation({ inorganic: { nps: 125 }, organic: {} }),
+    { value: 0.1 + 1.1, unit: 'hectare' }
+  );
+  assert.equal(list.items[0].bags, 3);
+
+  const exact = buildShoppingList(sampleRecommendation({ inorganic: { urea: 100 }, organic: {} }), { value: 1, unit: 'hectare' });
+  assert.equal(exact.items[0].bags, 2);
+});
+
+test('counts compost in whole cart loads and costs it by weight', () => {
+  // 2.5 t/ha on one timad (0.25 ha) is 625 kg: two 0.5 t cart loads
+  const list = buildShoppingList(sampleRecommendation({ inorganic: {}, organic: { compost: 2.5 } }), { value: 1, unit: 'timad' });
+  const compost = list.organicAlternatives[0];
+
+  assert.equal(list.farmSize.hectares, 0.25);
+  assert.equal(compost.totalKg, 625);
+  assert.equal(compost.cartLoads, 2);
+  assert.equal(compost.bags, undefined);
+  assert.equal(compost.cost, 625 * DEFAULT_SHOPPING_LIST_CONFIG.prices.compost);
+  assert.equal(list.summary, 'Apply 2 cart loads of compost for your 1 timad.');
+});
+
+test('lists compost and vermicompost as alternatives, outside the total cost', () => {
+  // 2.5 t/ha compost or 1.5 t/ha vermicompost on one hectare: 5 or 3 cart loads
+  const list = buildShoppingList(sampleRecommendation({ inorganic: { urea: 100 } }), { value: 1, unit: 'hectare' });
+
+  assert.deepEqual(list.items.map(item => item.product), ['urea']);
+  assert.deepEqual(list.organicAlternatives.map(item => [item.product, item.cartLoads]), [['compost', 5], ['vermicompost', 3]]);
+  assert.equal(list.organicAlternatives[1].cost, 1500 * DEFAULT_SHOPPING_LIST_CONFIG.prices.vermicompost);
+  assert.equal(list.cost.total, 100 * DEFAULT_SHOPPING_LIST_CONFIG.prices.urea);
+  assert.equal(
+    list.summary,
+    'Buy 2 bags (50 kg) of urea and apply 5 cart loads of compost or 3 cart loads of vermicompost for your 1 hectare.'
+  );
+});
+
+test('converts local area units and rejects unknown ones', () => {
+  assert.equal(toHectares(4, 'timad'), 1);
+  assert.equal(toHectares(1, 'gasha'), 40);
+  assert.throws(() => toHectares(1, 'acre'), /Unknown area unit "acre"/);
+  assert.throws(() => buildShoppingList(sampleRecommendation(), { value: 0, unit: 'hectare' }), /greater than zero/);
+});
+
+test('picks season prices over regional and national defaults', () => {
+  const config: ShoppingListConfig = {
+    ...DEFAULT_SHOPPING_LIST_CONFIG,
+    regions: { Amhara: { default: { urea: 40 }, belg: { urea: 45, nps: 50 } } }
+  };
+  assert.equal(pricesFor(config, 'Amhara').urea, 40);
+  assert.deepEqual(
+    { urea: pricesFor(config, 'Amhara', 'belg').urea, nps: pricesFor(config, 'Amhara', 'belg').nps },
+    { urea: 45, nps: 50 }
+  );
+  assert.equal(pricesFor(config, 'Oromia', 'belg').urea, DEFAULT_SHOPPING_LIST_CONFIG.prices.urea);
+
+  // The recommendation's region is used when none is given
+  const list = buildShoppingList(sampleRecommendation({ organic: {} }), { value: 1, unit: 'hectare' }, { season: 'belg' }, config);
+  assert.equal(list.items.find(item => item.product === 'urea')?.pricePerKg, 45);
+  assert.equal(list.cost.region, 'Amhara');
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { smsEncoding, smsLength, splitSmsSegments, renderSms, SMS_SEGMENT_LIMITS } from '../src/sms-format.js';
+import { sampleRecommendation } from './helpers.js';
+
+test('uses GSM-7 for Latin text and Unicode for Ge\'ez script', () => {
+  assert.equal(smsEncoding('Urea 120kg/ha, NPS 100kg/ha. àé'), 'gsm7');
+  assert.equal(smsEncoding('ዩሪያ 120kg/ha'), 'unicode');
+  assert.equal(smsEncoding('À'), 'unicode');
+  assert.equal(smsEncoding('Price €12 [approx]'), 'gsm7');
+});
+
+test('counts GSM-7 extension characters twice', () => {
+  assert.equal(smsLength('a€[]', 'gsm7'), 7);
+  assert.equal(smsLength('a€[]', 'unicode'), 4);
+});
+
+test('splits long messages at word boundaries into numbered segments within the limit', () => {
+  const text = Array.from({ length: 40 }, (_, index) => `word${index}`).join(' ');
+  const segments = splitSmsSegments(text, 'gsm7', 60);
+
+  assert.ok(segments.length > 1);
+  segments.forEach((segment, index) => {
+    assert.ok(segment.startsWith(`(${index + 1}/${segments.length}) `), segment);
+    assert.ok(smsLength(segment, 'gsm7') <= 60, segment);
+  });
+  assert.equal(segments.map(segment => segment.replace(/^\(\d+\/\d+\) /, '')).join(' '), text);
+  assert.deepEqual(splitSmsSegments('short', 'gsm7', 60), ['short']);
+});
+
+test('renders an Amharic recommendation as Unicode segments of at most 70 characters', () => {
+  const message = renderSms(sampleRecommendation(), { language: 'am' });
+
+  assert.equal(message.encoding, 'unicode');
+  assert.equal(message.segmentLimit, SMS_SEGMENT_LIMITS.unicode);
+  assert.ok(message.segments.every(segment => smsLength(segment, 'unicode') <= 70));
+  assert.match(message.segments.join(' '), /120kg\/ha/);
+});
+
+test('max_chars can shorten segments but not exceed the encoding limit', () => {
+  const recommendation = sampleRecommendation();
+
+  assert.equal(renderSms(recommendation, { maxChars: 50 }).segmentLimit, 50);
+  assert.equal(renderSms(recommendation, { maxChars: 160 }).segmentLimit, 160);
+  assert.equal(renderSms(recommendation, { language: 'am', maxChars: 160 }).segmentLimit, 70);
+  assert.equal(renderSms(recommendation, { language: 'ti', maxChars: 100 }).segmentLimit, 70);
+  assert.equal(renderSms(recommendation, { maxChars: 5 }).segmentLimit, 30);
+});
+
+test('flags missing products using the crop outputs', () => {
+  const message = renderSms(
+    sampleRecommendation({ inorganic: { urea: 120 } }),
+    { outputs: ['urea', 'nps', 'compost', 'vermicompost', 'yield'] }
+  );
+  assert.match(message.segments.join(' '), /No data: NPS\./);
+  assert.match(message.segments.join(' '), /Urea 120kg\/ha/);
+});
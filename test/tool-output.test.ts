@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NoRecommendationDataError, OutsideEthiopiaError } from '../src/ssfr-client.js';
+import { UpstreamError } from '../src/resilience.js';
+import { errorCodeFor, errorContentFor, outsideEthiopiaError, TOOL_ERROR_CODES } from '../src/tool-output.js';
+import { metrics } from '../src/metrics.js';
+import { startStubUpstream, testClient, testEnvironment, connectMcpClient } from './helpers.js';
+
+/**
+ * Current value of the out-of-Ethiopia rejections counter
+ */
+function outsideEthiopiaCount(): number {
+  return Number(metrics.outsideEthiopia.render().at(-1)!.split(' ').pop());
+}
+
+test('maps errors to codes by type, not by message', () => {
+  assert.equal(errorCodeFor(new OutsideEthiopiaError('anything')), 'LOCATION_NOT_SUPPORTED');
+  assert.equal(errorCodeFor(new Error('Coordinates are outside Ethiopia')), 'REQUEST_FAILED');
+  assert.equal(errorCodeFor(new UpstreamError('timeout', { retryable: true })), 'UPSTREAM_UNAVAILABLE');
+  assert.equal(errorCodeFor(new UpstreamError('bad request', { status: 400 })), 'REQUEST_FAILED');
+
+  const layer = { key: 'urea', layer: 'urea', date: '2024-07', output: 'urea' as const };
+  const failed = new NoRecommendationDataError('none', { layers: [{ ...layer, status: 'error' }], completeness: 0 });
+  const empty = new NoRecommendationDataError('none', { layers: [{ ...layer, status: 'empty' }], completeness: 0 });
+  assert.equal(errorCodeFor(failed), 'UPSTREAM_UNAVAILABLE');
+  assert.equal(errorCodeFor(empty), 'NO_DATA');
+  assert.deepEqual(errorContentFor(failed).error, { code: 'UPSTREAM_UNAVAILABLE', message: 'none', retryable: true });
+});
+
+test('formatting an outside-Ethiopia error does not count a rejection', () => {
+  const before = outsideEthiopiaCount();
+  const content = outsideEthiopiaError(-1.29, 36.82, 'en');
+  assert.equal(content.error.code, 'LOCATION_NOT_SUPPORTED');
+  assert.equal(content.nearest_border?.country, 'Kenya');
+  assert.equal(outsideEthiopiaCount(), before);
+});
+
+test('counts each rejected location once, where it is rejected', async t => {
+  const upstream = await startStubUpstream();
+  t.after(() => upstream.close());
+  const client = testClient(upstream.baseUrl);
+  const mcp = await connectMcpClient(testEnvironment(client));
+  t.after(() => mcp.close());
+
+  const before = outsideEthiopiaCount();
+  await mcp.callTool({ name: 'get_fertilizer_recommendation', arguments: { crop: 'wheat', latitude: -1.29, longitude: 36.82 } });
+  await assert.rejects(client.getFertilizerRecommendation('wheat', -1.29, 36.82), OutsideEthiopiaError);
+  assert.equal(outsideEthiopiaCount(), before + 2);
+  assert.equal(upstream.requests.length, 0);
+});
+
+test('every tool reports failures with a machine-readable code', async t => {
+  const upstream = await startStubUpstream(() => ({ body: [] }));
+  t.after(() => upstream.close());
+  const mcp = await connectMcpClient(testEnvironment(testClient(upstream.baseUrl)));
+  t.after(() => mcp.close());
+
+  // A field near Nairobi: every sample point is outside Ethiopia
+  const field = {
+    type: 'Polygon',
+    coordinates: [[[36.8, -1.3], [36.81, -1.3], [36.81, -1.29], [36.8, -1.29], [36.8, -1.3]]]
+  };
+  const calls: Array<[string, Record<string, unknown>, string]> = [
+    ['get_field_fertilizer_recommendation', { crop: 'wheat', field }, 'LOCATION_NOT_SUPPORTED'],
+    ['get_fertilizer_shopping_list', { crop: 'wheat', latitude: 9.03, longitude: 38.74 }, 'MISSING_ARGUMENT'],
+    ['get_fertilizer_application_plan', { crop: 'wheat', latitude: 9.03, longitude: 38.74, planting_date: '2025-06-20' }, 'NO_DATA'],
+    ['compare_recommendation_dates', { crop: 'wheat', latitude: 9.03, longitude: 38.74, dates: ['2024-01', '2024-07'] }, 'NO_DATA']
+  ];
+  for (const [name, args, code] of calls) {
+    const result = await mcp.callTool({ name, arguments: args });
+    const structured = result.structuredContent as { error: { code: string } } | undefined;
+    assert.equal(result.isError, true, name);
+    assert.equal(structured?.error.code, code, name);
+    assert.ok(TOOL_ERROR_CODES.includes(structured!.error.code as typeof TOOL_ERROR_CODES[number]), name);
+  }
+});